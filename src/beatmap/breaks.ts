@@ -0,0 +1,33 @@
+import type { IBeatmap } from "../types/beatmap";
+
+export interface IBreakPeriod {
+    start: number;
+    end: number;
+}
+
+// shorter breaks still pause drain but don't show anything
+export const MIN_BREAK_DURATION = 650;
+
+export const get_break_periods = (beatmap: IBeatmap): IBreakPeriod[] =>
+    (beatmap.Events?.breaks ?? [])
+        .map((period) => ({ start: period.startTime, end: period.endTime }))
+        .filter((period) => Number.isFinite(period.start) && Number.isFinite(period.end) && period.end > period.start)
+        .sort((a, b) => a.start - b.start);
+
+export const has_break_effect = (period: IBreakPeriod): boolean => period.end - period.start >= MIN_BREAK_DURATION;
+
+export const find_break_at = (breaks: IBreakPeriod[], time: number): IBreakPeriod | null => {
+    for (const period of breaks) {
+        if (period.start > time) {
+            break;
+        }
+        if (time < period.end) {
+            return period;
+        }
+    }
+    return null;
+};
+
+// the skip button lands on the next object minus its approach time, but never on a point still inside the skipped break
+export const get_skip_target = (next_object_time: number, approach_time: number, period: IBreakPeriod | null = null): number =>
+    Math.max(next_object_time - approach_time, period?.end ?? -Infinity);
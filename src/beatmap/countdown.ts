@@ -0,0 +1,55 @@
+import type { IBeatmap, ITimingPoint } from "../types/beatmap";
+
+export type CountdownCue = "ready" | "count3" | "count2" | "count1" | "go";
+
+export interface ICountdownEvent {
+    cue: CountdownCue;
+    time: number;
+}
+
+// General.Countdown: 0 none, 1 normal, 2 half speed, 3 double speed
+const COUNTDOWN_BEAT_SCALE: Record<number, number> = { 1: 1, 2: 2, 3: 0.5 };
+const COUNTDOWN_CUES: CountdownCue[] = ["ready", "count3", "count2", "count1", "go"];
+
+// the sample each cue plays, the skin ships them as readys.wav, count3s.wav...
+export const get_countdown_sample = (cue: CountdownCue): string => `${cue}s`;
+
+const get_first_object_time = (beatmap: IBeatmap): number | null => {
+    if (beatmap.HitObjects.length == 0) {
+        return null;
+    }
+    return beatmap.HitObjects.reduce((min_time, obj) => Math.min(min_time, obj.time), Number.POSITIVE_INFINITY);
+};
+
+// one cue per beat of the first timing point, "go" lands on the last whole beat before the first object
+export const get_countdown_events = (beatmap: IBeatmap, timing_points: ITimingPoint[]): ICountdownEvent[] => {
+    const scale = COUNTDOWN_BEAT_SCALE[beatmap.General.Countdown];
+    const first_object = get_first_object_time(beatmap);
+    const point = timing_points.find((p) => p.uninherited === 1 && p.beatLength > 0);
+    if (!scale || first_object === null || !point) {
+        return [];
+    }
+
+    const beat = point.beatLength * scale;
+    const offset = Math.max(0, beatmap.General.CountdownOffset || 0);
+    // the beat an on-beat object sits on does not count, so that one is a whole beat after "go"
+    const go_time = point.time + (Math.ceil((first_object - point.time) / beat) - 1 - offset) * beat;
+    const start = go_time - (COUNTDOWN_CUES.length - 1) * beat;
+
+    return COUNTDOWN_CUES.map((cue, i) => ({ cue, time: start + i * beat }));
+};
+
+// how far before zero playback starts so the lead-in, the first object's approach and the countdown all fit
+export const get_lead_in = (beatmap: IBeatmap, approach_time: number, countdown: ICountdownEvent[]): number => {
+    let start = -Math.max(0, beatmap.General.AudioLeadIn || 0);
+
+    const first_object = get_first_object_time(beatmap);
+    if (first_object !== null) {
+        start = Math.min(start, first_object - approach_time);
+    }
+    if (countdown.length > 0) {
+        start = Math.min(start, countdown[0].time);
+    }
+
+    return Math.max(0, -start);
+};
@@ -0,0 +1,64 @@
+import type { ITimingPoint } from "../types/beatmap";
+
+export const SNAP_DIVISORS = [1, 2, 3, 4, 6, 8, 12, 16];
+// objects further than this from every divisor's grid count as unsnapped, stable stores times as whole milliseconds
+const SNAP_LENIENCY = 1.5;
+export const UNSNAPPED = 0;
+
+// the editor's beat snap colours
+const SNAP_COLOURS: Record<number, string> = {
+    1: "#ffffff",
+    2: "#ed1121",
+    3: "#8866ee",
+    4: "#66ccff",
+    6: "#eeaa00",
+    8: "#ffcc22",
+    12: "#cc6600",
+    16: "#6644cc"
+};
+// magenta is used by none of the divisors, red would pass for 1/2
+const UNSNAPPED_COLOUR = "#ff00ff";
+
+const get_divisor_on_grid = (time: number, point: ITimingPoint): number => {
+    const offset = time - point.time;
+    for (const divisor of SNAP_DIVISORS) {
+        const step = point.beatLength / divisor;
+        if (Math.abs(offset - Math.round(offset / step) * step) <= SNAP_LENIENCY) {
+            return divisor;
+        }
+    }
+
+    return UNSNAPPED;
+};
+
+// snap divisors for times that mostly move forward, the uninherited point in effect is followed with a cursor
+export class SnapResolver {
+    private points: ITimingPoint[];
+    private index = 0;
+    private last_time = Number.NEGATIVE_INFINITY;
+
+    constructor(timing_points: ITimingPoint[]) {
+        this.points = timing_points.filter((point) => point.uninherited === 1 && point.beatLength > 0);
+    }
+
+    // the lowest divisor whose grid the time sits on, times before the first point use its grid, UNSNAPPED without one
+    get_divisor(time: number): number {
+        if (this.points.length === 0) {
+            return UNSNAPPED;
+        }
+
+        if (time < this.last_time) {
+            this.index = 0;
+        }
+        while (this.index + 1 < this.points.length && this.points[this.index + 1].time <= time) {
+            this.index++;
+        }
+        this.last_time = time;
+
+        return get_divisor_on_grid(time, this.points[this.index]);
+    }
+}
+
+export const get_snap_divisor = (time: number, timing_points: ITimingPoint[]): number => new SnapResolver(timing_points).get_divisor(time);
+
+export const get_snap_colour = (divisor: number): string => SNAP_COLOURS[divisor] ?? UNSNAPPED_COLOUR;
@@ -0,0 +1,69 @@
+import { clamp } from "../math/vector2";
+
+export const degrees_to_radians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const ms_to_bpm = (ms: number, delimiter: number = 4): number => 60000 / (ms * delimiter);
+export const bpm_to_ms = (bpm: number, delimiter: number = 4): number => 60000 / bpm / delimiter;
+
+export const reverse_lerp = (x: number, start: number, end: number): number => clamp((x - start) / (end - start), 0, 1);
+
+export const smoothstep = (x: number, start: number, end: number): number => {
+    const t = reverse_lerp(x, start, end);
+    return t * t * (3 - 2 * t);
+};
+
+export const smootherstep = (x: number, start: number, end: number): number => {
+    const t = reverse_lerp(x, start, end);
+    return t * t * t * (t * (6 * t - 15) + 10);
+};
+
+export const logistic = (x: number, midpoint_offset: number, multiplier: number, max_value: number = 1): number =>
+    max_value / (1 + Math.exp(multiplier * (midpoint_offset - x)));
+
+// abramowitz & stegun 7.1.26, good to ~1e-7 which is plenty for deviation estimates
+export const erf = (x: number): number => {
+    const sign = x < 0 ? -1 : 1;
+    const t = 1 / (1 + 0.3275911 * Math.abs(x));
+    const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return sign * y;
+};
+
+// giles' approximation refined with newton steps against erf
+export const erf_inv = (x: number): number => {
+    if (x <= -1) return -Infinity;
+    if (x >= 1) return Infinity;
+    if (x === 0) return 0;
+
+    let w = -Math.log((1 - x) * (1 + x));
+    let p: number;
+
+    if (w < 5) {
+        w -= 2.5;
+        p = 2.81022636e-8;
+        p = 3.43273939e-7 + p * w;
+        p = -3.5233877e-6 + p * w;
+        p = -4.39150654e-6 + p * w;
+        p = 0.00021858087 + p * w;
+        p = -0.00125372503 + p * w;
+        p = -0.00417768164 + p * w;
+        p = 0.246640727 + p * w;
+        p = 1.50140941 + p * w;
+    } else {
+        w = Math.sqrt(w) - 3;
+        p = -0.000200214257;
+        p = 0.000100950558 + p * w;
+        p = 0.00134934322 + p * w;
+        p = -0.00367342844 + p * w;
+        p = 0.00573950773 + p * w;
+        p = -0.0076224613 + p * w;
+        p = 0.00943887047 + p * w;
+        p = 1.00167406 + p * w;
+        p = 2.83297682 + p * w;
+    }
+
+    let y = p * x;
+    for (let i = 0; i < 2; i++) {
+        y -= (erf(y) - x) / ((2 / Math.sqrt(Math.PI)) * Math.exp(-y * y));
+    }
+    return y;
+};
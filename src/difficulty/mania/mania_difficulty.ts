@@ -0,0 +1,181 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { GameMode, is_hold } from "../../types/beatmap";
+import { get_speed_multiplier } from "../../types/mods";
+import { type Result, ErrorCode, ok, err } from "../../types/result";
+import { apply_mods_to_difficulty, type IBeatmapDifficulty } from "../../mods";
+import { build_render_objects } from "../../renderer/render_objects";
+import { StrainSkill, type IDifficultyObject } from "../strain_skill";
+import { logistic } from "../difficulty_utils";
+
+export interface IManiaDifficultyAttributes {
+    star_rating: number;
+    strains: number[];
+    key_count: number;
+    overall_difficulty: number;
+    clock_rate: number;
+    max_combo: number;
+    note_count: number;
+    hold_note_count: number;
+}
+
+const STAR_SCALING_FACTOR = 0.018;
+const INDIVIDUAL_DECAY_BASE = 0.125;
+const OVERALL_DECAY_BASE = 0.3;
+const RELEASE_THRESHOLD = 30;
+
+class ManiaDifficultyObject implements IDifficultyObject {
+    readonly start_time: number;
+    readonly end_time: number;
+    readonly delta_time: number;
+
+    constructor(
+        start_time: number,
+        end_time: number,
+        last_start_time: number,
+        readonly column: number,
+        clock_rate: number,
+        private readonly objects: ManiaDifficultyObject[],
+        readonly index: number
+    ) {
+        this.start_time = start_time / clock_rate;
+        this.end_time = end_time / clock_rate;
+        this.delta_time = (start_time - last_start_time) / clock_rate;
+    }
+
+    previous(backwards_index: number): ManiaDifficultyObject | null {
+        return this.objects[this.index - (backwards_index + 1)] ?? null;
+    }
+}
+
+const apply_decay = (value: number, delta_time: number, decay_base: number): number => value * Math.pow(decay_base, delta_time / 1000);
+
+// "a is bigger than b by more than 1ms"
+const definitely_bigger = (a: number, b: number): boolean => a - 1 > b;
+
+// per column strain for jacks plus an overall strain for density, holds add to both
+class ManiaStrain extends StrainSkill<ManiaDifficultyObject> {
+    private start_times: number[];
+    private end_times: number[];
+    private individual_strains: number[];
+    private individual_strain = 0;
+    private overall_strain = 1;
+
+    constructor(columns: number) {
+        super();
+        this.start_times = new Array(columns).fill(0);
+        this.end_times = new Array(columns).fill(0);
+        this.individual_strains = new Array(columns).fill(0);
+    }
+
+    protected strain_value_at(current: ManiaDifficultyObject): number {
+        const { start_time, end_time, column } = current;
+        let is_overlapping = false;
+        let closest_end_time = Math.abs(end_time - start_time);
+        let hold_factor = 1;
+        let hold_addition = 0;
+
+        for (let i = 0; i < this.end_times.length; i++) {
+            // something held in another column overlaps this note
+            is_overlapping ||=
+                definitely_bigger(this.end_times[i], start_time) &&
+                definitely_bigger(end_time, this.end_times[i]) &&
+                definitely_bigger(start_time, this.start_times[i]);
+
+            if (definitely_bigger(this.end_times[i], end_time) && definitely_bigger(start_time, this.start_times[i])) {
+                hold_factor = 1.25;
+            }
+
+            closest_end_time = Math.min(closest_end_time, Math.abs(end_time - this.end_times[i]));
+        }
+
+        // releasing awkwardly is only hard when no other note ends at a similar time
+        if (is_overlapping) {
+            hold_addition = logistic(closest_end_time, RELEASE_THRESHOLD, 0.27);
+        }
+
+        this.individual_strains[column] = apply_decay(this.individual_strains[column], start_time - this.start_times[column], INDIVIDUAL_DECAY_BASE);
+        this.individual_strains[column] += 2 * hold_factor;
+
+        // a chord is as hard as its hardest column
+        this.individual_strain =
+            current.delta_time <= 1 ? Math.max(this.individual_strain, this.individual_strains[column]) : this.individual_strains[column];
+
+        this.overall_strain = apply_decay(this.overall_strain, current.delta_time, OVERALL_DECAY_BASE);
+        this.overall_strain += (1 + hold_addition) * hold_factor;
+
+        this.start_times[column] = start_time;
+        this.end_times[column] = end_time;
+
+        return this.individual_strain + this.overall_strain;
+    }
+
+    protected calculate_initial_strain(time: number, current: ManiaDifficultyObject): number {
+        const delta = time - (current.previous(0)?.start_time ?? 0);
+        return apply_decay(this.individual_strain, delta, INDIVIDUAL_DECAY_BASE) + apply_decay(this.overall_strain, delta, OVERALL_DECAY_BASE);
+    }
+}
+
+export const get_mania_key_count = (beatmap: IBeatmap): number => Math.max(1, Math.min(18, Math.round(beatmap.Difficulty.CircleSize) || 4));
+
+export const calculate_mania_difficulty = (beatmap: IBeatmap, mods: number = 0): Result<IManiaDifficultyAttributes> => {
+    if (beatmap.General.Mode !== GameMode.Mania) {
+        return err(ErrorCode.UnsupportedMode, "Mania difficulty calculation only supports mania beatmaps");
+    }
+
+    const key_count = get_mania_key_count(beatmap);
+    const clock_rate = get_speed_multiplier(mods);
+    const difficulty: IBeatmapDifficulty = {
+        cs: beatmap.Difficulty.CircleSize,
+        ar: beatmap.Difficulty.ApproachRate,
+        od: beatmap.Difficulty.OverallDifficulty,
+        hp: beatmap.Difficulty.HPDrainRate
+    };
+    apply_mods_to_difficulty(difficulty, mods);
+
+    // stable sorts by rounded start time and keeps the file order otherwise
+    const objects = build_render_objects(beatmap).sort((a, b) => Math.round(a.time) - Math.round(b.time));
+    const columns = objects.map((object) => Math.max(0, Math.min(key_count - 1, Math.floor((object.x * key_count) / 512))));
+
+    const difficulty_objects: ManiaDifficultyObject[] = [];
+    for (let i = 1; i < objects.length; i++) {
+        difficulty_objects.push(
+            new ManiaDifficultyObject(
+                objects[i].time,
+                objects[i].end_time,
+                objects[i - 1].time,
+                columns[i],
+                clock_rate,
+                difficulty_objects,
+                difficulty_objects.length
+            )
+        );
+    }
+
+    const strain = new ManiaStrain(key_count);
+    for (const object of difficulty_objects) {
+        strain.process(object);
+    }
+
+    let max_combo = 0;
+    let hold_note_count = 0;
+    for (const object of objects) {
+        if (is_hold(object)) {
+            // hold ticks every 100ms on top of the head
+            max_combo += 1 + Math.trunc((object.end_time - object.time) / 100);
+            hold_note_count++;
+        } else {
+            max_combo++;
+        }
+    }
+
+    return ok({
+        star_rating: strain.difficulty_value() * STAR_SCALING_FACTOR,
+        strains: strain.get_current_strain_peaks(),
+        key_count,
+        overall_difficulty: difficulty.od,
+        clock_rate,
+        max_combo,
+        note_count: objects.length - hold_note_count,
+        hold_note_count
+    });
+};
@@ -0,0 +1,74 @@
+import { Mods, has_mod } from "../../types/mods";
+import type { IHitCounts, IPerformanceBreakdown } from "../performance_types";
+import type { IManiaDifficultyAttributes } from "./mania_difficulty";
+
+export interface IManiaPerformance extends IPerformanceBreakdown {
+    pp: number;
+}
+
+const get_total_hits = (hits: IHitCounts): number =>
+    hits.count_geki + hits.count_300 + hits.count_katu + hits.count_100 + hits.count_50 + hits.count_miss;
+
+// stable's displayed mania accuracy, where 320s and 300s are worth the same
+export const get_mania_accuracy = (hits: IHitCounts): number => {
+    const total = get_total_hits(hits);
+    if (total === 0) {
+        return 0;
+    }
+    return ((hits.count_geki + hits.count_300) * 300 + hits.count_katu * 200 + hits.count_100 * 100 + hits.count_50 * 50) / (total * 300);
+};
+
+// 320s first, then the missing accuracy taken from 200s, only falling back to 100s and 50s when that isn't enough. accuracy is 0-1
+export const get_mania_hits_from_accuracy = (total: number, accuracy: number, misses: number): IHitCounts => {
+    const count_miss = Math.max(0, Math.min(total, misses));
+    const remaining = total - count_miss;
+    const target = Math.round(Math.max(0, Math.min(1, accuracy)) * total * 6);
+
+    // in sixths of a 300: a 200 loses 2, a 100 loses 4 and a 50 loses 5
+    const deficit = Math.max(0, remaining * 6 - target);
+    let count_katu = Math.min(remaining, Math.round(deficit / 2));
+    let count_100 = 0;
+    let count_50 = 0;
+
+    if (deficit > remaining * 2) {
+        count_100 = Math.min(remaining, Math.round((deficit - remaining * 2) / 2));
+        count_50 = Math.min(count_100, Math.max(0, deficit - remaining * 2 - count_100 * 2));
+        count_katu = remaining - count_100;
+        count_100 -= count_50;
+    }
+
+    return { count_geki: remaining - count_katu - count_100 - count_50, count_300: 0, count_katu, count_100, count_50, count_miss };
+};
+
+export const calculate_mania_performance = (attributes: IManiaDifficultyAttributes, mods: number, hits: IHitCounts): IManiaPerformance => {
+    const total = get_total_hits(hits);
+
+    // unlike the displayed accuracy, 320s are worth more than 300s here
+    const custom_accuracy =
+        total > 0
+            ? (hits.count_geki * 320 + hits.count_300 * 300 + hits.count_katu * 200 + hits.count_100 * 100 + hits.count_50 * 50) / (total * 320)
+            : 0;
+
+    let multiplier = 1;
+    if (has_mod(mods, Mods.NoFail)) {
+        multiplier *= 0.75;
+    }
+    if (has_mod(mods, Mods.Easy)) {
+        multiplier *= 0.5;
+    }
+
+    const difficulty =
+        8 *
+        Math.pow(Math.max(attributes.star_rating - 0.15, 0.05), 2.2) *
+        Math.max(0, 5 * custom_accuracy - 4) *
+        (1 + 0.1 * Math.min(1, total / 1500));
+
+    return {
+        pp: difficulty * multiplier,
+        aim: 0,
+        speed: 0,
+        accuracy: 0,
+        flashlight: 0,
+        difficulty
+    };
+};
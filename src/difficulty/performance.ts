@@ -0,0 +1,108 @@
+import type { IBeatmap } from "../types/beatmap";
+import { GameMode } from "../types/beatmap";
+import { type Result, ErrorCode, ok, err } from "../types/result";
+import { create_hit_counts, type IHitCounts, type IPerformanceBreakdown } from "./performance_types";
+import { calculate_standard_difficulty } from "./standard/standard_difficulty";
+import { calculate_standard_performance, get_standard_accuracy, get_standard_hits_from_accuracy } from "./standard/standard_performance";
+import { calculate_mania_difficulty } from "./mania/mania_difficulty";
+import { calculate_mania_performance, get_mania_accuracy, get_mania_hits_from_accuracy } from "./mania/mania_performance";
+
+export interface IPerformanceOptions {
+    beatmap: IBeatmap;
+    mods?: number;
+    // percent (0-100), only used when hits aren't given
+    accuracy?: number;
+    // missing counts are filled with 300s (320s for mania)
+    hits?: Partial<IHitCounts>;
+    // defaults to the map's max combo
+    combo?: number;
+    misses?: number;
+}
+
+export interface IPerformanceResult {
+    mode: GameMode;
+    pp: number;
+    breakdown: IPerformanceBreakdown;
+    star_rating: number;
+    max_combo: number;
+    combo: number;
+    // percent (0-100), recomputed from the resolved hits
+    accuracy: number;
+    hits: IHitCounts;
+}
+
+const resolve_hits = (
+    options: IPerformanceOptions,
+    total: number,
+    from_accuracy: (total: number, accuracy: number, misses: number) => IHitCounts,
+    perfect_key: "count_300" | "count_geki"
+): IHitCounts => {
+    const misses = options.hits?.count_miss ?? options.misses ?? 0;
+
+    if (!options.hits && options.accuracy !== undefined) {
+        return from_accuracy(total, options.accuracy / 100, misses);
+    }
+
+    const hits = create_hit_counts({ ...options.hits, count_miss: misses });
+    if (options.hits?.[perfect_key] === undefined) {
+        const counted = hits.count_geki + hits.count_300 + hits.count_katu + hits.count_100 + hits.count_50 + hits.count_miss;
+        hits[perfect_key] = Math.max(0, total - counted);
+    }
+
+    return hits;
+};
+
+export const calculate_pp = (options: IPerformanceOptions): Result<IPerformanceResult> => {
+    const { beatmap } = options;
+    const mods = options.mods ?? 0;
+
+    switch (beatmap.General.Mode) {
+        case GameMode.Standard: {
+            const attributes = calculate_standard_difficulty(beatmap, mods);
+            if (!attributes.success) {
+                return err(attributes.code, attributes.reason);
+            }
+
+            const { data } = attributes;
+            const total = data.hit_circle_count + data.slider_count + data.spinner_count;
+            const hits = resolve_hits(options, total, get_standard_hits_from_accuracy, "count_300");
+            const combo = Math.min(options.combo ?? data.max_combo, data.max_combo);
+            const { pp, aim, speed, accuracy, flashlight, difficulty } = calculate_standard_performance(data, mods, hits, combo);
+
+            return ok({
+                mode: GameMode.Standard,
+                pp,
+                breakdown: { aim, speed, accuracy, flashlight, difficulty },
+                star_rating: data.star_rating,
+                max_combo: data.max_combo,
+                combo,
+                accuracy: get_standard_accuracy(hits) * 100,
+                hits
+            });
+        }
+        case GameMode.Mania: {
+            const attributes = calculate_mania_difficulty(beatmap, mods);
+            if (!attributes.success) {
+                return err(attributes.code, attributes.reason);
+            }
+
+            const { data } = attributes;
+            const total = data.note_count + data.hold_note_count;
+            const hits = resolve_hits(options, total, get_mania_hits_from_accuracy, "count_geki");
+            const { pp, ...breakdown } = calculate_mania_performance(data, mods, hits);
+
+            return ok({
+                mode: GameMode.Mania,
+                pp,
+                breakdown,
+                star_rating: data.star_rating,
+                max_combo: data.max_combo,
+                combo: Math.min(options.combo ?? data.max_combo, data.max_combo),
+                accuracy: get_mania_accuracy(hits) * 100,
+                hits
+            });
+        }
+        default:
+            return err(ErrorCode.UnsupportedMode, "Performance calculation only supports standard and mania beatmaps");
+    }
+};
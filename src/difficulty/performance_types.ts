@@ -0,0 +1,27 @@
+// judgement counts as stored in scores and replays, geki/katu are mania's 320/200
+export interface IHitCounts {
+    count_geki: number;
+    count_300: number;
+    count_katu: number;
+    count_100: number;
+    count_50: number;
+    count_miss: number;
+}
+
+export interface IPerformanceBreakdown {
+    aim: number;
+    speed: number;
+    accuracy: number;
+    flashlight: number;
+    // mania only has a single strain based value
+    difficulty: number;
+}
+
+export const create_hit_counts = (counts: Partial<IHitCounts> = {}): IHitCounts => ({
+    count_geki: counts.count_geki ?? 0,
+    count_300: counts.count_300 ?? 0,
+    count_katu: counts.count_katu ?? 0,
+    count_100: counts.count_100 ?? 0,
+    count_50: counts.count_50 ?? 0,
+    count_miss: counts.count_miss ?? 0
+});
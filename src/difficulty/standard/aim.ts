@@ -0,0 +1,160 @@
+import { StrainSkill, strain_decay } from "../strain_skill";
+import { degrees_to_radians, ms_to_bpm, reverse_lerp, smootherstep, smoothstep } from "../difficulty_utils";
+import { NORMALISED_DIAMETER, NORMALISED_RADIUS, type StandardDifficultyObject } from "./difficulty_object";
+import { reduced_difficulty_value } from "./standard_skill";
+
+const WIDE_ANGLE_MULTIPLIER = 1.5;
+const ACUTE_ANGLE_MULTIPLIER = 2.55;
+const SLIDER_MULTIPLIER = 1.35;
+const VELOCITY_CHANGE_MULTIPLIER = 0.75;
+const WIGGLE_MULTIPLIER = 1.02;
+
+const SKILL_MULTIPLIER = 25.6;
+const STRAIN_DECAY_BASE = 0.15;
+
+const wide_angle_bonus = (angle: number): number => smoothstep(angle, degrees_to_radians(40), degrees_to_radians(140));
+const acute_angle_bonus = (angle: number): number => smoothstep(angle, degrees_to_radians(140), degrees_to_radians(40));
+
+const get_velocity = (current: StandardDifficultyObject, last: StandardDifficultyObject, with_sliders: boolean): number => {
+    let velocity = current.lazy_jump_distance / current.strain_time;
+
+    // a slider followed by a jump can be harder than the jump alone, the cursor has to leave the slider early
+    if (last.base.kind === "slider" && with_sliders) {
+        const travel_velocity = last.travel_distance / last.travel_time;
+        const movement_velocity = current.minimum_jump_distance / current.minimum_jump_time;
+        velocity = Math.max(velocity, movement_velocity + travel_velocity);
+    }
+
+    return velocity;
+};
+
+export const evaluate_aim = (current: StandardDifficultyObject, with_sliders: boolean): number => {
+    const last = current.previous(0);
+    const last_last = current.previous(1);
+    if (current.base.kind === "spinner" || !last || !last_last || last.base.kind === "spinner") {
+        return 0;
+    }
+
+    let current_velocity = get_velocity(current, last, with_sliders);
+    let previous_velocity = get_velocity(last, last_last, with_sliders);
+
+    let wide_bonus = 0;
+    let acute_bonus = 0;
+    let slider_bonus = 0;
+    let velocity_change_bonus = 0;
+    let wiggle_bonus = 0;
+
+    let aim_strain = current_velocity;
+
+    // angle bonuses only make sense when the rhythm between the jumps stays the same
+    if (Math.max(current.strain_time, last.strain_time) < 1.25 * Math.min(current.strain_time, last.strain_time)) {
+        if (current.angle !== null && last.angle !== null) {
+            const current_angle = current.angle;
+            const last_angle = last.angle;
+            const angle_bonus = Math.min(current_velocity, previous_velocity);
+
+            wide_bonus = wide_angle_bonus(current_angle);
+            acute_bonus = acute_angle_bonus(current_angle);
+
+            // repeating the same angle is easier
+            wide_bonus *= 1 - Math.min(wide_bonus, Math.pow(wide_angle_bonus(last_angle), 3));
+            acute_bonus *= 0.08 + 0.92 * (1 - Math.min(acute_bonus, Math.pow(acute_angle_bonus(last_angle), 3)));
+
+            wide_bonus *= angle_bonus * smootherstep(current.lazy_jump_distance, 0, NORMALISED_DIAMETER);
+            acute_bonus *=
+                angle_bonus *
+                smootherstep(ms_to_bpm(current.strain_time, 2), 300, 400) *
+                smootherstep(current.lazy_jump_distance, NORMALISED_DIAMETER, NORMALISED_DIAMETER * 2);
+
+            wiggle_bonus =
+                angle_bonus *
+                smootherstep(current.lazy_jump_distance, NORMALISED_RADIUS, NORMALISED_DIAMETER) *
+                Math.pow(reverse_lerp(current.lazy_jump_distance, NORMALISED_DIAMETER * 3, NORMALISED_DIAMETER), 1.8) *
+                smootherstep(current_angle, degrees_to_radians(110), degrees_to_radians(60)) *
+                smootherstep(last.lazy_jump_distance, NORMALISED_RADIUS, NORMALISED_DIAMETER) *
+                Math.pow(reverse_lerp(last.lazy_jump_distance, NORMALISED_DIAMETER * 3, NORMALISED_DIAMETER), 1.8) *
+                smootherstep(last_angle, degrees_to_radians(110), degrees_to_radians(60));
+        }
+    }
+
+    if (Math.max(previous_velocity, current_velocity) !== 0) {
+        // slider travel counts as distance here, so slider -> circle patterns keep their velocity
+        previous_velocity = (last.lazy_jump_distance + last_last.travel_distance) / last.strain_time;
+        current_velocity = (current.lazy_jump_distance + last.travel_distance) / current.strain_time;
+
+        const distance_ratio = Math.pow(
+            Math.sin(((Math.PI / 2) * Math.abs(previous_velocity - current_velocity)) / Math.max(previous_velocity, current_velocity)),
+            2
+        );
+        const overlap_velocity_buff = Math.min(
+            (NORMALISED_DIAMETER * 1.25) / Math.min(current.strain_time, last.strain_time),
+            Math.abs(previous_velocity - current_velocity)
+        );
+
+        velocity_change_bonus = overlap_velocity_buff * distance_ratio;
+        velocity_change_bonus *= Math.pow(Math.min(current.strain_time, last.strain_time) / Math.max(current.strain_time, last.strain_time), 2);
+    }
+
+    if (last.base.kind === "slider") {
+        slider_bonus = last.travel_distance / last.travel_time;
+    }
+
+    aim_strain += wiggle_bonus * WIGGLE_MULTIPLIER;
+    aim_strain += Math.max(
+        acute_bonus * ACUTE_ANGLE_MULTIPLIER,
+        wide_bonus * WIDE_ANGLE_MULTIPLIER + velocity_change_bonus * VELOCITY_CHANGE_MULTIPLIER
+    );
+
+    if (with_sliders) {
+        aim_strain += slider_bonus * SLIDER_MULTIPLIER;
+    }
+
+    return aim_strain;
+};
+
+export class AimSkill extends StrainSkill<StandardDifficultyObject> {
+    private current_strain = 0;
+    private slider_strains: number[] = [];
+
+    constructor(private readonly with_sliders: boolean) {
+        super();
+    }
+
+    difficulty_value(): number {
+        this.difficulty = reduced_difficulty_value(this.get_current_strain_peaks(), 10);
+        return this.difficulty;
+    }
+
+    // weighted count of sliders close to the hardest slider strain
+    get_difficult_sliders(): number {
+        if (this.slider_strains.length === 0) {
+            return 0;
+        }
+
+        const max_strain = this.slider_strains.reduce((max, strain) => Math.max(max, strain), 0);
+        if (max_strain === 0) {
+            return 0;
+        }
+
+        let count = 0;
+        for (const strain of this.slider_strains) {
+            count += 1 / (1 + Math.exp(-((strain / max_strain) * 12 - 6)));
+        }
+        return count;
+    }
+
+    protected strain_value_at(current: StandardDifficultyObject): number {
+        this.current_strain *= strain_decay(STRAIN_DECAY_BASE, current.delta_time);
+        this.current_strain += evaluate_aim(current, this.with_sliders) * SKILL_MULTIPLIER;
+
+        if (current.base.kind === "slider") {
+            this.slider_strains.push(this.current_strain);
+        }
+
+        return this.current_strain;
+    }
+
+    protected calculate_initial_strain(time: number, current: StandardDifficultyObject): number {
+        return this.current_strain * strain_decay(STRAIN_DECAY_BASE, time - (current.previous(0)?.start_time ?? 0));
+    }
+}
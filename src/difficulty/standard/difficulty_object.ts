@@ -0,0 +1,224 @@
+import { vec2_add, vec2_dot, vec2_len, vec2_mul, vec2_sub, type Vec2 } from "../../math/vector2";
+import { get_path_position_at_length } from "../../renderer/standard/slider_path";
+import type { IDifficultyObject } from "../strain_skill";
+import type { StandardHitObject, StandardNestedObject } from "./standard_objects";
+
+export const NORMALISED_RADIUS = 50;
+export const NORMALISED_DIAMETER = NORMALISED_RADIUS * 2;
+export const MIN_DELTA_TIME = 25;
+
+const MAXIMUM_SLIDER_RADIUS = NORMALISED_RADIUS * 2.4;
+const ASSUMED_SLIDER_RADIUS = NORMALISED_RADIUS * 1.8;
+const TAIL_LENIENCY = -36;
+
+// how a cursor that only stays inside the follow circle moves through a slider
+export type LazySliderCursor = {
+    end_position: Vec2;
+    travel_distance: number;
+    travel_time: number;
+};
+
+const compute_slider_cursor = (slider: StandardHitObject): LazySliderCursor => {
+    const duration = slider.end_time - slider.start_time;
+    let tracking_end_time = Math.max(slider.end_time + TAIL_LENIENCY, slider.start_time + duration / 2);
+    let nested: StandardNestedObject[] = slider.nested;
+
+    let last_tick: StandardNestedObject | null = null;
+    for (const object of nested) {
+        if (object.kind === "tick") {
+            last_tick = object;
+        }
+    }
+
+    // a tick after the tracking end has to be reached last
+    if (last_tick && last_tick.time > tracking_end_time) {
+        tracking_end_time = last_tick.time;
+        nested = nested.filter((object) => object !== last_tick);
+        nested.push(last_tick);
+    }
+
+    const travel_time = tracking_end_time - slider.start_time;
+    let end_progress = slider.span_duration > 0 ? travel_time / slider.span_duration : 0;
+    end_progress = end_progress % 2 >= 1 ? 1 - (end_progress % 1) : end_progress % 1;
+
+    const path_offset = vec2_sub(slider.position, slider.path[0] ?? slider.position);
+    let lazy_end_position = vec2_add(get_path_position_at_length(slider.path, end_progress * slider.distance), path_offset);
+
+    const scaling_factor = NORMALISED_RADIUS / slider.radius;
+    let cursor_position = slider.position;
+    let travel_distance = 0;
+
+    for (let i = 1; i < nested.length; i++) {
+        const object = nested[i];
+        const is_last = i === nested.length - 1;
+        let movement = vec2_sub(object.position, cursor_position);
+        let required_movement = ASSUMED_SLIDER_RADIUS;
+
+        if (is_last) {
+            const lazy_movement = vec2_sub(lazy_end_position, cursor_position);
+            if (vec2_len(lazy_movement) < vec2_len(movement)) {
+                movement = lazy_movement;
+            }
+        } else if (object.kind === "repeat") {
+            required_movement = NORMALISED_RADIUS;
+        }
+
+        let movement_length = scaling_factor * vec2_len(movement);
+        if (movement_length > required_movement) {
+            const ratio = (movement_length - required_movement) / movement_length;
+            cursor_position = vec2_add(cursor_position, vec2_mul(movement, ratio));
+            movement_length *= ratio;
+            travel_distance += movement_length;
+        }
+
+        if (is_last) {
+            lazy_end_position = cursor_position;
+        }
+    }
+
+    return { end_position: lazy_end_position, travel_distance, travel_time };
+};
+
+export class StandardDifficultyObject implements IDifficultyObject {
+    readonly start_time: number;
+    readonly end_time: number;
+    readonly delta_time: number;
+    // delta_time with a floor, so stacked objects don't blow up the velocity based evaluators
+    readonly strain_time: number;
+    readonly hit_window_great: number;
+
+    lazy_jump_distance = 0;
+    minimum_jump_distance = 0;
+    minimum_jump_time = 0;
+    travel_distance = 0;
+    travel_time = 0;
+    angle: number | null = null;
+
+    constructor(
+        readonly base: StandardHitObject,
+        readonly last: StandardHitObject,
+        readonly last_last: StandardHitObject | null,
+        readonly cursor: LazySliderCursor | null,
+        private readonly last_cursor: LazySliderCursor | null,
+        private readonly last_last_cursor: LazySliderCursor | null,
+        clock_rate: number,
+        great_window: number,
+        private readonly objects: StandardDifficultyObject[],
+        readonly index: number
+    ) {
+        this.start_time = base.start_time / clock_rate;
+        this.end_time = base.end_time / clock_rate;
+        this.delta_time = (base.start_time - last.start_time) / clock_rate;
+        this.strain_time = Math.max(this.delta_time, MIN_DELTA_TIME);
+        this.hit_window_great = (2 * great_window) / clock_rate;
+        this.set_distances(clock_rate);
+    }
+
+    previous(backwards_index: number): StandardDifficultyObject | null {
+        return this.objects[this.index - (backwards_index + 1)] ?? null;
+    }
+
+    next(forwards_index: number): StandardDifficultyObject | null {
+        return this.objects[this.index + forwards_index + 1] ?? null;
+    }
+
+    // 1 when the next object is close enough in time to be hit together with this one
+    get_doubletapness(next: StandardDifficultyObject | null): number {
+        if (!next) {
+            return 0;
+        }
+
+        const current_delta = Math.max(1, this.delta_time);
+        const next_delta = Math.max(1, next.delta_time);
+        const delta_difference = Math.abs(next_delta - current_delta);
+        const speed_ratio = current_delta / Math.max(current_delta, delta_difference);
+        const window_ratio = Math.pow(Math.min(1, current_delta / this.hit_window_great), 2);
+        return 1 - Math.pow(speed_ratio, 1 - window_ratio);
+    }
+
+    // opacity of this object at a given (unscaled) time
+    opacity_at(time: number, hidden: boolean): number {
+        const base = this.base;
+        if (time > base.start_time) {
+            return 0;
+        }
+
+        const fade_in_start = base.start_time - base.preempt;
+        const fade_in = Math.min(1, Math.max(0, (time - fade_in_start) / base.fade_in));
+        if (!hidden) {
+            return fade_in;
+        }
+
+        const fade_out_start = fade_in_start + base.fade_in;
+        const fade_out = Math.min(1, Math.max(0, (time - fade_out_start) / (base.preempt * 0.3)));
+        return Math.min(fade_in, 1 - fade_out);
+    }
+
+    private set_distances(clock_rate: number): void {
+        if (this.base.kind === "slider" && this.cursor) {
+            // bonus for repeat sliders until nested objects get their own strain
+            this.travel_distance = this.cursor.travel_distance * Math.pow(1 + this.base.repeat_count / 2.5, 1 / 2.5);
+            this.travel_time = Math.max(this.cursor.travel_time / clock_rate, MIN_DELTA_TIME);
+        }
+
+        if (this.base.kind === "spinner" || this.last.kind === "spinner") {
+            return;
+        }
+
+        let scaling_factor = NORMALISED_RADIUS / this.base.radius;
+        if (this.base.radius < 30) {
+            scaling_factor *= 1 + Math.min(30 - this.base.radius, 5) / 50;
+        }
+
+        const last_cursor_position = this.last_cursor?.end_position ?? this.last.position;
+        this.lazy_jump_distance = vec2_len(vec2_sub(vec2_mul(this.base.position, scaling_factor), vec2_mul(last_cursor_position, scaling_factor)));
+        this.minimum_jump_time = this.strain_time;
+        this.minimum_jump_distance = this.lazy_jump_distance;
+
+        if (this.last.kind === "slider" && this.last_cursor) {
+            const last_travel_time = Math.max(this.last_cursor.travel_time / clock_rate, MIN_DELTA_TIME);
+            this.minimum_jump_time = Math.max(this.strain_time - last_travel_time, MIN_DELTA_TIME);
+
+            const tail_jump_distance = vec2_len(vec2_sub(this.last.end_position, this.base.position)) * scaling_factor;
+            this.minimum_jump_distance = Math.max(
+                0,
+                Math.min(this.lazy_jump_distance - (MAXIMUM_SLIDER_RADIUS - ASSUMED_SLIDER_RADIUS), tail_jump_distance - MAXIMUM_SLIDER_RADIUS)
+            );
+        }
+
+        if (this.last_last && this.last_last.kind !== "spinner") {
+            const last_last_cursor_position = this.last_last_cursor?.end_position ?? this.last_last.position;
+            const v1 = vec2_sub(last_last_cursor_position, this.last.position);
+            const v2 = vec2_sub(this.base.position, last_cursor_position);
+            const dot = vec2_dot(v1, v2);
+            const det = v1[0] * v2[1] - v1[1] * v2[0];
+            this.angle = Math.abs(Math.atan2(det, dot));
+        }
+    }
+}
+
+export const create_difficulty_objects = (objects: StandardHitObject[], clock_rate: number, great_window: number): StandardDifficultyObject[] => {
+    const cursors = objects.map((object) => (object.kind === "slider" ? compute_slider_cursor(object) : null));
+    const result: StandardDifficultyObject[] = [];
+
+    // the first object has nothing to move from, so it never gets a difficulty object
+    for (let i = 1; i < objects.length; i++) {
+        const last_last = i > 1 ? objects[i - 2] : null;
+        result.push(
+            new StandardDifficultyObject(
+                objects[i],
+                objects[i - 1],
+                last_last,
+                cursors[i],
+                cursors[i - 1],
+                i > 1 ? cursors[i - 2] : null,
+                clock_rate,
+                great_window,
+                result,
+                result.length
+            )
+        );
+    }
+
+    return result;
+};
@@ -0,0 +1,98 @@
+import { vec2_dist } from "../../math/vector2";
+import { StrainSkill, strain_decay } from "../strain_skill";
+import type { StandardDifficultyObject } from "./difficulty_object";
+
+const MAX_OPACITY_BONUS = 0.4;
+const HIDDEN_BONUS = 0.2;
+const MIN_VELOCITY = 0.5;
+const SLIDER_MULTIPLIER = 1.3;
+const MIN_ANGLE_MULTIPLIER = 0.2;
+
+const SKILL_MULTIPLIER = 0.05512;
+const STRAIN_DECAY_BASE = 0.15;
+
+// memory: how much the last few objects have to be remembered because they are hidden behind the flashlight
+export const evaluate_flashlight = (current: StandardDifficultyObject, hidden: boolean): number => {
+    if (current.base.kind === "spinner") {
+        return 0;
+    }
+
+    const base = current.base;
+    const scaling_factor = 52 / base.radius;
+    let small_distance_nerf = 1;
+    let cumulative_strain_time = 0;
+    let result = 0;
+    let last = current;
+    let angle_repeat_count = 0;
+
+    for (let i = 0; i < Math.min(current.index, 10); i++) {
+        const object = current.previous(i);
+        if (!object) {
+            break;
+        }
+
+        cumulative_strain_time += last.strain_time;
+
+        if (object.base.kind !== "spinner") {
+            const jump_distance = vec2_dist(base.position, object.base.end_position);
+            if (i === 0) {
+                small_distance_nerf = Math.min(1, jump_distance / 75);
+            }
+
+            // stacked notes are easy to remember
+            const stack_nerf = Math.min(1, object.lazy_jump_distance / scaling_factor / 25);
+            const opacity_bonus = 1 + MAX_OPACITY_BONUS * (1 - current.opacity_at(object.base.start_time, hidden));
+            result += (stack_nerf * opacity_bonus * scaling_factor * jump_distance) / cumulative_strain_time;
+
+            if (object.angle !== null && current.angle !== null && Math.abs(object.angle - current.angle) < 0.02) {
+                angle_repeat_count += Math.max(1 - 0.1 * i, 0);
+            }
+        }
+
+        last = object;
+    }
+
+    result = Math.pow(small_distance_nerf * result, 2);
+    if (hidden) {
+        result *= 1 + HIDDEN_BONUS;
+    }
+
+    result *= MIN_ANGLE_MULTIPLIER + (1 - MIN_ANGLE_MULTIPLIER) / (angle_repeat_count + 1);
+
+    if (base.kind === "slider" && current.cursor) {
+        const pixel_travel_distance = current.cursor.travel_distance / scaling_factor;
+        let slider_bonus = Math.pow(Math.max(0, pixel_travel_distance / current.travel_time - MIN_VELOCITY), 0.5) * pixel_travel_distance;
+        if (base.repeat_count > 0) {
+            slider_bonus /= base.repeat_count + 1;
+        }
+        result += slider_bonus * SLIDER_MULTIPLIER;
+    }
+
+    return result;
+};
+
+export class FlashlightSkill extends StrainSkill<StandardDifficultyObject> {
+    private current_strain = 0;
+
+    constructor(private readonly hidden: boolean) {
+        super();
+    }
+
+    // every section counts fully, long maps are harder to memorise
+    difficulty_value(): number {
+        this.difficulty = this.get_current_strain_peaks().reduce((sum, peak) => sum + peak, 0);
+        return this.difficulty;
+    }
+
+    protected strain_value_at(current: StandardDifficultyObject): number {
+        this.current_strain *= strain_decay(STRAIN_DECAY_BASE, current.delta_time);
+        this.current_strain += evaluate_flashlight(current, this.hidden) * SKILL_MULTIPLIER;
+        return this.current_strain;
+    }
+
+    protected calculate_initial_strain(time: number, current: StandardDifficultyObject): number {
+        return this.current_strain * strain_decay(STRAIN_DECAY_BASE, time - (current.previous(0)?.start_time ?? 0));
+    }
+}
+
+export const flashlight_to_performance = (difficulty: number): number => 25 * Math.pow(difficulty, 2);
@@ -0,0 +1,153 @@
+import { logistic } from "../difficulty_utils";
+import { MIN_DELTA_TIME, type StandardDifficultyObject } from "./difficulty_object";
+
+const HISTORY_TIME_MAX = 5 * 1000;
+const HISTORY_OBJECTS_MAX = 32;
+const RHYTHM_OVERALL_MULTIPLIER = 0.95;
+const RHYTHM_RATIO_MULTIPLIER = 12;
+
+// a run of objects with (nearly) the same delta time
+class Island {
+    delta = Number.MAX_SAFE_INTEGER;
+    delta_count = 0;
+
+    constructor(
+        private readonly epsilon: number,
+        delta?: number
+    ) {
+        if (delta !== undefined) {
+            this.delta = Math.max(delta, MIN_DELTA_TIME);
+            this.delta_count++;
+        }
+    }
+
+    add_delta(delta: number): void {
+        if (this.delta === Number.MAX_SAFE_INTEGER) {
+            this.delta = Math.max(delta, MIN_DELTA_TIME);
+        }
+        this.delta_count++;
+    }
+
+    is_similar_polarity(other: Island): boolean {
+        return this.delta_count % 2 === other.delta_count % 2;
+    }
+
+    equals(other: Island): boolean {
+        return Math.abs(this.delta - other.delta) < this.epsilon && this.delta_count === other.delta_count;
+    }
+}
+
+export const evaluate_rhythm = (current: StandardDifficultyObject): number => {
+    if (current.base.kind === "spinner") {
+        return 0;
+    }
+
+    const epsilon = current.hit_window_great * 0.3;
+    let rhythm_complexity_sum = 0;
+    let island = new Island(epsilon);
+    let previous_island = new Island(epsilon);
+    const island_counts: { island: Island; count: number }[] = [];
+
+    let start_ratio = 0;
+    let first_delta_switch = false;
+    const historical_note_count = Math.min(current.index, HISTORY_OBJECTS_MAX);
+
+    let rhythm_start = 0;
+    while (rhythm_start < historical_note_count - 2 && current.start_time - (current.previous(rhythm_start)?.start_time ?? 0) < HISTORY_TIME_MAX) {
+        rhythm_start++;
+    }
+
+    let previous_object = current.previous(rhythm_start);
+    let last_object = current.previous(rhythm_start + 1);
+
+    for (let i = rhythm_start; i > 0; i--) {
+        const current_object = current.previous(i - 1);
+        if (!current_object || !previous_object || !last_object) {
+            break;
+        }
+
+        const time_decay = (HISTORY_TIME_MAX - (current.start_time - current_object.start_time)) / HISTORY_TIME_MAX;
+        const note_decay = (historical_note_count - i) / historical_note_count;
+        const historical_decay = Math.min(note_decay, time_decay);
+
+        const current_delta = current_object.strain_time;
+        const previous_delta = previous_object.strain_time;
+        const last_delta = last_object.strain_time;
+
+        const delta_difference_ratio = Math.min(previous_delta, current_delta) / Math.max(previous_delta, current_delta);
+        const current_ratio = 1 + RHYTHM_RATIO_MULTIPLIER * Math.min(0.5, Math.pow(Math.sin(Math.PI / delta_difference_ratio), 2));
+
+        const fraction = Math.max(previous_delta / current_delta, current_delta / previous_delta);
+        const fraction_multiplier = Math.min(1, Math.max(0, 2 - fraction / 8));
+        const window_penalty = Math.min(1, Math.max(0, Math.abs(previous_delta - current_delta) - epsilon) / epsilon);
+
+        let effective_ratio = window_penalty * current_ratio * fraction_multiplier;
+
+        if (first_delta_switch) {
+            if (Math.abs(previous_delta - current_delta) < epsilon) {
+                island.add_delta(Math.trunc(current_delta));
+            } else {
+                // sliders and repeated patterns are easier to read than the raw ratio suggests
+                if (current_object.base.kind === "slider") {
+                    effective_ratio *= 0.125;
+                }
+                if (previous_object.base.kind === "slider") {
+                    effective_ratio *= 0.3;
+                }
+                if (island.is_similar_polarity(previous_island)) {
+                    effective_ratio *= 0.5;
+                }
+                if (last_delta > previous_delta + epsilon && previous_delta > current_delta + epsilon) {
+                    effective_ratio *= 0.125;
+                }
+                if (previous_island.delta_count === island.delta_count) {
+                    effective_ratio *= 0.5;
+                }
+
+                const island_count = island_counts.find((entry) => entry.island.equals(island));
+                if (island_count) {
+                    if (previous_island.equals(island)) {
+                        island_count.count++;
+                    }
+
+                    const power = logistic(island.delta, 58.33, 0.24, 2.75);
+                    effective_ratio *= Math.min(3 / island_count.count, Math.pow(1 / island_count.count, power));
+                } else {
+                    island_counts.push({ island, count: 1 });
+                }
+
+                const doubletapness = previous_object.get_doubletapness(current_object);
+                effective_ratio *= 1 - doubletapness * 0.75;
+
+                rhythm_complexity_sum += Math.sqrt(effective_ratio * start_ratio) * historical_decay;
+                start_ratio = effective_ratio;
+                previous_island = island;
+
+                if (previous_delta + epsilon < current_delta) {
+                    first_delta_switch = false;
+                }
+
+                island = new Island(epsilon, Math.trunc(current_delta));
+            }
+        } else if (previous_delta > current_delta + epsilon) {
+            // the first speed up starts a new rhythm
+            first_delta_switch = true;
+
+            if (current_object.base.kind === "slider") {
+                effective_ratio *= 0.6;
+            }
+            if (previous_object.base.kind === "slider") {
+                effective_ratio *= 0.6;
+            }
+
+            start_ratio = effective_ratio;
+            island = new Island(epsilon, Math.trunc(current_delta));
+        }
+
+        last_object = previous_object;
+        previous_object = current_object;
+    }
+
+    const rhythm_difficulty = Math.sqrt(4 + rhythm_complexity_sum * RHYTHM_OVERALL_MULTIPLIER) / 2;
+    return rhythm_difficulty * (1 - current.get_doubletapness(current.next(0)));
+};
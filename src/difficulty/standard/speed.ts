@@ -0,0 +1,76 @@
+import { StrainSkill, strain_decay } from "../strain_skill";
+import { bpm_to_ms, ms_to_bpm } from "../difficulty_utils";
+import { NORMALISED_DIAMETER, type StandardDifficultyObject } from "./difficulty_object";
+import { evaluate_rhythm } from "./rhythm";
+import { reduced_difficulty_value } from "./standard_skill";
+
+const SINGLE_SPACING_THRESHOLD = NORMALISED_DIAMETER * 1.25;
+const MIN_SPEED_BONUS = 200;
+const SPEED_BALANCING_FACTOR = 40;
+const DISTANCE_MULTIPLIER = 0.8;
+
+const SKILL_MULTIPLIER = 1.46;
+const STRAIN_DECAY_BASE = 0.3;
+
+export const evaluate_speed = (current: StandardDifficultyObject): number => {
+    if (current.base.kind === "spinner") {
+        return 0;
+    }
+
+    const previous = current.previous(0);
+    const doubletapness = 1 - current.get_doubletapness(current.next(0));
+
+    // anything faster than the 300 window can be tapped at the window's pace instead
+    let strain_time = current.strain_time;
+    strain_time /= Math.min(1, Math.max(0.92, strain_time / current.hit_window_great / 0.93));
+
+    let speed_bonus = 0;
+    if (ms_to_bpm(strain_time) > MIN_SPEED_BONUS) {
+        speed_bonus = 0.75 * Math.pow((bpm_to_ms(MIN_SPEED_BONUS) - strain_time) / SPEED_BALANCING_FACTOR, 2);
+    }
+
+    const travel_distance = previous?.travel_distance ?? 0;
+    const distance = Math.min(travel_distance + current.minimum_jump_distance, SINGLE_SPACING_THRESHOLD);
+    const distance_bonus = Math.pow(distance / SINGLE_SPACING_THRESHOLD, 3.95) * DISTANCE_MULTIPLIER;
+
+    return ((1 + speed_bonus + distance_bonus) * 1000 * doubletapness) / strain_time;
+};
+
+export class SpeedSkill extends StrainSkill<StandardDifficultyObject> {
+    private current_strain = 0;
+    private current_rhythm = 0;
+
+    difficulty_value(): number {
+        this.difficulty = reduced_difficulty_value(this.get_current_strain_peaks(), 5);
+        return this.difficulty;
+    }
+
+    // how many notes actually contribute to the speed strain, streams score high and isolated bursts low
+    relevant_note_count(): number {
+        if (this.object_strains.length === 0) {
+            return 0;
+        }
+
+        const max_strain = this.object_strains.reduce((max, strain) => Math.max(max, strain), 0);
+        if (max_strain === 0) {
+            return 0;
+        }
+
+        let count = 0;
+        for (const strain of this.object_strains) {
+            count += 1 / (1 + Math.exp(-((strain / max_strain) * 12 - 6)));
+        }
+        return count;
+    }
+
+    protected strain_value_at(current: StandardDifficultyObject): number {
+        this.current_strain *= strain_decay(STRAIN_DECAY_BASE, current.strain_time);
+        this.current_strain += evaluate_speed(current) * SKILL_MULTIPLIER;
+        this.current_rhythm = evaluate_rhythm(current);
+        return this.current_strain * this.current_rhythm;
+    }
+
+    protected calculate_initial_strain(time: number, current: StandardDifficultyObject): number {
+        return this.current_strain * this.current_rhythm * strain_decay(STRAIN_DECAY_BASE, time - (current.previous(0)?.start_time ?? 0));
+    }
+}
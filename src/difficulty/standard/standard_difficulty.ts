@@ -0,0 +1,159 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { GameMode } from "../../types/beatmap";
+import { Mods, has_mod } from "../../types/mods";
+import { type Result, ErrorCode, ok, err } from "../../types/result";
+import {
+    calculate_hit_window_great,
+    difficulty_range,
+    inverse_difficulty_range,
+    HIT_WINDOW_GREAT_RANGE,
+    HIT_WINDOW_MEH_RANGE,
+    HIT_WINDOW_OK_RANGE
+} from "../../math/difficulty";
+import { get_adjusted_difficulty, get_rate_multiplier } from "../../mods";
+import { build_standard_objects, type StandardHitObject } from "./standard_objects";
+import { create_difficulty_objects } from "./difficulty_object";
+import { AimSkill } from "./aim";
+import { SpeedSkill } from "./speed";
+import { FlashlightSkill, flashlight_to_performance } from "./flashlight";
+import { difficulty_to_performance } from "./standard_skill";
+
+export interface IStandardDifficultyAttributes {
+    star_rating: number;
+    aim_difficulty: number;
+    speed_difficulty: number;
+    flashlight_difficulty: number;
+    // aim without slider travel divided by aim with it, 1 means sliders add nothing
+    slider_factor: number;
+    aim_difficult_slider_count: number;
+    aim_difficult_strain_count: number;
+    speed_difficult_strain_count: number;
+    speed_note_count: number;
+    // 400ms section peaks, useful for strain graphs
+    aim_strains: number[];
+    speed_strains: number[];
+    approach_rate: number;
+    overall_difficulty: number;
+    circle_size: number;
+    drain_rate: number;
+    clock_rate: number;
+    // rate adjusted, half widths in ms
+    great_hit_window: number;
+    ok_hit_window: number;
+    meh_hit_window: number;
+    max_combo: number;
+    hit_circle_count: number;
+    slider_count: number;
+    spinner_count: number;
+}
+
+const DIFFICULTY_MULTIPLIER = 0.0675;
+export const PERFORMANCE_BASE_MULTIPLIER = 1.15;
+
+const get_max_combo = (objects: StandardHitObject[]): number => {
+    let combo = 0;
+    for (const object of objects) {
+        combo += object.kind === "slider" ? object.nested.length : 1;
+    }
+    return combo;
+};
+
+const count_kind = (objects: StandardHitObject[], kind: StandardHitObject["kind"]): number => {
+    let count = 0;
+    for (const object of objects) {
+        if (object.kind === kind) {
+            count++;
+        }
+    }
+    return count;
+};
+
+export const calculate_standard_difficulty = (beatmap: IBeatmap, mods: number = 0): Result<IStandardDifficultyAttributes> => {
+    if (beatmap.General.Mode !== GameMode.Standard) {
+        return err(ErrorCode.UnsupportedMode, "Difficulty calculation only supports standard beatmaps");
+    }
+
+    const source = beatmap.Difficulty;
+    const source_ar = source.ApproachRate >= 0 ? source.ApproachRate : source.OverallDifficulty;
+    const difficulty = get_adjusted_difficulty(source.CircleSize, source_ar, source.OverallDifficulty, source.HPDrainRate, mods);
+    const clock_rate = get_rate_multiplier(mods);
+    const great_window = calculate_hit_window_great(difficulty.od);
+
+    const objects = build_standard_objects(beatmap, mods, difficulty, clock_rate);
+    const difficulty_objects = create_difficulty_objects(objects, clock_rate, great_window);
+
+    const flashlight_enabled = has_mod(mods, Mods.Flashlight);
+    const aim = new AimSkill(true);
+    const aim_no_sliders = new AimSkill(false);
+    const speed = new SpeedSkill();
+    const flashlight = new FlashlightSkill(has_mod(mods, Mods.Hidden));
+
+    for (const object of difficulty_objects) {
+        aim.process(object);
+        aim_no_sliders.process(object);
+        speed.process(object);
+        if (flashlight_enabled) {
+            flashlight.process(object);
+        }
+    }
+
+    let aim_rating = Math.sqrt(aim.difficulty_value()) * DIFFICULTY_MULTIPLIER;
+    const aim_rating_no_sliders = Math.sqrt(aim_no_sliders.difficulty_value()) * DIFFICULTY_MULTIPLIER;
+    let speed_rating = Math.sqrt(speed.difficulty_value()) * DIFFICULTY_MULTIPLIER;
+    let flashlight_rating = flashlight_enabled ? Math.sqrt(flashlight.difficulty_value()) * DIFFICULTY_MULTIPLIER : 0;
+    const slider_factor = aim_rating > 0 ? aim_rating_no_sliders / aim_rating : 1;
+
+    if (has_mod(mods, Mods.TouchDevice)) {
+        aim_rating = Math.pow(aim_rating, 0.8);
+        flashlight_rating = Math.pow(flashlight_rating, 0.8);
+    }
+
+    if (has_mod(mods, Mods.Relax)) {
+        aim_rating *= 0.9;
+        speed_rating = 0;
+        flashlight_rating *= 0.7;
+    } else if (has_mod(mods, Mods.Autopilot)) {
+        speed_rating *= 0.5;
+        aim_rating = 0;
+        flashlight_rating *= 0.4;
+    }
+
+    const base_aim_performance = difficulty_to_performance(aim_rating);
+    const base_speed_performance = difficulty_to_performance(speed_rating);
+    const base_flashlight_performance = flashlight_enabled ? flashlight_to_performance(flashlight_rating) : 0;
+    const base_performance = Math.pow(
+        Math.pow(base_aim_performance, 1.1) + Math.pow(base_speed_performance, 1.1) + Math.pow(base_flashlight_performance, 1.1),
+        1 / 1.1
+    );
+
+    const star_rating =
+        base_performance > 0.00001
+            ? Math.cbrt(PERFORMANCE_BASE_MULTIPLIER) * 0.027 * (Math.cbrt((100000 / Math.pow(2, 1 / 1.1)) * base_performance) + 4)
+            : 0;
+
+    return ok({
+        star_rating,
+        aim_difficulty: aim_rating,
+        speed_difficulty: speed_rating,
+        flashlight_difficulty: flashlight_rating,
+        slider_factor,
+        aim_difficult_slider_count: aim.get_difficult_sliders(),
+        aim_difficult_strain_count: aim.count_top_weighted_strains(),
+        speed_difficult_strain_count: speed.count_top_weighted_strains(),
+        speed_note_count: speed.relevant_note_count(),
+        aim_strains: aim.get_current_strain_peaks(),
+        speed_strains: speed.get_current_strain_peaks(),
+        approach_rate: difficulty.ar,
+        overall_difficulty: inverse_difficulty_range(great_window / clock_rate, HIT_WINDOW_GREAT_RANGE),
+        circle_size: difficulty.cs,
+        drain_rate: difficulty.hp,
+        clock_rate,
+        great_hit_window: great_window / clock_rate,
+        ok_hit_window: difficulty_range(difficulty.od, HIT_WINDOW_OK_RANGE) / clock_rate,
+        meh_hit_window: difficulty_range(difficulty.od, HIT_WINDOW_MEH_RANGE) / clock_rate,
+        max_combo: get_max_combo(objects),
+        hit_circle_count: count_kind(objects, "circle"),
+        slider_count: count_kind(objects, "slider"),
+        spinner_count: count_kind(objects, "spinner")
+    });
+};
@@ -0,0 +1,143 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { is_slider, is_spinner } from "../../types/beatmap";
+import { Mods, has_mod } from "../../types/mods";
+import { calculate_fade_in, calculate_preempt, calculate_radius } from "../../math/difficulty";
+import { vec2_add, type Vec2 } from "../../math/vector2";
+import { get_position_transform, type IBeatmapDifficulty, type MirrorAxis } from "../../mods";
+import { build_render_objects } from "../../renderer/render_objects";
+import type { RenderHitObject, RenderSliderData } from "../../renderer/render_types";
+import { process_timing_points } from "../../beatmap/timing";
+import { TimingStateResolver } from "../../renderer/standard/timing_state";
+import { calculate_slider_duration, calculate_tick_spacing } from "../../renderer/standard/slider_math";
+import { generate_slider_events } from "../../renderer/standard/slider_events";
+import { compute_slider_path, get_path_position_at_length, get_slider_end_position } from "../../renderer/standard/slider_path";
+import { calculate_stack_heights, get_object_start_position, get_stack_leniency } from "../../renderer/standard/stacking";
+import { STANDARD_RUNTIME_DEFAULTS } from "../../config/standard";
+
+export type StandardNestedKind = "head" | "tick" | "repeat" | "tail";
+
+export type StandardNestedObject = {
+    kind: StandardNestedKind;
+    time: number;
+    position: Vec2;
+};
+
+// a hit object with everything the difficulty calculation needs resolved, positions are stacked
+export type StandardHitObject = {
+    kind: "circle" | "slider" | "spinner";
+    start_time: number;
+    end_time: number;
+    position: Vec2;
+    end_position: Vec2;
+    radius: number;
+    preempt: number;
+    fade_in: number;
+    span_duration: number;
+    repeat_count: number;
+    nested: StandardNestedObject[];
+    path: Vec2[];
+    distance: number;
+};
+
+const build_nested = (obj: RenderHitObject, beatmap: IBeatmap, resolver: TimingStateResolver, offset: Vec2): StandardNestedObject[] => {
+    const slider = obj.data as RenderSliderData;
+    const path = slider.computed_path ?? [];
+    const spans = Math.max(1, slider.repetitions);
+    const span_duration = slider.duration ?? 0;
+    const position_at = (progress: number): Vec2 => vec2_add(get_path_position_at_length(path, progress * slider.distance), offset);
+    const { tick_distance, min_distance_from_end } = calculate_tick_spacing(beatmap, resolver.get_state_at(obj.time));
+
+    const { ticks, repeats } = generate_slider_events({
+        start_time: obj.time,
+        span_duration,
+        span_count: spans,
+        length: slider.distance,
+        tick_distance,
+        min_distance_from_end,
+        get_position_at_progress: position_at
+    });
+
+    const nested: StandardNestedObject[] = [{ kind: "head", time: obj.time, position: position_at(0) }];
+    for (const tick of ticks) {
+        nested.push({ kind: "tick", time: tick.time, position: tick.pos });
+    }
+    for (const repeat of repeats) {
+        nested.push({ kind: "repeat", time: repeat.time, position: repeat.pos });
+    }
+    nested.push({ kind: "tail", time: obj.end_time, position: position_at(spans % 2) });
+
+    // sort is stable, so a tick sharing its time with a repeat stays in front of it
+    return nested.sort((a, b) => a.time - b.time);
+};
+
+export const build_standard_objects = (
+    beatmap: IBeatmap,
+    mods: number,
+    difficulty: IBeatmapDifficulty,
+    rate: number,
+    mirror_axis: MirrorAxis = "horizontal"
+): StandardHitObject[] => {
+    const objects = build_render_objects(beatmap).sort((a, b) => a.time - b.time);
+    const resolver = new TimingStateResolver(process_timing_points([...beatmap.TimingPoints]));
+    const transform = get_position_transform(mods, mirror_axis);
+
+    // difficulty.ar already includes the rate, hit objects keep their preempt in track time
+    const radius = calculate_radius(difficulty.cs);
+    const preempt = calculate_preempt(difficulty.ar) * rate;
+    const fade_in = has_mod(mods, Mods.Hidden) ? preempt * 0.4 : calculate_fade_in(preempt);
+
+    for (const obj of objects) {
+        if (is_spinner(obj)) {
+            obj.end_pos = [256, 192];
+            continue;
+        }
+
+        if (!is_slider(obj)) {
+            const data = obj.data as { pos: Vec2 };
+            if (transform) {
+                data.pos = transform(data.pos);
+            }
+            obj.end_pos = data.pos;
+            continue;
+        }
+
+        const data = obj.data as RenderSliderData;
+        if (transform) {
+            data.pos = transform(data.pos);
+            data.control_points = data.control_points.map(transform);
+        }
+
+        data.repetitions = Math.max(1, data.repetitions);
+        data.computed_path = compute_slider_path(data);
+        data.duration = calculate_slider_duration(data.distance, beatmap, resolver.get_state_at(obj.time));
+        obj.end_time = obj.time + data.duration * data.repetitions;
+        obj.end_pos = get_slider_end_position(data);
+    }
+
+    calculate_stack_heights(objects, preempt * get_stack_leniency(beatmap));
+
+    const stack_unit = -STANDARD_RUNTIME_DEFAULTS.stack.offset_multiplier * (radius / 64);
+    resolver.reset();
+
+    return objects.map((obj): StandardHitObject => {
+        const offset: Vec2 = [obj.stack_height * stack_unit, obj.stack_height * stack_unit];
+        const slider = is_slider(obj) ? (obj.data as RenderSliderData) : null;
+        const spinner = is_spinner(obj);
+
+        return {
+            kind: slider ? "slider" : spinner ? "spinner" : "circle",
+            start_time: obj.time,
+            end_time: obj.end_time,
+            position: spinner ? [256, 192] : vec2_add(get_object_start_position(obj), offset),
+            end_position: spinner ? [256, 192] : vec2_add(obj.end_pos, offset),
+            radius,
+            preempt,
+            fade_in,
+            span_duration: slider?.duration ?? 0,
+            repeat_count: slider ? slider.repetitions - 1 : 0,
+            nested: slider ? build_nested(obj, beatmap, resolver, offset) : [],
+            path: slider?.computed_path ?? [],
+            distance: slider?.distance ?? 0
+        };
+    });
+};
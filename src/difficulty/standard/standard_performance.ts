@@ -0,0 +1,329 @@
+import { Mods, has_mod } from "../../types/mods";
+import { lerp } from "../../math/vector2";
+import { erf, erf_inv, reverse_lerp } from "../difficulty_utils";
+import type { IHitCounts, IPerformanceBreakdown } from "../performance_types";
+import { PERFORMANCE_BASE_MULTIPLIER, type IStandardDifficultyAttributes } from "./standard_difficulty";
+import { difficulty_to_performance } from "./standard_skill";
+import { flashlight_to_performance } from "./flashlight";
+
+export interface IStandardPerformance extends IPerformanceBreakdown {
+    pp: number;
+    effective_miss_count: number;
+    // estimated unstable rate / 10 on speed notes, null when nothing was hit
+    speed_deviation: number | null;
+}
+
+interface IScoreState {
+    attributes: IStandardDifficultyAttributes;
+    mods: number;
+    great: number;
+    ok: number;
+    meh: number;
+    miss: number;
+    combo: number;
+    total: number;
+    accuracy: number;
+    effective_miss_count: number;
+    speed_deviation: number | null;
+}
+
+const get_total_hits = (hits: IHitCounts): number => hits.count_300 + hits.count_100 + hits.count_50 + hits.count_miss;
+
+export const get_standard_accuracy = (hits: IHitCounts): number => {
+    const total = get_total_hits(hits);
+    return total > 0 ? (hits.count_300 * 6 + hits.count_100 * 2 + hits.count_50) / (total * 6) : 0;
+};
+
+// spreads the accuracy over 300s and 100s like osu-tools, 50s only come in once 100s alone can't get that low, accuracy is 0-1
+export const get_standard_hits_from_accuracy = (total: number, accuracy: number, misses: number): IHitCounts => {
+    const count_miss = Math.max(0, Math.min(total, misses));
+    const remaining = total - count_miss;
+    // in 50s, so a 300 is worth 6 and a 100 is worth 2
+    const target = Math.max(0, Math.min(1, accuracy)) * total * 6;
+
+    let count_300 = 0;
+    let count_100 = 0;
+    if (target >= remaining * 2) {
+        count_300 = Math.min(remaining, Math.round((target - remaining * 2) / 4));
+        count_100 = remaining - count_300;
+    } else {
+        count_100 = Math.max(0, Math.round(target - remaining));
+    }
+    const count_50 = remaining - count_300 - count_100;
+
+    return { count_geki: 0, count_300, count_katu: 0, count_100, count_50, count_miss };
+};
+
+const get_length_bonus = (total: number): number => 0.95 + 0.4 * Math.min(1, total / 2000) + (total > 2000 ? Math.log10(total / 2000) * 0.5 : 0);
+
+const get_miss_penalty = (miss_count: number, difficult_strain_count: number): number =>
+    0.96 / (miss_count / (4 * Math.pow(Math.log(difficult_strain_count), 0.94)) + 1);
+
+const get_effective_miss_count = (state: Omit<IScoreState, "effective_miss_count" | "speed_deviation">): number => {
+    const { attributes, combo } = state;
+    let combo_based_miss_count = 0;
+
+    // sliderbreaks don't show up as misses, guess them from the combo
+    if (attributes.slider_count > 0) {
+        const full_combo_threshold = attributes.max_combo - 0.1 * attributes.slider_count;
+        if (combo < full_combo_threshold) {
+            combo_based_miss_count = full_combo_threshold / Math.max(1, combo);
+        }
+    }
+
+    combo_based_miss_count = Math.min(combo_based_miss_count, state.ok + state.meh + state.miss);
+    return Math.min(Math.max(state.miss, combo_based_miss_count), state.total);
+};
+
+const get_deviation = (attributes: IStandardDifficultyAttributes, great: number, ok: number, meh: number): number | null => {
+    if (great + ok + meh <= 0) {
+        return null;
+    }
+
+    const great_window = attributes.great_hit_window;
+    const ok_window = attributes.ok_hit_window;
+    const meh_window = attributes.meh_hit_window;
+
+    // 99% confidence lower bound on the chance of hitting a 300
+    const n = Math.max(1, great + ok);
+    const z = 2.32634787404;
+    const p = great / n;
+    const p_lower_bound = Math.min(p, (n * p + (z * z) / 2) / (n + z * z) - (z / (n + z * z)) * Math.sqrt(n * p * (1 - p) + (z * z) / 4));
+
+    let deviation: number;
+    if (p_lower_bound > 0.01) {
+        deviation = great_window / (Math.SQRT2 * erf_inv(p_lower_bound));
+
+        // hits outside the 100 window are 50s, so the normal distribution's tail is cut off
+        const ok_tail =
+            (Math.sqrt(2 / Math.PI) * ok_window * Math.exp(-0.5 * Math.pow(ok_window / deviation, 2))) /
+            (deviation * erf(ok_window / (Math.SQRT2 * deviation)));
+        deviation *= Math.sqrt(1 - ok_tail);
+    } else {
+        deviation = ok_window / Math.sqrt(3);
+    }
+
+    // 50s are assumed to be uniformly spread between the 100 and 50 windows
+    const meh_variance = (meh_window * meh_window + ok_window * meh_window + ok_window * ok_window) / 3;
+    return Math.sqrt(((great + ok) * Math.pow(deviation, 2) + meh * meh_variance) / (great + ok + meh));
+};
+
+const get_speed_deviation = (state: Omit<IScoreState, "speed_deviation">): number | null => {
+    if (state.great + state.ok + state.meh === 0) {
+        return null;
+    }
+
+    // assume the mistakes happened on the speed notes first
+    const speed_note_count = state.attributes.speed_note_count + (state.total - state.attributes.speed_note_count) * 0.1;
+    const relevant_miss = Math.min(state.miss, speed_note_count);
+    const relevant_meh = Math.min(state.meh, speed_note_count - relevant_miss);
+    const relevant_ok = Math.min(state.ok, speed_note_count - relevant_miss - relevant_meh);
+    const relevant_great = Math.max(0, speed_note_count - relevant_miss - relevant_meh - relevant_ok);
+
+    return get_deviation(state.attributes, relevant_great, relevant_ok, relevant_meh);
+};
+
+// speed pp stops scaling as fast once the deviation says the notes weren't really hit on time
+const get_speed_high_deviation_nerf = (state: IScoreState): number => {
+    if (state.speed_deviation === null) {
+        return 0;
+    }
+
+    const speed_value = difficulty_to_performance(state.attributes.speed_difficulty);
+    const cutoff = 100 + 220 * Math.pow(22 / state.speed_deviation, 6.5);
+    if (speed_value <= cutoff) {
+        return 1;
+    }
+
+    const scale = 50;
+    let adjusted = scale * (Math.log((speed_value - cutoff) / scale + 1) + cutoff / scale);
+    adjusted = lerp(adjusted, speed_value, 1 - reverse_lerp(state.speed_deviation, 22, 27));
+    return adjusted / speed_value;
+};
+
+const compute_aim = (state: IScoreState): number => {
+    const { attributes, mods } = state;
+    if (has_mod(mods, Mods.Autopilot)) {
+        return 0;
+    }
+
+    let aim_difficulty = attributes.aim_difficulty;
+    if (attributes.slider_count > 0 && attributes.aim_difficult_slider_count > 0) {
+        const missed_sliders = Math.max(
+            0,
+            Math.min(Math.min(state.ok + state.meh + state.miss, attributes.max_combo - state.combo), attributes.aim_difficult_slider_count)
+        );
+        const slider_nerf =
+            (1 - attributes.slider_factor) * Math.pow(1 - missed_sliders / attributes.aim_difficult_slider_count, 3) + attributes.slider_factor;
+        aim_difficulty *= slider_nerf;
+    }
+
+    let value = difficulty_to_performance(aim_difficulty);
+    const length_bonus = get_length_bonus(state.total);
+    value *= length_bonus;
+
+    if (state.effective_miss_count > 0) {
+        value *= get_miss_penalty(state.effective_miss_count, attributes.aim_difficult_strain_count);
+    }
+
+    let ar_factor = 0;
+    if (attributes.approach_rate > 10.33) {
+        ar_factor = 0.3 * (attributes.approach_rate - 10.33);
+    } else if (attributes.approach_rate < 8) {
+        ar_factor = 0.05 * (8 - attributes.approach_rate);
+    }
+    if (has_mod(mods, Mods.Relax)) {
+        ar_factor = 0;
+    }
+    value *= 1 + ar_factor * length_bonus;
+
+    if (has_mod(mods, Mods.Hidden)) {
+        value *= 1 + 0.04 * (12 - attributes.approach_rate);
+    }
+
+    value *= state.accuracy;
+    value *= 0.98 + Math.pow(Math.max(0, attributes.overall_difficulty), 2) / 2500;
+    return value;
+};
+
+const compute_speed = (state: IScoreState): number => {
+    const { attributes, mods } = state;
+    if (has_mod(mods, Mods.Relax) || state.speed_deviation === null) {
+        return 0;
+    }
+
+    let value = difficulty_to_performance(attributes.speed_difficulty);
+    const length_bonus = get_length_bonus(state.total);
+    value *= length_bonus;
+
+    if (state.effective_miss_count > 0) {
+        value *= get_miss_penalty(state.effective_miss_count, attributes.speed_difficult_strain_count);
+    }
+
+    let ar_factor = attributes.approach_rate > 10.33 ? 0.3 * (attributes.approach_rate - 10.33) : 0;
+    if (has_mod(mods, Mods.Autopilot)) {
+        ar_factor = 0;
+    }
+    value *= 1 + ar_factor * length_bonus;
+
+    if (has_mod(mods, Mods.Hidden)) {
+        value *= 1 + 0.04 * (12 - attributes.approach_rate);
+    }
+
+    value *= get_speed_high_deviation_nerf(state);
+
+    // accuracy on the notes that actually make up the speed difficulty
+    const relevant_total_diff = Math.max(0, state.total - attributes.speed_note_count);
+    const relevant_great = Math.max(0, state.great - relevant_total_diff);
+    const relevant_ok = Math.max(0, state.ok - Math.max(0, relevant_total_diff - state.great));
+    const relevant_meh = Math.max(0, state.meh - Math.max(0, relevant_total_diff - state.great - state.ok));
+    const relevant_accuracy =
+        attributes.speed_note_count === 0 ? 0 : (relevant_great * 6 + relevant_ok * 2 + relevant_meh) / (attributes.speed_note_count * 6);
+
+    const od = attributes.overall_difficulty;
+    value *= (0.95 + Math.pow(Math.max(0, od), 2) / 750) * Math.pow((state.accuracy + relevant_accuracy) / 2, (14.5 - od) / 2);
+    return value;
+};
+
+const compute_accuracy = (state: IScoreState): number => {
+    const { attributes, mods } = state;
+    if (has_mod(mods, Mods.Relax)) {
+        return 0;
+    }
+
+    // only circles have a timing judgement, sliders and spinners are assumed to be 300s
+    const circles = attributes.hit_circle_count;
+    let better_accuracy = circles > 0 ? ((state.great - (state.total - circles)) * 6 + state.ok * 2 + state.meh) / (circles * 6) : 0;
+    better_accuracy = Math.max(0, better_accuracy);
+
+    let value = Math.pow(1.52163, attributes.overall_difficulty) * Math.pow(better_accuracy, 24) * 2.83;
+    value *= Math.min(1.15, Math.pow(circles / 1000, 0.3));
+
+    if (has_mod(mods, Mods.Hidden)) {
+        value *= 1.08;
+    }
+    if (has_mod(mods, Mods.Flashlight)) {
+        value *= 1.02;
+    }
+
+    return value;
+};
+
+const compute_flashlight = (state: IScoreState): number => {
+    const { attributes } = state;
+    if (!has_mod(state.mods, Mods.Flashlight)) {
+        return 0;
+    }
+
+    let value = flashlight_to_performance(attributes.flashlight_difficulty);
+
+    if (state.effective_miss_count > 0) {
+        value *= 0.97 * Math.pow(1 - Math.pow(state.effective_miss_count / state.total, 0.775), Math.pow(state.effective_miss_count, 0.875));
+    }
+
+    if (attributes.max_combo > 0) {
+        value *= Math.min(Math.pow(state.combo, 0.8) / Math.pow(attributes.max_combo, 0.8), 1);
+    }
+
+    value *= 0.7 + 0.1 * Math.min(1, state.total / 200) + (state.total > 200 ? 0.2 * Math.min(1, (state.total - 200) / 200) : 0);
+    value *= 0.5 + state.accuracy / 2;
+    value *= 0.98 + Math.pow(Math.max(0, attributes.overall_difficulty), 2) / 2500;
+    return value;
+};
+
+export const calculate_standard_performance = (
+    attributes: IStandardDifficultyAttributes,
+    mods: number,
+    hits: IHitCounts,
+    combo: number
+): IStandardPerformance => {
+    const base = {
+        attributes,
+        mods,
+        great: hits.count_300,
+        ok: hits.count_100,
+        meh: hits.count_50,
+        miss: hits.count_miss,
+        combo: Math.max(0, Math.min(combo, attributes.max_combo)),
+        total: get_total_hits(hits),
+        accuracy: get_standard_accuracy(hits)
+    };
+
+    let effective_miss_count = get_effective_miss_count(base);
+
+    if (has_mod(mods, Mods.Relax)) {
+        // without tapping, 100s and 50s are mostly aim mistakes
+        const od = attributes.overall_difficulty;
+        const ok_multiplier = Math.max(0, od > 0 ? 1 - Math.pow(od / 13.33, 1.8) : 1);
+        const meh_multiplier = Math.max(0, od > 0 ? 1 - Math.pow(od / 13.33, 5) : 1);
+        effective_miss_count = Math.min(effective_miss_count + base.ok * ok_multiplier + base.meh * meh_multiplier, base.total);
+    }
+
+    const state: IScoreState = { ...base, effective_miss_count, speed_deviation: null };
+    state.speed_deviation = get_speed_deviation(state);
+
+    let multiplier = PERFORMANCE_BASE_MULTIPLIER;
+    if (has_mod(mods, Mods.NoFail)) {
+        multiplier *= Math.max(0.9, 1 - 0.02 * effective_miss_count);
+    }
+    if (has_mod(mods, Mods.SpunOut) && state.total > 0) {
+        multiplier *= 1 - Math.pow(attributes.spinner_count / state.total, 0.85);
+    }
+
+    const aim = compute_aim(state);
+    const speed = compute_speed(state);
+    const accuracy = compute_accuracy(state);
+    const flashlight = compute_flashlight(state);
+    const pp = Math.pow(Math.pow(aim, 1.1) + Math.pow(speed, 1.1) + Math.pow(accuracy, 1.1) + Math.pow(flashlight, 1.1), 1 / 1.1) * multiplier;
+
+    return {
+        pp,
+        aim,
+        speed,
+        accuracy,
+        flashlight,
+        difficulty: 0,
+        effective_miss_count,
+        speed_deviation: state.speed_deviation
+    };
+};
@@ -0,0 +1,27 @@
+import { lerp } from "../../math/vector2";
+
+const REDUCED_STRAIN_BASELINE = 0.75;
+const DECAY_WEIGHT = 0.9;
+
+// the hardest few sections are usually short spikes, they count less than they would in a plain weighted sum
+export const reduced_difficulty_value = (peaks: number[], reduced_section_count: number): number => {
+    const strains = peaks.filter((peak) => peak > 0).sort((a, b) => b - a);
+
+    for (let i = 0; i < Math.min(strains.length, reduced_section_count); i++) {
+        const scale = Math.log10(lerp(1, 10, Math.min(1, Math.max(0, i / reduced_section_count))));
+        strains[i] *= lerp(REDUCED_STRAIN_BASELINE, 1, scale);
+    }
+
+    strains.sort((a, b) => b - a);
+
+    let difficulty = 0;
+    let weight = 1;
+    for (const strain of strains) {
+        difficulty += strain * weight;
+        weight *= DECAY_WEIGHT;
+    }
+
+    return difficulty;
+};
+
+export const difficulty_to_performance = (difficulty: number): number => Math.pow(5 * Math.max(1, difficulty / 0.0675) - 4, 3) / 100000;
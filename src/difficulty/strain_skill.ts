@@ -0,0 +1,80 @@
+export interface IDifficultyObject {
+    readonly index: number;
+    // rate adjusted, in ms
+    readonly start_time: number;
+    readonly delta_time: number;
+    previous(backwards_index: number): IDifficultyObject | null;
+}
+
+const SECTION_LENGTH = 400;
+const DECAY_WEIGHT = 0.9;
+
+// strain is tracked per object and its peak is kept for every 400ms section of the map
+export abstract class StrainSkill<T extends IDifficultyObject> {
+    protected object_strains: number[] = [];
+    protected difficulty = 0;
+
+    private strain_peaks: number[] = [];
+    private current_section_peak = 0;
+    private current_section_end = 0;
+
+    process(current: T): void {
+        if (current.index === 0) {
+            this.current_section_end = Math.ceil(current.start_time / SECTION_LENGTH) * SECTION_LENGTH;
+        }
+
+        while (current.start_time > this.current_section_end) {
+            this.strain_peaks.push(this.current_section_peak);
+            this.current_section_peak = this.calculate_initial_strain(this.current_section_end, current);
+            this.current_section_end += SECTION_LENGTH;
+        }
+
+        const strain = this.strain_value_at(current);
+        this.object_strains.push(strain);
+        this.current_section_peak = Math.max(strain, this.current_section_peak);
+    }
+
+    get_current_strain_peaks(): number[] {
+        return [...this.strain_peaks, this.current_section_peak];
+    }
+
+    // weighted sum of the section peaks, the hardest section counts fully and every next one 10% less
+    difficulty_value(): number {
+        const peaks = this.get_current_strain_peaks()
+            .filter((peak) => peak > 0)
+            .sort((a, b) => b - a);
+
+        let difficulty = 0;
+        let weight = 1;
+        for (const peak of peaks) {
+            difficulty += peak * weight;
+            weight *= DECAY_WEIGHT;
+        }
+
+        this.difficulty = difficulty;
+        return difficulty;
+    }
+
+    // roughly how many objects are as hard as the hardest parts of the map, needs difficulty_value() first
+    count_top_weighted_strains(): number {
+        if (this.object_strains.length === 0) {
+            return 0;
+        }
+
+        const consistent_top_strain = this.difficulty / 10;
+        if (consistent_top_strain === 0) {
+            return this.object_strains.length;
+        }
+
+        let count = 0;
+        for (const strain of this.object_strains) {
+            count += 1.1 / (1 + Math.exp(-10 * (strain / consistent_top_strain - 0.88)));
+        }
+        return count;
+    }
+
+    protected abstract strain_value_at(current: T): number;
+    protected abstract calculate_initial_strain(time: number, current: T): number;
+}
+
+export const strain_decay = (base: number, ms: number): number => Math.pow(base, ms / 1000);
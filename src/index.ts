@@ -1,6 +1,21 @@
 export { BeatmapPlayer, type IPlayerOptions, type StartMode } from "./player/player";
 export { AudioEngine } from "./player/audio_engine";
 export { VideoController } from "./player/video_controller";
+export {
+    capture_beatmap_frame,
+    type CapturedFrame,
+    type FrameFormat,
+    type IFrameCaptureOptions,
+    type IBeatmapFrameOptions
+} from "./player/frame_capture";
+export {
+    has_webcodecs,
+    type ClipEncoderType,
+    type IClipEncoderCallbacks,
+    type IClipExportOptions,
+    type IClipExportResult,
+    type IClipFrameInfo
+} from "./player/clip_export";
 
 export { OszLoader, type IOszLoaderOptions } from "./parser/osz_loader";
 
@@ -15,9 +30,55 @@ export * from "./mods";
 
 export { type IRenderBackend } from "./renderer/backend/render_backend";
 export { PixiBackend } from "./renderer/backend/pixi_backend";
-export { create_backend, type BackendType } from "./renderer/backend/backend_factory";
-export { BaseRenderer, type IRendererConfig, DEFAULT_RENDERER_CONFIG, GridLevel, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT } from "./renderer/base_renderer";
+export { Canvas2DBackend } from "./renderer/backend/canvas_backend";
+export { create_backend, initialize_backend, type BackendType } from "./renderer/backend/backend_factory";
+export {
+    BaseRenderer,
+    type IRendererConfig,
+    type PlayfieldLayout,
+    DEFAULT_RENDERER_CONFIG,
+    GridLevel,
+    PLAYFIELD_WIDTH,
+    PLAYFIELD_HEIGHT,
+    calculate_playfield_layout
+} from "./renderer/base_renderer";
+export { create_renderer } from "./renderer/renderer_factory";
 export { StandardRenderer } from "./renderer/standard/standard_renderer";
+export { AutoplayCursor } from "./renderer/standard/autoplay_cursor";
+export { HudRenderer } from "./renderer/hud/hud_renderer";
+export { BreakOverlay } from "./renderer/hud/break_overlay";
+export { CountdownOverlay } from "./renderer/hud/countdown_overlay";
+export { create_screen_overlays, type IScreenOverlay } from "./renderer/hud/screen_overlays";
+export type { CursorState, CursorTrailPoint } from "./renderer/standard/cursor_renderer";
+export { get_spinner_state, type SpinnerState } from "./renderer/standard/spinner_renderer";
 export { ManiaRenderer } from "./renderer/mania/mania_renderer";
+export { ManiaScroll, get_scroll_time } from "./renderer/mania/mania_scroll";
+export { DEFAULT_MANIA_SETTINGS, type IManiaSettings, type ManiaScrollAlgorithm, type ManiaScrollDirection } from "./renderer/mania/mania_settings";
+export { TaikoRenderer } from "./renderer/taiko/taiko_renderer";
+export { CatchRenderer } from "./renderer/catch/catch_renderer";
+
+export { get_break_periods, find_break_at, has_break_effect, MIN_BREAK_DURATION } from "./beatmap/breaks";
+export { get_countdown_events, get_lead_in, type CountdownCue, type ICountdownEvent } from "./beatmap/countdown";
+export { SNAP_DIVISORS, UNSNAPPED, SnapResolver, get_snap_divisor, get_snap_colour } from "./beatmap/snap";
+
+export * from "./storyboard/storyboard_types";
+export { parse_storyboard } from "./storyboard/storyboard_parser";
+export { StoryboardRenderer } from "./storyboard/storyboard_renderer";
+export { load_storyboard_images, type LoadedStoryboardImages } from "./storyboard/storyboard_assets";
+
+export * from "./replay/replay_types";
+export { parse_replay, parse_replay_frames } from "./replay/replay_parser";
+export { decompress_lzma } from "./replay/lzma";
+export { find_frame_index, get_replay_position, get_replay_keys } from "./replay/replay_frames";
+
+export * from "./scoring/scoring_types";
+export { simulate_score, get_score_state_at, find_judgement_index, type IScoreOptions } from "./scoring/scoring";
+export { get_hit_windows } from "./scoring/hit_windows";
+export { create_autoplay_frames } from "./scoring/autoplay_frames";
+
+export { calculate_standard_difficulty, type IStandardDifficultyAttributes } from "./difficulty/standard/standard_difficulty";
+export { calculate_mania_difficulty, type IManiaDifficultyAttributes } from "./difficulty/mania/mania_difficulty";
+export { calculate_pp, type IPerformanceOptions, type IPerformanceResult } from "./difficulty/performance";
+export { create_hit_counts, type IHitCounts, type IPerformanceBreakdown } from "./difficulty/performance_types";
 
 export { resolve_runtime_asset_url } from "./assets/assets";
@@ -6,6 +6,9 @@ export interface IDifficultyRange {
 
 export const PREEMPT_RANGE: IDifficultyRange = { min: 1800, mid: 1200, max: 450 };
 export const PREEMPT_MIN = 450;
+export const HIT_WINDOW_GREAT_RANGE: IDifficultyRange = { min: 80, mid: 50, max: 20 };
+export const HIT_WINDOW_OK_RANGE: IDifficultyRange = { min: 140, mid: 100, max: 60 };
+export const HIT_WINDOW_MEH_RANGE: IDifficultyRange = { min: 200, mid: 150, max: 100 };
 
 export const difficulty_range = (difficulty: number, range: IDifficultyRange): number => {
     if (difficulty > 5) {
@@ -24,6 +27,7 @@ export const inverse_difficulty_range = (value: number, range: IDifficultyRange)
 };
 
 export const calculate_preempt = (ar: number): number => difficulty_range(ar, PREEMPT_RANGE);
+export const calculate_hit_window_great = (od: number): number => difficulty_range(od, HIT_WINDOW_GREAT_RANGE);
 export const calculate_fade_in = (preempt: number): number => 400 * Math.min(1, preempt / PREEMPT_MIN);
 
 export const calculate_scale = (cs: number): number => {
@@ -0,0 +1,54 @@
+// xorshift generator used by osu!stable, needed wherever converted positions must match the game
+const INT_MASK = 0x7fffffff;
+const INT_TO_REAL = 1 / (INT_MASK + 1);
+
+export class LegacyRandom {
+    private x: number;
+    private y = 842502087;
+    private z = 3579807591;
+    private w = 273326509;
+    private bit_buffer = 0;
+    private bit_index = 32;
+
+    constructor(seed: number) {
+        this.x = seed >>> 0;
+    }
+
+    next_uint(): number {
+        const t = (this.x ^ (this.x << 11)) >>> 0;
+        this.x = this.y;
+        this.y = this.z;
+        this.z = this.w;
+        this.w = (this.w ^ (this.w >>> 19) ^ t ^ (t >>> 8)) >>> 0;
+        return this.w;
+    }
+
+    next(): number {
+        return INT_MASK & this.next_uint();
+    }
+
+    next_double(): number {
+        return INT_TO_REAL * this.next();
+    }
+
+    next_range(lower: number, upper: number): number {
+        return Math.trunc(lower + this.next_double() * (upper - lower));
+    }
+
+    // the double overload, no truncation
+    next_double_range(lower: number, upper: number): number {
+        return lower + this.next_double() * (upper - lower);
+    }
+
+    next_bool(): boolean {
+        if (this.bit_index === 32) {
+            this.bit_buffer = this.next_uint();
+            this.bit_index = 1;
+            return (this.bit_buffer & 1) === 1;
+        }
+
+        this.bit_index++;
+        this.bit_buffer = this.bit_buffer >>> 1;
+        return (this.bit_buffer & 1) === 1;
+    }
+}
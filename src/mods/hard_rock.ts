@@ -1,9 +1,10 @@
-import type { IMod, IApplicableToDifficulty, IBeatmapDifficulty } from "./types";
+import type { IMod, IApplicableToDifficulty, IApplicableToPosition, IBeatmapDifficulty } from "./types";
+import type { Vec2 } from "../math/vector2";
 
 const ADJUST_RATIO = 1.4;
 const CS_RATIO = 1.3;
 
-export const ModHardRock: IMod & IApplicableToDifficulty = {
+export const ModHardRock: IMod & IApplicableToDifficulty & IApplicableToPosition = {
     name: "Hard Rock",
     acronym: "HR",
 
@@ -12,5 +13,9 @@ export const ModHardRock: IMod & IApplicableToDifficulty = {
         d.ar = Math.min(d.ar * ADJUST_RATIO, 10);
         d.od = Math.min(d.od * ADJUST_RATIO, 10);
         d.hp = Math.min(d.hp * ADJUST_RATIO, 10);
+    },
+
+    apply_to_position(position: Vec2): Vec2 {
+        return [position[0], 384 - position[1]];
     }
 };
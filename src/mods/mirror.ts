@@ -0,0 +1,18 @@
+import type { IMod, IApplicableToPosition } from "./types";
+import type { Vec2 } from "../math/vector2";
+
+export type MirrorAxis = "horizontal" | "vertical" | "both";
+
+// horizontal flips left and right, like lazer's default
+export const create_mod_mirror = (axis: MirrorAxis = "horizontal"): IMod & IApplicableToPosition => ({
+    name: "Mirror",
+    acronym: "MR",
+
+    apply_to_position(position: Vec2): Vec2 {
+        const x = axis === "vertical" ? position[0] : 512 - position[0];
+        const y = axis === "horizontal" ? position[1] : 384 - position[1];
+        return [x, y];
+    }
+});
+
+export const ModMirror = create_mod_mirror();
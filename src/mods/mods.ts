@@ -1,9 +1,11 @@
-import type { IBeatmapDifficulty } from "./types";
-export type { IMod, IApplicableToDifficulty, IApplicableToRate, IBeatmapDifficulty } from "./types";
+import type { IApplicableToPosition, IBeatmapDifficulty } from "./types";
+export type { IMod, IApplicableToDifficulty, IApplicableToPosition, IApplicableToRate, IBeatmapDifficulty } from "./types";
 
 import { Mods } from "../types/mods";
 import { ModHardRock } from "./hard_rock";
 import { ModEasy } from "./easy";
+import { create_mod_mirror, type MirrorAxis } from "./mirror";
+import type { Vec2 } from "../math/vector2";
 import { calculate_preempt, inverse_difficulty_range, PREEMPT_RANGE } from "../math/difficulty";
 
 export { ModHardRock } from "./hard_rock";
@@ -11,6 +13,7 @@ export { ModEasy } from "./easy";
 export { ModDoubleTime, ModNightcore } from "./double_time";
 export { ModHalfTime } from "./half_time";
 export { ModHidden, HD_FADE_IN_MULTIPLIER, HD_FADE_OUT_MULTIPLIER } from "./hidden";
+export { ModMirror, create_mod_mirror, type MirrorAxis } from "./mirror";
 
 export const get_rate_multiplier = (mods: number): number => {
     if (mods & (Mods.DoubleTime | Mods.Nightcore)) {
@@ -27,6 +30,18 @@ export const apply_mods_to_difficulty = (difficulty: IBeatmapDifficulty, mods: n
     if (mods & Mods.HardRock) ModHardRock.apply_to_difficulty(difficulty);
 };
 
+// hard rock and mirror together stack their flips, null when nothing moves
+export const get_position_transform = (mods: number, mirror_axis: MirrorAxis = "horizontal"): ((position: Vec2) => Vec2) | null => {
+    const applied: IApplicableToPosition[] = [];
+    if (mods & Mods.HardRock) applied.push(ModHardRock);
+    if (mods & Mods.Mirror) applied.push(create_mod_mirror(mirror_axis));
+
+    if (applied.length === 0) {
+        return null;
+    }
+    return (position) => applied.reduce((result, mod) => mod.apply_to_position(result), position);
+};
+
 export const apply_rate_to_ar = (ar: number, rate: number): number => {
     if (rate === 1.0) return ar;
 
@@ -1,3 +1,5 @@
+import type { Vec2 } from "../math/vector2";
+
 export interface IBeatmapDifficulty {
     cs: number;
     ar: number;
@@ -9,6 +11,11 @@ export interface IApplicableToDifficulty {
     apply_to_difficulty(difficulty: IBeatmapDifficulty): void;
 }
 
+// playfield positions, in osu pixels
+export interface IApplicableToPosition {
+    apply_to_position(position: Vec2): Vec2;
+}
+
 export interface IApplicableToRate {
     get_rate_multiplier(): number;
 }
@@ -1,6 +1,9 @@
 import type { IBeatmap } from "../types/beatmap";
 import type { IBeatmapResources } from "../types/resources";
+import type { IStoryboard } from "../storyboard/storyboard_types";
 import { init_wasm, parse as wasm_parse } from "@rel-packages/osu-beatmap-parser/browser";
+import { parse_storyboard } from "../storyboard/storyboard_parser";
+import { get_break_periods } from "../beatmap/breaks";
 
 import JSZip from "jszip";
 
@@ -91,20 +94,38 @@ export class OszLoader {
             }
         }
 
+        const storyboard = this.load_storyboard(files, osu_bytes, beatmap);
+
         return {
             beatmap,
             available_difficulties,
             files: array_buffer_files,
+            breaks: get_break_periods(beatmap),
             audio,
             background,
             video,
             audio_filename: audio_filename ?? undefined,
             background_filename: background_filename ?? undefined,
             video_filename: video_filename ?? undefined,
-            video_offset: video_filename ? video_offset : undefined
+            video_offset: video_filename ? video_offset : undefined,
+            storyboard: storyboard.sprites.length > 0 ? storyboard : undefined
         };
     }
 
+    private load_storyboard(files: Map<string, ArrayBuffer | string>, osu_bytes: Uint8Array, beatmap: IBeatmap): IStoryboard {
+        const decoder = new TextDecoder();
+        const sources: string[] = [];
+
+        for (const [name, content] of files) {
+            if (name.toLowerCase().endsWith(".osb")) {
+                sources.push(typeof content === "string" ? content : decoder.decode(content));
+            }
+        }
+
+        sources.push(decoder.decode(osu_bytes));
+        return parse_storyboard(sources, Boolean(beatmap.General.WidescreenStoryboard));
+    }
+
     async list_difficulties(data: ArrayBuffer): Promise<string[]> {
         const zip = await JSZip.loadAsync(data);
         const osu_files: string[] = [];
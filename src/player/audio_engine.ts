@@ -266,6 +266,19 @@ class MusicPlayer {
         }
     }
 
+    // offline rendering needs the whole track, large files only kept the media element so decode it again
+    async get_buffer(context: BaseAudioContext): Promise<AudioBuffer | null> {
+        if (this.decoded_buffer) {
+            return this.decoded_buffer;
+        }
+        if (!this.media_url) {
+            return null;
+        }
+
+        const response = await fetch(this.media_url);
+        return context.decodeAudioData(await response.arrayBuffer());
+    }
+
     dispose(): void {
         this.stop();
         this.release_media();
@@ -475,11 +488,13 @@ class MusicPlayer {
 }
 
 class HitsoundMixer {
-    private audio_context: AudioContext;
+    private audio_context: BaseAudioContext;
     private gain_node: GainNode;
     private custom_samples: Map<HitsoundKey, AudioBuffer> = new Map();
+    // slider and spinner loops, stopped early on pause/seek
+    private active_loops: Set<AudioBufferSourceNode> = new Set();
 
-    constructor(context: AudioContext) {
+    constructor(context: BaseAudioContext) {
         this.audio_context = context;
         this.gain_node = this.audio_context.createGain();
         this.gain_node.connect(this.audio_context.destination);
@@ -489,6 +504,19 @@ class HitsoundMixer {
         this.gain_node.gain.value = clamp(volume, 0, 1);
     }
 
+    // same samples and volume on another context (e.g. an OfflineAudioContext), buffers are shared not copied
+    fork(context: BaseAudioContext): HitsoundMixer {
+        const mixer = new HitsoundMixer(context);
+        mixer.custom_samples = this.custom_samples;
+        mixer.gain_node.gain.value = this.gain_node.gain.value;
+        return mixer;
+    }
+
+    // forks must not clear the samples they share with the original
+    detach(): void {
+        this.gain_node.disconnect();
+    }
+
     async load_samples(urls: string[]): Promise<void> {
         this.custom_samples.clear();
         await this.load_into_cache(urls, this.custom_samples);
@@ -545,12 +573,48 @@ class HitsoundMixer {
         return this.play_buffer(key, volume, when);
     }
 
+    play_sample_loop(set: SampleSet, sample_name: string, index: number, volume: number, when: number, until: number): boolean {
+        for (const key of this.get_sound_keys(this.get_set_name(set), sample_name, index)) {
+            if (this.start_loop(key, volume, when, until)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // rates ramp the playback rate linearly from one point to the next
+    play_custom_loop(sample_key: string, volume: number, when: number, until: number, rates: { when: number; rate: number }[] = []): boolean {
+        const source = this.start_loop(sample_key.toLowerCase(), volume, when, until);
+        if (!source) {
+            return false;
+        }
+
+        for (let i = 0; i < rates.length; i++) {
+            if (i == 0) {
+                source.playbackRate.setValueAtTime(rates[i].rate, Math.max(when, rates[i].when));
+            } else {
+                source.playbackRate.linearRampToValueAtTime(rates[i].rate, rates[i].when);
+            }
+        }
+        return true;
+    }
+
+    stop_loops(): void {
+        for (const source of this.active_loops) {
+            try {
+                source.stop();
+            } catch {}
+        }
+        this.active_loops.clear();
+    }
+
     dispose(): void {
+        this.stop_loops();
         this.custom_samples.clear();
         this.gain_node.disconnect();
     }
 
-    private play_sound(set: string, type: string, index: number, volume: number, when: number): void {
+    private get_sound_keys(set: string, type: string, index: number): HitsoundKey[] {
         const keys: HitsoundKey[] = [];
 
         if (index > 1) {
@@ -565,13 +629,45 @@ class HitsoundMixer {
             keys.push(`normal-${type}`);
         }
 
-        for (const key of keys) {
+        return keys;
+    }
+
+    private play_sound(set: string, type: string, index: number, volume: number, when: number): void {
+        for (const key of this.get_sound_keys(set, type, index)) {
             if (this.play_buffer(key, volume, when)) {
                 return;
             }
         }
     }
 
+    private start_loop(key: HitsoundKey, volume: number, when: number, until: number): AudioBufferSourceNode | null {
+        const buffer = this.custom_samples.get(key);
+        if (!buffer || until <= when) {
+            return null;
+        }
+
+        const source = this.audio_context.createBufferSource();
+        source.buffer = buffer;
+        source.loop = true;
+
+        const gain = this.audio_context.createGain();
+        gain.gain.value = volume / 100;
+
+        source.connect(gain);
+        gain.connect(this.gain_node);
+
+        source.onended = () => {
+            this.active_loops.delete(source);
+            source.disconnect();
+            gain.disconnect();
+        };
+
+        source.start(when);
+        source.stop(until);
+        this.active_loops.add(source);
+        return source;
+    }
+
     private play_buffer(key: HitsoundKey, volume: number, when: number): boolean {
         const buffer = this.custom_samples.get(key);
         if (!buffer) {
@@ -793,6 +889,14 @@ export class AudioEngine {
         this.hitsound_mixer.set_volume(volume);
     }
 
+    async get_music_buffer(context: BaseAudioContext): Promise<AudioBuffer | null> {
+        return this.music_player.get_buffer(context);
+    }
+
+    fork_hitsounds(context: BaseAudioContext): HitsoundMixer {
+        return this.hitsound_mixer.fork(context);
+    }
+
     async load_hitsounds(urls: string[]): Promise<void> {
         await this.hitsound_mixer.load_samples(urls);
     }
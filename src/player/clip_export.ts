@@ -0,0 +1,314 @@
+import type { ITimingPoint } from "../types/beatmap";
+import type { IBeatmapResources } from "../types/resources";
+import { type Result, ErrorCode, ok, err } from "../types/result";
+import type { TimingStateResolver } from "../renderer/standard/timing_state";
+import type { AudioEngine } from "./audio_engine";
+import type { FrameSession } from "./frame_capture";
+import { PlayerHitsoundScheduler } from "./player_hitsound";
+import type { IJudgement } from "../scoring/scoring_types";
+
+export type ClipEncoderType = "auto" | "webcodecs" | "raw";
+
+export interface IClipFrameInfo {
+    index: number;
+    // beatmap time the frame was rendered at
+    time: number;
+    // microseconds from the start of the clip, same unit as webcodecs
+    timestamp: number;
+    duration: number;
+}
+
+export interface IClipEncoderCallbacks {
+    // webcodecs output, ready to be muxed into a container
+    on_video_chunk?: (chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) => void;
+    on_audio_chunk?: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void;
+    // raw output, the receiver owns (and has to close) every bitmap
+    on_frame?: (frame: ImageBitmap, info: IClipFrameInfo) => void | Promise<void>;
+    on_audio?: (buffer: AudioBuffer) => void | Promise<void>;
+    on_progress?: (progress: number) => void;
+}
+
+export interface IClipExportOptions extends IClipEncoderCallbacks {
+    start: number;
+    end: number;
+    fps?: number;
+    width?: number;
+    height?: number;
+    encoder?: ClipEncoderType;
+    video_codec?: string;
+    video_bitrate?: number;
+    audio_codec?: string;
+    audio_bitrate?: number;
+    sample_rate?: number;
+    include_audio?: boolean;
+}
+
+export interface IClipExportResult {
+    encoder: Exclude<ClipEncoderType, "auto">;
+    frame_count: number;
+    // length of the clip in real time, rate mods make it differ from end - start
+    duration: number;
+    audio: AudioBuffer | null;
+}
+
+export interface IClipAudioSource {
+    audio: AudioEngine;
+    resources: IBeatmapResources;
+    timing_points: ITimingPoint[];
+    timing_resolver: TimingStateResolver | null;
+    audio_offset: number;
+    rate: number;
+    nightcore: boolean;
+    music_volume: number;
+    // drive the spinnerspin pitch and spinnerbonus samples like in playback
+    judgements: IJudgement[] | null;
+    od: number;
+}
+
+export const DEFAULT_CLIP_WIDTH = 1280;
+export const DEFAULT_CLIP_HEIGHT = 720;
+export const DEFAULT_CLIP_FPS = 60;
+
+const DEFAULT_VIDEO_CODEC = "vp8";
+const DEFAULT_AUDIO_CODEC = "opus";
+const DEFAULT_VIDEO_BITRATE = 5_000_000;
+const DEFAULT_AUDIO_BITRATE = 128_000;
+const DEFAULT_SAMPLE_RATE = 48_000;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+export const has_webcodecs = (): boolean => typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+
+// most codecs reject odd dimensions
+export const get_clip_size = (width: number | undefined, height: number | undefined): { width: number; height: number } => ({
+    width: Math.max(2, Math.round((width ?? DEFAULT_CLIP_WIDTH) / 2) * 2),
+    height: Math.max(2, Math.round((height ?? DEFAULT_CLIP_HEIGHT) / 2) * 2)
+});
+
+// frames are spaced in real time, so under dt every frame advances the beatmap by rate / fps seconds
+export const get_clip_frame_times = (start: number, end: number, fps: number, rate: number): number[] => {
+    const duration = Math.max(0, end - start) / rate;
+    const count = Math.max(1, Math.ceil((duration / 1000) * fps));
+    const times: number[] = new Array(count);
+
+    for (let i = 0; i < count; i++) {
+        times[i] = start + ((i * 1000) / fps) * rate;
+    }
+
+    return times;
+};
+
+const yield_to_encoder = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+// a single pass with the whole clip as lookahead schedules every sample up front
+export const schedule_clip_hitsounds = (scheduler: PlayerHitsoundScheduler, source: IClipAudioSource, start: number, end: number): void => {
+    scheduler.set_nightcore_enabled(source.nightcore);
+    scheduler.set_context(source.resources, source.timing_points, source.timing_resolver, source.audio_offset);
+    scheduler.set_judgements(source.judgements, source.od);
+    scheduler.set_hitsound_lookahead(end - start);
+    scheduler.update_hit_index(start);
+    scheduler.schedule_hitsounds(start);
+};
+
+export const render_clip_audio = async (source: IClipAudioSource, start: number, end: number, sample_rate: number): Promise<AudioBuffer> => {
+    const rate = Math.max(0.1, source.rate);
+    const length = Math.max(1, Math.ceil(((end - start) / rate / 1000) * sample_rate));
+    const context = new OfflineAudioContext(2, length, sample_rate);
+    const track_start = start + source.audio_offset;
+
+    const music = await source.audio.get_music_buffer(context);
+    if (music) {
+        const gain = context.createGain();
+        gain.gain.value = source.music_volume;
+        gain.connect(context.destination);
+
+        // playbackRate shifts pitch, an offline context has no pitch preserving stretch
+        const node = context.createBufferSource();
+        node.buffer = music;
+        node.playbackRate.value = rate;
+        node.connect(gain);
+        node.start(Math.max(0, -track_start / 1000 / rate), Math.max(0, track_start / 1000));
+    }
+
+    const mixer = source.audio.fork_hitsounds(context);
+    const scheduler = new PlayerHitsoundScheduler({ get_host_time: (time_ms) => Math.max(0, (time_ms - track_start) / 1000 / rate) }, mixer);
+
+    schedule_clip_hitsounds(scheduler, source, start, end);
+
+    try {
+        return await context.startRendering();
+    } finally {
+        mixer.detach();
+    }
+};
+
+const encode_audio = async (buffer: AudioBuffer, options: IClipExportOptions): Promise<void> => {
+    const on_chunk = options.on_audio_chunk;
+    if (!on_chunk || typeof AudioEncoder === "undefined") {
+        return;
+    }
+
+    const config: AudioEncoderConfig = {
+        codec: options.audio_codec ?? DEFAULT_AUDIO_CODEC,
+        sampleRate: buffer.sampleRate,
+        numberOfChannels: buffer.numberOfChannels,
+        bitrate: options.audio_bitrate ?? DEFAULT_AUDIO_BITRATE
+    };
+
+    const support = await AudioEncoder.isConfigSupported(config);
+    if (!support.supported) {
+        console.warn(`[ClipExport] Audio codec ${config.codec} is not supported`);
+        return;
+    }
+
+    let failure: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => on_chunk(chunk, metadata),
+        error: (error) => (failure = error)
+    });
+    encoder.configure(config);
+
+    // one second per AudioData keeps the copies small
+    const channels = buffer.numberOfChannels;
+    const step = buffer.sampleRate;
+
+    for (let offset = 0; offset < buffer.length && !failure; offset += step) {
+        const frames = Math.min(step, buffer.length - offset);
+        const data = new Float32Array(frames * channels);
+        for (let channel = 0; channel < channels; channel++) {
+            data.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+        }
+
+        const audio_data = new AudioData({
+            format: "f32-planar",
+            sampleRate: buffer.sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: channels,
+            timestamp: Math.round((offset * 1_000_000) / buffer.sampleRate),
+            data
+        });
+        encoder.encode(audio_data);
+        audio_data.close();
+    }
+
+    await encoder.flush();
+    encoder.close();
+
+    if (failure) {
+        throw failure;
+    }
+};
+
+const encode_video = async (session: FrameSession, times: number[], fps: number, options: IClipExportOptions): Promise<void> => {
+    const on_chunk = options.on_video_chunk;
+    const config: VideoEncoderConfig = {
+        codec: options.video_codec ?? DEFAULT_VIDEO_CODEC,
+        width: session.canvas.width,
+        height: session.canvas.height,
+        bitrate: options.video_bitrate ?? DEFAULT_VIDEO_BITRATE,
+        framerate: fps
+    };
+
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (!support.supported) {
+        throw new Error(`Video codec ${config.codec} is not supported`);
+    }
+
+    let failure: Error | null = null;
+    const encoder = new VideoEncoder({
+        output: (chunk, metadata) => on_chunk?.(chunk, metadata),
+        error: (error) => (failure = error)
+    });
+    encoder.configure(config);
+
+    const frame_duration = Math.round(1_000_000 / fps);
+    const keyframe_interval = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS));
+
+    for (let i = 0; i < times.length && !failure; i++) {
+        await session.prepare(times[i]);
+        session.render(times[i]);
+
+        const frame = new VideoFrame(session.canvas, { timestamp: Math.round((i * 1_000_000) / fps), duration: frame_duration });
+        encoder.encode(frame, { keyFrame: i % keyframe_interval === 0 });
+        frame.close();
+
+        options.on_progress?.((i + 1) / times.length);
+        while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+            await yield_to_encoder();
+        }
+    }
+
+    await encoder.flush();
+    encoder.close();
+
+    if (failure) {
+        throw failure;
+    }
+};
+
+const emit_raw_frames = async (session: FrameSession, times: number[], fps: number, options: IClipExportOptions): Promise<void> => {
+    const frame_duration = Math.round(1_000_000 / fps);
+
+    for (let i = 0; i < times.length; i++) {
+        await session.prepare(times[i]);
+        session.render(times[i]);
+
+        if (options.on_frame) {
+            const bitmap = await createImageBitmap(session.canvas);
+            await options.on_frame(bitmap, {
+                index: i,
+                time: times[i],
+                timestamp: Math.round((i * 1_000_000) / fps),
+                duration: frame_duration
+            });
+        }
+
+        options.on_progress?.((i + 1) / times.length);
+    }
+};
+
+// steps the session frame by frame instead of following requestAnimationFrame, so every export of a range is identical
+export const export_clip = async (
+    session: FrameSession,
+    audio_source: IClipAudioSource | null,
+    rate: number,
+    options: IClipExportOptions
+): Promise<Result<IClipExportResult>> => {
+    if (!Number.isFinite(options.start) || !Number.isFinite(options.end) || options.end <= options.start) {
+        return err(ErrorCode.Unknown, "Clip end has to be after its start");
+    }
+
+    const requested = options.encoder ?? "auto";
+    if (requested === "webcodecs" && !has_webcodecs()) {
+        return err(ErrorCode.Unknown, "WebCodecs is not available");
+    }
+
+    const encoder = requested === "raw" || !has_webcodecs() ? "raw" : "webcodecs";
+    const fps = Math.max(1, options.fps ?? DEFAULT_CLIP_FPS);
+    const times = get_clip_frame_times(options.start, options.end, fps, Math.max(0.1, rate));
+
+    try {
+        let audio: AudioBuffer | null = null;
+        if (audio_source && options.include_audio !== false) {
+            audio = await render_clip_audio(audio_source, options.start, options.end, options.sample_rate ?? DEFAULT_SAMPLE_RATE);
+        }
+
+        if (encoder === "webcodecs") {
+            await encode_video(session, times, fps, options);
+            if (audio) {
+                await encode_audio(audio, options);
+            }
+        } else {
+            await emit_raw_frames(session, times, fps, options);
+        }
+
+        if (audio) {
+            await options.on_audio?.(audio);
+        }
+
+        return ok({ encoder, frame_count: times.length, duration: (times.length * 1000) / fps, audio });
+    } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        return err(ErrorCode.Unknown, reason);
+    }
+};
@@ -0,0 +1,236 @@
+import type { IBeatmap } from "../types/beatmap";
+import { type Result, ErrorCode, ok, err } from "../types/result";
+import type { RenderImage } from "../renderer/backend/render_backend";
+import { create_backend, initialize_backend, type BackendType } from "../renderer/backend/backend_factory";
+import { type BaseRenderer, DEFAULT_RENDERER_CONFIG, calculate_playfield_layout, type IRendererConfig } from "../renderer/base_renderer";
+import { create_renderer } from "../renderer/renderer_factory";
+import { create_raster_canvas, type RasterCanvas } from "../renderer/backend/slider_raster";
+import { type ISkinConfig, get_beatmap_skin, merge_skin } from "../skin/skin_config";
+import type { StandardSkinElements } from "../skin/skin_elements";
+import type { StoryboardRenderer } from "../storyboard/storyboard_renderer";
+import type { IReplay } from "../replay/replay_types";
+import type { IScoreSimulation } from "../scoring/scoring_types";
+import { ManiaRenderer } from "../renderer/mania/mania_renderer";
+import type { IManiaSettings } from "../renderer/mania/mania_settings";
+import { create_screen_overlays, type IScreenOverlay } from "../renderer/hud/screen_overlays";
+import { simulate_score } from "../scoring/scoring";
+import { get_break_periods } from "../beatmap/breaks";
+import { get_countdown_events } from "../beatmap/countdown";
+import { process_timing_points } from "../beatmap/timing";
+import { VideoController } from "./video_controller";
+
+export type FrameFormat = "png" | "webp" | "bitmap";
+
+export type CapturedFrame = Blob | ImageBitmap;
+
+export interface IFrameCaptureOptions {
+    width?: number;
+    height?: number;
+    format?: FrameFormat;
+    // encoder quality for webp, between 0 and 1
+    quality?: number;
+}
+
+export interface IBeatmapFrameOptions extends IFrameCaptureOptions {
+    mods?: number;
+    skin?: ISkinConfig;
+    skin_elements?: StandardSkinElements | null;
+    ignore_beatmap_colours?: boolean;
+    mania_settings?: Partial<IManiaSettings>;
+    renderer_config?: Partial<IRendererConfig>;
+    playfield_scale?: number;
+    background?: RenderImage | Blob | null;
+    storyboard?: StoryboardRenderer | null;
+    replay?: IReplay | null;
+    // judgements for the spinners, missed circles and hud, simulated from the replay or autoplay when missing
+    score?: IScoreSimulation | null;
+    // break overlay, countdown and hud, built from the beatmap when missing, an empty list draws none
+    overlays?: IScreenOverlay[];
+    // drawn behind the playfield from video_offset on, renderer_config.show_video turns it off
+    video?: Blob | null;
+    video_offset?: number;
+    // webgl contexts are a scarce resource, so thumbnails default to the canvas backend
+    backend_type?: BackendType;
+}
+
+const DEFAULT_CAPTURE_WIDTH = 640;
+const DEFAULT_CAPTURE_HEIGHT = 480;
+
+export const encode_canvas = async (canvas: RasterCanvas, format: FrameFormat = "png", quality?: number): Promise<CapturedFrame> => {
+    if (format === "bitmap") {
+        return createImageBitmap(canvas);
+    }
+
+    const type = format === "webp" ? "image/webp" : "image/png";
+    if ("convertToBlob" in canvas) {
+        return canvas.convertToBlob({ type, quality });
+    }
+
+    return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode frame"))), type, quality);
+    });
+};
+
+// copies whatever is on the source canvas into a new canvas of the requested size
+export const copy_canvas = (source: CanvasImageSource & { width: number; height: number }, width: number, height: number): RasterCanvas | null => {
+    const canvas = create_raster_canvas(width, height);
+    const ctx = canvas?.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+    if (!canvas || !ctx) {
+        return null;
+    }
+
+    ctx.drawImage(source, 0, 0, source.width, source.height, 0, 0, width, height);
+    return canvas;
+};
+
+const load_background = async (background: RenderImage | Blob | null | undefined): Promise<RenderImage | null> => {
+    if (!background) {
+        return null;
+    }
+    if (!(background instanceof Blob)) {
+        return background;
+    }
+
+    const bitmap = await createImageBitmap(background);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height };
+};
+
+export type FrameSession = {
+    canvas: RasterCanvas;
+    // has to finish before render draws the video frame for time
+    prepare: (time: number) => Promise<void>;
+    render: (time: number) => void;
+    dispose: () => void;
+};
+
+// the score the player would show for the replay, or autoplay without one
+const simulate_session_score = (beatmap: IBeatmap, mods: number, replay: IReplay | null, config: IRendererConfig): IScoreSimulation | null => {
+    const score = simulate_score({ beatmap, mods, frames: replay?.frames ?? null, mirror_axis: config.mirror_axis });
+    if (!score.success) {
+        console.warn("[FrameCapture] Failed to simulate score", score.reason);
+        return null;
+    }
+    return score.data;
+};
+
+// the same overlays the player draws, for a beatmap without a player
+const create_beatmap_overlays = (
+    beatmap: IBeatmap,
+    skin: ISkinConfig,
+    elements: StandardSkinElements | null,
+    score: IScoreSimulation | null
+): IScreenOverlay[] => {
+    const countdown = get_countdown_events(beatmap, process_timing_points([...beatmap.TimingPoints]));
+    return create_screen_overlays(skin, elements, get_break_periods(beatmap), countdown, score);
+};
+
+const load_video = async (data: Blob, offset: number): Promise<VideoController | null> => {
+    const video = new VideoController();
+    try {
+        await video.load(data, offset);
+        return video;
+    } catch (e) {
+        console.warn("[FrameCapture] Failed to load video", e);
+        video.dispose();
+        return null;
+    }
+};
+
+// an offscreen renderer that can draw any number of frames, it never touches a player
+export const create_frame_session = async (beatmap: IBeatmap, options: IBeatmapFrameOptions = {}): Promise<FrameSession> => {
+    const width = Math.max(1, Math.round(options.width ?? DEFAULT_CAPTURE_WIDTH));
+    const height = Math.max(1, Math.round(options.height ?? DEFAULT_CAPTURE_HEIGHT));
+    const canvas = create_raster_canvas(width, height);
+    if (!canvas) {
+        throw new Error("No canvas implementation available");
+    }
+
+    const backend_type = options.backend_type ?? "canvas";
+    let backend = create_backend(backend_type);
+    let renderer: BaseRenderer | null = null;
+    let video: VideoController | null = null;
+    let overlays: IScreenOverlay[] = [];
+    const layout = calculate_playfield_layout(width, height, options.playfield_scale);
+    const config: IRendererConfig = { ...DEFAULT_RENDERER_CONFIG, ...options.renderer_config, ...layout };
+
+    try {
+        backend = await initialize_backend(backend, backend_type, canvas, false);
+        backend.resize(width, height);
+
+        const skin = options.skin ?? merge_skin();
+        const mods = options.mods ?? 0;
+        const skin_elements = options.skin_elements ?? null;
+        renderer = create_renderer(
+            beatmap,
+            backend,
+            get_beatmap_skin(skin, beatmap, options.ignore_beatmap_colours ?? false),
+            mods,
+            config,
+            skin_elements
+        );
+        if (options.mania_settings && renderer instanceof ManiaRenderer) {
+            renderer.set_mania_settings(options.mania_settings);
+        }
+        renderer.initialize(beatmap);
+        renderer.set_background(await load_background(options.background));
+        renderer.set_storyboard(options.storyboard ?? null);
+        renderer.set_replay(options.replay ?? null);
+
+        const score = options.score !== undefined ? options.score : simulate_session_score(beatmap, mods, options.replay ?? null, config);
+        renderer.set_judgements(score?.judgements ?? null);
+        overlays = options.overlays ?? create_beatmap_overlays(beatmap, skin, skin_elements, score);
+
+        video = options.video && config.show_video ? await load_video(options.video, options.video_offset ?? 0) : null;
+        const element = video?.element;
+        if (video && element) {
+            renderer.set_background_video({ source: element, width: element.videoWidth, height: element.videoHeight }, video.offset);
+        }
+    } catch (e) {
+        video?.dispose();
+        renderer?.dispose();
+        backend.dispose();
+        throw e;
+    }
+
+    const session_backend = backend;
+    const session_renderer = renderer;
+    const session_video = video;
+
+    return {
+        canvas,
+        prepare: async (time: number) => {
+            await session_video?.seek_to_frame(time);
+        },
+        render: (time: number) => {
+            session_backend.begin_frame?.();
+            session_backend.clear();
+            session_renderer.render(time);
+            for (const overlay of overlays) {
+                overlay.render(session_backend, time, config);
+            }
+            session_backend.end_frame?.();
+        },
+        dispose: () => {
+            session_video?.dispose();
+            session_renderer.dispose();
+            session_backend.dispose();
+        }
+    };
+};
+
+// renders a single frame of a beatmap with its overlays, without a player, audio or a visible canvas
+export const capture_beatmap_frame = async (beatmap: IBeatmap, time: number, options: IBeatmapFrameOptions = {}): Promise<Result<CapturedFrame>> => {
+    let session: FrameSession | null = null;
+
+    try {
+        session = await create_frame_session(beatmap, options);
+        await session.prepare(time);
+        session.render(time);
+        return ok(await encode_canvas(session.canvas, options.format, options.quality));
+    } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        return err(ErrorCode.Unknown, reason);
+    } finally {
+        session?.dispose();
+    }
+};
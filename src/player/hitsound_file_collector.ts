@@ -5,6 +5,8 @@ const DEFAULT_HITSOUND_SETS = new Set(["normal", "soft", "drum"]);
 const DEFAULT_HITSOUND_TYPES = new Set(["hitnormal", "hitwhistle", "hitfinish", "hitclap", "slidertick", "sliderslide", "sliderwhistle"]);
 const NIGHTCORE_TYPES = new Set(["hat", "clap", "kick", "finish"]);
 const NIGHTCORE_PREFIX = "nightcore-";
+const COUNTDOWN_SAMPLES = new Set(["readys", "count3s", "count2s", "count1s", "gos"]);
+const SPINNER_SAMPLES = new Set(["spinnerspin", "spinnerbonus"]);
 
 export const collect_map_custom_hitsound_files = (
     beatmap: IBeatmap,
@@ -35,7 +37,11 @@ export const collect_map_custom_hitsound_files = (
 
         const file_name = get_base_file_name(lower_path);
         const sample_key = strip_audio_extension(file_name);
-        const matches_default_pattern = is_default_hitsound_key(sample_key) || is_nightcore_hitsound_key(sample_key);
+        const matches_default_pattern =
+            is_default_hitsound_key(sample_key) ||
+            is_nightcore_hitsound_key(sample_key) ||
+            COUNTDOWN_SAMPLES.has(sample_key) ||
+            SPINNER_SAMPLES.has(sample_key);
         const is_referenced_custom = custom_names.has(file_name) || custom_names.has(sample_key) || custom_names.has(lower_path);
 
         if (matches_default_pattern || is_referenced_custom) {
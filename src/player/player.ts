@@ -5,15 +5,14 @@ import { type Result, ErrorCode, ok, err } from "../types/result";
 import { get_speed_multiplier } from "../types/mods";
 import { OszLoader } from "../parser/osz_loader";
 import { init_wasm, parse as wasm_parse } from "@rel-packages/osu-beatmap-parser/browser";
-import { BaseRenderer, DEFAULT_RENDERER_CONFIG, type IRendererConfig } from "../renderer/base_renderer";
-import type { IRenderBackend } from "../renderer/backend/render_backend";
-import { create_backend, type BackendType } from "../renderer/backend/backend_factory";
-import { StandardRenderer } from "../renderer/standard/standard_renderer";
-import { ManiaRenderer } from "../renderer/mania/mania_renderer";
+import { BaseRenderer, DEFAULT_RENDERER_CONFIG, calculate_playfield_layout, type IRendererConfig } from "../renderer/base_renderer";
+import type { IRenderBackend, RenderImage } from "../renderer/backend/render_backend";
+import { create_backend, initialize_backend, type BackendType } from "../renderer/backend/backend_factory";
+import { create_renderer } from "../renderer/renderer_factory";
 import { VideoController } from "./video_controller";
 import { AudioEngine } from "./audio_engine";
 import { Mods } from "../types/mods";
-import { type ISkinConfig, merge_skin } from "../skin/skin_config";
+import { type ISkinConfig, get_beatmap_skin, merge_skin } from "../skin/skin_config";
 import { BeatmapAssets } from "./beatmap_assets";
 import { process_timing_points } from "../beatmap/timing";
 import { TimingStateResolver } from "../renderer/standard/timing_state";
@@ -22,6 +21,21 @@ import { collect_map_custom_hitsound_files } from "./hitsound_file_collector";
 import { load_beatmap_skin, type StandardSkinElements } from "../skin/skin_elements";
 import { get_default_skin_embedded_files } from "../assets/default_skin_embedded";
 import { convert_skin_files, load_skin_osk_files, merge_hitsound_sources, merge_skin_sources } from "./player_skin";
+import { StoryboardRenderer } from "../storyboard/storyboard_renderer";
+import { load_storyboard_images } from "../storyboard/storyboard_assets";
+import { copy_canvas, create_frame_session, encode_canvas, type CapturedFrame, type FrameSession, type IFrameCaptureOptions } from "./frame_capture";
+import { export_clip, get_clip_size, type IClipExportOptions, type IClipExportResult } from "./clip_export";
+import type { IReplay } from "../replay/replay_types";
+import { parse_replay } from "../replay/replay_parser";
+import { simulate_score, find_judgement_index, get_score_state_at } from "../scoring/scoring";
+import type { IJudgement, IScoreSimulation, IScoreState } from "../scoring/scoring_types";
+import { create_screen_overlays, type IScreenOverlay } from "../renderer/hud/screen_overlays";
+import { find_break_at, get_break_periods, get_skip_target, has_break_effect, type IBreakPeriod } from "../beatmap/breaks";
+import { get_countdown_events, get_lead_in, type ICountdownEvent } from "../beatmap/countdown";
+import { get_adjusted_difficulty, type IBeatmapDifficulty } from "../mods";
+import { calculate_preempt } from "../math/difficulty";
+import { ManiaRenderer } from "../renderer/mania/mania_renderer";
+import { DEFAULT_MANIA_SETTINGS, merge_mania_settings, type IManiaSettings } from "../renderer/mania/mania_settings";
 
 const PREVIEW_FALLBACK_RATIO = 0.42;
 const RESYNC_THRESHOLD_MS = 30;
@@ -37,10 +51,21 @@ type PlayerEventMap = {
     play: [];
     pause: [];
     seek: [time: number];
+    judgement: [judgement: IJudgement];
+    breakstart: [period: IBreakPeriod];
+    breakend: [period: IBreakPeriod];
 };
 
 type PlayerEvent = keyof PlayerEventMap;
 
+// stands in for the track before zero, on the audio context so countdown samples line up
+type LeadInClock = {
+    context_time: number;
+    from: number;
+    // the track is being started, the clock keeps running until it is
+    starting: boolean;
+};
+
 export type StartMode = "preview" | "beginning" | "custom";
 
 export interface IPlayerOptions {
@@ -61,6 +86,9 @@ export interface IPlayerOptions {
     max_frame_delta?: number;
     audio_resync_threshold_ms?: number;
     hitsound_lookahead_ms?: number;
+    // keep the skin's combo and slider colours instead of the beatmap's [Colours]
+    ignore_beatmap_colours?: boolean;
+    mania_settings?: Partial<IManiaSettings>;
 }
 
 export class BeatmapPlayer {
@@ -80,6 +108,8 @@ export class BeatmapPlayer {
     private base_skin: ISkinConfig;
     private mods: number;
     private custom_rate: number | null = null;
+    private ignore_beatmap_colours: boolean;
+    private mania_settings: IManiaSettings;
     private renderer_config: IRendererConfig;
     private start_offset: number;
     private start_mode: StartMode;
@@ -88,6 +118,22 @@ export class BeatmapPlayer {
     private hitsound_volume: number;
     private audio_offset: number;
     private background_url: string | null = null;
+    private background_image: RenderImage | null = null;
+    private storyboard: StoryboardRenderer | null = null;
+    private storyboard_dispose: (() => void) | null = null;
+    private replay: IReplay | null = null;
+    private score: IScoreSimulation | null = null;
+    // last judgement already emitted
+    private judgement_index = -1;
+    // break overlay, countdown and hud
+    private overlays: IScreenOverlay[] = [];
+    // breaks long enough to show, and the one playback is currently in
+    private breaks: IBreakPeriod[] = [];
+    private current_break: IBreakPeriod | null = null;
+    private countdown: ICountdownEvent[] = [];
+    // how far before zero "beginning" starts, and the clock used until the track is reached
+    private lead_in = 0;
+    private lead_in_clock: LeadInClock | null = null;
     private loaded_skin_elements: StandardSkinElements | null = null;
     private loaded_skin_dispose: (() => void) | null = null;
     private should_load_default_skin = true;
@@ -121,10 +167,13 @@ export class BeatmapPlayer {
 
     constructor(options: IPlayerOptions) {
         this.options = options;
-        this.backend = create_backend(options.backend_type ?? "auto");
+        const backend_type = options.backend_type ?? "auto";
+        this.backend = create_backend(backend_type);
         this.skin = merge_skin();
         this.base_skin = this.skin;
         this.mods = options.mods ?? 0;
+        this.ignore_beatmap_colours = options.ignore_beatmap_colours ?? false;
+        this.mania_settings = merge_mania_settings(DEFAULT_MANIA_SETTINGS, options.mania_settings ?? {});
         this.renderer_config = { ...DEFAULT_RENDERER_CONFIG, ...options.renderer_config };
 
         this.calculate_layout(options.canvas.width, options.canvas.height, options.playfield_scale);
@@ -136,7 +185,12 @@ export class BeatmapPlayer {
         this.hitsound_volume = options.hitsound_volume ?? 0.25;
         this.audio_offset = options.audio_offset ?? 20;
 
-        this.backend_ready = this.backend.initialize(options.canvas, this.renderer_config.use_high_dpi).then(() => {
+        this.backend_ready = initialize_backend(this.backend, backend_type, options.canvas, this.renderer_config.use_high_dpi).then((backend) => {
+            if (this.is_disposed_flag) {
+                backend.dispose();
+                return;
+            }
+            this.backend = backend;
             this.backend_initialized = true;
         });
 
@@ -155,7 +209,7 @@ export class BeatmapPlayer {
         this.audio_context = new audio_context_class();
 
         this.audio = new AudioEngine(this.audio_context);
-        this.hitsound_scheduler = new PlayerHitsoundScheduler(this.audio, this.audio.hitsound_mixer);
+        this.hitsound_scheduler = new PlayerHitsoundScheduler({ get_host_time: (time_ms) => this.get_host_time(time_ms) }, this.audio.hitsound_mixer);
         this.hitsound_scheduler.set_hitsound_lookahead(options.hitsound_lookahead_ms ?? DEFAULT_HITSOUND_LOOKAHEAD_MS);
         this.hitsound_scheduler.set_nightcore_enabled((this.mods & Mods.Nightcore) !== 0);
         void this.audio.set_pitch_preserve((this.mods & Mods.DoubleTime) !== 0 && (this.mods & Mods.Nightcore) === 0);
@@ -265,6 +319,7 @@ export class BeatmapPlayer {
             beatmap,
             available_difficulties: [],
             files: new Map(),
+            breaks: get_break_periods(beatmap),
             audio,
             background,
             video,
@@ -323,6 +378,8 @@ export class BeatmapPlayer {
         }
 
         const { beatmap } = this.resources;
+        this.replay = null;
+        this.breaks = this.resources.breaks.filter(has_break_effect);
         this.timing_points = process_timing_points([...beatmap.TimingPoints]);
         this.timing_resolver = new TimingStateResolver(this.timing_points);
         this.resolve_assets();
@@ -346,12 +403,20 @@ export class BeatmapPlayer {
 
         if (video) {
             this.video = new VideoController();
-            await this.video.load(video, video_offset ?? 0);
+            this.video.set_rate(this.resolve_speed_multiplier());
+            try {
+                await this.video.load(video, video_offset ?? 0);
+            } catch (e) {
+                console.warn("[BeatmapPlayer] Failed to load video", e);
+                this.video.dispose();
+                this.video = null;
+            }
         }
 
         try {
             this.renderer = this.create_renderer(beatmap);
             this.renderer.initialize(beatmap);
+            this.attach_background_media();
             this.renderer.precompute();
         } catch (e) {
             const reason = e instanceof Error ? e.message : String(e);
@@ -359,10 +424,16 @@ export class BeatmapPlayer {
             return err(ErrorCode.UnsupportedMode, reason);
         }
 
+        this.countdown = get_countdown_events(beatmap, this.timing_points);
+        this.hitsound_scheduler.set_countdown(this.countdown);
+        this.update_lead_in();
         this.start_offset = this.resolve_initial_start_offset();
+        this.update_score();
+        this.sync_playback_events(this.start_offset);
 
         this.hitsound_scheduler.update_hit_index(this.start_offset);
         void this.load_background();
+        void this.load_storyboard();
 
         this.is_loaded_flag = true;
         this.emit("loaded", beatmap, this.resources);
@@ -390,11 +461,12 @@ export class BeatmapPlayer {
             if (this.is_disposed_flag || !this.renderer) {
                 return;
             }
-            this.renderer.set_background({
+            this.background_image = {
                 source: img,
                 width: img.width,
                 height: img.height
-            });
+            };
+            this.attach_background_media();
 
             const target_time = this.audio.is_playing ? this.current_time : this.start_offset;
             requestAnimationFrame(() => this.render_frame(target_time));
@@ -403,6 +475,60 @@ export class BeatmapPlayer {
         }
     }
 
+    private async load_storyboard(): Promise<void> {
+        const resources = this.resources;
+        if (!resources?.storyboard) {
+            return;
+        }
+
+        try {
+            const loaded = await load_storyboard_images(resources.storyboard, resources.files);
+            if (this.is_disposed_flag || this.resources !== resources || !this.renderer) {
+                loaded.dispose();
+                return;
+            }
+
+            this.release_storyboard();
+            this.storyboard = new StoryboardRenderer(resources.storyboard, loaded.images, resources.beatmap);
+            this.storyboard_dispose = loaded.dispose;
+            this.attach_background_media();
+
+            const target_time = this.audio.is_playing ? this.current_time : this.start_offset;
+            requestAnimationFrame(() => this.render_frame(target_time));
+        } catch (e) {
+            console.warn("[BeatmapPlayer] Failed to load storyboard", e);
+        }
+    }
+
+    private release_storyboard(): void {
+        this.storyboard = null;
+        this.storyboard_dispose?.();
+        this.storyboard_dispose = null;
+    }
+
+    // stable hides the background when the storyboard draws it as a sprite
+    private get_visible_background(): RenderImage | null {
+        const background_filename = this.resources?.background_filename;
+        const storyboard_uses_background = Boolean(background_filename && this.storyboard?.uses_file(background_filename));
+        return storyboard_uses_background ? null : this.background_image;
+    }
+
+    private attach_background_media(): void {
+        if (!this.renderer) {
+            return;
+        }
+
+        this.renderer.set_background(this.get_visible_background());
+        this.renderer.set_storyboard(this.storyboard);
+
+        const element = this.video?.element;
+        if (element) {
+            this.renderer.set_background_video({ source: element, width: element.videoWidth, height: element.videoHeight }, this.video?.offset ?? 0);
+        } else {
+            this.renderer.set_background_video(null);
+        }
+    }
+
     private resolve_assets(): void {
         if (!this.resources) {
             return;
@@ -442,16 +568,20 @@ export class BeatmapPlayer {
     }
 
     private create_renderer(beatmap: IBeatmap): BaseRenderer {
-        switch (beatmap.General.Mode) {
-            case GameMode.Standard:
-                return new StandardRenderer(this.backend, this.skin, this.mods, this.renderer_config, this.loaded_skin_elements);
-            case GameMode.Mania:
-                return new ManiaRenderer(this.backend, this.skin, this.mods, this.renderer_config, this.loaded_skin_elements);
-            case GameMode.Taiko:
-            case GameMode.Catch:
-            default:
-                throw new Error(`Unsupported game mode: ${GameMode[beatmap.General.Mode] ?? beatmap.General.Mode}`);
+        const skin = get_beatmap_skin(this.skin, beatmap, this.ignore_beatmap_colours);
+        const renderer = create_renderer(beatmap, this.backend, skin, this.mods, this.renderer_config, this.loaded_skin_elements);
+        if (renderer instanceof ManiaRenderer) {
+            renderer.set_mania_settings(this.mania_settings);
+        }
+        return renderer;
+    }
+
+    private get_first_object_time(): number | null {
+        const objects = this.resources?.beatmap.HitObjects;
+        if (!objects?.length) {
+            return null;
         }
+        return objects.reduce((min_time, obj) => Math.min(min_time, obj.time), Number.POSITIVE_INFINITY);
     }
 
     private get_last_object_time(): number {
@@ -485,7 +615,7 @@ export class BeatmapPlayer {
         const mode = this.resources?.beatmap?.General.Mode;
 
         if (this.start_mode == "beginning") {
-            return 0;
+            return -this.lead_in;
         }
 
         if (this.start_mode == "custom") {
@@ -509,7 +639,7 @@ export class BeatmapPlayer {
             return;
         }
 
-        if (this.audio.is_playing) {
+        if (this.is_playing) {
             return;
         }
 
@@ -517,6 +647,17 @@ export class BeatmapPlayer {
             await this.audio_context.resume();
         }
 
+        // before zero the renderer runs on its own clock and the track starts once it gets there
+        if (this.start_offset < 0) {
+            this.lead_in_clock = { context_time: this.audio_context.currentTime, from: this.start_offset, starting: false };
+            this.hitsound_scheduler.update_hit_index(this.start_offset);
+            this.sync_playback_events(this.start_offset);
+            this.start_render_loop();
+            this.emit("play");
+            this.emit("statechange", true);
+            return;
+        }
+
         try {
             await this.audio.play(this.to_track_time(this.start_offset));
         } catch (e) {
@@ -528,6 +669,7 @@ export class BeatmapPlayer {
         const synced_time = this.current_time;
         this.start_offset = synced_time;
         this.hitsound_scheduler.update_hit_index(synced_time);
+        this.sync_playback_events(synced_time);
         this.video?.seek(synced_time);
         this.video?.sync(synced_time);
 
@@ -538,13 +680,15 @@ export class BeatmapPlayer {
     }
 
     pause(): void {
-        if (!this.audio.is_playing) {
+        if (!this.is_playing) {
             return;
         }
 
-        this.start_offset = this.to_beatmap_time(this.audio.current_time);
+        this.start_offset = this.current_time;
+        this.lead_in_clock = null;
 
         this.audio.pause();
+        this.hitsound_scheduler.stop_loops();
         this.video?.pause();
         this.stop_render_loop();
         this.emit("pause");
@@ -552,12 +696,18 @@ export class BeatmapPlayer {
     }
 
     set_mods(mods: number): void {
+        this.rebase_lead_in_clock();
         this.mods = mods;
         const speed = this.resolve_speed_multiplier();
 
         this.renderer?.set_mods(mods);
         this.audio.set_rate(speed);
+        this.video?.set_rate(speed);
         this.hitsound_scheduler.set_nightcore_enabled((mods & Mods.Nightcore) !== 0);
+        if (this.is_loaded_flag) {
+            this.update_lead_in();
+            this.update_score();
+        }
         const was_playing = this.is_playing;
         const current_time = this.current_time;
         void this.audio.set_pitch_preserve((mods & Mods.DoubleTime) !== 0 && (mods & Mods.Nightcore) === 0).then(() => {
@@ -572,6 +722,7 @@ export class BeatmapPlayer {
     }
 
     set_rate(rate: number | null): void {
+        this.rebase_lead_in_clock();
         if (rate === null) {
             this.custom_rate = null;
         } else if (Number.isFinite(rate)) {
@@ -592,6 +743,7 @@ export class BeatmapPlayer {
         }
 
         this.audio.set_rate(this.resolve_speed_multiplier());
+        this.video?.set_rate(this.resolve_speed_multiplier());
 
         if (this.is_loaded_flag) {
             requestAnimationFrame(() => this.render_frame(this.current_time));
@@ -614,10 +766,19 @@ export class BeatmapPlayer {
     }
 
     seek(time_ms: number): void {
-        this.start_offset = Math.max(0, Math.min(time_ms, this.duration));
+        this.start_offset = Math.max(-this.lead_in, Math.min(time_ms, this.duration));
 
         this.hitsound_scheduler.update_hit_index(this.start_offset);
 
+        // seeking into the lead-in while playing swaps the track for the lead-in clock, and back
+        if (this.lead_in_clock || (this.start_offset < 0 && this.audio.is_playing)) {
+            this.audio.pause();
+            this.lead_in_clock = { context_time: this.audio_context.currentTime, from: this.start_offset, starting: false };
+            if (this.start_offset + this.get_effective_audio_offset() >= 0) {
+                void this.start_track_after_lead_in(this.start_offset);
+            }
+        }
+
         this.audio.seek(this.to_track_time(this.start_offset));
         this.video?.seek(this.start_offset);
         this.video?.sync(this.start_offset);
@@ -626,12 +787,71 @@ export class BeatmapPlayer {
         this.smooth_time = this.start_offset;
         this.smoothed_delta = 0;
 
+        this.sync_playback_events(this.start_offset);
         this.emit("seek", this.start_offset);
 
         this.render_frame(this.start_offset);
         this.renderer?.on_seek(this.start_offset);
     }
 
+    // like the in-game skip button, lands on the next object minus its approach time
+    skip_break(): boolean {
+        const time = this.current_time;
+        const period = find_break_at(this.breaks, time);
+        if (!period) {
+            return false;
+        }
+
+        // seeking never emits break events, so say the break is over here, the target is past its end so it won't end twice
+        const skipped = this.skip_to_next_object(period.end, period);
+        if (skipped) {
+            this.emit("breakend", period);
+        }
+        return skipped;
+    }
+
+    skip_intro(): boolean {
+        const first = this.get_first_object_time();
+        if (first === null || this.current_time >= first) {
+            return false;
+        }
+
+        return this.skip_to_next_object(first);
+    }
+
+    // how long before its start time an object shows up, with the current mods
+    get_approach_time(): number {
+        return calculate_preempt(this.get_difficulty()?.ar ?? 5);
+    }
+
+    private get_difficulty(): IBeatmapDifficulty | null {
+        const difficulty = this.resources?.beatmap.Difficulty;
+        if (!difficulty) {
+            return null;
+        }
+
+        const ar = difficulty.ApproachRate >= 0 ? difficulty.ApproachRate : difficulty.OverallDifficulty;
+        return get_adjusted_difficulty(difficulty.CircleSize, ar, difficulty.OverallDifficulty, difficulty.HPDrainRate, this.mods);
+    }
+
+    private skip_to_next_object(from: number, period: IBreakPeriod | null = null): boolean {
+        const next = this.resources?.beatmap.HitObjects.reduce<number | null>(
+            (earliest, obj) => (obj.time >= from && (earliest === null || obj.time < earliest) ? obj.time : earliest),
+            null
+        );
+        if (next === null || next === undefined) {
+            return false;
+        }
+
+        const target = get_skip_target(next, this.get_approach_time(), period);
+        if (target <= this.current_time) {
+            return false;
+        }
+
+        this.seek(target);
+        return true;
+    }
+
     async set_difficulty(index: number | string): Promise<Result<IBeatmapResources>> {
         if (!this.resources) {
             return err(ErrorCode.NotLoaded, "No beatmap resources loaded");
@@ -659,6 +879,172 @@ export class BeatmapPlayer {
         }
     }
 
+    // plays the replay's cursor and keys instead of autoplay, the replay's mods replace the current ones
+    load_replay(osr: ArrayBuffer): Result<IReplay> {
+        if (!this.is_loaded_flag || !this.resources || !this.renderer) {
+            return err(ErrorCode.NotLoaded, "No beatmap loaded");
+        }
+
+        const result = parse_replay(osr);
+        if (!result.success) {
+            return result;
+        }
+
+        const replay = result.data;
+        if (replay.mode !== this.resources.beatmap.General.Mode) {
+            return err(ErrorCode.UnsupportedMode, "Replay mode does not match the beatmap");
+        }
+
+        this.replay = replay;
+        this.renderer.set_replay(replay);
+        this.custom_rate = null;
+        this.set_mods(replay.mods);
+
+        return ok(replay);
+    }
+
+    clear_replay(): void {
+        this.replay = null;
+        this.renderer?.set_replay(null);
+        this.update_score();
+
+        if (this.is_loaded_flag) {
+            requestAnimationFrame(() => this.render_frame(this.current_time));
+        }
+    }
+
+    get current_replay(): IReplay | null {
+        return this.replay;
+    }
+
+    // judgements of the loaded replay, or of autoplay without one, the other modes are always a perfect play
+    get score_simulation(): IScoreSimulation | null {
+        return this.score;
+    }
+
+    get_score_state(time: number = this.current_time): IScoreState | null {
+        return this.score ? get_score_state_at(this.score, time) : null;
+    }
+
+    private update_score(): void {
+        const beatmap = this.resources?.beatmap;
+        this.score = null;
+
+        if (beatmap) {
+            const result = simulate_score({
+                beatmap,
+                mods: this.mods,
+                frames: this.replay?.frames ?? null,
+                mirror_axis: this.renderer_config.mirror_axis
+            });
+            if (result.success) {
+                this.score = result.data;
+            } else {
+                console.warn("[BeatmapPlayer] Failed to simulate score", result.reason);
+            }
+        }
+
+        this.renderer?.set_judgements(this.score?.judgements ?? null);
+        this.hitsound_scheduler.set_judgements(this.score?.judgements ?? null, this.get_difficulty()?.od ?? 5);
+        this.sync_playback_events(this.current_time);
+        this.create_hud();
+    }
+
+    private create_hud(): void {
+        this.overlays = this.resources ? create_screen_overlays(this.skin, this.loaded_skin_elements, this.breaks, this.countdown, this.score) : [];
+    }
+
+    // approach time depends on the mods, so this follows them
+    private update_lead_in(): void {
+        const beatmap = this.resources?.beatmap;
+        this.lead_in = beatmap ? get_lead_in(beatmap, this.get_approach_time(), this.countdown) : 0;
+    }
+
+    private get_lead_in_time(clock: LeadInClock): number {
+        return clock.from + (this.audio_context.currentTime - clock.context_time) * 1000 * this.resolve_speed_multiplier();
+    }
+
+    // keeps the lead-in time continuous when the speed changes
+    private rebase_lead_in_clock(): void {
+        if (this.lead_in_clock) {
+            this.lead_in_clock.from = this.get_lead_in_time(this.lead_in_clock);
+            this.lead_in_clock.context_time = this.audio_context.currentTime;
+        }
+    }
+
+    private async start_track_after_lead_in(time: number): Promise<void> {
+        const clock = this.lead_in_clock;
+        if (!clock || clock.starting) {
+            return;
+        }
+
+        clock.starting = true;
+        try {
+            await this.audio.play(this.to_track_time(time));
+        } catch (e) {
+            console.warn("[BeatmapPlayer] Failed to start audio", e);
+            if (this.lead_in_clock === clock) {
+                this.pause();
+            }
+            return;
+        }
+
+        // paused or seeked back into the lead-in while the track was starting
+        if (this.lead_in_clock !== clock) {
+            if (!this.lead_in_clock?.starting) {
+                this.audio.pause();
+            }
+            return;
+        }
+
+        this.lead_in_clock = null;
+        const synced_time = this.current_time;
+        this.video?.seek(synced_time);
+        this.video?.play();
+    }
+
+    private get_host_time(time_ms: number): number {
+        if (!this.lead_in_clock) {
+            return this.audio.get_host_time(time_ms);
+        }
+
+        const track_time = this.get_lead_in_time(this.lead_in_clock) + this.get_effective_audio_offset();
+        return this.audio_context.currentTime + (time_ms - track_time) / 1000 / this.resolve_speed_multiplier();
+    }
+
+    // seeking moves the event cursors without emitting anything
+    private sync_playback_events(time: number): void {
+        this.judgement_index = this.score ? find_judgement_index(this.score, time) : -1;
+        this.current_break = find_break_at(this.breaks, time);
+    }
+
+    private emit_judgements(time: number): void {
+        const judgements = this.score?.judgements;
+        if (!judgements) {
+            return;
+        }
+
+        while (this.judgement_index + 1 < judgements.length && judgements[this.judgement_index + 1].time <= time) {
+            this.judgement_index++;
+            this.emit("judgement", judgements[this.judgement_index]);
+        }
+    }
+
+    private emit_break_events(time: number): void {
+        const period = find_break_at(this.breaks, time);
+        if (period === this.current_break) {
+            return;
+        }
+
+        if (this.current_break) {
+            this.emit("breakend", this.current_break);
+        }
+        this.current_break = period;
+        if (period) {
+            this.emit("breakstart", period);
+        }
+    }
+
     private async parse_content(content: string | Uint8Array): Promise<IBeatmap> {
         const data = typeof content == "string" ? new TextEncoder().encode(content) : content;
         return (await wasm_parse(data)) as IBeatmap;
@@ -666,10 +1052,11 @@ export class BeatmapPlayer {
 
     stop(): void {
         this.pause();
-        this.start_offset = 0;
-        this.audio.seek(this.to_track_time(0));
-        this.hitsound_scheduler.update_hit_index(0);
-        this.render_frame(0);
+        this.start_offset = this.start_mode == "beginning" ? -this.lead_in : 0;
+        this.audio.seek(this.to_track_time(this.start_offset));
+        this.hitsound_scheduler.update_hit_index(this.start_offset);
+        this.sync_playback_events(this.start_offset);
+        this.render_frame(this.start_offset);
     }
 
     unload(options?: { clear_backend_cache?: boolean }): void {
@@ -680,12 +1067,23 @@ export class BeatmapPlayer {
         this.renderer?.dispose();
         this.renderer = null;
         this.resources = null;
+        this.replay = null;
+        this.score = null;
+        this.judgement_index = -1;
+        this.overlays = [];
+        this.breaks = [];
+        this.current_break = null;
+        this.countdown = [];
+        this.lead_in = 0;
+        this.hitsound_scheduler.set_countdown([]);
+        this.release_storyboard();
         this.is_loaded_flag = false;
         this.timing_points = [];
         this.timing_resolver = null;
         this.hitsound_scheduler.set_context(null, [], null, this.get_effective_audio_offset());
         this.release_loaded_skin();
 
+        this.background_image = null;
         if (this.background_url) {
             URL.revokeObjectURL(this.background_url);
             this.background_url = null;
@@ -726,7 +1124,14 @@ export class BeatmapPlayer {
         this.release_loaded_skin();
     }
 
+    // negative while the lead-in plays
     get current_time(): number {
+        if (this.lead_in_clock) {
+            return this.get_lead_in_time(this.lead_in_clock);
+        }
+        if (!this.audio.is_playing && this.start_offset < 0) {
+            return this.start_offset;
+        }
         return this.to_beatmap_time(this.audio.current_time);
     }
 
@@ -739,7 +1144,7 @@ export class BeatmapPlayer {
     }
 
     get is_playing(): boolean {
-        return this.audio.is_playing;
+        return this.audio.is_playing || this.lead_in_clock !== null;
     }
 
     get is_loaded(): boolean {
@@ -778,6 +1183,110 @@ export class BeatmapPlayer {
         return this.renderer_config;
     }
 
+    // renders one frame at an arbitrary time into an image, playback and the visible frame are left as they were
+    async capture_frame(time: number, options: IFrameCaptureOptions = {}): Promise<Result<CapturedFrame>> {
+        if (!this.is_loaded_flag || !this.renderer) {
+            return err(ErrorCode.NotLoaded, "No beatmap loaded");
+        }
+
+        await this.backend_ready;
+
+        const live_width = this.backend.width;
+        const live_height = this.backend.height;
+        const width = Math.max(1, Math.round(options.width ?? live_width));
+        const height = Math.max(1, Math.round(options.height ?? live_height));
+        const resized = width !== live_width || height !== live_height;
+        const fps_counter = this.enable_fps_counter;
+
+        let frame: ReturnType<typeof copy_canvas> = null;
+        try {
+            this.enable_fps_counter = false;
+            if (resized) {
+                this.backend.resize(width, height);
+                this.calculate_layout(width, height, this.options.playfield_scale);
+            }
+
+            // the copy has to happen in the same task as the render, webgl may discard the buffer afterwards
+            this.render_frame(time);
+            frame = copy_canvas(this.options.canvas, width, height);
+        } finally {
+            this.enable_fps_counter = fps_counter;
+            if (resized) {
+                this.backend.resize(live_width, live_height);
+                this.calculate_layout(live_width, live_height, this.options.playfield_scale);
+            }
+            this.render_frame(this.current_time);
+        }
+
+        if (!frame) {
+            return err(ErrorCode.Unknown, "Failed to copy frame");
+        }
+
+        try {
+            return ok(await encode_canvas(frame, options.format, options.quality));
+        } catch (e) {
+            const reason = e instanceof Error ? e.message : String(e);
+            return err(ErrorCode.Unknown, reason);
+        }
+    }
+
+    // renders a range into video/audio through the encoder callbacks, uses its own renderer so playback keeps going
+    async export_clip(options: IClipExportOptions): Promise<Result<IClipExportResult>> {
+        const resources = this.resources;
+        if (!this.is_loaded_flag || !resources?.beatmap) {
+            return err(ErrorCode.NotLoaded, "No beatmap loaded");
+        }
+
+        const { width, height } = get_clip_size(options.width, options.height);
+        let session: FrameSession | null = null;
+
+        try {
+            session = await create_frame_session(resources.beatmap, {
+                width,
+                height,
+                mods: this.mods,
+                skin: this.skin,
+                skin_elements: this.loaded_skin_elements,
+                ignore_beatmap_colours: this.ignore_beatmap_colours,
+                mania_settings: this.mania_settings,
+                renderer_config: this.renderer_config,
+                playfield_scale: this.options.playfield_scale,
+                background: this.get_visible_background(),
+                storyboard: this.storyboard,
+                replay: this.replay,
+                score: this.score,
+                overlays: this.overlays,
+                video: resources.video ?? null,
+                video_offset: resources.video_offset
+            });
+        } catch (e) {
+            const reason = e instanceof Error ? e.message : String(e);
+            return err(ErrorCode.Unknown, reason);
+        }
+
+        const rate = this.resolve_speed_multiplier();
+        const audio_source = this.audio.is_loaded
+            ? {
+                  audio: this.audio,
+                  resources,
+                  timing_points: this.timing_points,
+                  timing_resolver: this.timing_resolver,
+                  audio_offset: this.get_effective_audio_offset(),
+                  rate,
+                  nightcore: (this.mods & Mods.Nightcore) !== 0,
+                  music_volume: this.music_volume,
+                  judgements: this.score?.judgements ?? null,
+                  od: this.get_difficulty()?.od ?? 5
+              }
+            : null;
+
+        try {
+            return await export_clip(session, audio_source, rate, options);
+        } finally {
+            session.dispose();
+        }
+    }
+
     resize(width: number, height: number, playfield_scale?: number): void {
         this.backend.resize(width, height);
         this.calculate_layout(width, height, playfield_scale);
@@ -788,9 +1297,14 @@ export class BeatmapPlayer {
     }
 
     update_config(config: Partial<IRendererConfig>): void {
+        const previous_axis = this.renderer_config.mirror_axis;
         this.renderer_config = { ...this.renderer_config, ...config };
         this.renderer?.update_config(this.renderer_config);
 
+        if (this.is_loaded_flag && (this.mods & Mods.Mirror) !== 0 && this.renderer_config.mirror_axis !== previous_axis) {
+            this.update_score();
+        }
+
         if (this.is_loaded_flag) {
             requestAnimationFrame(() => this.render_frame(this.current_time));
         }
@@ -922,22 +1436,11 @@ export class BeatmapPlayer {
     }
 
     private calculate_layout(width: number, height: number, playfield_scale?: number): void {
-        const target_width = 512;
-        const target_height = 384;
-
-        let fill = 0.9;
+        const layout = calculate_playfield_layout(width, height, Number.isFinite(playfield_scale) ? (playfield_scale as number) : undefined);
 
-        if (Number.isFinite(playfield_scale)) {
-            fill = playfield_scale as number;
-        }
-
-        const scale_x = (width * fill) / target_width;
-        const scale_y = (height * fill) / target_height;
-        const scale = Math.min(scale_x, scale_y);
-
-        this.renderer_config.scale = scale;
-        this.renderer_config.offset_x = Math.floor((width - target_width * scale) / 2);
-        this.renderer_config.offset_y = Math.floor((height - target_height * scale) / 2);
+        this.renderer_config.scale = layout.scale;
+        this.renderer_config.offset_x = layout.offset_x;
+        this.renderer_config.offset_y = layout.offset_y;
 
         if (this.renderer) {
             this.renderer.update_config(this.renderer_config);
@@ -996,7 +1499,7 @@ export class BeatmapPlayer {
                 this.animation_frame = null;
                 return;
             }
-            if (!this.audio.is_playing) {
+            if (!this.is_playing) {
                 this.animation_frame = null;
                 return;
             }
@@ -1026,10 +1529,15 @@ export class BeatmapPlayer {
             }
 
             const time = this.smooth_time;
+            if (this.lead_in_clock && actual_audio_time + this.get_effective_audio_offset() >= 0) {
+                void this.start_track_after_lead_in(actual_audio_time);
+            }
             this.hitsound_scheduler.schedule_hitsounds(actual_audio_time);
 
             this.render_frame(time);
             this.video?.sync(time);
+            this.emit_judgements(time);
+            this.emit_break_events(time);
             this.emit("timeupdate", time, this.duration);
 
             if (time >= this.duration) {
@@ -1060,6 +1568,9 @@ export class BeatmapPlayer {
         this.backend.begin_frame?.();
         this.backend.clear();
         this.renderer?.render(time);
+        for (const overlay of this.overlays) {
+            overlay.render(this.backend, time, this.renderer_config);
+        }
 
         if (this.enable_fps_counter) {
             this.fps_frame_count++;
@@ -1085,6 +1596,7 @@ export class BeatmapPlayer {
         this.smooth_time = time;
         this.smoothed_delta = 0;
         this.hitsound_scheduler.update_hit_index(time);
+        this.sync_playback_events(time);
         this.video?.seek(time);
         this.video?.sync(time);
         this.start_render_loop();
@@ -1111,6 +1623,32 @@ export class BeatmapPlayer {
         return this.custom_rate ?? get_speed_multiplier(this.mods);
     }
 
+    set_ignore_beatmap_colours(ignore: boolean): void {
+        if (this.ignore_beatmap_colours === ignore) {
+            return;
+        }
+
+        this.ignore_beatmap_colours = ignore;
+        const beatmap = this.resources?.beatmap;
+        if (this.is_loaded_flag && beatmap) {
+            this.rebuild_renderer(beatmap, this.current_time);
+        }
+    }
+
+    get_mania_settings(): IManiaSettings {
+        return { ...this.mania_settings };
+    }
+
+    set_mania_settings(settings: Partial<IManiaSettings>): void {
+        this.mania_settings = merge_mania_settings(this.mania_settings, settings);
+        if (this.renderer instanceof ManiaRenderer) {
+            this.renderer.set_mania_settings(this.mania_settings);
+            if (this.is_loaded_flag && !this.is_playing) {
+                this.render_frame(this.current_time);
+            }
+        }
+    }
+
     private async reload_skin_runtime(): Promise<void> {
         if (!this.is_loaded_flag || !this.resources?.beatmap) {
             return;
@@ -1119,8 +1657,17 @@ export class BeatmapPlayer {
         const beatmap = this.resources.beatmap;
         const current_time = this.current_time;
         await this.load_map_skin();
+        this.rebuild_renderer(beatmap, current_time);
+    }
+
+    private rebuild_renderer(beatmap: IBeatmap, current_time: number): void {
+        this.renderer?.dispose();
         this.renderer = this.create_renderer(beatmap);
         this.renderer.initialize(beatmap);
+        this.renderer.set_replay(this.replay);
+        this.renderer.set_judgements(this.score?.judgements ?? null);
+        this.create_hud();
+        this.attach_background_media();
         requestAnimationFrame(() => this.render_frame(current_time));
     }
 }
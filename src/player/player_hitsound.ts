@@ -1,13 +1,18 @@
 import type { ITimingPoint, IHitObject, IHitSample } from "../types/beatmap";
-import { SampleSet, HitObjectType } from "../types/beatmap";
+import { SampleSet, HitObjectType, HitSoundType, GameMode } from "../types/beatmap";
 import type { IBeatmapResources } from "../types/resources";
 import { calculate_slider_duration, calculate_tick_spacing } from "../renderer/standard/slider_math";
 import { generate_slider_events } from "../renderer/standard/slider_events";
 import { TimingStateResolver } from "../renderer/standard/timing_state";
-import { AudioEngine } from "./audio_engine";
+import { get_countdown_sample, type ICountdownEvent } from "../beatmap/countdown";
+import { get_required_spins } from "../scoring/judgement_simulator";
+import type { IJudgement } from "../scoring/scoring_types";
 
 const DEFAULT_HITSOUND_LOOKAHEAD_MS = 100;
 const HIT_WINDOW_MS = 20;
+// spinnerspin goes from half speed to one and a half as the spinner fills up
+const SPINNER_BASE_RATE = 0.5;
+const SPINNER_RATE_RANGE = 1;
 
 type SampleSettings = {
     normal_set: SampleSet;
@@ -24,7 +29,12 @@ type NightcorePoint = {
     volume: number;
 };
 
-type HitsoundOutput = {
+// maps a track time to a time on the audio context the samples are played on
+export type HitsoundClock = {
+    get_host_time: (time_ms: number) => number;
+};
+
+export type HitsoundOutput = {
     play: (
         normal_set: SampleSet,
         addition_set: SampleSet,
@@ -36,6 +46,9 @@ type HitsoundOutput = {
     ) => void;
     play_sample: (set: SampleSet, sample_name: string, index: number, volume: number, when: number) => void;
     play_custom: (sample_key: string, volume: number, when: number) => boolean;
+    play_sample_loop: (set: SampleSet, sample_name: string, index: number, volume: number, when: number, until: number) => boolean;
+    play_custom_loop: (sample_key: string, volume: number, when: number, until: number, rates?: { when: number; rate: number }[]) => boolean;
+    stop_loops: () => void;
 };
 
 export class PlayerHitsoundScheduler {
@@ -51,9 +64,18 @@ export class PlayerHitsoundScheduler {
     private nightcore_index: number = 0;
     private nightcore_next_time: number = 0;
     private nightcore_last_schedule_time: number = -Infinity;
+    private countdown: ICountdownEvent[] = [];
+    private next_countdown_index: number = 0;
+    private od: number = 5;
+    // spinner start time to the times of the spins that count towards clearing it
+    private spinner_spins: Map<number, number[]> = new Map();
+    private bonus_times: number[] = [];
+    private next_bonus_index: number = 0;
+    // loops of the objects playback lands inside of restart on the next schedule
+    private resume_loops_time: number | null = null;
 
     constructor(
-        private audio: AudioEngine,
+        private audio: HitsoundClock,
         private hitsounds: HitsoundOutput
     ) {}
 
@@ -69,9 +91,41 @@ export class PlayerHitsoundScheduler {
         this.audio_offset = audio_offset;
         this.next_hit_object_index = 0;
         this.last_schedule_time = -Infinity;
+        this.hitsounds.stop_loops();
+        this.resume_loops_time = null;
         this.configure_nightcore_points();
     }
 
+    // spins and bonus spins of a score drive the spinner sounds, without one the pitch just follows the spinner's length
+    set_judgements(judgements: IJudgement[] | null, od: number): void {
+        this.od = od;
+        this.spinner_spins.clear();
+        this.bonus_times = [];
+
+        for (const judgement of judgements ?? []) {
+            if (judgement.kind === "spinner_spin") {
+                const spins = this.spinner_spins.get(judgement.object_time) ?? [];
+                spins.push(judgement.time);
+                this.spinner_spins.set(judgement.object_time, spins);
+            } else if (judgement.kind === "spinner_bonus") {
+                this.bonus_times.push(judgement.time);
+            }
+        }
+
+        this.bonus_times.sort((a, b) => a - b);
+        this.next_bonus_index = 0;
+    }
+
+    stop_loops(): void {
+        this.hitsounds.stop_loops();
+        this.resume_loops_time = null;
+    }
+
+    set_countdown(events: ICountdownEvent[]): void {
+        this.countdown = events;
+        this.next_countdown_index = 0;
+    }
+
     set_audio_offset(offset_ms: number): void {
         this.audio_offset = offset_ms;
     }
@@ -90,6 +144,9 @@ export class PlayerHitsoundScheduler {
             return;
         }
 
+        this.hitsounds.stop_loops();
+        this.resume_loops_time = time;
+
         const objects = this.resources.beatmap.HitObjects;
 
         if (this.next_hit_object_index > 0 && objects[this.next_hit_object_index - 1].time > time) {
@@ -100,6 +157,15 @@ export class PlayerHitsoundScheduler {
             this.next_hit_object_index++;
         }
 
+        this.next_countdown_index = this.countdown.findIndex((event) => event.time >= time);
+        if (this.next_countdown_index < 0) {
+            this.next_countdown_index = this.countdown.length;
+        }
+        this.next_bonus_index = this.bonus_times.findIndex((bonus_time) => bonus_time >= time);
+        if (this.next_bonus_index < 0) {
+            this.next_bonus_index = this.bonus_times.length;
+        }
+
         this.last_schedule_time = time;
         this.reset_nightcore_state(time);
     }
@@ -114,6 +180,11 @@ export class PlayerHitsoundScheduler {
         const schedule_window = time + this.hitsound_lookahead_ms;
         const schedule_start = Math.max(time - HIT_WINDOW_MS, this.last_schedule_time);
 
+        if (this.resume_loops_time !== null) {
+            this.resume_loops(this.resume_loops_time);
+            this.resume_loops_time = null;
+        }
+
         while (this.next_hit_object_index < objects.length && objects[this.next_hit_object_index].time <= schedule_window) {
             const obj = objects[this.next_hit_object_index];
 
@@ -125,6 +196,32 @@ export class PlayerHitsoundScheduler {
             this.next_hit_object_index++;
         }
 
+        while (this.next_countdown_index < this.countdown.length && this.countdown[this.next_countdown_index].time <= schedule_window) {
+            const event = this.countdown[this.next_countdown_index];
+
+            if (event.time >= schedule_start) {
+                const when = this.audio.get_host_time(event.time + this.audio_offset);
+                if (this.hitsounds.play_custom(get_countdown_sample(event.cue), 100, when)) {
+                    scheduled_count++;
+                }
+            }
+
+            this.next_countdown_index++;
+        }
+
+        while (this.next_bonus_index < this.bonus_times.length && this.bonus_times[this.next_bonus_index] <= schedule_window) {
+            const bonus_time = this.bonus_times[this.next_bonus_index];
+
+            if (bonus_time >= schedule_start) {
+                const when = this.audio.get_host_time(bonus_time + this.audio_offset);
+                if (this.hitsounds.play_custom("spinnerbonus", this.get_timing_point(bonus_time).volume, when)) {
+                    scheduled_count++;
+                }
+            }
+
+            this.next_bonus_index++;
+        }
+
         if (this.nightcore_enabled) {
             scheduled_count += this.schedule_nightcore(time);
         }
@@ -136,10 +233,66 @@ export class PlayerHitsoundScheduler {
         return scheduled_count;
     }
 
+    // restarts the slider and spinner loops that were already running at time
+    private resume_loops(time: number): void {
+        const objects = this.resources?.beatmap.HitObjects ?? [];
+
+        for (const obj of objects) {
+            if (obj.time >= time) {
+                break;
+            }
+
+            if (this.is_standard_spinner(obj)) {
+                this.play_spinner_loop(obj, time);
+                continue;
+            }
+
+            const span_count = Math.max(1, obj.slides || 1);
+            const span_duration = (obj.type & HitObjectType.Slider) !== 0 ? this.get_span_duration(obj, span_count) : null;
+            if (span_duration !== null && obj.time + span_duration * span_count > time) {
+                this.play_slider_loops(obj, time, obj.time + span_duration * span_count);
+            }
+        }
+    }
+
+    // null when the slider has no length to play over
+    private get_span_duration(obj: IHitObject, span_count: number): number | null {
+        const beatmap = this.resources?.beatmap;
+        if (!beatmap) {
+            return null;
+        }
+
+        const timing_state = this.timing_resolver?.get_state_at(obj.time) ?? { base_beat_length: 600, sv_multiplier: 1 };
+        const length = obj.length ?? 0;
+        const span_duration = calculate_slider_duration(length, beatmap, timing_state);
+
+        if (span_duration <= 0 || length <= 0) {
+            return null;
+        }
+
+        if (obj.endTime && obj.endTime > obj.time && span_count > 0) {
+            const total_duration = obj.endTime - obj.time;
+            if (Number.isFinite(total_duration) && total_duration > 0) {
+                return total_duration / span_count;
+            }
+        }
+
+        return span_duration;
+    }
+
+    // the other modes' drumrolls, juice streams and swells don't play body sounds
+    private is_standard_spinner(obj: IHitObject): boolean {
+        return (obj.type & HitObjectType.Spinner) !== 0 && this.resources?.beatmap.General.Mode === GameMode.Standard;
+    }
+
     private play_hitsound(obj: IHitObject): void {
         const timing = this.get_timing_point(obj.time);
         const base = this.resolve_sample_settings(timing, obj.hitSample);
 
+        if (this.is_standard_spinner(obj)) {
+            this.play_spinner_loop(obj, obj.time);
+        }
+
         if ((obj.type & HitObjectType.Slider) === 0) {
             this.play_node_hitsound(obj.time, obj.hitSound, base, base.custom_filename);
             return;
@@ -152,20 +305,15 @@ export class PlayerHitsoundScheduler {
 
         const timing_state = this.timing_resolver?.get_state_at(obj.time) ?? { base_beat_length: 600, sv_multiplier: 1 };
         const length = obj.length ?? 0;
-        let span_duration = calculate_slider_duration(length, beatmap, timing_state);
         const span_count = Math.max(1, obj.slides || 1);
+        const span_duration = this.get_span_duration(obj, span_count);
 
-        if (span_duration <= 0 || length <= 0) {
+        if (span_duration === null) {
             this.play_node_hitsound(obj.time, obj.hitSound, base, base.custom_filename);
             return;
         }
 
-        if (obj.endTime && obj.endTime > obj.time && span_count > 0) {
-            const total_duration = obj.endTime - obj.time;
-            if (Number.isFinite(total_duration) && total_duration > 0) {
-                span_duration = total_duration / span_count;
-            }
-        }
+        this.play_slider_loops(obj, obj.time, obj.time + span_duration * span_count);
 
         const edge_sounds = obj.edgeSounds ?? [];
         const edge_sets = obj.edgeSets ?? [];
@@ -200,6 +348,56 @@ export class PlayerHitsoundScheduler {
         }
     }
 
+    // sliderslide for the whole body, sliderwhistle on top when the body has the whistle bit
+    private play_slider_loops(obj: IHitObject, from: number, to: number): void {
+        if (this.resources?.beatmap.General.Mode !== GameMode.Standard) {
+            return;
+        }
+
+        const sample = this.resolve_sample_settings(this.get_timing_point(obj.time), obj.hitSample);
+        const when = this.audio.get_host_time(from + this.audio_offset);
+        const until = this.audio.get_host_time(to + this.audio_offset);
+
+        this.hitsounds.play_sample_loop(sample.normal_set, "sliderslide", sample.index, sample.volume, when, until);
+        if (obj.hitSound & HitSoundType.Whistle) {
+            this.hitsounds.play_sample_loop(sample.addition_set, "sliderwhistle", sample.index, sample.volume, when, until);
+        }
+    }
+
+    private play_spinner_loop(obj: IHitObject, from: number): void {
+        const end = obj.endTime ?? obj.time;
+        if (end <= from) {
+            return;
+        }
+
+        const to_host = (time: number): number => this.audio.get_host_time(time + this.audio_offset);
+        const rates = this.get_spinner_rates(obj, from, end).map((point) => ({ when: to_host(point.time), rate: point.rate }));
+        this.hitsounds.play_custom_loop("spinnerspin", this.get_timing_point(obj.time).volume, to_host(from), to_host(end), rates);
+    }
+
+    // one point per spin so the pitch climbs with the score's spins, a straight ramp without them
+    private get_spinner_rates(obj: IHitObject, from: number, end: number): { time: number; rate: number }[] {
+        const duration = end - obj.time;
+        const spins = this.spinner_spins.get(obj.time);
+        if (!spins) {
+            const progress = duration > 0 ? (from - obj.time) / duration : 1;
+            return [
+                { time: from, rate: SPINNER_BASE_RATE + SPINNER_RATE_RANGE * progress },
+                { time: end, rate: SPINNER_BASE_RATE + SPINNER_RATE_RANGE }
+            ];
+        }
+
+        const required = get_required_spins(duration, this.od);
+        const rate_after = (count: number): number => SPINNER_BASE_RATE + SPINNER_RATE_RANGE * (required > 0 ? Math.min(1, count / required) : 1);
+        const done = spins.filter((spin_time) => spin_time <= from).length;
+        const points = [{ time: from, rate: rate_after(done) }];
+
+        for (let i = done; i < spins.length; i++) {
+            points.push({ time: spins[i], rate: rate_after(i + 1) });
+        }
+        return points;
+    }
+
     private play_node_hitsound(time: number, hit_sound: number, sample: SampleSettings, custom_filename?: string): void {
         const when = this.audio.get_host_time(time + this.audio_offset);
         this.hitsounds.play(sample.normal_set, sample.addition_set, hit_sound, sample.index, sample.volume, custom_filename, when);
@@ -1,7 +1,13 @@
+// seconds into the video for a track time, negative before the video starts
+export const get_video_time = (audio_time_ms: number, offset: number): number => (audio_time_ms - offset) / 1000;
+
 export class VideoController {
     private video: HTMLVideoElement | null = null;
     private object_url: string | null = null;
     private _offset: number = 0;
+    private should_play = false;
+    private before_offset = false;
+    private playback_rate = 1;
 
     get element(): HTMLVideoElement | null {
         return this.video;
@@ -20,6 +26,7 @@ export class VideoController {
         this.video.muted = true;
         this.video.loop = false;
         this.video.playsInline = true;
+        this.video.playbackRate = this.playback_rate;
 
         this.object_url = URL.createObjectURL(data);
         this.video.src = this.object_url;
@@ -37,7 +44,8 @@ export class VideoController {
     sync(audio_time_ms: number): void {
         if (!this.video) return;
 
-        const video_time = (audio_time_ms - this._offset) / 1000;
+        const video_time = get_video_time(audio_time_ms, this._offset);
+        this.before_offset = video_time < 0;
 
         if (video_time < 0) {
             if (!this.video.paused) {
@@ -51,30 +59,63 @@ export class VideoController {
         if (diff > 0.1) {
             this.video.currentTime = video_time;
         }
+
+        // the video stays paused until the track reaches its offset, so resume it here
+        if (this.should_play && this.video.paused && !this.video.ended) {
+            this.start_playback();
+        }
     }
 
     play(): void {
-        if (this.video && this.video.paused) {
-            this.video.play().catch(() => {
-                console.warn("[VideoController] failed to play video");
-            });
+        this.should_play = true;
+        if (this.video && this.video.paused && !this.before_offset) {
+            this.start_playback();
         }
     }
 
     pause(): void {
+        this.should_play = false;
         if (this.video && !this.video.paused) {
             this.video.pause();
         }
     }
 
+    set_rate(rate: number): void {
+        this.playback_rate = rate > 0 ? rate : 1;
+        if (this.video) {
+            this.video.playbackRate = this.playback_rate;
+        }
+    }
+
+    private start_playback(): void {
+        this.video?.play().catch(() => {
+            console.warn("[VideoController] failed to play video");
+        });
+    }
+
+    // waits until the frame for time_ms can be drawn, for rendering outside of playback
+    async seek_to_frame(time_ms: number): Promise<void> {
+        const video = this.video;
+        const video_time = get_video_time(time_ms, this._offset);
+        if (!video || video_time < 0 || video.currentTime === video_time) {
+            return;
+        }
+
+        await new Promise<void>((resolve) => {
+            video.addEventListener("seeked", () => resolve(), { once: true });
+            video.currentTime = video_time;
+        });
+    }
+
     seek(time_ms: number): void {
         if (!this.video) return;
 
-        const video_time = Math.max(0, (time_ms - this._offset) / 1000);
+        const video_time = Math.max(0, get_video_time(time_ms, this._offset));
         this.video.currentTime = video_time;
     }
 
     dispose(): void {
+        this.should_play = false;
         if (this.video) {
             this.video.pause();
             this.video.src = "";
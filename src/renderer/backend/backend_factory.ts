@@ -1,8 +1,73 @@
 import type { IRenderBackend } from "./render_backend";
 import { PixiBackend } from "./pixi_backend";
+import { Canvas2DBackend } from "./canvas_backend";
 
-export type BackendType = "auto" | "pixi";
+export type BackendType = "auto" | "pixi" | "canvas";
+
+export const create_backend = (type: BackendType): IRenderBackend => {
+    if (type === "canvas") {
+        return new Canvas2DBackend();
+    }
 
-export const create_backend = (_: BackendType): IRenderBackend => {
     return new PixiBackend();
 };
+
+// tries webgl on a throwaway canvas, a canvas that handed out a webgl context can never give a 2d one afterwards
+export const supports_webgl = (): boolean => {
+    let canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    if (typeof document !== "undefined") {
+        canvas = document.createElement("canvas");
+    } else if (typeof OffscreenCanvas !== "undefined") {
+        canvas = new OffscreenCanvas(1, 1);
+    }
+    if (!canvas) {
+        return false;
+    }
+
+    try {
+        const gl = (canvas.getContext("webgl2") ?? canvas.getContext("webgl")) as WebGLRenderingContext | null;
+        gl?.getExtension("WEBGL_lose_context")?.loseContext();
+        return gl !== null;
+    } catch {
+        return false;
+    }
+};
+
+// "auto" only lets pixi near the canvas when webgl works, and retries with the canvas backend if it still fails
+export const initialize_backend = async (
+    backend: IRenderBackend,
+    type: BackendType,
+    container: HTMLCanvasElement | OffscreenCanvas,
+    use_high_dpi: boolean,
+    probe_webgl: () => boolean = supports_webgl
+): Promise<IRenderBackend> => {
+    if (type === "auto" && !(backend instanceof Canvas2DBackend) && !probe_webgl()) {
+        console.warn("[Backend] WebGL is not available, using canvas");
+        backend.dispose();
+
+        const fallback = new Canvas2DBackend();
+        await fallback.initialize(container, use_high_dpi);
+        return fallback;
+    }
+
+    try {
+        await backend.initialize(container, use_high_dpi);
+        return backend;
+    } catch (e) {
+        if (type !== "auto") {
+            throw e;
+        }
+
+        console.warn("[Backend] Failed to initialize pixi, falling back to canvas", e);
+        backend.dispose();
+
+        // pixi may already own a webgl context on this canvas, then there is nothing left to fall back to
+        const fallback = new Canvas2DBackend();
+        try {
+            await fallback.initialize(container, use_high_dpi);
+        } catch {
+            throw e;
+        }
+        return fallback;
+    }
+};
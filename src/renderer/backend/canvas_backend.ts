@@ -0,0 +1,447 @@
+import type { CompositeOperation, GradientStop, IRenderBackend, LineCap, LineJoin, RenderImage, TextAlign, TextBaseline } from "./render_backend";
+import { LruCache } from "../../utils/lru";
+import {
+    create_raster_canvas,
+    get_slider_raster_layout,
+    paint_slider_raster,
+    parse_color,
+    to_canvas_rgba,
+    type RasterCanvas,
+    type RasterContext
+} from "./slider_raster";
+
+type DrawableSource = CanvasImageSource & {
+    width?: number;
+    height?: number;
+    naturalWidth?: number;
+    naturalHeight?: number;
+    videoWidth?: number;
+    videoHeight?: number;
+};
+
+const MAX_TINT_CACHE_ENTRIES = 256;
+
+const BLEND_MODES: Record<"normal" | "lighter" | "multiply" | "screen", GlobalCompositeOperation> = {
+    normal: "source-over",
+    lighter: "lighter",
+    multiply: "multiply",
+    screen: "screen"
+};
+
+const get_source_size = (source: DrawableSource): { width: number; height: number } => ({
+    width: source.videoWidth || source.naturalWidth || Number(source.width) || 0,
+    height: source.videoHeight || source.naturalHeight || Number(source.height) || 0
+});
+
+// software backend for environments without webgl, draws straight into a 2d context
+export class Canvas2DBackend implements IRenderBackend {
+    private canvas: RasterCanvas | null = null;
+    private ctx: RasterContext | null = null;
+    private _width = 0;
+    private _height = 0;
+    private _dpr = 1;
+    private source_ids = new WeakMap<object, number>();
+    private next_source_id = 1;
+    private tint_cache = new LruCache<string, RasterCanvas>(MAX_TINT_CACHE_ENTRIES);
+
+    get width(): number {
+        return this._width;
+    }
+
+    get height(): number {
+        return this._height;
+    }
+
+    async initialize(container: HTMLCanvasElement | OffscreenCanvas, use_high_dpi: boolean = true): Promise<void> {
+        this.dispose();
+
+        const ctx = container.getContext("2d") as RasterContext | null;
+        if (!ctx) {
+            throw new Error("Canvas 2D context is not available");
+        }
+
+        const is_element = typeof HTMLCanvasElement !== "undefined" && container instanceof HTMLCanvasElement;
+        this.canvas = container;
+        this.ctx = ctx;
+        this._dpr = is_element && use_high_dpi && typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1;
+
+        const display_width = is_element ? container.clientWidth || container.width : container.width;
+        const display_height = is_element ? container.clientHeight || container.height : container.height;
+        this.resize(display_width, display_height);
+    }
+
+    begin_frame(): void {
+        this.clear();
+    }
+
+    end_frame(): void {}
+
+    clear(): void {
+        const { ctx, canvas } = this;
+        if (!ctx || !canvas) {
+            return;
+        }
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        this.reset_state();
+    }
+
+    resize(width: number, height: number): void {
+        const { canvas } = this;
+        if (!canvas) {
+            return;
+        }
+
+        this._width = width;
+        this._height = height;
+        canvas.width = Math.max(1, Math.round(width * this._dpr));
+        canvas.height = Math.max(1, Math.round(height * this._dpr));
+
+        if (typeof HTMLCanvasElement !== "undefined" && canvas instanceof HTMLCanvasElement && this._dpr !== 1) {
+            canvas.style.width = `${width}px`;
+            canvas.style.height = `${height}px`;
+        }
+
+        this.reset_state();
+    }
+
+    clear_caches(): void {
+        this.tint_cache.clear();
+    }
+
+    dispose(): void {
+        this.clear_caches();
+        this.canvas = null;
+        this.ctx = null;
+    }
+
+    draw_circle(x: number, y: number, radius: number, fill_color: string, stroke_color?: string, stroke_width?: number): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        const circle = new Path2D();
+        circle.arc(x, y, radius, 0, Math.PI * 2);
+
+        const fill = parse_color(fill_color);
+        if (fill_color && fill_color !== "transparent" && fill.alpha > 0) {
+            ctx.fillStyle = to_canvas_rgba(fill);
+            ctx.fill(circle);
+        }
+
+        const stroke = parse_color(stroke_color);
+        if (stroke_color && stroke_width && stroke_width > 0 && stroke.alpha > 0) {
+            ctx.strokeStyle = to_canvas_rgba(stroke);
+            ctx.lineWidth = stroke_width;
+            ctx.stroke(circle);
+        }
+    }
+
+    draw_arc(
+        x: number,
+        y: number,
+        radius: number,
+        start_angle: number,
+        end_angle: number,
+        stroke_color: string,
+        stroke_width: number,
+        ccw: boolean = false
+    ): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        const arc = new Path2D();
+        arc.arc(x, y, radius, start_angle, end_angle, ccw);
+        ctx.strokeStyle = to_canvas_rgba(parse_color(stroke_color));
+        ctx.lineWidth = stroke_width;
+        ctx.stroke(arc);
+    }
+
+    draw_rect(x: number, y: number, width: number, height: number, fill_color: string): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        ctx.fillStyle = to_canvas_rgba(parse_color(fill_color));
+        ctx.fillRect(x, y, width, height);
+    }
+
+    draw_rect_gradient(x: number, y: number, width: number, height: number, gradient: CanvasGradient): void {
+        const { ctx } = this;
+        if (!ctx || !gradient) return;
+
+        ctx.fillStyle = gradient;
+        ctx.fillRect(x, y, width, height);
+    }
+
+    create_linear_gradient(x0: number, y0: number, x1: number, y1: number, stops: GradientStop[]): CanvasGradient | null {
+        const { ctx } = this;
+        if (!ctx) return null;
+
+        const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+        for (const stop of stops) {
+            gradient.addColorStop(Math.max(0, Math.min(1, stop.offset)), stop.color);
+        }
+        return gradient;
+    }
+
+    draw_text(
+        text: string,
+        x: number,
+        y: number,
+        font: string,
+        fill_color: string,
+        align: TextAlign = "left",
+        baseline: TextBaseline = "alphabetic"
+    ): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        ctx.font = font;
+        ctx.fillStyle = to_canvas_rgba(parse_color(fill_color));
+        ctx.textAlign = align;
+        ctx.textBaseline = baseline;
+        ctx.fillText(text, x, y);
+    }
+
+    measure_text(text: string, font: string): TextMetrics | null {
+        const { ctx } = this;
+        if (!ctx) return null;
+
+        ctx.font = font;
+        return ctx.measureText(text);
+    }
+
+    begin_path(): void {
+        this.ctx?.beginPath();
+    }
+
+    move_to(x: number, y: number): void {
+        this.ctx?.moveTo(x, y);
+    }
+
+    line_to(x: number, y: number): void {
+        this.ctx?.lineTo(x, y);
+    }
+
+    draw_line(x0: number, y0: number, x1: number, y1: number, color: string, width: number, cap: LineCap = "butt", join: LineJoin = "miter"): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        // separate path so an in-progress begin_path/line_to sequence is left untouched
+        const line = new Path2D();
+        line.moveTo(x0, y0);
+        line.lineTo(x1, y1);
+        ctx.strokeStyle = to_canvas_rgba(parse_color(color));
+        ctx.lineWidth = width;
+        ctx.lineCap = cap;
+        ctx.lineJoin = join;
+        ctx.stroke(line);
+    }
+
+    bezier_curve_to(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+        this.ctx?.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y);
+    }
+
+    quadratic_curve_to(cpx: number, cpy: number, x: number, y: number): void {
+        this.ctx?.quadraticCurveTo(cpx, cpy, x, y);
+    }
+
+    arc_to(x: number, y: number, radius: number, start: number, end: number, ccw: boolean = false): void {
+        this.ctx?.arc(x, y, radius, start, end, ccw);
+    }
+
+    rect(x: number, y: number, width: number, height: number): void {
+        this.ctx?.rect(x, y, width, height);
+    }
+
+    clip(): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        ctx.clip();
+        ctx.beginPath();
+    }
+
+    stroke_path(color: string, width: number, cap: LineCap = "butt", join: LineJoin = "miter"): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        ctx.strokeStyle = to_canvas_rgba(parse_color(color));
+        ctx.lineWidth = width;
+        ctx.lineCap = cap;
+        ctx.lineJoin = join;
+        ctx.stroke();
+    }
+
+    fill_path(color: string): void {
+        const { ctx } = this;
+        if (!ctx) return;
+
+        ctx.fillStyle = to_canvas_rgba(parse_color(color));
+        ctx.fill();
+    }
+
+    close_path(): void {
+        this.ctx?.closePath();
+    }
+
+    save(): void {
+        this.ctx?.save();
+    }
+
+    restore(): void {
+        this.ctx?.restore();
+    }
+
+    translate(x: number, y: number): void {
+        this.ctx?.translate(x, y);
+    }
+
+    scale(x: number, y: number): void {
+        this.ctx?.scale(x, y);
+    }
+
+    rotate(angle: number): void {
+        this.ctx?.rotate(angle);
+    }
+
+    set_alpha(alpha: number): void {
+        if (this.ctx) {
+            this.ctx.globalAlpha = Math.max(0, Math.min(1, alpha));
+        }
+    }
+
+    set_shadow(color: string, blur: number): void {
+        if (this.ctx) {
+            this.ctx.shadowColor = color;
+            this.ctx.shadowBlur = blur;
+        }
+    }
+
+    set_composite_operation(op: CompositeOperation): void {
+        if (this.ctx) {
+            this.ctx.globalCompositeOperation = op;
+        }
+    }
+
+    set_blend_mode(mode: "normal" | "lighter" | "multiply" | "screen"): void {
+        if (this.ctx) {
+            this.ctx.globalCompositeOperation = BLEND_MODES[mode];
+        }
+    }
+
+    draw_image(image: RenderImage, x: number, y: number, width?: number, height?: number, tint_color?: string): void {
+        const { ctx } = this;
+        const source = image.source as DrawableSource | null;
+        if (!ctx || !source) return;
+
+        const target_width = width ?? image.width;
+        const target_height = height ?? image.height;
+
+        if (!tint_color) {
+            ctx.drawImage(source, x, y, target_width, target_height);
+            return;
+        }
+
+        const tint = parse_color(tint_color);
+        const tinted = this.get_tinted_source(source, tint.color);
+        if (!tinted) {
+            ctx.drawImage(source, x, y, target_width, target_height);
+            return;
+        }
+
+        const previous_alpha = ctx.globalAlpha;
+        ctx.globalAlpha = previous_alpha * tint.alpha;
+        ctx.drawImage(tinted, x, y, target_width, target_height);
+        ctx.globalAlpha = previous_alpha;
+    }
+
+    draw_image_part(image: RenderImage, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number): void {
+        const { ctx } = this;
+        const source = image.source as DrawableSource | null;
+        if (!ctx || !source) return;
+
+        ctx.drawImage(source, sx, sy, sw, sh, dx, dy, dw, dh);
+    }
+
+    render_slider_to_image(
+        path: [number, number][],
+        radius: number,
+        border_color: string,
+        body_color: string,
+        scale: number,
+        body_opacity: number = 1.0,
+        border_opacity: number = 1.0
+    ): RenderImage | null {
+        const layout = get_slider_raster_layout(path, radius, scale);
+        if (!layout) {
+            return null;
+        }
+
+        const canvas = create_raster_canvas(layout.pixel_width, layout.pixel_height);
+        const ctx = canvas?.getContext("2d") as RasterContext | null | undefined;
+        if (!canvas || !ctx) {
+            return null;
+        }
+
+        paint_slider_raster(ctx, layout, radius, parse_color(border_color), parse_color(body_color), scale, body_opacity, border_opacity);
+
+        return {
+            source: canvas,
+            width: layout.pixel_width,
+            height: layout.pixel_height,
+            min_x: layout.min_x,
+            min_y: layout.min_y
+        };
+    }
+
+    private reset_state(): void {
+        const { ctx } = this;
+        if (!ctx) {
+            return;
+        }
+
+        ctx.setTransform(this._dpr, 0, 0, this._dpr, 0, 0);
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = "source-over";
+        ctx.shadowBlur = 0;
+        ctx.shadowColor = "transparent";
+    }
+
+    // 2d canvas has no tint, so multiply a copy of the image by the colour and restore its alpha
+    private get_tinted_source(source: DrawableSource, color: number): RasterCanvas | null {
+        // video frames change every draw, caching them would freeze the picture
+        if (typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement) {
+            return null;
+        }
+
+        let id = this.source_ids.get(source);
+        if (id === undefined) {
+            id = this.next_source_id++;
+            this.source_ids.set(source, id);
+        }
+
+        const key = `${id}|${color}`;
+        const cached = this.tint_cache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const { width, height } = get_source_size(source);
+        const canvas = width > 0 && height > 0 ? create_raster_canvas(width, height) : null;
+        const ctx = canvas?.getContext("2d") as RasterContext | null | undefined;
+        if (!canvas || !ctx) {
+            return null;
+        }
+
+        ctx.drawImage(source, 0, 0, width, height);
+        ctx.globalCompositeOperation = "multiply";
+        ctx.fillStyle = to_canvas_rgba({ color, alpha: 1 });
+        ctx.fillRect(0, 0, width, height);
+        ctx.globalCompositeOperation = "destination-in";
+        ctx.drawImage(source, 0, 0, width, height);
+
+        this.tint_cache.set(key, canvas);
+        return canvas;
+    }
+}
@@ -1,7 +1,8 @@
-import { Application, Container, Graphics, Matrix, Rectangle, Sprite, Texture, TextureStyle, type ICanvas } from "pixi.js";
+import { Application, Container, Graphics, Matrix, Rectangle, Sprite, Texture, TextureStyle, VideoSource, type ICanvas } from "pixi.js";
 import type { BLEND_MODES } from "pixi.js";
 import type { CompositeOperation, GradientStop, IRenderBackend, LineCap, LineJoin, RenderImage, TextAlign, TextBaseline } from "./render_backend";
 import { LruCache } from "../../utils/lru";
+import { create_raster_canvas, get_slider_raster_layout, paint_slider_raster, parse_color, to_canvas_rgba, type ParsedColor } from "./slider_raster";
 
 type PathCommand =
     | { type: "move"; x: number; y: number }
@@ -27,11 +28,6 @@ type LinearGradient = {
     stops: GradientStop[];
 };
 
-type ParsedColor = {
-    color: number;
-    alpha: number;
-};
-
 type CachedTextTexture = {
     texture: Texture;
     width: number;
@@ -41,7 +37,6 @@ type CachedTextTexture = {
     resolution: number;
 };
 
-const DEFAULT_COLOR: ParsedColor = { color: 0xffffff, alpha: 1 };
 const MAX_GRADIENT_CACHE_ENTRIES = 128;
 const MAX_TEXT_CACHE_ENTRIES = 192;
 
@@ -561,169 +556,34 @@ export class PixiBackend implements IRenderBackend {
         body_color: string,
         scale: number,
         body_opacity: number = 1.0,
-        border_opacity: number = 1.0,
-        body_texture: RenderImage | null = null
+        border_opacity: number = 1.0
     ): RenderImage | null {
-        if (!this.app || path.length < 2) {
+        if (!this.app) {
             return null;
         }
 
-        const simplified_path = sanitize_slider_path(path);
-        if (simplified_path.length < 2) {
+        const layout = get_slider_raster_layout(path, radius, scale);
+        if (!layout) {
             return null;
         }
-        const raster_path = simplify_slider_path_for_raster(simplified_path, Math.max(0.02, radius * 0.001));
-
-        let min_x = Infinity;
-        let min_y = Infinity;
-        let max_x = -Infinity;
-        let max_y = -Infinity;
-        for (let i = 0; i < raster_path.length; i++) {
-            const p = raster_path[i];
-            if (p[0] < min_x) min_x = p[0];
-            if (p[0] > max_x) max_x = p[0];
-            if (p[1] < min_y) min_y = p[1];
-            if (p[1] > max_y) max_y = p[1];
-        }
-
-        const slider_width_scale = 1.0;
-        const padding = radius * slider_width_scale + 2;
-        min_x -= padding;
-        min_y -= padding;
-        max_x += padding;
-        max_y += padding;
 
-        const pixel_width = Math.ceil((max_x - min_x) * scale);
-        const pixel_height = Math.ceil((max_y - min_y) * scale);
-        if (pixel_width <= 0 || pixel_height <= 0) {
+        const canvas = create_raster_canvas(layout.pixel_width, layout.pixel_height);
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) {
             return null;
         }
 
-        const offset_x = -min_x;
-        const offset_y = -min_y;
-
-        const border = parse_color(border_color);
-        const body = parse_color(body_color);
-        const body_radius = radius * 0.9;
-        const texture = this.render_slider_canvas_fallback(
-            raster_path,
-            offset_x,
-            offset_y,
-            radius * slider_width_scale,
-            body_radius,
-            border,
-            body,
-            scale,
-            body_opacity,
-            border_opacity,
-            body_texture,
-            pixel_width,
-            pixel_height
-        );
+        paint_slider_raster(ctx, layout, radius, parse_color(border_color), parse_color(body_color), scale, body_opacity, border_opacity);
 
         return {
-            source: texture,
-            width: pixel_width,
-            height: pixel_height,
-            min_x,
-            min_y
+            source: Texture.from(canvas as HTMLCanvasElement),
+            width: layout.pixel_width,
+            height: layout.pixel_height,
+            min_x: layout.min_x,
+            min_y: layout.min_y
         };
     }
 
-    private render_slider_canvas_fallback(
-        path: [number, number][],
-        offset_x: number,
-        offset_y: number,
-        radius: number,
-        body_radius: number,
-        border: ParsedColor,
-        body: ParsedColor,
-        scale: number,
-        body_opacity: number,
-        border_opacity: number,
-        body_texture: RenderImage | null,
-        pixel_width: number,
-        pixel_height: number
-    ): Texture {
-        const width = Math.max(1, pixel_width);
-        const height = Math.max(1, pixel_height);
-        const canvas = document.createElement("canvas");
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext("2d");
-        if (!ctx) {
-            return Texture.WHITE;
-        }
-
-        ctx.save();
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = "high";
-        ctx.scale(scale, scale);
-        ctx.translate(offset_x, offset_y);
-        ctx.lineCap = "round";
-        ctx.lineJoin = "round";
-
-        const path2d = create_path2d(path);
-        const stroke_path = (): void => {
-            if (path2d) {
-                ctx.stroke(path2d);
-                return;
-            }
-            ctx.beginPath();
-            ctx.moveTo(path[0][0], path[0][1]);
-            for (let i = 1; i < path.length; i++) {
-                ctx.lineTo(path[i][0], path[i][1]);
-            }
-            ctx.stroke();
-        };
-
-        const accent: ParsedColor = { color: body.color, alpha: 0.5 * body_opacity };
-        const border_colour: ParsedColor = { color: border.color, alpha: border.alpha * border_opacity };
-        const shadow: ParsedColor = { color: 0x000000, alpha: 0.25 * border_opacity };
-        const outer_colour = darken_legacy(accent, 0.1);
-        const inner_colour = lighten_legacy(accent, 0.22);
-
-        const shadow_portion = 0.078125;
-        const border_portion = 0.1875;
-
-        const colour_at = (position: number): ParsedColor => {
-            const p = clamp_unit(position);
-
-            if (p <= shadow_portion) {
-                return mix_color({ color: 0x000000, alpha: 0 }, shadow, p / Math.max(1e-6, shadow_portion));
-            }
-
-            if (p <= border_portion) {
-                return border_colour;
-            }
-
-            const t = (p - border_portion) / Math.max(1e-6, 1 - border_portion);
-            const biased_t = Math.pow(clamp_unit(t), 1.35);
-            return mix_color(outer_colour, inner_colour, biased_t);
-        };
-
-        const path_complexity = Math.max(1, Math.floor(path.length / 140));
-        const steps = Math.max(52, Math.min(76, Math.floor(72 / path_complexity)));
-        ctx.globalAlpha = 1;
-        ctx.globalCompositeOperation = "source-over";
-        for (let i = 1; i <= steps; i++) {
-            const t = i / steps;
-            const width = radius * 2 * t;
-            const position = 1 - t;
-            const color = colour_at(position);
-
-            ctx.strokeStyle = to_canvas_rgba(color);
-            ctx.lineWidth = Math.max(0.5, width);
-            stroke_path();
-            if (i === 1) {
-                ctx.globalCompositeOperation = "destination-over";
-            }
-        }
-        ctx.globalCompositeOperation = "source-over";
-        ctx.restore();
-        return Texture.from(canvas);
-    }
-
     private reset_state(): void {
         if (!this.root) {
             return;
@@ -853,9 +713,21 @@ export class PixiBackend implements IRenderBackend {
 
         const cached = this.texture_cache.get(source);
         if (cached) {
+            // video frames change without the source changing, so they need a re-upload on every draw
+            if (cached.source instanceof VideoSource) {
+                cached.source.update();
+            }
             return cached;
         }
 
+        if (typeof HTMLVideoElement !== "undefined" && source instanceof HTMLVideoElement) {
+            const video_source = new VideoSource({ resource: source, autoPlay: false, autoLoad: false });
+            video_source.autoUpdate = false;
+            const video_texture = new Texture({ source: video_source });
+            this.texture_cache.set(source, video_texture);
+            return video_texture;
+        }
+
         const texture = Texture.from(source);
         this.texture_cache.set(source, texture);
         return texture;
@@ -998,208 +870,6 @@ const parse_font = (font: string): { css: string; size: number } => {
     return { css, size: Number.isFinite(size) ? size : 14 };
 };
 
-const parse_color = (input?: string): ParsedColor => {
-    if (!input || input === "transparent") {
-        return { color: 0xffffff, alpha: 0 };
-    }
-
-    const color = input.trim().toLowerCase();
-    if (color.startsWith("#")) {
-        const raw = color.slice(1);
-        if (raw.length === 3) {
-            const r = Number.parseInt(raw[0] + raw[0], 16);
-            const g = Number.parseInt(raw[1] + raw[1], 16);
-            const b = Number.parseInt(raw[2] + raw[2], 16);
-            return { color: (r << 16) | (g << 8) | b, alpha: 1 };
-        }
-        if (raw.length === 6 || raw.length === 8) {
-            const value = Number.parseInt(raw.slice(0, 6), 16);
-            if (raw.length === 8) {
-                const alpha = Number.parseInt(raw.slice(6, 8), 16) / 255;
-                return { color: value, alpha };
-            }
-            return { color: value, alpha: 1 };
-        }
-    }
-
-    const rgba = color.match(/^rgba?\(([^)]+)\)$/);
-    if (rgba) {
-        const parts = rgba[1].split(",").map((p) => p.trim());
-        if (parts.length >= 3) {
-            const r = clamp_byte(Number.parseFloat(parts[0]));
-            const g = clamp_byte(Number.parseFloat(parts[1]));
-            const b = clamp_byte(Number.parseFloat(parts[2]));
-            const alpha = parts.length >= 4 ? clamp_unit(Number.parseFloat(parts[3])) : 1;
-            return { color: (r << 16) | (g << 8) | b, alpha };
-        }
-    }
-
-    if (color === "white") return { color: 0xffffff, alpha: 1 };
-    if (color === "black") return { color: 0x000000, alpha: 1 };
-    return DEFAULT_COLOR;
-};
-
-const to_canvas_rgba = (color: ParsedColor): string => {
-    const r = (color.color >> 16) & 0xff;
-    const g = (color.color >> 8) & 0xff;
-    const b = color.color & 0xff;
-    return `rgba(${r},${g},${b},${color.alpha})`;
-};
-
-const sanitize_slider_path = (path: [number, number][]): [number, number][] => {
-    if (path.length <= 2) {
-        return path;
-    }
-
-    const out: [number, number][] = [path[0]];
-    const min_distance_sq = 0.000001 * 0.000001;
-
-    for (let i = 1; i < path.length; i++) {
-        const prev = out[out.length - 1];
-        const curr = path[i];
-        const dx = curr[0] - prev[0];
-        const dy = curr[1] - prev[1];
-        if (dx * dx + dy * dy <= min_distance_sq) {
-            continue;
-        }
-        out.push(curr);
-    }
-
-    if (out.length < 2) {
-        return [path[0], path[path.length - 1]];
-    }
-
-    return out;
-};
-
-const simplify_slider_path_for_raster = (path: [number, number][], min_distance: number): [number, number][] => {
-    if (path.length <= 2) {
-        return path;
-    }
-
-    const out: [number, number][] = [path[0]];
-    const min_distance_sq = min_distance * min_distance;
-
-    for (let i = 1; i < path.length - 1; i++) {
-        const prev = out[out.length - 1];
-        const curr = path[i];
-        const next = path[i + 1];
-
-        const dx = curr[0] - prev[0];
-        const dy = curr[1] - prev[1];
-        const dist_sq = dx * dx + dy * dy;
-        if (dist_sq < min_distance_sq) {
-            continue;
-        }
-
-        const v1x = curr[0] - prev[0];
-        const v1y = curr[1] - prev[1];
-        const v2x = next[0] - curr[0];
-        const v2y = next[1] - curr[1];
-        const l1 = Math.hypot(v1x, v1y);
-        const l2 = Math.hypot(v2x, v2y);
-
-        if (l1 > 0 && l2 > 0) {
-            const dot = (v1x * v2x + v1y * v2y) / (l1 * l2);
-            if (dot > 0.9985 && dist_sq < min_distance_sq * 4) {
-                continue;
-            }
-        }
-
-        out.push(curr);
-    }
-
-    const last = path[path.length - 1];
-    const tail = out[out.length - 1];
-    if (tail[0] !== last[0] || tail[1] !== last[1]) {
-        out.push(last);
-    }
-
-    return out.length >= 2 ? out : [path[0], last];
-};
-
-const create_path2d = (path: [number, number][]): Path2D | null => {
-    if (typeof Path2D === "undefined" || path.length < 2) {
-        return null;
-    }
-
-    const p = new Path2D();
-    p.moveTo(path[0][0], path[0][1]);
-    for (let i = 1; i < path.length; i++) {
-        p.lineTo(path[i][0], path[i][1]);
-    }
-    return p;
-};
-
-const tint_color = (base: ParsedColor, mix_color: number, amount: number): ParsedColor => {
-    const t = Math.max(0, Math.min(1, amount));
-    const br = (base.color >> 16) & 0xff;
-    const bg = (base.color >> 8) & 0xff;
-    const bb = base.color & 0xff;
-
-    const mr = (mix_color >> 16) & 0xff;
-    const mg = (mix_color >> 8) & 0xff;
-    const mb = mix_color & 0xff;
-
-    const r = Math.round(br + (mr - br) * t);
-    const g = Math.round(bg + (mg - bg) * t);
-    const b = Math.round(bb + (mb - bb) * t);
-
-    return {
-        color: (r << 16) | (g << 8) | b,
-        alpha: base.alpha
-    };
-};
-
-const mix_color = (a: ParsedColor, b: ParsedColor, t: number): ParsedColor => {
-    const mu = Math.max(0, Math.min(1, t));
-    const ar = (a.color >> 16) & 0xff;
-    const ag = (a.color >> 8) & 0xff;
-    const ab = a.color & 0xff;
-    const br = (b.color >> 16) & 0xff;
-    const bg = (b.color >> 8) & 0xff;
-    const bb = b.color & 0xff;
-
-    const r = Math.round(ar + (br - ar) * mu);
-    const g = Math.round(ag + (bg - ag) * mu);
-    const bch = Math.round(ab + (bb - ab) * mu);
-    return {
-        color: (r << 16) | (g << 8) | bch,
-        alpha: a.alpha + (b.alpha - a.alpha) * mu
-    };
-};
-
-const darken_legacy = (base: ParsedColor, amount: number): ParsedColor => tint_color(base, 0x000000, amount);
-
-const lighten_legacy = (base: ParsedColor, amount: number): ParsedColor => {
-    const t = Math.max(0, amount * 0.5);
-    const r = (base.color >> 16) & 0xff;
-    const g = (base.color >> 8) & 0xff;
-    const b = base.color & 0xff;
-
-    const nr = Math.min(255, Math.round(r * (1 + 0.5 * t) + 255 * t));
-    const ng = Math.min(255, Math.round(g * (1 + 0.5 * t) + 255 * t));
-    const nb = Math.min(255, Math.round(b * (1 + 0.5 * t) + 255 * t));
-    return {
-        color: (nr << 16) | (ng << 8) | nb,
-        alpha: base.alpha
-    };
-};
-
-const clamp_unit = (value: number): number => {
-    if (!Number.isFinite(value)) return 1;
-    if (value < 0) return 0;
-    if (value > 1) return 1;
-    return value;
-};
-
-const clamp_byte = (value: number): number => {
-    if (!Number.isFinite(value)) return 0;
-    if (value < 0) return 0;
-    if (value > 255) return 255;
-    return Math.round(value);
-};
-
 const composite_to_blend = (mode: CompositeOperation): BLEND_MODES => {
     switch (mode) {
         case "lighter":
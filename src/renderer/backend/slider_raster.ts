@@ -0,0 +1,353 @@
+export type ParsedColor = {
+    color: number;
+    alpha: number;
+};
+
+export type RasterCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type RasterContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type SliderRasterLayout = {
+    path: [number, number][];
+    min_x: number;
+    min_y: number;
+    pixel_width: number;
+    pixel_height: number;
+};
+
+const DEFAULT_COLOR: ParsedColor = { color: 0xffffff, alpha: 1 };
+
+export const parse_color = (input?: string): ParsedColor => {
+    if (!input || input === "transparent") {
+        return { color: 0xffffff, alpha: 0 };
+    }
+
+    const color = input.trim().toLowerCase();
+    if (color.startsWith("#")) {
+        const raw = color.slice(1);
+        if (raw.length === 3) {
+            const r = Number.parseInt(raw[0] + raw[0], 16);
+            const g = Number.parseInt(raw[1] + raw[1], 16);
+            const b = Number.parseInt(raw[2] + raw[2], 16);
+            return { color: (r << 16) | (g << 8) | b, alpha: 1 };
+        }
+        if (raw.length === 6 || raw.length === 8) {
+            const value = Number.parseInt(raw.slice(0, 6), 16);
+            if (raw.length === 8) {
+                const alpha = Number.parseInt(raw.slice(6, 8), 16) / 255;
+                return { color: value, alpha };
+            }
+            return { color: value, alpha: 1 };
+        }
+    }
+
+    const rgba = color.match(/^rgba?\(([^)]+)\)$/);
+    if (rgba) {
+        const parts = rgba[1].split(",").map((p) => p.trim());
+        if (parts.length >= 3) {
+            const r = clamp_byte(Number.parseFloat(parts[0]));
+            const g = clamp_byte(Number.parseFloat(parts[1]));
+            const b = clamp_byte(Number.parseFloat(parts[2]));
+            const alpha = parts.length >= 4 ? clamp_unit(Number.parseFloat(parts[3])) : 1;
+            return { color: (r << 16) | (g << 8) | b, alpha };
+        }
+    }
+
+    if (color === "white") return { color: 0xffffff, alpha: 1 };
+    if (color === "black") return { color: 0x000000, alpha: 1 };
+    return DEFAULT_COLOR;
+};
+
+export const to_canvas_rgba = (color: ParsedColor): string => {
+    const r = (color.color >> 16) & 0xff;
+    const g = (color.color >> 8) & 0xff;
+    const b = color.color & 0xff;
+    return `rgba(${r},${g},${b},${color.alpha})`;
+};
+
+const sanitize_slider_path = (path: [number, number][]): [number, number][] => {
+    if (path.length <= 2) {
+        return path;
+    }
+
+    const out: [number, number][] = [path[0]];
+    const min_distance_sq = 0.000001 * 0.000001;
+
+    for (let i = 1; i < path.length; i++) {
+        const prev = out[out.length - 1];
+        const curr = path[i];
+        const dx = curr[0] - prev[0];
+        const dy = curr[1] - prev[1];
+        if (dx * dx + dy * dy <= min_distance_sq) {
+            continue;
+        }
+        out.push(curr);
+    }
+
+    if (out.length < 2) {
+        return [path[0], path[path.length - 1]];
+    }
+
+    return out;
+};
+
+const simplify_slider_path_for_raster = (path: [number, number][], min_distance: number): [number, number][] => {
+    if (path.length <= 2) {
+        return path;
+    }
+
+    const out: [number, number][] = [path[0]];
+    const min_distance_sq = min_distance * min_distance;
+
+    for (let i = 1; i < path.length - 1; i++) {
+        const prev = out[out.length - 1];
+        const curr = path[i];
+        const next = path[i + 1];
+
+        const dx = curr[0] - prev[0];
+        const dy = curr[1] - prev[1];
+        const dist_sq = dx * dx + dy * dy;
+        if (dist_sq < min_distance_sq) {
+            continue;
+        }
+
+        const v1x = curr[0] - prev[0];
+        const v1y = curr[1] - prev[1];
+        const v2x = next[0] - curr[0];
+        const v2y = next[1] - curr[1];
+        const l1 = Math.hypot(v1x, v1y);
+        const l2 = Math.hypot(v2x, v2y);
+
+        if (l1 > 0 && l2 > 0) {
+            const dot = (v1x * v2x + v1y * v2y) / (l1 * l2);
+            if (dot > 0.9985 && dist_sq < min_distance_sq * 4) {
+                continue;
+            }
+        }
+
+        out.push(curr);
+    }
+
+    const last = path[path.length - 1];
+    const tail = out[out.length - 1];
+    if (tail[0] !== last[0] || tail[1] !== last[1]) {
+        out.push(last);
+    }
+
+    return out.length >= 2 ? out : [path[0], last];
+};
+
+const create_path2d = (path: [number, number][]): Path2D | null => {
+    if (typeof Path2D === "undefined" || path.length < 2) {
+        return null;
+    }
+
+    const p = new Path2D();
+    p.moveTo(path[0][0], path[0][1]);
+    for (let i = 1; i < path.length; i++) {
+        p.lineTo(path[i][0], path[i][1]);
+    }
+    return p;
+};
+
+const tint_color = (base: ParsedColor, mix_color: number, amount: number): ParsedColor => {
+    const t = Math.max(0, Math.min(1, amount));
+    const br = (base.color >> 16) & 0xff;
+    const bg = (base.color >> 8) & 0xff;
+    const bb = base.color & 0xff;
+
+    const mr = (mix_color >> 16) & 0xff;
+    const mg = (mix_color >> 8) & 0xff;
+    const mb = mix_color & 0xff;
+
+    const r = Math.round(br + (mr - br) * t);
+    const g = Math.round(bg + (mg - bg) * t);
+    const b = Math.round(bb + (mb - bb) * t);
+
+    return {
+        color: (r << 16) | (g << 8) | b,
+        alpha: base.alpha
+    };
+};
+
+const mix_color = (a: ParsedColor, b: ParsedColor, t: number): ParsedColor => {
+    const mu = Math.max(0, Math.min(1, t));
+    const ar = (a.color >> 16) & 0xff;
+    const ag = (a.color >> 8) & 0xff;
+    const ab = a.color & 0xff;
+    const br = (b.color >> 16) & 0xff;
+    const bg = (b.color >> 8) & 0xff;
+    const bb = b.color & 0xff;
+
+    const r = Math.round(ar + (br - ar) * mu);
+    const g = Math.round(ag + (bg - ag) * mu);
+    const bch = Math.round(ab + (bb - ab) * mu);
+    return {
+        color: (r << 16) | (g << 8) | bch,
+        alpha: a.alpha + (b.alpha - a.alpha) * mu
+    };
+};
+
+const darken_legacy = (base: ParsedColor, amount: number): ParsedColor => tint_color(base, 0x000000, amount);
+
+const lighten_legacy = (base: ParsedColor, amount: number): ParsedColor => {
+    const t = Math.max(0, amount * 0.5);
+    const r = (base.color >> 16) & 0xff;
+    const g = (base.color >> 8) & 0xff;
+    const b = base.color & 0xff;
+
+    const nr = Math.min(255, Math.round(r * (1 + 0.5 * t) + 255 * t));
+    const ng = Math.min(255, Math.round(g * (1 + 0.5 * t) + 255 * t));
+    const nb = Math.min(255, Math.round(b * (1 + 0.5 * t) + 255 * t));
+    return {
+        color: (nr << 16) | (ng << 8) | nb,
+        alpha: base.alpha
+    };
+};
+
+const clamp_unit = (value: number): number => {
+    if (!Number.isFinite(value)) return 1;
+    if (value < 0) return 0;
+    if (value > 1) return 1;
+    return value;
+};
+
+const clamp_byte = (value: number): number => {
+    if (!Number.isFinite(value)) return 0;
+    if (value < 0) return 0;
+    if (value > 255) return 255;
+    return Math.round(value);
+};
+
+// falls back to OffscreenCanvas so rasterizing also works inside workers
+export const create_raster_canvas = (width: number, height: number): RasterCanvas | null => {
+    if (typeof document !== "undefined") {
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    }
+
+    if (typeof OffscreenCanvas !== "undefined") {
+        return new OffscreenCanvas(width, height);
+    }
+
+    return null;
+};
+
+export const get_slider_raster_layout = (path: [number, number][], radius: number, scale: number): SliderRasterLayout | null => {
+    if (path.length < 2) {
+        return null;
+    }
+
+    const simplified_path = sanitize_slider_path(path);
+    if (simplified_path.length < 2) {
+        return null;
+    }
+    const raster_path = simplify_slider_path_for_raster(simplified_path, Math.max(0.02, radius * 0.001));
+
+    let min_x = Infinity;
+    let min_y = Infinity;
+    let max_x = -Infinity;
+    let max_y = -Infinity;
+    for (let i = 0; i < raster_path.length; i++) {
+        const p = raster_path[i];
+        if (p[0] < min_x) min_x = p[0];
+        if (p[0] > max_x) max_x = p[0];
+        if (p[1] < min_y) min_y = p[1];
+        if (p[1] > max_y) max_y = p[1];
+    }
+
+    const padding = radius + 2;
+    min_x -= padding;
+    min_y -= padding;
+    max_x += padding;
+    max_y += padding;
+
+    const pixel_width = Math.ceil((max_x - min_x) * scale);
+    const pixel_height = Math.ceil((max_y - min_y) * scale);
+    if (pixel_width <= 0 || pixel_height <= 0) {
+        return null;
+    }
+
+    return { path: raster_path, min_x, min_y, pixel_width, pixel_height };
+};
+
+export const paint_slider_raster = (
+    ctx: RasterContext,
+    layout: SliderRasterLayout,
+    radius: number,
+    border: ParsedColor,
+    body: ParsedColor,
+    scale: number,
+    body_opacity: number,
+    border_opacity: number
+): void => {
+    const { path } = layout;
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    ctx.scale(scale, scale);
+    ctx.translate(-layout.min_x, -layout.min_y);
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    const path2d = create_path2d(path);
+    const stroke_path = (): void => {
+        if (path2d) {
+            ctx.stroke(path2d);
+            return;
+        }
+        ctx.beginPath();
+        ctx.moveTo(path[0][0], path[0][1]);
+        for (let i = 1; i < path.length; i++) {
+            ctx.lineTo(path[i][0], path[i][1]);
+        }
+        ctx.stroke();
+    };
+
+    const accent: ParsedColor = { color: body.color, alpha: 0.5 * body_opacity };
+    const border_colour: ParsedColor = { color: border.color, alpha: border.alpha * border_opacity };
+    const shadow: ParsedColor = { color: 0x000000, alpha: 0.25 * border_opacity };
+    const outer_colour = darken_legacy(accent, 0.1);
+    const inner_colour = lighten_legacy(accent, 0.22);
+
+    const shadow_portion = 0.078125;
+    const border_portion = 0.1875;
+
+    const colour_at = (position: number): ParsedColor => {
+        const p = clamp_unit(position);
+
+        if (p <= shadow_portion) {
+            return mix_color({ color: 0x000000, alpha: 0 }, shadow, p / Math.max(1e-6, shadow_portion));
+        }
+
+        if (p <= border_portion) {
+            return border_colour;
+        }
+
+        const t = (p - border_portion) / Math.max(1e-6, 1 - border_portion);
+        const biased_t = Math.pow(clamp_unit(t), 1.35);
+        return mix_color(outer_colour, inner_colour, biased_t);
+    };
+
+    const path_complexity = Math.max(1, Math.floor(path.length / 140));
+    const steps = Math.max(52, Math.min(76, Math.floor(72 / path_complexity)));
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = "source-over";
+    for (let i = 1; i <= steps; i++) {
+        const t = i / steps;
+        const width = radius * 2 * t;
+        const position = 1 - t;
+        const color = colour_at(position);
+
+        ctx.strokeStyle = to_canvas_rgba(color);
+        ctx.lineWidth = Math.max(0.5, width);
+        stroke_path();
+        if (i === 1) {
+            ctx.globalCompositeOperation = "destination-over";
+        }
+    }
+    ctx.globalCompositeOperation = "source-over";
+    ctx.restore();
+};
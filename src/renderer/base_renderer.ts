@@ -3,10 +3,33 @@ import type { IBeatmap } from "../types/beatmap";
 import type { RenderHitObject } from "./render_types";
 import type { ISkinConfig } from "../skin/skin_config";
 import type { StandardSkinElements } from "../skin/skin_elements";
+import type { StoryboardRenderer } from "../storyboard/storyboard_renderer";
+import type { IReplay } from "../replay/replay_types";
+import type { IJudgement } from "../scoring/scoring_types";
+import type { MirrorAxis } from "../mods";
+import { process_timing_points } from "../beatmap/timing";
+import { SnapResolver } from "../beatmap/snap";
 
 export const PLAYFIELD_WIDTH = 512;
 export const PLAYFIELD_HEIGHT = 384;
 
+export type PlayfieldLayout = {
+    scale: number;
+    offset_x: number;
+    offset_y: number;
+};
+
+// fits the 512x384 playfield into the canvas, fill is the fraction of the canvas it may use
+export const calculate_playfield_layout = (width: number, height: number, fill: number = 0.9): PlayfieldLayout => {
+    const scale = Math.min((width * fill) / PLAYFIELD_WIDTH, (height * fill) / PLAYFIELD_HEIGHT);
+
+    return {
+        scale,
+        offset_x: Math.floor((width - PLAYFIELD_WIDTH * scale) / 2),
+        offset_y: Math.floor((height - PLAYFIELD_HEIGHT * scale) / 2)
+    };
+};
+
 export enum GridLevel {
     None = 0,
     Large = 32,
@@ -27,6 +50,22 @@ export interface IRendererConfig {
     grid_opacity: number;
     use_high_dpi: boolean;
     enable_stacking: boolean;
+    // which way Mods.Mirror reflects standard objects
+    mirror_axis: MirrorAxis;
+    background_dim: number;
+    show_video: boolean;
+    show_storyboard: boolean;
+    show_cursor: boolean;
+    // hud, drawn by the player on top of the renderer
+    show_score: boolean;
+    show_combo: boolean;
+    show_accuracy: boolean;
+    show_health_bar: boolean;
+    show_judgements: boolean;
+    show_break_overlay: boolean;
+    show_countdown: boolean;
+    // tint standard circles and mania notes by their beat snap instead of combo/column colours
+    enable_snap_colours: boolean;
 }
 
 export const DEFAULT_RENDERER_CONFIG: IRendererConfig = {
@@ -44,7 +83,42 @@ export const DEFAULT_RENDERER_CONFIG: IRendererConfig = {
 
     use_high_dpi: true,
 
-    enable_stacking: true
+    enable_stacking: true,
+    mirror_axis: "horizontal",
+
+    background_dim: 0.7,
+    show_video: true,
+    show_storyboard: true,
+    show_cursor: true,
+
+    show_score: true,
+    show_combo: true,
+    show_accuracy: true,
+    show_health_bar: true,
+    show_judgements: true,
+    show_break_overlay: true,
+    show_countdown: true,
+    enable_snap_colours: false
+};
+
+// the video takes over from the image once the track reaches its offset and it has a frame to draw
+export const get_background_layer = (
+    image: RenderImage | null,
+    video: RenderImage | null,
+    video_offset: number,
+    time: number
+): RenderImage | null => {
+    if (!video || time < video_offset) {
+        return image;
+    }
+
+    // HAVE_CURRENT_DATA, anything below has no frame to draw yet
+    const ready_state = (video.source as { readyState?: number }).readyState ?? 0;
+    if (ready_state < 2) {
+        return image;
+    }
+
+    return video;
 };
 
 export abstract class BaseRenderer {
@@ -57,6 +131,10 @@ export abstract class BaseRenderer {
     protected beatmap!: IBeatmap;
     protected objects: RenderHitObject[] = [];
     protected background_image: RenderImage | null = null;
+    protected background_video: RenderImage | null = null;
+    protected background_video_offset = 0;
+    protected storyboard: StoryboardRenderer | null = null;
+    protected replay: IReplay | null = null;
 
     constructor(
         backend: IRenderBackend,
@@ -76,8 +154,41 @@ export abstract class BaseRenderer {
         this.background_image = image;
     }
 
+    set_background_video(video: RenderImage | null, offset: number = 0): void {
+        this.background_video = video;
+        this.background_video_offset = offset;
+    }
+
+    set_storyboard(storyboard: StoryboardRenderer | null): void {
+        this.storyboard = storyboard;
+    }
+
+    // null goes back to autoplay
+    set_replay(replay: IReplay | null): void {
+        this.replay = replay;
+    }
+
+    // judgements from the score simulation, null treats every object as hit
+    set_judgements(_judgements: IJudgement[] | null): void {}
+
     update_config(config: Partial<IRendererConfig>): void {
+        const had_snap_colours = this.config.enable_snap_colours;
         this.config = { ...this.config, ...config };
+        if (!had_snap_colours) {
+            this.assign_snap_divisors();
+        }
+    }
+
+    // only worked out while snap colours are on, the objects are sorted so the resolver's cursor only moves forward
+    protected assign_snap_divisors(): void {
+        if (!this.config.enable_snap_colours || !this.beatmap) {
+            return;
+        }
+
+        const resolver = new SnapResolver(process_timing_points([...this.beatmap.TimingPoints]));
+        for (const obj of this.objects) {
+            obj.snap_divisor = resolver.get_divisor(obj.time);
+        }
     }
 
     abstract initialize(beatmap: IBeatmap): void;
@@ -141,16 +252,37 @@ export abstract class BaseRenderer {
         backend.restore();
     }
 
-    protected render_background(): void {
-        if (!this.background_image) return;
+    protected render_background(time: number): void {
+        const alpha = 1 - Math.max(0, Math.min(1, this.config.background_dim));
+        this.render_background_image(time, alpha);
+
+        if (this.storyboard && this.config.show_storyboard) {
+            this.storyboard.render_behind(this.backend, time, alpha);
+        }
+    }
+
+    protected render_storyboard_overlay(time: number): void {
+        if (this.storyboard && this.config.show_storyboard) {
+            this.storyboard.render_overlay(this.backend, time);
+        }
+    }
+
+    private render_background_image(time: number, alpha: number): void {
+        const image = get_background_layer(
+            this.background_image,
+            this.config.show_video ? this.background_video : null,
+            this.background_video_offset,
+            time
+        );
+        if (!image) return;
 
         const { backend } = this;
         backend.save();
-        backend.set_alpha(0.3);
+        backend.set_alpha(alpha);
 
         const canvas_w = backend.width;
         const canvas_h = backend.height;
-        const { width: img_w, height: img_h } = this.background_image;
+        const { width: img_w, height: img_h } = image;
 
         if (img_w > 0 && img_h > 0) {
             const scale = Math.max(canvas_w / img_w, canvas_h / img_h);
@@ -159,9 +291,9 @@ export abstract class BaseRenderer {
             const x = (canvas_w - draw_w) / 2;
             const y = (canvas_h - draw_h) / 2;
 
-            backend.draw_image(this.background_image, x, y, draw_w, draw_h);
+            backend.draw_image(image, x, y, draw_w, draw_h);
         } else {
-            backend.draw_image(this.background_image, 0, 0, canvas_w, canvas_h);
+            backend.draw_image(image, 0, 0, canvas_w, canvas_h);
         }
 
         backend.restore();
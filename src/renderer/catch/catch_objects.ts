@@ -0,0 +1,276 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { get_combo_skip, is_new_combo, is_slider, is_spinner } from "../../types/beatmap";
+import type { RenderHitObject, RenderSliderData } from "../render_types";
+import { process_timing_points } from "../../beatmap/timing";
+import { TimingStateResolver } from "../standard/timing_state";
+import { calculate_slider_duration, calculate_tick_spacing } from "../standard/slider_math";
+import { generate_slider_events } from "../standard/slider_events";
+import { compute_slider_path, get_path_position_at_length } from "../standard/slider_path";
+import { LegacyRandom } from "../../math/legacy_random";
+import { clamp } from "../../math/vector2";
+
+export const CATCH_PLAYFIELD_WIDTH = 512;
+export const CATCHER_BASE_SIZE = 106.75;
+export const CATCHER_ALLOWED_CATCH_RANGE = 0.8;
+export const CATCHER_BASE_DASH_SPEED = 1;
+export const CATCHER_BASE_WALK_SPEED = 0.5;
+
+const RNG_SEED = 1337;
+
+export type CatchObjectKind = "fruit" | "droplet" | "tiny_droplet" | "banana";
+
+export type CatchHitObject = {
+    kind: CatchObjectKind;
+    time: number;
+    x: number;
+    combo_number: number;
+    hyper_dash: boolean;
+    hyper_dash_target: CatchHitObject | null;
+};
+
+type CatchEvent = {
+    kind: "fruit" | "droplet";
+    time: number;
+    progress: number;
+};
+
+export const calculate_catcher_width = (cs: number): number => {
+    const scale = 1 - (0.7 * (cs - 5)) / 5;
+    return CATCHER_BASE_SIZE * Math.abs(scale) * CATCHER_ALLOWED_CATCH_RANGE;
+};
+
+const create_object = (kind: CatchObjectKind, time: number, x: number, combo_number: number): CatchHitObject => ({
+    kind,
+    time,
+    x,
+    combo_number,
+    hyper_dash: false,
+    hyper_dash_target: null
+});
+
+const apply_random_offset = (position: number, max_offset: number, rng: LegacyRandom): number => {
+    const right = rng.next_bool();
+    const rand = Math.min(20, rng.next_double_range(0, Math.max(0, max_offset)));
+
+    if (right) {
+        return position + rand <= CATCH_PLAYFIELD_WIDTH ? position + rand : position - rand;
+    }
+
+    return position - rand >= 0 ? position - rand : position + rand;
+};
+
+const apply_offset = (position: number, amount: number): number => {
+    if (amount > 0) {
+        return position + amount < CATCH_PLAYFIELD_WIDTH ? position + amount : position;
+    }
+    return position + amount > 0 ? position + amount : position;
+};
+
+const build_juice_stream = (obj: RenderHitObject, beatmap: IBeatmap, resolver: TimingStateResolver, combo_number: number): CatchHitObject[] => {
+    const slider = obj.data as RenderSliderData;
+    const path = slider.computed_path ?? compute_slider_path(slider);
+    const spans = Math.max(1, slider.repetitions);
+    const state = resolver.get_state_at(obj.time);
+    const span_duration = calculate_slider_duration(slider.distance, beatmap, state);
+    const { tick_distance, min_distance_from_end } = calculate_tick_spacing(beatmap, state);
+    const position_at = (progress: number): number => get_path_position_at_length(path, clamp(progress, 0, 1) * slider.distance)[0];
+
+    const { ticks, repeats } = generate_slider_events({
+        start_time: obj.time,
+        span_duration,
+        span_count: spans,
+        length: slider.distance,
+        tick_distance,
+        min_distance_from_end,
+        get_position_at_progress: (progress) => [position_at(progress), 0]
+    });
+
+    const events: CatchEvent[] = [{ kind: "fruit", time: obj.time, progress: 0 }];
+    for (const tick of ticks) {
+        events.push({ kind: "droplet", time: tick.time, progress: tick.path_progress });
+    }
+    for (const repeat of repeats) {
+        events.push({ kind: "fruit", time: repeat.time, progress: repeat.path_progress });
+    }
+    events.push({ kind: "fruit", time: obj.time + span_duration * spans, progress: spans % 2 });
+    events.sort((a, b) => a.time - b.time);
+
+    const nested: CatchHitObject[] = [];
+    let last: CatchEvent | null = null;
+
+    for (const event of events) {
+        if (last) {
+            // tiny droplets fill the gaps between ticks, halving the spacing until it is at most 100ms
+            const since_last = Math.trunc(event.time) - Math.trunc(last.time);
+            if (since_last > 80) {
+                let time_between = since_last;
+                while (time_between > 100) {
+                    time_between /= 2;
+                }
+
+                for (let t = time_between; t < since_last; t += time_between) {
+                    const progress = last.progress + (t / since_last) * (event.progress - last.progress);
+                    nested.push(create_object("tiny_droplet", t + last.time, position_at(progress), combo_number));
+                }
+            }
+        }
+
+        last = event;
+        nested.push(create_object(event.kind, event.time, position_at(event.progress), combo_number));
+    }
+
+    return nested;
+};
+
+const build_banana_shower = (obj: RenderHitObject, combo_number: number): CatchHitObject[] => {
+    const bananas: CatchHitObject[] = [];
+    let spacing = obj.end_time - obj.time;
+    while (spacing > 100) {
+        spacing /= 2;
+    }
+    if (spacing <= 0) {
+        return bananas;
+    }
+
+    for (let time = obj.time; time <= obj.end_time; time += spacing) {
+        bananas.push(create_object("banana", time, 0, combo_number));
+    }
+
+    return bananas;
+};
+
+const apply_position_offsets = (groups: Array<{ source: RenderHitObject; nested: CatchHitObject[] }>, hard_rock: boolean): void => {
+    const rng = new LegacyRandom(RNG_SEED);
+    let last_position: number | null = null;
+    let last_start_time = 0;
+
+    for (const { source, nested } of groups) {
+        if (is_spinner(source)) {
+            for (const banana of nested) {
+                banana.x = rng.next_double() * CATCH_PLAYFIELD_WIDTH;
+                // stable rolled a banana type, rotation and colour here
+                rng.next();
+                rng.next();
+                rng.next();
+            }
+            continue;
+        }
+
+        if (is_slider(source)) {
+            const slider = source.data as RenderSliderData;
+            const last_point = slider.control_points[slider.control_points.length - 1];
+            // matches stable, which used the last control point rather than the computed path end
+            last_position = last_point ? last_point[0] : source.x;
+            last_start_time = source.time;
+
+            for (const object of nested) {
+                if (object.kind === "tiny_droplet") {
+                    // tiny droplets keep the integer overload, only hard rock fruit offsets use doubles
+                    object.x += clamp(rng.next_range(-20, 20), -object.x, CATCH_PLAYFIELD_WIDTH - object.x);
+                } else if (object.kind === "droplet") {
+                    rng.next();
+                }
+            }
+            continue;
+        }
+
+        if (!hard_rock) {
+            continue;
+        }
+
+        const fruit = nested[0];
+        let position = fruit.x;
+
+        if (last_position === null) {
+            last_position = position;
+            last_start_time = fruit.time;
+            continue;
+        }
+
+        const position_diff = position - last_position;
+        const time_diff = Math.trunc(fruit.time - last_start_time);
+
+        if (time_diff > 1000) {
+            last_position = position;
+            last_start_time = fruit.time;
+            continue;
+        }
+
+        if (position_diff === 0) {
+            fruit.x = apply_random_offset(position, time_diff / 4, rng);
+            continue;
+        }
+
+        if (Math.abs(position_diff) < Math.trunc(time_diff / 3)) {
+            position = apply_offset(position, position_diff);
+        }
+
+        fruit.x = position;
+        last_position = position;
+        last_start_time = fruit.time;
+    }
+};
+
+export const apply_hyper_dash = (objects: CatchHitObject[], catcher_width: number): void => {
+    const palpable = objects.filter((obj) => obj.kind === "fruit" || obj.kind === "droplet");
+    const half_catcher_width = catcher_width / 2 / CATCHER_ALLOWED_CATCH_RANGE;
+    let last_direction = 0;
+    let last_excess = half_catcher_width;
+
+    for (let i = 0; i < palpable.length - 1; i++) {
+        const current = palpable[i];
+        const next = palpable[i + 1];
+        current.hyper_dash = false;
+        current.hyper_dash_target = null;
+
+        const direction = next.x > current.x ? 1 : -1;
+        // a quarter frame of grace time, as stable does
+        const time_to_next = next.time - current.time - 1000 / 60 / 4;
+        const distance_to_next = Math.abs(next.x - current.x) - (last_direction === direction ? last_excess : half_catcher_width);
+        const distance_to_hyper = time_to_next * CATCHER_BASE_DASH_SPEED - distance_to_next;
+
+        if (distance_to_hyper < 0) {
+            current.hyper_dash = true;
+            current.hyper_dash_target = next;
+            last_excess = half_catcher_width;
+        } else {
+            last_excess = clamp(distance_to_hyper, 0, half_catcher_width);
+        }
+
+        last_direction = direction;
+    }
+};
+
+export const build_catch_objects = (beatmap: IBeatmap, objects: RenderHitObject[], cs: number, hard_rock: boolean): CatchHitObject[] => {
+    const resolver = new TimingStateResolver(process_timing_points([...beatmap.TimingPoints]));
+    const groups: Array<{ source: RenderHitObject; nested: CatchHitObject[] }> = [];
+    let combo_number = 0;
+
+    for (const obj of objects) {
+        if (is_new_combo(obj) && !is_spinner(obj)) {
+            combo_number += 1 + get_combo_skip(obj);
+        }
+
+        if (is_spinner(obj)) {
+            groups.push({ source: obj, nested: build_banana_shower(obj, combo_number) });
+        } else if (is_slider(obj)) {
+            groups.push({ source: obj, nested: build_juice_stream(obj, beatmap, resolver, combo_number) });
+        } else {
+            groups.push({ source: obj, nested: [create_object("fruit", obj.time, obj.x, combo_number)] });
+        }
+    }
+
+    apply_position_offsets(groups, hard_rock);
+
+    const result: CatchHitObject[] = [];
+    for (const group of groups) {
+        for (const object of group.nested) {
+            object.x = clamp(object.x, 0, CATCH_PLAYFIELD_WIDTH);
+            result.push(object);
+        }
+    }
+
+    result.sort((a, b) => a.time - b.time);
+    apply_hyper_dash(result, calculate_catcher_width(cs));
+    return result;
+};
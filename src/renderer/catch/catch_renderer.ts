@@ -0,0 +1,226 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { Mods, has_mod } from "../../types/mods";
+import { BaseRenderer, type IRendererConfig, DEFAULT_RENDERER_CONFIG, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT } from "../base_renderer";
+import type { IRenderBackend } from "../backend/render_backend";
+import type { ISkinConfig } from "../../skin/skin_config";
+import { get_combo_color } from "../../skin/skin_config";
+import { build_render_objects } from "../render_objects";
+import type { StandardSkinElements } from "../../skin/skin_elements";
+import { get_adjusted_difficulty } from "../../mods";
+import { calculate_preempt, calculate_scale } from "../../math/difficulty";
+import { clamp } from "../../math/vector2";
+import { build_catch_objects, calculate_catcher_width, CATCHER_BASE_WALK_SPEED, type CatchHitObject } from "./catch_objects";
+
+const OBJECT_RADIUS = 64;
+const CATCHER_Y = PLAYFIELD_HEIGHT - 40;
+const CATCHER_HEIGHT = 16;
+const CATCH_FADE_DURATION = 80;
+const HIDDEN_FADE_RATIO = 0.6;
+const HYPER_DASH_COLOR = "#ff0000";
+const BANANA_COLOR = "#ffe14d";
+
+type CatcherState = {
+    x: number;
+    dashing: boolean;
+    hyper_dashing: boolean;
+};
+
+export class CatchRenderer extends BaseRenderer {
+    private catch_objects: CatchHitObject[] = [];
+    private preempt = 1200;
+    private object_scale = 0.5;
+    private catcher_width = calculate_catcher_width(5);
+
+    constructor(
+        backend: IRenderBackend,
+        skin: ISkinConfig,
+        mods: number = 0,
+        config: IRendererConfig = DEFAULT_RENDERER_CONFIG,
+        skin_elements: StandardSkinElements | null = null
+    ) {
+        super(backend, skin, mods, config, skin_elements);
+    }
+
+    initialize(beatmap: IBeatmap): void {
+        this.beatmap = beatmap;
+        this.objects = build_render_objects(beatmap).sort((a, b) => a.time - b.time);
+
+        const ar = beatmap.Difficulty.ApproachRate >= 0 ? beatmap.Difficulty.ApproachRate : beatmap.Difficulty.OverallDifficulty;
+        const difficulty = get_adjusted_difficulty(beatmap.Difficulty.CircleSize, ar, 0, 0, this.mods);
+        this.preempt = calculate_preempt(difficulty.ar);
+        this.object_scale = calculate_scale(difficulty.cs);
+        this.catcher_width = calculate_catcher_width(difficulty.cs);
+        this.catch_objects = build_catch_objects(beatmap, this.objects, difficulty.cs, has_mod(this.mods, Mods.HardRock));
+    }
+
+    set_mods(mods: number): void {
+        this.mods = mods;
+        if (this.beatmap) {
+            this.initialize(this.beatmap);
+        }
+    }
+
+    private find_first_index(time: number): number {
+        let low = 0;
+        let high = this.catch_objects.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.catch_objects[mid].time < time) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
+    private get_catcher_state(time: number): CatcherState {
+        const objects = this.catch_objects;
+        if (objects.length === 0) {
+            return { x: PLAYFIELD_WIDTH / 2, dashing: false, hyper_dashing: false };
+        }
+
+        const next_index = this.find_first_index(time);
+        if (next_index === 0) {
+            return { x: objects[0].x, dashing: false, hyper_dashing: false };
+        }
+        if (next_index >= objects.length) {
+            return { x: objects[objects.length - 1].x, dashing: false, hyper_dashing: false };
+        }
+
+        const prev = objects[next_index - 1];
+        const next = objects[next_index];
+        const distance = Math.abs(next.x - prev.x);
+        const duration = Math.max(1, next.time - prev.time);
+
+        if (prev.hyper_dash) {
+            const progress = clamp((time - prev.time) / duration, 0, 1);
+            return { x: prev.x + (next.x - prev.x) * progress, dashing: true, hyper_dashing: true };
+        }
+
+        const dashing = distance / duration > CATCHER_BASE_WALK_SPEED;
+        const speed = dashing ? distance / duration : CATCHER_BASE_WALK_SPEED;
+        const move_duration = distance / speed;
+        const move_start = next.time - move_duration;
+        const progress = move_duration > 0 ? clamp((time - move_start) / move_duration, 0, 1) : 1;
+
+        return {
+            x: prev.x + (next.x - prev.x) * progress,
+            dashing: dashing && progress > 0 && progress < 1,
+            hyper_dashing: false
+        };
+    }
+
+    private get_object_y(obj: CatchHitObject, time: number): number {
+        return CATCHER_Y * (1 - (obj.time - time) / this.preempt);
+    }
+
+    private get_object_alpha(obj: CatchHitObject, y: number): number {
+        if (!has_mod(this.mods, Mods.Hidden)) {
+            return 1;
+        }
+
+        const fade_start = CATCHER_Y * HIDDEN_FADE_RATIO;
+        return 1 - clamp((y - fade_start) / (CATCHER_Y - fade_start), 0, 1);
+    }
+
+    private draw_object(obj: CatchHitObject, time: number): void {
+        const { backend } = this;
+        const base_radius = OBJECT_RADIUS * this.object_scale;
+        let y = this.get_object_y(obj, time);
+        let alpha = this.get_object_alpha(obj, y);
+
+        if (time >= obj.time) {
+            const progress = (time - obj.time) / CATCH_FADE_DURATION;
+            if (progress >= 1) return;
+            y = CATCHER_Y;
+            alpha = 1 - progress;
+        }
+
+        if (alpha <= 0) return;
+
+        backend.set_alpha(alpha);
+        switch (obj.kind) {
+            case "fruit": {
+                const radius = base_radius * 0.9;
+                if (obj.hyper_dash) {
+                    backend.set_blend_mode("lighter");
+                    backend.draw_circle(obj.x, y, radius * 1.25, "rgba(255,0,0,0.35)");
+                    backend.set_blend_mode("normal");
+                }
+                backend.draw_circle(obj.x, y, radius, get_combo_color(this.skin, obj.combo_number), obj.hyper_dash ? HYPER_DASH_COLOR : "#ffffff", 3);
+                break;
+            }
+            case "droplet":
+                backend.draw_circle(
+                    obj.x,
+                    y,
+                    base_radius * 0.45,
+                    get_combo_color(this.skin, obj.combo_number),
+                    obj.hyper_dash ? HYPER_DASH_COLOR : "#ffffff",
+                    2
+                );
+                break;
+            case "tiny_droplet":
+                backend.draw_circle(obj.x, y, base_radius * 0.22, get_combo_color(this.skin, obj.combo_number));
+                break;
+            case "banana":
+                backend.draw_circle(obj.x, y, base_radius * 0.7, BANANA_COLOR, "#ffffff", 2);
+                break;
+        }
+        backend.set_alpha(1);
+    }
+
+    private draw_catcher(time: number): void {
+        const { backend } = this;
+        const state = this.get_catcher_state(time);
+        const half_width = this.catcher_width / 2;
+        const plate_color = state.hyper_dashing ? HYPER_DASH_COLOR : "#ffffff";
+
+        if (state.dashing) {
+            // trail of previous positions gives dashes and hyperdashes a visible afterimage
+            for (let i = 3; i >= 1; i--) {
+                const trail = this.get_catcher_state(time - i * 24);
+                backend.set_alpha(0.12 * (4 - i));
+                backend.draw_rect(trail.x - half_width, CATCHER_Y, this.catcher_width, CATCHER_HEIGHT, plate_color);
+            }
+        }
+
+        backend.set_alpha(0.9);
+        backend.draw_rect(state.x - half_width, CATCHER_Y, this.catcher_width, CATCHER_HEIGHT, plate_color);
+        backend.set_alpha(1);
+        backend.draw_rect(state.x - half_width, CATCHER_Y, this.catcher_width, 2, "#ffffff");
+    }
+
+    render(time: number): void {
+        const { backend, config } = this;
+
+        this.render_background(time);
+
+        backend.save();
+        backend.translate(config.offset_x, config.offset_y);
+        backend.scale(config.scale, config.scale);
+
+        this.render_playfield();
+
+        const start = this.find_first_index(time - CATCH_FADE_DURATION);
+        let end = start;
+        while (end < this.catch_objects.length && this.catch_objects[end].time <= time + this.preempt) {
+            end++;
+        }
+
+        for (let i = end - 1; i >= start; i--) {
+            this.draw_object(this.catch_objects[i], time);
+        }
+
+        this.draw_catcher(time);
+
+        backend.restore();
+        this.render_storyboard_overlay(time);
+    }
+
+    dispose(): void {
+        super.dispose();
+        this.catch_objects = [];
+    }
+}
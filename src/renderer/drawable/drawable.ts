@@ -19,6 +19,7 @@ export interface DrawableConfig {
     radius: number;
     scale?: number;
     mods: number;
+    snap_colours?: boolean;
 }
 
 export abstract class Drawable {
@@ -35,6 +36,7 @@ export abstract class Drawable {
     protected y = 0;
 
     protected armed_state = ArmedState.Idle;
+    protected missed = false;
     protected transforms = new TransformSequence();
 
     protected life_time_start = 0;
@@ -74,13 +76,29 @@ export abstract class Drawable {
     }
 
     protected update_state(time: number): void {
-        if (this.armed_state === ArmedState.Idle && time >= this.hit_object.time) {
-            this.armed_state = ArmedState.Hit;
-            this.on_hit(time);
+        // seeking back re-arms the object
+        if (time < this.hit_object.time) {
+            this.armed_state = ArmedState.Idle;
+            return;
         }
+
+        if (this.armed_state === ArmedState.Idle) {
+            this.armed_state = this.missed ? ArmedState.Miss : ArmedState.Hit;
+            if (this.missed) {
+                this.on_miss(time);
+            } else {
+                this.on_hit(time);
+            }
+        }
+    }
+
+    // from the score simulation, everything counts as hit without one
+    set_missed(missed: boolean): void {
+        this.missed = missed;
     }
 
     protected on_hit(_time: number): void {}
+    protected on_miss(_time: number): void {}
 
     abstract render(time: number): void;
 
@@ -1,8 +1,9 @@
 import type { RenderHitObject } from "../render_types";
-import { Drawable, type DrawableConfig } from "./drawable";
+import { ArmedState, Drawable, type DrawableConfig } from "./drawable";
 import { CircleVisual } from "./circle_visual";
 import { HitBurstEffect } from "./hit_burst";
 import { get_combo_color } from "../../skin/skin_config";
+import { UNSNAPPED, get_snap_colour } from "../../beatmap/snap";
 
 export class DrawableHitCircle extends Drawable {
     private visual = new CircleVisual();
@@ -22,9 +23,13 @@ export class DrawableHitCircle extends Drawable {
         const { backend, skin, config } = this;
         const { radius } = config;
         const pos = this.position;
-        const combo_color = get_combo_color(skin, this.combo_number, 1);
+        const combo_color = config.snap_colours
+            ? get_snap_colour(this.hit_object.snap_divisor ?? UNSNAPPED)
+            : get_combo_color(skin, this.combo_number, 1);
 
         this.visual.render(backend, skin, pos, radius, combo_color, this.combo_count, config.skin_elements, undefined, true, false);
-        this.hitburst.render(backend, skin, pos, radius, combo_color);
+        if (this.armed_state !== ArmedState.Miss) {
+            this.hitburst.render(backend, skin, pos, radius, combo_color);
+        }
     }
 }
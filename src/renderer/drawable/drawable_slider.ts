@@ -171,7 +171,7 @@ export class DrawableSlider extends Drawable {
     }
 
     private calculate_ball_position(time: number): void {
-        const { hit_object, span_duration } = this;
+        const { hit_object } = this;
         const FOLLOW_IN_DURATION = 300;
         const FOLLOW_OUT_DURATION = 300;
         const FOLLOW_AREA = 2.4;
@@ -191,13 +191,10 @@ export class DrawableSlider extends Drawable {
                 return;
             }
             const elapsed = time - hit_object.time;
-            const span_count = Math.max(1, this.slider_data.repetitions);
-            const span_index = Math.min(Math.floor(elapsed / span_duration), span_count - 1);
-            const span_progress = clamp((elapsed - span_index * span_duration) / span_duration, 0, 1);
-            const t = span_index % 2 === 1 ? 1 - span_progress : span_progress;
-            this.ball_reverse = span_index % 2 === 1;
+            const { progress, reverse } = this.get_span_progress(elapsed);
+            this.ball_reverse = reverse;
 
-            this.ball_position = this.get_position_at_progress(t);
+            this.ball_position = this.get_position_at_progress(progress);
             this.ball_alpha = 1;
 
             const follow_in_progress = clamp(elapsed / FOLLOW_IN_DURATION, 0, 1);
@@ -216,6 +213,26 @@ export class DrawableSlider extends Drawable {
         this.follow_scale = FOLLOW_AREA - (FOLLOW_AREA - 1) * eased_out;
     }
 
+    private get_span_progress(elapsed: number): { progress: number; reverse: boolean } {
+        const span_duration = this.span_duration;
+        const span_count = Math.max(1, this.slider_data.repetitions);
+        const span_index = Math.min(Math.floor(elapsed / span_duration), span_count - 1);
+        const span_progress = clamp((elapsed - span_index * span_duration) / span_duration, 0, 1);
+        const reverse = span_index % 2 === 1;
+        return { progress: reverse ? 1 - span_progress : span_progress, reverse };
+    }
+
+    // where the ball is at time, clamped to the slider's duration
+    get_ball_position_at(time: number): Vec2 {
+        this.ensure_path_ready();
+        if (this.span_duration <= 0) {
+            return this.slider_data.pos;
+        }
+
+        const elapsed = clamp(time - this.hit_object.time, 0, this.hit_object.end_time - this.hit_object.time);
+        return this.get_position_at_progress(this.get_span_progress(elapsed).progress);
+    }
+
     private get_position_at_progress(progress: number): Vec2 {
         if (!this.path_ready) {
             return this.slider_data.pos;
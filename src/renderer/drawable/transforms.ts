@@ -1,5 +1,17 @@
 export type EasingFunction = (t: number) => number;
 
+const ELASTIC_CONST = (2 * Math.PI) / 0.3;
+const ELASTIC_CONST2 = 0.3 / 4;
+const BACK_CONST = 1.70158;
+const BACK_CONST2 = BACK_CONST * 1.525;
+
+const out_bounce = (t: number): number => {
+    if (t < 1 / 2.75) return 7.5625 * t * t;
+    if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
+    if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
+    return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
+};
+
 export const Easing = {
     None: (t: number) => t,
     Out: (t: number) => 1 - Math.pow(1 - t, 2),
@@ -14,11 +26,92 @@ export const Easing = {
     OutElastic: (t: number) => {
         const c4 = (2 * Math.PI) / 3;
         return t === 0 ? 0 : t === 1 ? 1 : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * c4) + 1;
-    }
+    },
+    InOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+    InOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+    InQuart: (t: number) => t * t * t * t,
+    OutQuart: (t: number) => 1 - Math.pow(1 - t, 4),
+    InOutQuart: (t: number) => (t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2),
+    InOutQuint: (t: number) => (t < 0.5 ? 16 * t * t * t * t * t : 1 - Math.pow(-2 * t + 2, 5) / 2),
+    InSine: (t: number) => 1 - Math.cos((t * Math.PI) / 2),
+    OutSine: (t: number) => Math.sin((t * Math.PI) / 2),
+    InOutSine: (t: number) => 0.5 - 0.5 * Math.cos(Math.PI * t),
+    InExpo: (t: number) => Math.pow(2, 10 * (t - 1)),
+    OutExpo: (t: number) => 1 - Math.pow(2, -10 * t),
+    InOutExpo: (t: number) => (t < 0.5 ? 0.5 * Math.pow(2, 20 * t - 10) : 1 - 0.5 * Math.pow(2, -20 * t + 10)),
+    InCirc: (t: number) => 1 - Math.sqrt(1 - t * t),
+    OutCirc: (t: number) => Math.sqrt(1 - (t - 1) * (t - 1)),
+    InOutCirc: (t: number) => (t < 0.5 ? 0.5 - 0.5 * Math.sqrt(1 - 4 * t * t) : 0.5 + 0.5 * Math.sqrt(1 - (2 * t - 2) * (2 * t - 2))),
+    InElastic: (t: number) => -Math.pow(2, -10 + 10 * t) * Math.sin((1 - ELASTIC_CONST2 - t) * ELASTIC_CONST),
+    OutElasticFull: (t: number) => Math.pow(2, -10 * t) * Math.sin((t - ELASTIC_CONST2) * ELASTIC_CONST) + 1,
+    OutElasticHalf: (t: number) => Math.pow(2, -10 * t) * Math.sin((0.5 * t - ELASTIC_CONST2) * ELASTIC_CONST) + 1,
+    OutElasticQuarter: (t: number) => Math.pow(2, -10 * t) * Math.sin((0.25 * t - ELASTIC_CONST2) * ELASTIC_CONST) + 1,
+    InOutElastic: (t: number) => {
+        t *= 2;
+        if (t < 1) {
+            return -0.5 * Math.pow(2, -10 + 10 * t) * Math.sin(((1 - ELASTIC_CONST2 * 1.5 - t) * ELASTIC_CONST) / 1.5);
+        }
+        t -= 1;
+        return 0.5 * Math.pow(2, -10 * t) * Math.sin(((t - ELASTIC_CONST2 * 1.5) * ELASTIC_CONST) / 1.5) + 1;
+    },
+    InBack: (t: number) => t * t * ((BACK_CONST + 1) * t - BACK_CONST),
+    OutBack: (t: number) => (t - 1) * (t - 1) * ((BACK_CONST + 1) * (t - 1) + BACK_CONST) + 1,
+    InOutBack: (t: number) => {
+        t *= 2;
+        if (t < 1) {
+            return 0.5 * t * t * ((BACK_CONST2 + 1) * t - BACK_CONST2);
+        }
+        t -= 2;
+        return 0.5 * (t * t * ((BACK_CONST2 + 1) * t + BACK_CONST2) + 2);
+    },
+    InBounce: (t: number) => 1 - out_bounce(1 - t),
+    OutBounce: out_bounce,
+    InOutBounce: (t: number) => (t < 0.5 ? 0.5 - 0.5 * out_bounce(1 - t * 2) : out_bounce((t - 0.5) * 2) * 0.5 + 0.5)
 };
 
+// indexed by the easing id used in .osu/.osb files
+export const LEGACY_EASINGS: EasingFunction[] = [
+    Easing.None,
+    Easing.Out,
+    Easing.In,
+    Easing.InQuad,
+    Easing.OutQuad,
+    Easing.InOutQuad,
+    Easing.InCubic,
+    Easing.OutCubic,
+    Easing.InOutCubic,
+    Easing.InQuart,
+    Easing.OutQuart,
+    Easing.InOutQuart,
+    Easing.InQuint,
+    Easing.OutQuint,
+    Easing.InOutQuint,
+    Easing.InSine,
+    Easing.OutSine,
+    Easing.InOutSine,
+    Easing.InExpo,
+    Easing.OutExpo,
+    Easing.InOutExpo,
+    Easing.InCirc,
+    Easing.OutCirc,
+    Easing.InOutCirc,
+    Easing.InElastic,
+    Easing.OutElasticFull,
+    Easing.OutElasticHalf,
+    Easing.OutElasticQuarter,
+    Easing.InOutElastic,
+    Easing.InBack,
+    Easing.OutBack,
+    Easing.InOutBack,
+    Easing.InBounce,
+    Easing.OutBounce,
+    Easing.InOutBounce
+];
+
+export const get_legacy_easing = (id: number): EasingFunction => LEGACY_EASINGS[id] ?? Easing.None;
+
 export interface Transform {
-    property: "alpha" | "scale" | "x" | "y" | "rotation";
+    property: "alpha" | "scale" | "x" | "y" | "rotation" | "scale_x" | "scale_y" | "color_r" | "color_g" | "color_b";
     start_value: number;
     end_value: number;
     start_time: number;
@@ -30,6 +123,8 @@ export interface Transform {
 
 export class TransformSequence {
     private transforms: Transform[] = [];
+    // per property lists, binary searched while they stay in start time order
+    private by_property: Map<Transform["property"], { list: Transform[]; sorted: boolean }> = new Map();
 
     add(
         property: Transform["property"],
@@ -39,14 +134,28 @@ export class TransformSequence {
         duration: number,
         easing: EasingFunction = Easing.None
     ): this {
-        this.transforms.push({
+        const transform: Transform = {
             property,
             start_value,
             end_value,
             start_time,
             end_time: start_time + duration,
             easing
-        });
+        };
+        this.transforms.push(transform);
+
+        let entry = this.by_property.get(property);
+        if (!entry) {
+            entry = { list: [], sorted: true };
+            this.by_property.set(property, entry);
+        }
+
+        const last = entry.list[entry.list.length - 1];
+        if (last && last.start_time > start_time) {
+            entry.sorted = false;
+        }
+        entry.list.push(transform);
+
         return this;
     }
 
@@ -54,20 +163,51 @@ export class TransformSequence {
         return this;
     }
 
-    get_value(property: Transform["property"], time: number, default_value: number): number {
-        let value = default_value;
+    has(property: Transform["property"]): boolean {
+        return this.by_property.has(property);
+    }
 
+    get_start_time(): number {
+        let start = Infinity;
         for (const t of this.transforms) {
-            if (t.property !== property) continue;
-            if (time < t.start_time) continue;
+            start = Math.min(start, t.start_time);
+        }
+        return start;
+    }
+
+    get_end_time(): number {
+        let end = -Infinity;
+        for (const t of this.transforms) {
+            end = Math.max(end, t.end_time);
+        }
+        return end;
+    }
+
+    get_value(property: Transform["property"], time: number, default_value: number): number {
+        const entry = this.by_property.get(property);
+        if (!entry) {
+            return default_value;
+        }
 
-            if (time >= t.end_time) {
-                value = t.end_value;
-            } else {
-                const progress = (time - t.start_time) / (t.end_time - t.start_time);
-                const eased = t.easing(progress);
-                value = t.start_value + (t.end_value - t.start_value) * eased;
+        if (entry.sorted) {
+            const { list } = entry;
+            let low = 0;
+            let high = list.length;
+            while (low < high) {
+                const mid = (low + high) >> 1;
+                if (list[mid].start_time <= time) {
+                    low = mid + 1;
+                } else {
+                    high = mid;
+                }
             }
+            return low === 0 ? default_value : this.evaluate(list[low - 1], time);
+        }
+
+        let value = default_value;
+        for (const t of entry.list) {
+            if (time < t.start_time) continue;
+            value = this.evaluate(t, time);
         }
 
         return value;
@@ -75,5 +215,16 @@ export class TransformSequence {
 
     clear(): void {
         this.transforms = [];
+        this.by_property.clear();
+    }
+
+    private evaluate(t: Transform, time: number): number {
+        if (time >= t.end_time) {
+            return t.end_value;
+        }
+
+        const progress = (time - t.start_time) / (t.end_time - t.start_time);
+        const eased = t.easing(progress);
+        return t.start_value + (t.end_value - t.start_value) * eased;
     }
 }
@@ -0,0 +1,123 @@
+import type { IRenderBackend, RenderImage } from "./backend/render_backend";
+import type { IJudgement } from "../scoring/scoring_types";
+import type { Vec2 } from "../math/vector2";
+
+export const FLASHLIGHT_BASE_RADIUS = 180;
+export const FLASHLIGHT_SLIDER_DIM = 0.8;
+
+const BREAK_RADIUS_SCALE = 2.5;
+const MASK_TEXTURE_SIZE = 256;
+// where the soft edge starts, as a fraction of the radius
+const MASK_SOFT_EDGE = 0.7;
+
+export type FlashlightBounds = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+let mask_texture: RenderImage | null | undefined;
+
+// transparent in the middle, black at the edge, shared by every renderer
+const get_mask_texture = (): RenderImage | null => {
+    if (mask_texture !== undefined) {
+        return mask_texture;
+    }
+
+    mask_texture = null;
+    if (typeof document === "undefined") {
+        return null;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = MASK_TEXTURE_SIZE;
+    canvas.height = MASK_TEXTURE_SIZE;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+        return null;
+    }
+
+    const half = MASK_TEXTURE_SIZE / 2;
+    const gradient = ctx.createRadialGradient(half, half, 0, half, half, half);
+    gradient.addColorStop(0, "rgba(0,0,0,0)");
+    gradient.addColorStop(MASK_SOFT_EDGE, "rgba(0,0,0,0)");
+    gradient.addColorStop(MASK_SOFT_EDGE + (1 - MASK_SOFT_EDGE) * 0.5, "rgba(0,0,0,0.6)");
+    gradient.addColorStop(1, "rgba(0,0,0,1)");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, MASK_TEXTURE_SIZE, MASK_TEXTURE_SIZE);
+
+    mask_texture = { source: canvas, width: MASK_TEXTURE_SIZE, height: MASK_TEXTURE_SIZE };
+    return mask_texture;
+};
+
+// stable shrinks the light at 100 and 200 combo and opens it up during breaks
+export const get_flashlight_radius = (combo: number, in_break: boolean): number => {
+    let radius = FLASHLIGHT_BASE_RADIUS;
+    if (combo >= 200) {
+        radius *= 0.8;
+    } else if (combo >= 100) {
+        radius *= 0.9;
+    }
+
+    return in_break ? radius * BREAK_RADIUS_SCALE : radius;
+};
+
+// combo after the last judgement at or before time
+export const get_combo_at = (judgements: IJudgement[], time: number): number => {
+    let low = 0;
+    let high = judgements.length - 1;
+    let combo = 0;
+
+    while (low <= high) {
+        const mid = (low + high) >>> 1;
+        if (judgements[mid].time <= time) {
+            combo = judgements[mid].state.combo;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return combo;
+};
+
+// covers bounds with black except for a soft circle around position, dim darkens the circle itself
+export const draw_flashlight = (backend: IRenderBackend, position: Vec2, radius: number, dim: number, bounds: FlashlightBounds): void => {
+    const [x, y] = position;
+    const left = x - radius;
+    const top = y - radius;
+    const right = x + radius;
+    const bottom = y + radius;
+    const bounds_right = bounds.x + bounds.width;
+    const bounds_bottom = bounds.y + bounds.height;
+
+    backend.save();
+    backend.set_alpha(1);
+
+    const mask = get_mask_texture();
+    if (mask) {
+        backend.draw_image(mask, left, top, radius * 2, radius * 2);
+
+        // everything around the mask square
+        backend.draw_rect(bounds.x, bounds.y, bounds.width, Math.max(0, top - bounds.y), "#000000");
+        backend.draw_rect(bounds.x, bottom, bounds.width, Math.max(0, bounds_bottom - bottom), "#000000");
+        backend.draw_rect(bounds.x, top, Math.max(0, left - bounds.x), radius * 2, "#000000");
+        backend.draw_rect(right, top, Math.max(0, bounds_right - right), radius * 2, "#000000");
+    } else {
+        // no canvas to build the mask with, so cut a hard edged hole out of the cover instead
+        backend.begin_path();
+        backend.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+        backend.move_to(x + radius, y);
+        backend.arc_to(x, y, radius, 0, Math.PI * 2, true);
+        backend.close_path();
+        backend.fill_path("#000000");
+    }
+
+    if (dim > 0) {
+        backend.set_alpha(dim);
+        backend.draw_rect(left, top, radius * 2, radius * 2, "#000000");
+    }
+
+    backend.restore();
+};
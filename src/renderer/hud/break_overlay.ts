@@ -0,0 +1,155 @@
+import type { IRenderBackend, RenderImage } from "../backend/render_backend";
+import type { IRendererConfig } from "../base_renderer";
+import type { ISkinConfig } from "../../skin/skin_config";
+import type { StandardSkinElements } from "../../skin/skin_elements";
+import { clamp } from "../../math/vector2";
+import { find_break_at, has_break_effect, MIN_BREAK_DURATION, type IBreakPeriod } from "../../beatmap/breaks";
+import { get_score_state_at } from "../../scoring/scoring";
+import type { IScoreSimulation } from "../../scoring/scoring_types";
+
+const HUD_REFERENCE_HEIGHT = 480;
+const FADE_DURATION = MIN_BREAK_DURATION / 2;
+const DIM_ALPHA = 0.35;
+
+const COUNTDOWN_TEXT_SIZE = 28;
+const PROGRESS_WIDTH = 240;
+const PROGRESS_HEIGHT = 4;
+
+// warning arrows blink through the last second of the break
+const ARROW_DURATION = 1000;
+const ARROW_BLINK = 100;
+const ARROW_SIZE = 24;
+
+// stable only judges the section on breaks long enough to show it
+const SECTION_MIN_DURATION = 2880;
+const SECTION_DURATION = 1200;
+const SECTION_BLINK = 60;
+const SECTION_PASS_HEALTH = 0.5;
+
+// the dim, countdown, warning arrows and section pass/fail shown during breaks, in screen space
+export class BreakOverlay {
+    private readonly breaks: IBreakPeriod[];
+
+    constructor(
+        private readonly skin: ISkinConfig,
+        private readonly elements: StandardSkinElements | null,
+        breaks: IBreakPeriod[],
+        private readonly simulation: IScoreSimulation | null
+    ) {
+        this.breaks = breaks.filter(has_break_effect);
+    }
+
+    render(backend: IRenderBackend, time: number, config: IRendererConfig): void {
+        if (!config.show_break_overlay) {
+            return;
+        }
+
+        const period = find_break_at(this.breaks, time);
+        if (!period) {
+            return;
+        }
+
+        const fade = clamp(Math.min(time - period.start, period.end - time) / FADE_DURATION, 0, 1);
+        const scale = backend.height / HUD_REFERENCE_HEIGHT;
+
+        backend.save();
+        backend.set_alpha(DIM_ALPHA * fade);
+        backend.draw_rect(0, 0, backend.width, backend.height, "#000000");
+
+        backend.set_alpha(fade);
+        this.render_countdown(backend, time, period, scale);
+        this.render_section(backend, time, period, scale);
+        this.render_arrows(backend, time, period, scale);
+
+        backend.restore();
+    }
+
+    private render_countdown(backend: IRenderBackend, time: number, period: IBreakPeriod, scale: number): void {
+        const remaining = Math.max(0, period.end - time);
+        const centre_x = backend.width / 2;
+        const centre_y = backend.height / 2;
+        const width = PROGRESS_WIDTH * scale * (remaining / (period.end - period.start));
+        const height = PROGRESS_HEIGHT * scale;
+
+        // shrinks towards the middle as the break runs out
+        backend.draw_rect(centre_x - width / 2, centre_y - height / 2, width, height, "#ffffff");
+        backend.draw_text(
+            String(Math.ceil(remaining / 1000)),
+            centre_x,
+            centre_y - height - 4 * scale,
+            `bold ${Math.round(COUNTDOWN_TEXT_SIZE * scale)}px ${this.skin.default_font ?? "monospace"}`,
+            "#ffffff",
+            "center",
+            "bottom"
+        );
+    }
+
+    private render_section(backend: IRenderBackend, time: number, period: IBreakPeriod, scale: number): void {
+        if (!this.simulation || period.end - period.start < SECTION_MIN_DURATION) {
+            return;
+        }
+
+        const show_time = (period.start + period.end) / 2 - SECTION_DURATION / 2;
+        const elapsed = time - show_time;
+        if (elapsed < 0 || elapsed >= SECTION_DURATION) {
+            return;
+        }
+        // a few quick blinks before it settles
+        if (elapsed < SECTION_BLINK * 6 && Math.floor(elapsed / SECTION_BLINK) % 2 === 1) {
+            return;
+        }
+
+        const passed = get_score_state_at(this.simulation, period.start).health >= SECTION_PASS_HEALTH;
+        const image = passed ? this.elements?.section_pass : this.elements?.section_fail;
+
+        if (image) {
+            const width = image.width * scale;
+            const height = image.height * scale;
+            backend.draw_image(image, (backend.width - width) / 2, (backend.height - height) / 2 - backend.height / 4, width, height);
+            return;
+        }
+
+        backend.draw_text(
+            passed ? "section pass" : "section fail",
+            backend.width / 2,
+            backend.height / 4,
+            `bold ${Math.round(COUNTDOWN_TEXT_SIZE * scale)}px ${this.skin.default_font ?? "monospace"}`,
+            passed ? "#88e066" : "#ff4444",
+            "center",
+            "middle"
+        );
+    }
+
+    private render_arrows(backend: IRenderBackend, time: number, period: IBreakPeriod, scale: number): void {
+        const remaining = period.end - time;
+        if (remaining > ARROW_DURATION || Math.floor(remaining / ARROW_BLINK) % 2 === 1) {
+            return;
+        }
+
+        const image = this.elements?.play_warningarrow;
+        for (const y of [backend.height * 0.3, backend.height * 0.7]) {
+            this.draw_arrow(backend, image, backend.width * 0.12, y, scale, false);
+            this.draw_arrow(backend, image, backend.width * 0.88, y, scale, true);
+        }
+    }
+
+    // arrows point right, the right hand ones are mirrored to face the middle
+    private draw_arrow(backend: IRenderBackend, image: RenderImage | undefined, x: number, y: number, scale: number, mirrored: boolean): void {
+        backend.save();
+        backend.translate(x, y);
+        backend.scale(mirrored ? -scale : scale, scale);
+
+        if (image) {
+            backend.draw_image(image, -image.width / 2, -image.height / 2, image.width, image.height);
+        } else {
+            backend.begin_path();
+            backend.move_to(-ARROW_SIZE / 2, -ARROW_SIZE / 2);
+            backend.line_to(ARROW_SIZE / 2, 0);
+            backend.line_to(-ARROW_SIZE / 2, ARROW_SIZE / 2);
+            backend.close_path();
+            backend.fill_path("#ff4444");
+        }
+
+        backend.restore();
+    }
+}
@@ -0,0 +1,81 @@
+import type { IRenderBackend } from "../backend/render_backend";
+import type { IRendererConfig } from "../base_renderer";
+import type { ISkinConfig } from "../../skin/skin_config";
+import type { StandardSkinElements } from "../../skin/skin_elements";
+import { clamp, lerp } from "../../math/vector2";
+import { Easing } from "../drawable/transforms";
+import type { CountdownCue, ICountdownEvent } from "../../beatmap/countdown";
+
+const HUD_REFERENCE_HEIGHT = 480;
+const TEXT_SIZE = 48;
+const POP_SCALE = 1.2;
+// part of the beat spent fading out before the next cue
+const FADE_OUT = 0.3;
+
+const FALLBACK_TEXT: Record<CountdownCue, string> = {
+    ready: "Ready?",
+    count3: "3",
+    count2: "2",
+    count1: "1",
+    go: "Go!"
+};
+
+// ready, 3, 2, 1, go before the first object, in screen space
+export class CountdownOverlay {
+    private readonly beat_length: number;
+
+    constructor(
+        private readonly skin: ISkinConfig,
+        private readonly elements: StandardSkinElements | null,
+        private readonly events: ICountdownEvent[]
+    ) {
+        this.beat_length = events.length > 1 ? events[1].time - events[0].time : 0;
+    }
+
+    render(backend: IRenderBackend, time: number, config: IRendererConfig): void {
+        if (!config.show_countdown || this.beat_length <= 0) {
+            return;
+        }
+
+        let event: ICountdownEvent | null = null;
+        for (const candidate of this.events) {
+            if (candidate.time > time) {
+                break;
+            }
+            event = candidate;
+        }
+        if (!event) {
+            return;
+        }
+
+        const progress = (time - event.time) / this.beat_length;
+        if (progress >= 1) {
+            return;
+        }
+
+        const scale = (backend.height / HUD_REFERENCE_HEIGHT) * lerp(POP_SCALE, 1, Easing.Out(clamp(progress * 4, 0, 1)));
+        const alpha = progress < 1 - FADE_OUT ? 1 : (1 - progress) / FADE_OUT;
+
+        backend.save();
+        backend.set_alpha(clamp(alpha, 0, 1));
+
+        const image = this.elements?.[event.cue];
+        if (image) {
+            const width = image.width * scale;
+            const height = image.height * scale;
+            backend.draw_image(image, (backend.width - width) / 2, (backend.height - height) / 2, width, height);
+        } else {
+            backend.draw_text(
+                FALLBACK_TEXT[event.cue],
+                backend.width / 2,
+                backend.height / 2,
+                `bold ${Math.round(TEXT_SIZE * scale)}px ${this.skin.default_font ?? "monospace"}`,
+                "#ffffff",
+                "center",
+                "middle"
+            );
+        }
+
+        backend.restore();
+    }
+}
@@ -0,0 +1,228 @@
+import type { IRenderBackend, RenderImage } from "../backend/render_backend";
+import type { IRendererConfig } from "../base_renderer";
+import type { ISkinConfig } from "../../skin/skin_config";
+import type { SkinFont, StandardSkinElements } from "../../skin/skin_elements";
+import { clamp, lerp } from "../../math/vector2";
+import { Easing } from "../drawable/transforms";
+import { find_judgement_index, get_score_state_at } from "../../scoring/scoring";
+import { HitResult, type IJudgement, type IScoreSimulation } from "../../scoring/scoring_types";
+import { draw_skin_font, get_skin_font_height } from "./skin_font";
+
+// stable lays the hud out in a 640x480 space
+const HUD_REFERENCE_HEIGHT = 480;
+const HUD_MARGIN = 6;
+
+const SCORE_SCALE = 0.7;
+const ACCURACY_SCALE = 0.42;
+const COMBO_SCALE = 0.85;
+const COMBO_POP_DURATION = 150;
+const COMBO_POP_SCALE = 1.25;
+
+const HEALTH_BAR_WIDTH = 0.45;
+const HEALTH_BAR_HEIGHT = 7;
+// where scorebar-colour sits on top of scorebar-bg
+const SCOREBAR_COLOUR_OFFSET: [number, number] = [5, 16];
+
+const JUDGEMENT_DURATION = 800;
+const JUDGEMENT_FADE_OUT = 250;
+const JUDGEMENT_TEXT_SIZE = 22;
+const FALLBACK_NUMBER_SIZE = 40;
+const MISS_DROP = 16;
+
+const FALLBACK_TEXT: Record<HitResult, { text: string; color: string }> = {
+    [HitResult.Great]: { text: "300", color: "#66ccff" },
+    [HitResult.Ok]: { text: "100", color: "#88e066" },
+    [HitResult.Meh]: { text: "50", color: "#ffcc22" },
+    [HitResult.Miss]: { text: "X", color: "#ff4444" }
+};
+
+const is_object_result = (judgement: IJudgement): boolean =>
+    judgement.kind === "circle" || judgement.kind === "note" || judgement.kind === "slider" || judgement.kind === "spinner";
+
+// score, accuracy, combo, health and judgements for a simulated play, in screen space
+export class HudRenderer {
+    constructor(
+        private readonly skin: ISkinConfig,
+        private readonly elements: StandardSkinElements | null,
+        private readonly simulation: IScoreSimulation
+    ) {}
+
+    render(backend: IRenderBackend, time: number, config: IRendererConfig): void {
+        const state = get_score_state_at(this.simulation, time);
+        const scale = backend.height / HUD_REFERENCE_HEIGHT;
+
+        backend.save();
+        backend.set_alpha(1);
+
+        if (config.show_judgements) {
+            this.render_judgements(backend, time, config);
+        }
+        if (config.show_health_bar) {
+            this.render_health_bar(backend, state.health, scale);
+        }
+
+        let y = HUD_MARGIN * scale;
+        if (config.show_score) {
+            y += this.draw_number(
+                backend,
+                this.elements?.score_font,
+                String(state.score).padStart(8, "0"),
+                backend.width - HUD_MARGIN * scale,
+                y,
+                scale * SCORE_SCALE,
+                "right"
+            );
+        }
+        if (config.show_accuracy) {
+            this.draw_number(
+                backend,
+                this.elements?.score_font,
+                `${(state.accuracy * 100).toFixed(2)}%`,
+                backend.width - HUD_MARGIN * scale,
+                y,
+                scale * ACCURACY_SCALE,
+                "right"
+            );
+        }
+        if (config.show_combo && state.combo > 0) {
+            const combo_scale = scale * COMBO_SCALE * this.get_combo_pop(time);
+            const height = this.get_number_height(this.elements?.combo_font, combo_scale);
+            this.draw_number(
+                backend,
+                this.elements?.combo_font,
+                `${state.combo}x`,
+                HUD_MARGIN * scale,
+                backend.height - HUD_MARGIN * scale - height,
+                combo_scale,
+                "left"
+            );
+        }
+
+        backend.restore();
+    }
+
+    // grows for a moment whenever the last judgement raised the combo
+    private get_combo_pop(time: number): number {
+        const { judgements } = this.simulation;
+        const index = find_judgement_index(this.simulation, time);
+        if (index < 0) {
+            return 1;
+        }
+
+        const current = judgements[index];
+        const previous_combo = index > 0 ? judgements[index - 1].state.combo : 0;
+        const elapsed = time - current.time;
+        if (current.state.combo <= previous_combo || elapsed >= COMBO_POP_DURATION) {
+            return 1;
+        }
+
+        return lerp(COMBO_POP_SCALE, 1, Easing.OutQuad(elapsed / COMBO_POP_DURATION));
+    }
+
+    private render_health_bar(backend: IRenderBackend, health: number, scale: number): void {
+        const background = this.elements?.scorebar_bg;
+        const colour = this.elements?.scorebar_colour;
+
+        if (background && colour) {
+            backend.draw_image(background, 0, 0, background.width * scale, background.height * scale);
+            this.draw_cropped(backend, colour, SCOREBAR_COLOUR_OFFSET[0] * scale, SCOREBAR_COLOUR_OFFSET[1] * scale, health, scale);
+            return;
+        }
+
+        const x = HUD_MARGIN * scale;
+        const y = HUD_MARGIN * scale;
+        const width = backend.width * HEALTH_BAR_WIDTH;
+        const height = HEALTH_BAR_HEIGHT * scale;
+        backend.draw_rect(x, y, width, height, "rgba(0,0,0,0.5)");
+        backend.draw_rect(x, y, width * clamp(health, 0, 1), height, "#ffffff");
+    }
+
+    // only the left part of the image, like stable's bar
+    private draw_cropped(backend: IRenderBackend, image: RenderImage, x: number, y: number, fraction: number, scale: number): void {
+        const visible = clamp(fraction, 0, 1);
+        if (visible <= 0) {
+            return;
+        }
+
+        const source = image.source as { width?: number; height?: number };
+        const source_width = Number(source?.width ?? image.width) || image.width;
+        const source_height = Number(source?.height ?? image.height) || image.height;
+        backend.draw_image_part(image, 0, 0, source_width * visible, source_height, x, y, image.width * visible * scale, image.height * scale);
+    }
+
+    private render_judgements(backend: IRenderBackend, time: number, config: IRendererConfig): void {
+        const { judgements } = this.simulation;
+
+        for (let i = find_judgement_index(this.simulation, time); i >= 0; i--) {
+            const judgement = judgements[i];
+            const elapsed = time - judgement.time;
+            if (elapsed >= JUDGEMENT_DURATION) {
+                break;
+            }
+            if (!is_object_result(judgement)) {
+                continue;
+            }
+
+            const progress = elapsed / JUDGEMENT_DURATION;
+            const fade_start = JUDGEMENT_DURATION - JUDGEMENT_FADE_OUT;
+            const alpha = elapsed < fade_start ? 1 : 1 - (elapsed - fade_start) / JUDGEMENT_FADE_OUT;
+            const missed = judgement.result === HitResult.Miss;
+            const pop = missed ? lerp(1.4, 1, Easing.OutQuad(Math.min(1, progress * 4))) : lerp(0.7, 1, Easing.OutBack(Math.min(1, progress * 6)));
+            const drop = missed ? MISS_DROP * Easing.InQuad(progress) : 0;
+
+            const x = config.offset_x + judgement.position[0] * config.scale;
+            const y = config.offset_y + (judgement.position[1] + drop) * config.scale;
+
+            backend.set_alpha(clamp(alpha, 0, 1));
+            const image = this.get_judgement_image(judgement.result);
+            if (image) {
+                const width = image.width * config.scale * pop;
+                const height = image.height * config.scale * pop;
+                backend.draw_image(image, x - width / 2, y - height / 2, width, height);
+            } else {
+                const { text, color } = FALLBACK_TEXT[judgement.result];
+                const size = Math.round(JUDGEMENT_TEXT_SIZE * config.scale * pop);
+                backend.draw_text(text, x, y, `bold ${size}px ${this.skin.default_font ?? "monospace"}`, color, "center", "middle");
+            }
+        }
+
+        backend.set_alpha(1);
+    }
+
+    private get_judgement_image(result: HitResult): RenderImage | undefined {
+        switch (result) {
+            case HitResult.Great:
+                return this.elements?.hit300;
+            case HitResult.Ok:
+                return this.elements?.hit100;
+            case HitResult.Meh:
+                return this.elements?.hit50;
+            default:
+                return this.elements?.hit0;
+        }
+    }
+
+    private get_number_height(font: SkinFont | undefined, scale: number): number {
+        return font ? get_skin_font_height(font, scale) : FALLBACK_NUMBER_SIZE * scale;
+    }
+
+    // returns the drawn height so the next line can go below it
+    private draw_number(
+        backend: IRenderBackend,
+        font: SkinFont | undefined,
+        text: string,
+        x: number,
+        y: number,
+        scale: number,
+        align: "left" | "right"
+    ): number {
+        if (font) {
+            draw_skin_font(backend, font, text, x, y, scale, align);
+            return get_skin_font_height(font, scale);
+        }
+
+        const size = Math.round(FALLBACK_NUMBER_SIZE * scale);
+        backend.draw_text(text, x, y, `${size}px ${this.skin.default_font ?? "monospace"}`, "#ffffff", align, "top");
+        return size;
+    }
+}
@@ -0,0 +1,35 @@
+import type { IRenderBackend } from "../backend/render_backend";
+import type { IRendererConfig } from "../base_renderer";
+import type { ISkinConfig } from "../../skin/skin_config";
+import type { StandardSkinElements } from "../../skin/skin_elements";
+import type { IBreakPeriod } from "../../beatmap/breaks";
+import type { ICountdownEvent } from "../../beatmap/countdown";
+import type { IScoreSimulation } from "../../scoring/scoring_types";
+import { BreakOverlay } from "./break_overlay";
+import { CountdownOverlay } from "./countdown_overlay";
+import { HudRenderer } from "./hud_renderer";
+
+// anything drawn in screen space on top of the renderer
+export interface IScreenOverlay {
+    render(backend: IRenderBackend, time: number, config: IRendererConfig): void;
+}
+
+// break overlay, countdown and hud, in the order they are drawn, the config toggles decide what shows up
+export const create_screen_overlays = (
+    skin: ISkinConfig,
+    elements: StandardSkinElements | null,
+    breaks: IBreakPeriod[],
+    countdown: ICountdownEvent[],
+    score: IScoreSimulation | null
+): IScreenOverlay[] => {
+    const overlays: IScreenOverlay[] = [new BreakOverlay(skin, elements, breaks, score)];
+
+    if (countdown.length > 0) {
+        overlays.push(new CountdownOverlay(skin, elements, countdown));
+    }
+    if (score) {
+        overlays.push(new HudRenderer(skin, elements, score));
+    }
+
+    return overlays;
+};
@@ -0,0 +1,42 @@
+import type { IRenderBackend } from "../backend/render_backend";
+import type { SkinFont } from "../../skin/skin_elements";
+
+export const measure_skin_font = (font: SkinFont, text: string, scale: number): number => {
+    let width = 0;
+    let count = 0;
+
+    for (const char of text) {
+        const glyph = font.glyphs[char];
+        if (glyph) {
+            width += glyph.width;
+            count++;
+        }
+    }
+
+    return Math.max(0, (width - Math.max(0, count - 1) * font.overlap) * scale);
+};
+
+// characters the skin doesn't have are skipped, y is the top edge
+export const draw_skin_font = (
+    backend: IRenderBackend,
+    font: SkinFont,
+    text: string,
+    x: number,
+    y: number,
+    scale: number,
+    align: "left" | "right" = "left"
+): void => {
+    let cursor = align === "right" ? x - measure_skin_font(font, text, scale) : x;
+
+    for (const char of text) {
+        const glyph = font.glyphs[char];
+        if (!glyph) {
+            continue;
+        }
+
+        backend.draw_image(glyph, cursor, y, glyph.width * scale, glyph.height * scale);
+        cursor += (glyph.width - font.overlap) * scale;
+    }
+};
+
+export const get_skin_font_height = (font: SkinFont, scale: number): number => (font.glyphs["0"]?.height ?? 0) * scale;
@@ -4,13 +4,18 @@ import { Mods, has_mod } from "../../types/mods";
 import { BaseRenderer, type IRendererConfig, DEFAULT_RENDERER_CONFIG, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT } from "../base_renderer";
 import type { IRenderBackend, RenderImage } from "../backend/render_backend";
 import type { ISkinConfig } from "../../skin/skin_config";
-import { get_mania_lane_color } from "../../skin/skin_config";
+import { get_mania_lane_color, get_mania_skin_config, type IManiaSkinConfig } from "../../skin/skin_config";
 import type { RenderHitObject, RenderHoldData } from "../render_types";
 import { build_render_objects } from "../render_objects";
 import type { StandardSkinElements } from "../../skin/skin_elements";
+import type { IReplay } from "../../replay/replay_types";
+import { get_replay_keys } from "../../replay/replay_frames";
+import { UNSNAPPED, get_snap_colour } from "../../beatmap/snap";
+import { process_timing_points } from "../../beatmap/timing";
+import { ManiaScroll, get_scroll_time } from "./mania_scroll";
+import { DEFAULT_MANIA_SETTINGS, get_lane_covers, merge_mania_settings, type IManiaSettings } from "./mania_settings";
+import { build_stages, get_column_fallback_index, type ManiaStage } from "./mania_stages";
 
-const MAX_TIME_RANGE = 11485;
-const BASE_SCROLL_SPEED = 8;
 const HIT_WINDOW = 50;
 const LANE_LIGHT_ALPHA = 0.4;
 const LANE_FILL_ALPHA = 0.2;
@@ -21,9 +26,28 @@ const NOTE_GRADIENT_BOTTOM_ALPHA = 0.2;
 const GLOW_MAIN_ALPHA = 0.5;
 const GLOW_SECONDARY_ALPHA = 0.18;
 const GLOW_FLASH_ALPHA = 0.5;
+// skin.ini [Mania] values are laid out for a 480 pixel tall screen
+const MANIA_SKIN_SCALE = PLAYFIELD_HEIGHT / 480;
+
+// the [Mania] image keys that replace the stage textures
+const STAGE_IMAGE_KEYS: Record<string, string> = {
+    "mania-stage-left": "stageleft",
+    "mania-stage-right": "stageright",
+    "mania-stage-bottom": "stagebottom",
+    "mania-stage-light": "stagelight",
+    "mania-stage-hint": "stagehint"
+};
+
+// gap between the two halves of a split layout
+const STAGE_SPACING = 16;
 
 type LaneMetrics = {
-    lane_width: number;
+    stage: ManiaStage;
+    mania: IManiaSkinConfig | null;
+    // left edge of each column relative to the stage, column spacing included
+    lane_x: number[];
+    lane_widths: number[];
+    total_width: number;
     note_height: number;
     spacing: number;
     hit_pos: number;
@@ -35,9 +59,14 @@ export class ManiaRenderer extends BaseRenderer {
     private static readonly DEFAULT_KEY_COUNT = 4;
 
     private key_count = 4;
-    private scroll_time: number = MAX_TIME_RANGE / BASE_SCROLL_SPEED;
-    private hd_coverage = 0.25;
-    private fi_coverage = 0.6;
+    private stages: ManiaStage[] = [{ start: 0, key_count: 4, special_lane: null }];
+    // stage index of every lane
+    private lane_stages: number[] = [0, 0, 0, 0];
+    private settings: IManiaSettings = { ...DEFAULT_MANIA_SETTINGS };
+    private scroll_time: number = get_scroll_time(DEFAULT_MANIA_SETTINGS.scroll_speed);
+    private scroll = new ManiaScroll([], 0, DEFAULT_MANIA_SETTINGS.scroll_algorithm);
+    // part of the lanes above the hit position that flashlight leaves visible
+    private fl_visible = 0.35;
     private gradient_ratio = 0.2;
 
     private press_start_sorted: RenderHitObject[] = [];
@@ -72,12 +101,17 @@ export class ManiaRenderer extends BaseRenderer {
     initialize(beatmap: IBeatmap): void {
         this.beatmap = beatmap;
         this.objects = build_render_objects(beatmap).sort((a, b) => a.time - b.time);
+        this.assign_snap_divisors();
         this.key_count = this.resolve_key_count(beatmap);
+        this.stages = build_stages(beatmap, this.skin, this.key_count);
+        this.lane_stages = this.stages.flatMap((stage, index) => new Array<number>(stage.key_count).fill(index));
         this.press_start_sorted = this.objects;
         this.press_end_sorted = this.objects.slice().sort((a, b) => a.end_time - b.end_time);
         this.render_start_sorted = this.objects;
         this.render_end_sorted = this.objects.slice().sort((a, b) => a.end_time - b.end_time);
         this.base_timing_points = this.extract_base_timing_points(beatmap);
+        const last_time = this.objects.reduce((max_time, obj) => Math.max(max_time, obj.end_time), 0);
+        this.scroll = new ManiaScroll(process_timing_points([...beatmap.TimingPoints]), last_time, this.settings.scroll_algorithm);
         this.reset_pressed_state();
         this.reset_render_state();
     }
@@ -87,29 +121,64 @@ export class ManiaRenderer extends BaseRenderer {
         this.update_scroll_time();
     }
 
+    set_replay(replay: IReplay | null): void {
+        super.set_replay(replay);
+        this.reset_pressed_state();
+    }
+
+    get_mania_settings(): IManiaSettings {
+        return { ...this.settings };
+    }
+
+    set_mania_settings(settings: Partial<IManiaSettings>): void {
+        this.settings = merge_mania_settings(this.settings, settings);
+        this.scroll.set_algorithm(this.settings.scroll_algorithm);
+        this.update_scroll_time();
+        // the visible window changed, so the incremental object window has to be rebuilt
+        this.reset_render_state();
+    }
+
     private update_scroll_time(): void {
-        this.scroll_time = MAX_TIME_RANGE / BASE_SCROLL_SPEED;
+        this.scroll_time = get_scroll_time(this.settings.scroll_speed);
     }
 
-    private get_lane_metrics(): LaneMetrics {
+    private get_lane_metrics(stage: ManiaStage): LaneMetrics {
+        const mania = get_mania_skin_config(this.skin, stage.key_count);
         const lane_width = Math.max(1, Number.isFinite(this.skin.mania_lane_width) ? this.skin.mania_lane_width : 30);
         const note_height = Math.max(4, Number.isFinite(this.skin.mania_note_height) ? this.skin.mania_note_height : 15);
         const spacing = Math.max(0, Number.isFinite(this.skin.mania_lane_spacing) ? this.skin.mania_lane_spacing : 1);
-        const hit_pos = Math.max(8, Math.min(PLAYFIELD_HEIGHT, Number.isFinite(this.skin.mania_hit_position) ? this.skin.mania_hit_position : 364));
-        return { lane_width, note_height, spacing, hit_pos };
+        const default_hit_pos = Number.isFinite(this.skin.mania_hit_position) ? this.skin.mania_hit_position : 364;
+        const skin_hit_pos = mania?.hit_position !== undefined ? mania.hit_position * MANIA_SKIN_SCALE : default_hit_pos;
+        const hit_pos = Math.max(8, Math.min(PLAYFIELD_HEIGHT, this.settings.hit_position ?? skin_hit_pos));
+
+        const lane_x: number[] = [];
+        const lane_widths: number[] = [];
+        let x = 0;
+        for (let column = 0; column < stage.key_count; column++) {
+            const skin_width = mania?.column_width?.[column];
+            const width = Math.max(1, this.settings.column_width ?? (skin_width !== undefined ? skin_width * MANIA_SKIN_SCALE : lane_width));
+            lane_x.push(x);
+            lane_widths.push(width);
+            x += width;
+            if (column < stage.key_count - 1) {
+                x += Math.max(0, (mania?.column_spacing?.[column] ?? 0) * MANIA_SKIN_SCALE);
+            }
+        }
+
+        return { stage, mania, lane_x, lane_widths, total_width: Math.max(1, x), note_height, spacing, hit_pos };
     }
 
-    private time_to_y(time_diff: number, hit_pos: number): number {
-        const progress = time_diff / this.scroll_time;
+    private time_to_y(time: number, current: number, hit_pos: number): number {
+        const progress = this.scroll.get_distance(time, current) / this.scroll_time;
         return hit_pos - progress * hit_pos;
     }
 
-    private get_stage_bottom_height(time: number, total_width: number): number {
-        const stage_bottom = this.get_mania_texture("mania-stage-bottom", time);
+    private get_stage_bottom_height(time: number, metrics: LaneMetrics): number {
+        const stage_bottom = this.get_mania_texture("mania-stage-bottom", time, metrics.mania);
         if (!stage_bottom) {
             return 0;
         }
-        return Math.max(1, Math.round(stage_bottom.height * (total_width / Math.max(1, stage_bottom.width))));
+        return Math.max(1, Math.round(stage_bottom.height * (metrics.total_width / Math.max(1, stage_bottom.width))));
     }
 
     private draw_clipped_note_with_gradient(
@@ -237,7 +306,27 @@ export class ManiaRenderer extends BaseRenderer {
         }
     }
 
+    // the replay's held columns, bit i is the i-th lane as drawn
+    private update_replay_pressed_state(replay: IReplay, time: number): void {
+        const keys = get_replay_keys(replay.frames, time);
+        this.active_press_objects.clear();
+        if (this.lane_impacts.length !== this.key_count) {
+            this.lane_impacts = new Array<number>(this.key_count).fill(0);
+        }
+        // held columns glow at full strength, there is no note to fade against
+        for (let i = 0; i < this.active_press_lane_counts.length; i++) {
+            this.active_press_lane_counts[i] = (keys >>> i) & 1;
+            this.lane_impacts[i] = this.active_press_lane_counts[i];
+        }
+        this.last_press_time = time;
+    }
+
     private update_pressed_state(time: number): void {
+        if (this.replay) {
+            this.update_replay_pressed_state(this.replay, time);
+            return;
+        }
+
         const requires_rebuild = !Number.isFinite(this.last_press_time) || time < this.last_press_time || time - this.last_press_time > 1000;
 
         if (requires_rebuild) {
@@ -342,79 +431,102 @@ export class ManiaRenderer extends BaseRenderer {
         return points;
     }
 
-    private get_mania_texture(name: string, time: number): RenderImage | null {
-        const key = name.toLowerCase();
-        const animation = this.skin_elements?.mania_animations?.[key];
-        if (animation && animation.length > 0) {
-            const fps = this.skin.animation_framerate > 0 ? this.skin.animation_framerate : 60;
-            const index = Math.floor((Math.max(0, time) / 1000) * fps) % animation.length;
-            return animation[index];
+    // ini_key names the [Mania] image that replaces the default texture, stage textures are looked up by name
+    private get_mania_texture(name: string, time: number, mania: IManiaSkinConfig | null, ini_key: string | null = null): RenderImage | null {
+        const override = mania?.images[ini_key ?? STAGE_IMAGE_KEYS[name] ?? ""];
+        const candidates = override ? [override, name] : [name];
+
+        for (const candidate of candidates) {
+            const key = candidate.toLowerCase();
+            const animation = this.skin_elements?.mania_animations?.[key];
+            if (animation && animation.length > 0) {
+                const fps = this.skin.animation_framerate > 0 ? this.skin.animation_framerate : 60;
+                const index = Math.floor((Math.max(0, time) / 1000) * fps) % animation.length;
+                return animation[index];
+            }
+
+            const texture = this.skin_elements?.mania_textures?.[key];
+            if (texture) {
+                return texture;
+            }
         }
-        return this.skin_elements?.mania_textures?.[key] ?? null;
+
+        return null;
     }
 
     private draw_column_sprite(texture: RenderImage, x: number, y: number, width: number, height: number): void {
         this.backend.draw_image(texture, x, y, Math.max(1, width), Math.max(1, height));
     }
 
-    private get_column_fallback_index(lane: number): string {
-        if (this.key_count % 2 === 1 && lane === Math.floor(this.key_count / 2)) {
-            return "s";
-        }
+    private get_note_color(obj: RenderHitObject, stage: ManiaStage, column: number): string {
+        return this.config.enable_snap_colours ? get_snap_colour(obj.snap_divisor ?? UNSNAPPED) : this.get_lane_color(stage, column);
+    }
 
-        const column_in_stage = lane % this.key_count;
-        const distance_to_edge = Math.min(column_in_stage, this.key_count - 1 - column_in_stage);
-        return distance_to_edge % 2 === 0 ? "1" : "2";
+    private get_lane_color(stage: ManiaStage, column: number): string {
+        if (stage.special_lane === null) {
+            return get_mania_lane_color(this.skin, stage.key_count, column);
+        }
+        if (column === stage.special_lane) {
+            return get_mania_lane_color(this.skin, 1, 0);
+        }
+        return get_mania_lane_color(this.skin, stage.key_count - 1, column > stage.special_lane ? column - 1 : column);
     }
 
-    private draw_stage_background(time: number, x_offset: number, total_width: number, hit_pos: number, frame_bottom: number): void {
-        const { backend, key_count } = this;
-        const { lane_width, spacing } = this.get_lane_metrics();
-        const lane_draw_width = Math.max(1, lane_width - 2 * spacing);
+    private draw_stage_background(time: number, x_offset: number, metrics: LaneMetrics, frame_bottom: number): void {
+        const backend = this.backend;
+        const { stage, mania, lane_x, lane_widths, total_width, spacing, hit_pos } = metrics;
+        const key_count = stage.key_count;
 
-        const left = this.get_mania_texture("mania-stage-left", time);
+        const left = this.get_mania_texture("mania-stage-left", time, mania);
         if (left && left.height > 0) {
             const width = left.width * (frame_bottom / left.height);
             backend.set_alpha(1);
             backend.draw_image(left, x_offset - width, 0, width, frame_bottom);
         }
 
-        const right = this.get_mania_texture("mania-stage-right", time);
+        const right = this.get_mania_texture("mania-stage-right", time, mania);
         if (right && right.height > 0) {
             const width = right.width * (frame_bottom / right.height);
             backend.set_alpha(1);
             backend.draw_image(right, x_offset + total_width, 0, width, frame_bottom);
         }
 
-        const lane_light = this.get_mania_texture("mania-stage-light", time);
+        const lane_light = this.get_mania_texture("mania-stage-light", time, mania);
         if (lane_light) {
             for (let lane = 0; lane < key_count; lane++) {
-                const x = x_offset + lane * lane_width + spacing;
+                const x = x_offset + lane_x[lane] + spacing;
                 backend.set_alpha(LANE_LIGHT_ALPHA);
-                this.draw_column_sprite(lane_light, x, 0, lane_draw_width, hit_pos);
+                this.draw_column_sprite(lane_light, x, 0, Math.max(1, lane_widths[lane] - 2 * spacing), hit_pos);
             }
             backend.set_alpha(1);
             return;
         }
 
         for (let lane = 0; lane < key_count; lane++) {
-            const x = x_offset + lane * lane_width + spacing;
-            const color = get_mania_lane_color(this.skin, key_count, lane);
+            const x = x_offset + lane_x[lane] + spacing;
+            const color = mania?.colours[`colour${lane + 1}`] ?? this.get_lane_color(stage, lane);
             backend.set_alpha(LANE_FILL_ALPHA);
-            backend.draw_rect(x, 0, lane_draw_width, hit_pos, color);
+            backend.draw_rect(x, 0, Math.max(1, lane_widths[lane] - 2 * spacing), hit_pos, color);
         }
 
+        // ColumnLineWidth has one entry per line, the outer two included
+        const line_color = mania?.colours.colourcolumnline ?? "#ffffff";
         backend.set_alpha(LANE_SEPARATOR_ALPHA);
         for (let lane = 1; lane < key_count; lane++) {
-            const x = x_offset + lane * lane_width;
-            backend.draw_rect(x - 0.75, 0, 1.5, hit_pos, "#ffffff");
+            const skin_line_width = mania?.column_line_width?.[lane];
+            const line_width = skin_line_width !== undefined ? skin_line_width * MANIA_SKIN_SCALE : 1.5;
+            if (line_width <= 0) {
+                continue;
+            }
+            const x = x_offset + (lane_x[lane - 1] + lane_widths[lane - 1] + lane_x[lane]) / 2;
+            backend.draw_rect(x - line_width / 2, 0, line_width, hit_pos, line_color);
         }
         backend.set_alpha(1);
     }
 
     private draw_bar_lines(time: number, x_offset: number, total_width: number, hit_pos: number): void {
         const backend = this.backend;
-        const window_end = time + this.scroll_time;
+        const window_end = this.scroll.get_time_at_distance(time, this.scroll_time);
 
         for (let i = 0; i < this.base_timing_points.length; i++) {
             const tp = this.base_timing_points[i];
@@ -429,7 +541,7 @@ export class ManiaRenderer extends BaseRenderer {
             const last_index = Math.floor((seg_end - tp.time) / tp.beat_length);
             for (let beat_index = first_index; beat_index <= last_index; beat_index++) {
                 const beat_time = tp.time + beat_index * tp.beat_length;
-                const y = this.time_to_y(beat_time - time, hit_pos);
+                const y = this.time_to_y(beat_time, time, hit_pos);
                 if (y < 0 || y > hit_pos) {
                     continue;
                 }
@@ -443,30 +555,95 @@ export class ManiaRenderer extends BaseRenderer {
         backend.set_alpha(1);
     }
 
+    // stable sizes note images to the column width and keeps their aspect ratio
+    private get_note_texture_height(texture: RenderImage, width: number): number {
+        return Math.max(1, texture.height * (width / Math.max(1, texture.width)));
+    }
+
+    // the part of the texture between clip_top and clip_bottom, cut from the source so it is not squashed
+    private draw_clipped_texture(
+        texture: RenderImage,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        clip_top: number,
+        clip_bottom: number
+    ): void {
+        const top = Math.max(clip_top, y);
+        const bottom = Math.min(clip_bottom, y + height);
+        if (bottom <= top || width <= 0 || height <= 0) {
+            return;
+        }
+        if (top === y && bottom === y + height) {
+            this.backend.draw_image(texture, x, y, width, height);
+            return;
+        }
+
+        const source_scale = texture.height / height;
+        this.backend.draw_image_part(texture, 0, (top - y) * source_scale, texture.width, (bottom - top) * source_scale, x, top, width, bottom - top);
+    }
+
+    // NoteBodyStyle 0 stretches the body, 1 repeats it from the top (the tail) and 2 from the bottom (the head)
+    private draw_hold_body(texture: RenderImage, style: number, x: number, width: number, top: number, bottom: number, clip_bottom: number): void {
+        const clip_top = Math.max(0, top);
+        const visible_bottom = Math.min(bottom, clip_bottom);
+        if (visible_bottom <= clip_top) {
+            return;
+        }
+
+        if (style === 0) {
+            this.draw_clipped_texture(texture, x, top, width, bottom - top, clip_top, visible_bottom);
+            return;
+        }
+
+        const tile = this.get_note_texture_height(texture, width);
+        if (style === 2) {
+            // skip the tiles below the visible part, long holds can reach far off screen
+            for (let y = bottom - tile * (Math.floor((bottom - visible_bottom) / tile) + 1); y + tile > clip_top; y -= tile) {
+                this.draw_clipped_texture(texture, x, y, width, tile, clip_top, visible_bottom);
+            }
+            return;
+        }
+
+        for (let y = top + tile * Math.floor((clip_top - top) / tile); y < visible_bottom; y += tile) {
+            this.draw_clipped_texture(texture, x, y, width, tile, clip_top, visible_bottom);
+        }
+    }
+
     private draw_note(obj: RenderHitObject, time: number, x_offset: number, metrics: LaneMetrics): void {
-        const { lane_width, note_height, spacing, hit_pos } = metrics;
-        const lane = this.get_lane(obj);
-        const y = this.time_to_y(obj.time - time, hit_pos);
+        const { stage, mania, lane_x, lane_widths, note_height, spacing, hit_pos } = metrics;
+        const lane = this.get_lane(obj) - stage.start;
+        const y = this.time_to_y(obj.time, time, hit_pos);
 
         if (y < -note_height - 64 || y > hit_pos + note_height + 8) {
             return;
         }
 
-        const x = x_offset + lane * lane_width;
-        const width = Math.max(1, lane_width - 2 * spacing);
-        const color = get_mania_lane_color(this.skin, this.key_count, lane);
+        const x = x_offset + lane_x[lane];
+        const width = Math.max(1, lane_widths[lane] - 2 * spacing);
+        const column = get_column_fallback_index(stage, lane);
+        const texture = this.get_mania_texture(`mania-note${column}`, time, mania, `noteimage${lane}`);
 
         this.backend.set_alpha(1);
+        // snap colours need the plain notes to show through
+        if (texture && !this.config.enable_snap_colours) {
+            const height = this.get_note_texture_height(texture, width);
+            this.draw_clipped_texture(texture, x + spacing, y - height, width, height, 0, hit_pos);
+            return;
+        }
+
+        const color = this.get_note_color(obj, stage, lane);
         this.draw_clipped_note_with_gradient(x + spacing, y - note_height, width, note_height, color, 0, hit_pos);
     }
 
     private draw_hold_note(obj: RenderHitObject, time: number, x_offset: number, metrics: LaneMetrics): void {
-        const { lane_width, note_height, spacing, hit_pos } = metrics;
+        const { stage, mania, lane_x, lane_widths, note_height, spacing, hit_pos } = metrics;
         const hold = obj.data as RenderHoldData;
-        const lane = this.get_lane(obj);
+        const lane = this.get_lane(obj) - stage.start;
 
-        const head_y = this.time_to_y(obj.time - time, hit_pos);
-        const tail_y = this.time_to_y(hold.end_time - time, hit_pos);
+        const head_y = this.time_to_y(obj.time, time, hit_pos);
+        const tail_y = this.time_to_y(hold.end_time, time, hit_pos);
         if (tail_y > hit_pos + note_height + 8 && head_y > hit_pos + note_height + 8) {
             return;
         }
@@ -474,39 +651,61 @@ export class ManiaRenderer extends BaseRenderer {
             return;
         }
 
-        const x = x_offset + lane * lane_width;
-        const width = Math.max(1, lane_width - 2 * spacing);
-        const color = get_mania_lane_color(this.skin, this.key_count, lane);
+        const x = x_offset + lane_x[lane];
+        const width = Math.max(1, lane_widths[lane] - 2 * spacing);
+        const color = this.get_note_color(obj, stage, lane);
 
         const body_top = tail_y;
         const body_bottom = obj.time <= time ? hit_pos : head_y;
         const body_height = body_bottom - body_top;
 
+        // the head falls back to the note image and the tail to the head like stable, missing bodies are drawn as rects
+        const column = get_column_fallback_index(stage, lane);
+        const use_textures = !this.config.enable_snap_colours;
+        const note_texture = use_textures ? this.get_mania_texture(`mania-note${column}`, time, mania, `noteimage${lane}`) : null;
+        const head_texture = use_textures ? (this.get_mania_texture(`mania-note${column}h`, time, mania, `noteimage${lane}h`) ?? note_texture) : null;
+        const body_texture = use_textures ? this.get_mania_texture(`mania-note${column}l`, time, mania, `noteimage${lane}l`) : null;
+        const tail_texture = use_textures ? (this.get_mania_texture(`mania-note${column}t`, time, mania, `noteimage${lane}t`) ?? head_texture) : null;
+
         if (body_height > 0) {
-            this.backend.set_alpha(0.92);
-            this.draw_clipped_note_with_gradient(x + spacing, body_top, width, body_height, color, 0, hit_pos);
+            if (body_texture) {
+                this.backend.set_alpha(1);
+                this.draw_hold_body(body_texture, mania?.note_body_style ?? 1, x + spacing, width, body_top, body_bottom, hit_pos);
+            } else {
+                this.backend.set_alpha(0.92);
+                this.draw_clipped_note_with_gradient(x + spacing, body_top, width, body_height, color, 0, hit_pos);
+            }
         }
 
+        this.backend.set_alpha(1);
         if (obj.time >= time) {
-            this.backend.set_alpha(1);
-            this.draw_clipped_note_with_gradient(x + spacing, head_y - note_height, width, note_height, color, 0, hit_pos);
+            this.draw_hold_cap(head_texture, x + spacing, head_y, width, note_height, color, hit_pos);
         }
-
         if (hold.end_time >= time) {
-            this.backend.set_alpha(1);
-            this.draw_clipped_note_with_gradient(x + spacing, tail_y - note_height, width, note_height, color, 0, hit_pos);
+            this.draw_hold_cap(tail_texture, x + spacing, tail_y, width, note_height, color, hit_pos);
         }
-
-        this.backend.set_alpha(1);
     }
 
-    private draw_hit_glow(time: number, x_offset: number, metrics: LaneMetrics): void {
-        const { lane_width, spacing, hit_pos } = metrics;
-        const { backend, key_count } = this;
-        if (this.active_press_objects.size === 0) {
+    private draw_hold_cap(
+        texture: RenderImage | null,
+        x: number,
+        y: number,
+        width: number,
+        note_height: number,
+        color: string,
+        hit_pos: number
+    ): void {
+        if (texture) {
+            const height = this.get_note_texture_height(texture, width);
+            this.draw_clipped_texture(texture, x, y - height, width, height, 0, hit_pos);
             return;
         }
+        this.draw_clipped_note_with_gradient(x, y - note_height, width, note_height, color, 0, hit_pos);
+    }
 
+    // how strongly each lane glows, shared by every stage
+    private update_lane_impacts(time: number): void {
+        const key_count = this.key_count;
         const lane_impacts = this.lane_impacts;
         if (lane_impacts.length !== key_count) {
             this.lane_impacts = new Array<number>(key_count).fill(0);
@@ -547,17 +746,25 @@ export class ManiaRenderer extends BaseRenderer {
                 impacts[lane] = impact;
             }
         }
+    }
+
+    private draw_hit_glow(time: number, x_offset: number, metrics: LaneMetrics): void {
+        const { stage, mania, lane_x, lane_widths, spacing, hit_pos } = metrics;
+        const backend = this.backend;
+        if (!this.replay && this.active_press_objects.size === 0) {
+            return;
+        }
 
-        const light_texture = this.get_mania_texture("mania-stage-light", time);
+        const light_texture = this.get_mania_texture("mania-stage-light", time, mania);
         backend.set_blend_mode("lighter");
-        for (let lane = 0; lane < key_count; lane++) {
-            const impact = impacts[lane];
+        for (let lane = 0; lane < stage.key_count; lane++) {
+            const impact = this.lane_impacts[stage.start + lane] ?? 0;
             if (impact <= 0) {
                 continue;
             }
 
-            const x = x_offset + lane * lane_width + spacing;
-            const width = Math.max(1, lane_width - 2 * spacing);
+            const x = x_offset + lane_x[lane] + spacing;
+            const width = Math.max(1, lane_widths[lane] - 2 * spacing);
             const center_x = x + width * 0.5;
 
             if (light_texture) {
@@ -582,9 +789,8 @@ export class ManiaRenderer extends BaseRenderer {
     }
 
     private draw_judgment_line(x_offset: number, metrics: LaneMetrics): void {
-        const { lane_width, hit_pos } = metrics;
-        const total_width = lane_width * this.key_count;
-        const hint_texture = this.get_mania_texture("mania-stage-hint", 0);
+        const { mania, total_width, hit_pos } = metrics;
+        const hint_texture = this.get_mania_texture("mania-stage-hint", 0, mania);
 
         if (hint_texture) {
             const hint_height = Math.max(2, Math.round(hint_texture.height * (total_width / Math.max(1, hint_texture.width))));
@@ -593,22 +799,24 @@ export class ManiaRenderer extends BaseRenderer {
             return;
         }
 
-        this.backend.draw_rect(x_offset, hit_pos - 1, total_width, 2, "#ffffff");
+        if (mania?.judgement_line === false) {
+            return;
+        }
+        this.backend.draw_rect(x_offset, hit_pos - 1, total_width, 2, mania?.colours.colourjudgementline ?? "#ffffff");
     }
 
     private draw_lane_keys(time: number, x_offset: number, metrics: LaneMetrics): void {
-        const { lane_width, hit_pos, spacing, note_height } = metrics;
+        const { stage, mania, lane_x, lane_widths, total_width, hit_pos, spacing, note_height } = metrics;
         const key_height = note_height + 5;
-        this.update_pressed_state(time);
 
-        for (let i = 0; i < this.key_count; i++) {
-            const is_pressed = (this.active_press_lane_counts[i] ?? 0) > 0;
-            const x = x_offset + i * lane_width;
-            const color = get_mania_lane_color(this.skin, this.key_count, i);
-            const column = this.get_column_fallback_index(i);
-            const key_texture = this.get_mania_texture(`mania-key${column}`, time);
-            const key_down_texture = this.get_mania_texture(`mania-key${column}d`, time);
-            const width = Math.max(1, lane_width - 2 * spacing);
+        for (let i = 0; i < stage.key_count; i++) {
+            const is_pressed = (this.active_press_lane_counts[stage.start + i] ?? 0) > 0;
+            const x = x_offset + lane_x[i];
+            const color = this.get_lane_color(stage, i);
+            const column = get_column_fallback_index(stage, i);
+            const key_texture = this.get_mania_texture(`mania-key${column}`, time, mania, `keyimage${i}`);
+            const key_down_texture = this.get_mania_texture(`mania-key${column}d`, time, mania, `keyimage${i}d`);
+            const width = Math.max(1, lane_widths[i] - 2 * spacing);
 
             if (is_pressed && key_down_texture) {
                 this.backend.set_alpha(1);
@@ -627,13 +835,12 @@ export class ManiaRenderer extends BaseRenderer {
 
             if (is_pressed) {
                 this.backend.set_alpha(0.72);
-                this.backend.draw_rect(x + spacing, hit_pos, width, key_height, "#ff6666");
+                this.backend.draw_rect(x + spacing, hit_pos, width, key_height, mania?.colours[`colourlight${i + 1}`] ?? "#ff6666");
             }
         }
 
-        const stage_bottom = this.get_mania_texture("mania-stage-bottom", time);
+        const stage_bottom = this.get_mania_texture("mania-stage-bottom", time, mania);
         if (stage_bottom) {
-            const total_width = this.key_count * lane_width;
             const height = Math.max(1, Math.round(stage_bottom.height * (total_width / Math.max(1, stage_bottom.width))));
             this.backend.set_alpha(1);
             this.backend.draw_image(stage_bottom, x_offset, hit_pos, total_width, height);
@@ -654,77 +861,134 @@ export class ManiaRenderer extends BaseRenderer {
         this.backend.set_alpha(1);
     }
 
+    // a lane cover that only leaves a band above the hit position lit
+    private draw_flashlight_cover(x_offset: number, total_width: number, hit_pos: number): void {
+        const backend = this.backend;
+        const visible_h = hit_pos * this.fl_visible;
+        const grad_h = hit_pos * this.gradient_ratio;
+        const solid_h = Math.max(0, hit_pos - visible_h - grad_h);
+
+        backend.draw_rect(x_offset, 0, total_width, solid_h, "#000000");
+        const gradient = backend.create_linear_gradient(x_offset, solid_h, x_offset, solid_h + grad_h, [
+            { offset: 0.0, color: "rgba(0,0,0,1)" },
+            { offset: 0.3, color: "rgba(0,0,0,0.75)" },
+            { offset: 0.6, color: "rgba(0,0,0,0.3)" },
+            { offset: 1.0, color: "rgba(0,0,0,0)" }
+        ]);
+        backend.draw_rect_gradient(x_offset, solid_h, total_width, grad_h, gradient);
+    }
+
+    // hidden darkens the lanes towards the hit position, fade in and the user's lane cover from the far end
+    private draw_lane_cover(x_offset: number, total_width: number, hit_pos: number, coverage_ratio: number, from_hit_position: boolean): void {
+        const backend = this.backend;
+        const total_h = hit_pos * coverage_ratio;
+        const grad_h = Math.min(total_h, hit_pos * this.gradient_ratio);
+        if (total_h <= 0) {
+            return;
+        }
+
+        if (from_hit_position) {
+            const start_y = hit_pos - total_h;
+            const fade_end = grad_h / total_h;
+
+            const gradient = backend.create_linear_gradient(x_offset, start_y, x_offset, hit_pos, [
+                { offset: 0.0, color: "rgba(0,0,0,0)" },
+                { offset: fade_end * 0.4, color: "rgba(0,0,0,0.3)" },
+                { offset: fade_end * 0.7, color: "rgba(0,0,0,0.75)" },
+                { offset: fade_end * 0.9, color: "rgba(0,0,0,0.95)" },
+                { offset: fade_end, color: "rgba(0,0,0,1)" },
+                { offset: 1.0, color: "rgba(0,0,0,1)" }
+            ]);
+            backend.draw_rect_gradient(x_offset, start_y, total_width, total_h, gradient);
+            return;
+        }
+
+        const fade_start = (total_h - grad_h) / total_h;
+        const gradient = backend.create_linear_gradient(x_offset, 0, x_offset, total_h, [
+            { offset: 0.0, color: "rgba(0,0,0,1)" },
+            { offset: fade_start, color: "rgba(0,0,0,1)" },
+            { offset: fade_start + (1 - fade_start) * 0.1, color: "rgba(0,0,0,0.95)" },
+            { offset: fade_start + (1 - fade_start) * 0.4, color: "rgba(0,0,0,0.75)" },
+            { offset: fade_start + (1 - fade_start) * 0.7, color: "rgba(0,0,0,0.3)" },
+            { offset: 1.0, color: "rgba(0,0,0,0)" }
+        ]);
+        backend.draw_rect_gradient(x_offset, 0, total_width, total_h, gradient);
+    }
+
     render(time: number): void {
         const { backend, config } = this;
-        const metrics = this.get_lane_metrics();
-        const total_width = Math.max(1, this.key_count * metrics.lane_width);
-        const x_offset = Math.floor((PLAYFIELD_WIDTH - total_width) / 2);
-        const stage_bottom_height = this.get_stage_bottom_height(time, total_width);
-        const frame_bottom = metrics.hit_pos + metrics.note_height + 5 + stage_bottom_height;
-        const lower_bound = time - metrics.note_height * 4;
-        const upper_bound = time + this.scroll_time + metrics.note_height * 4;
+        const stages = this.stages.map((stage) => this.get_lane_metrics(stage));
+        const total_width = stages.reduce((width, metrics) => width + metrics.total_width, 0) + STAGE_SPACING * (stages.length - 1);
+        const x_offsets: number[] = [];
+        // ColumnStart is measured on stable's 640x480 screen, which is the playfield at the skin scale
+        const column_start = stages[0].mania?.column_start;
+        let next_x = column_start !== undefined ? column_start * MANIA_SKIN_SCALE : Math.floor((PLAYFIELD_WIDTH - total_width) / 2);
+        for (const metrics of stages) {
+            x_offsets.push(next_x);
+            next_x += metrics.total_width + STAGE_SPACING;
+        }
+
+        const note_height = stages[0].note_height;
+        const lower_bound = time - note_height * 4;
+        const upper_bound = this.scroll.get_time_at_distance(time, this.scroll_time) + note_height * 4;
 
-        this.render_background();
+        this.render_background(time);
 
         backend.save();
         backend.translate(config.offset_x, config.offset_y);
         backend.scale(config.scale, config.scale);
+        const scroll_direction = this.settings.scroll_direction ?? (stages[0].mania?.upside_down ? "up" : "down");
+        if (scroll_direction === "up") {
+            // mirror the whole stage, skin textures flip with it like stable's upside down defaults
+            backend.translate(0, PLAYFIELD_HEIGHT);
+            backend.scale(1, -1);
+        }
+
+        const frame_bottoms = stages.map((metrics) => metrics.hit_pos + metrics.note_height + 5 + this.get_stage_bottom_height(time, metrics));
+        for (let i = 0; i < stages.length; i++) {
+            const metrics = stages[i];
+            this.draw_stage_background(time, x_offsets[i], metrics, frame_bottoms[i]);
+            if (this.settings.show_bar_lines) {
+                this.draw_bar_lines(time, x_offsets[i], metrics.total_width, metrics.hit_pos);
+            }
 
-        this.draw_stage_background(time, x_offset, total_width, metrics.hit_pos, frame_bottom);
-        this.draw_bar_lines(time, x_offset, total_width, metrics.hit_pos);
-
-        backend.set_alpha(0.55);
-        backend.draw_rect(x_offset, 0, total_width, metrics.hit_pos, "#000000");
-        backend.set_alpha(1);
+            backend.set_alpha(0.55);
+            backend.draw_rect(x_offsets[i], 0, metrics.total_width, metrics.hit_pos, "#000000");
+            backend.set_alpha(1);
+        }
 
         this.update_active_render_state(time, lower_bound, upper_bound);
         for (const obj of this.active_render_objects) {
+            const stage_index = this.lane_stages[this.get_lane(obj)] ?? 0;
             if (is_hold(obj)) {
-                this.draw_hold_note(obj, time, x_offset, metrics);
+                this.draw_hold_note(obj, time, x_offsets[stage_index], stages[stage_index]);
             } else {
-                this.draw_note(obj, time, x_offset, metrics);
+                this.draw_note(obj, time, x_offsets[stage_index], stages[stage_index]);
             }
         }
 
-        this.draw_hit_glow(time, x_offset, metrics);
-        this.draw_judgment_line(x_offset, metrics);
-        this.draw_lane_keys(time, x_offset, metrics);
-        this.draw_playfield_frame(x_offset, total_width, frame_bottom);
-
-        const hidden_mod = has_mod(this.mods, Mods.Hidden);
-        const fade_in_mod = has_mod(this.mods, Mods.FadeIn);
-        if (hidden_mod || fade_in_mod) {
-            const coverage_ratio = hidden_mod ? this.hd_coverage : this.fi_coverage;
-            const total_h = metrics.hit_pos * coverage_ratio;
-            const grad_h = metrics.hit_pos * this.gradient_ratio;
-
-            if (hidden_mod) {
-                const start_y = metrics.hit_pos - total_h;
-                const fade_end = grad_h / total_h;
-
-                const gradient = backend.create_linear_gradient(x_offset, start_y, x_offset, metrics.hit_pos, [
-                    { offset: 0.0, color: "rgba(0,0,0,0)" },
-                    { offset: fade_end * 0.4, color: "rgba(0,0,0,0.3)" },
-                    { offset: fade_end * 0.7, color: "rgba(0,0,0,0.75)" },
-                    { offset: fade_end * 0.9, color: "rgba(0,0,0,0.95)" },
-                    { offset: fade_end, color: "rgba(0,0,0,1)" },
-                    { offset: 1.0, color: "rgba(0,0,0,1)" }
-                ]);
-                backend.draw_rect_gradient(x_offset, start_y, total_width, total_h, gradient);
-            } else {
-                const fade_start = (total_h - grad_h) / total_h;
-                const gradient = backend.create_linear_gradient(x_offset, 0, x_offset, total_h, [
-                    { offset: 0.0, color: "rgba(0,0,0,1)" },
-                    { offset: fade_start, color: "rgba(0,0,0,1)" },
-                    { offset: fade_start + (1 - fade_start) * 0.1, color: "rgba(0,0,0,0.95)" },
-                    { offset: fade_start + (1 - fade_start) * 0.4, color: "rgba(0,0,0,0.75)" },
-                    { offset: fade_start + (1 - fade_start) * 0.7, color: "rgba(0,0,0,0.3)" },
-                    { offset: 1.0, color: "rgba(0,0,0,0)" }
-                ]);
-                backend.draw_rect_gradient(x_offset, 0, total_width, total_h, gradient);
+        this.update_pressed_state(time);
+        if (!this.replay && this.active_press_objects.size > 0) {
+            this.update_lane_impacts(time);
+        }
+
+        const lane_covers = get_lane_covers(this.mods, this.settings.lane_cover);
+        for (let i = 0; i < stages.length; i++) {
+            const metrics = stages[i];
+            this.draw_hit_glow(time, x_offsets[i], metrics);
+            this.draw_judgment_line(x_offsets[i], metrics);
+            this.draw_lane_keys(time, x_offsets[i], metrics);
+            this.draw_playfield_frame(x_offsets[i], metrics.total_width, frame_bottoms[i]);
+
+            for (const cover of lane_covers) {
+                this.draw_lane_cover(x_offsets[i], metrics.total_width, metrics.hit_pos, cover.coverage, cover.from_hit_position);
+            }
+            if (has_mod(this.mods, Mods.Flashlight)) {
+                this.draw_flashlight_cover(x_offsets[i], metrics.total_width, metrics.hit_pos);
             }
         }
 
         backend.restore();
+        this.render_storyboard_overlay(time);
     }
 }
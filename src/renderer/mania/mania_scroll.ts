@@ -0,0 +1,141 @@
+import type { ITimingPoint } from "../../types/beatmap";
+import { clamp } from "../../math/vector2";
+import { TimingStateResolver } from "../standard/timing_state";
+import type { ManiaScrollAlgorithm } from "./mania_settings";
+
+// how long a note takes to scroll down the whole stage at speed 1
+const MAX_TIME_RANGE = 11485;
+const MIN_SCROLL_SPEED = 1;
+const MAX_SCROLL_SPEED = 40;
+
+type ScrollSegment = {
+    time: number;
+    multiplier: number;
+    // scrolled distance at the segment's start, in milliseconds at a multiplier of 1
+    position: number;
+};
+
+export const get_scroll_time = (scroll_speed: number): number => MAX_TIME_RANGE / clamp(scroll_speed, MIN_SCROLL_SPEED, MAX_SCROLL_SPEED);
+
+// the beat length held for the longest, bpm changes scroll relative to it
+const get_most_common_beat_length = (points: ITimingPoint[], last_time: number): number => {
+    const durations = new Map<number, number>();
+    const timing = points.filter((point) => point.uninherited === 1 && point.beatLength > 0);
+
+    for (let i = 0; i < timing.length; i++) {
+        const end = i + 1 < timing.length ? timing[i + 1].time : Math.max(last_time, timing[i].time);
+        const length = Math.round(timing[i].beatLength * 1000) / 1000;
+        durations.set(length, (durations.get(length) ?? 0) + Math.max(0, end - timing[i].time));
+    }
+
+    let best = timing[0]?.beatLength ?? 600;
+    let best_duration = -1;
+    for (const [length, duration] of durations) {
+        if (duration > best_duration) {
+            best = length;
+            best_duration = duration;
+        }
+    }
+    return best;
+};
+
+// maps times to scroll distances for lazer's constant, sequential and overlapping algorithms
+export class ManiaScroll {
+    private readonly segments: ScrollSegment[] = [];
+    private readonly min_multiplier: number = 1;
+
+    constructor(
+        points: ITimingPoint[],
+        last_time: number,
+        private algorithm: ManiaScrollAlgorithm
+    ) {
+        const common_beat_length = get_most_common_beat_length(points, last_time);
+        const resolver = new TimingStateResolver(points);
+
+        for (const point of points) {
+            const state = resolver.get_state_at(point.time);
+            const multiplier = (state.sv_multiplier * common_beat_length) / state.base_beat_length;
+            const previous = this.segments[this.segments.length - 1];
+
+            if (previous && previous.time === point.time) {
+                previous.multiplier = multiplier;
+                continue;
+            }
+            if (previous && previous.multiplier === multiplier) {
+                continue;
+            }
+
+            const position = previous ? previous.position + (point.time - previous.time) * previous.multiplier : 0;
+            this.segments.push({ time: point.time, multiplier, position });
+        }
+
+        // the same-time overrides above can leave positions behind, so lay them out again
+        for (let i = 1; i < this.segments.length; i++) {
+            const previous = this.segments[i - 1];
+            this.segments[i].position = previous.position + (this.segments[i].time - previous.time) * previous.multiplier;
+        }
+
+        if (this.segments.length > 0) {
+            this.min_multiplier = Math.min(...this.segments.map((segment) => segment.multiplier));
+        }
+    }
+
+    set_algorithm(algorithm: ManiaScrollAlgorithm): void {
+        this.algorithm = algorithm;
+    }
+
+    // how far ahead of current a note at time is, in milliseconds at a multiplier of 1
+    get_distance(time: number, current: number): number {
+        switch (this.algorithm) {
+            case "constant":
+                return time - current;
+            case "overlapping":
+                return (time - current) * this.get_multiplier_at(time);
+            default:
+                return this.get_position_at(time) - this.get_position_at(current);
+        }
+    }
+
+    // the latest time that can be within distance of current, for culling
+    get_time_at_distance(current: number, distance: number): number {
+        switch (this.algorithm) {
+            case "constant":
+                return current + distance;
+            case "overlapping":
+                return current + distance / this.min_multiplier;
+            default: {
+                const target = this.get_position_at(current) + distance;
+                const segment = this.find_segment((s) => s.position <= target);
+                return segment ? segment.time + (target - segment.position) / segment.multiplier : target;
+            }
+        }
+    }
+
+    get_multiplier_at(time: number): number {
+        return this.find_segment((segment) => segment.time <= time)?.multiplier ?? 1;
+    }
+
+    private get_position_at(time: number): number {
+        const segment = this.find_segment((s) => s.time <= time);
+        return segment ? segment.position + (time - segment.time) * segment.multiplier : time;
+    }
+
+    // last segment passing the test, both times and positions only grow, before the first one the first is extended back
+    private find_segment(test: (segment: ScrollSegment) => boolean): ScrollSegment | null {
+        let low = 0;
+        let high = this.segments.length - 1;
+        let found = this.segments.length > 0 ? 0 : -1;
+
+        while (low <= high) {
+            const mid = (low + high) >>> 1;
+            if (test(this.segments[mid])) {
+                found = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return found >= 0 ? this.segments[found] : null;
+    }
+}
@@ -0,0 +1,74 @@
+import { clamp } from "../../math/vector2";
+import { Mods, has_mod } from "../../types/mods";
+
+// constant ignores sv, sequential moves every note by the sv it passes through, overlapping scales each note by its own sv
+export type ManiaScrollAlgorithm = "constant" | "sequential" | "overlapping";
+
+export type ManiaScrollDirection = "down" | "up";
+
+export interface IManiaSettings {
+    scroll_algorithm: ManiaScrollAlgorithm;
+    // lazer's scroll speed, 1 to 40
+    scroll_speed: number;
+    // "up" flips the stage so notes rise towards a hit position at the top, null follows the skin's UpsideDown
+    scroll_direction: ManiaScrollDirection | null;
+    // distance of the hit position from the far end of the stage in playfield units, null keeps the skin's
+    hit_position: number | null;
+    // part of the lanes hidden from the far end, 0 to 1, drawn with or without hidden/fade in
+    lane_cover: number;
+    show_bar_lines: boolean;
+    // width of every column in playfield units, null keeps the skin's
+    column_width: number | null;
+}
+
+export const DEFAULT_MANIA_SETTINGS: IManiaSettings = {
+    scroll_algorithm: "sequential",
+    scroll_speed: 8,
+    scroll_direction: null,
+    hit_position: null,
+    lane_cover: 0,
+    show_bar_lines: true,
+    column_width: null
+};
+
+// how much of the lanes hidden and fade in cover, hidden from the hit position and fade in from the far end
+const HIDDEN_COVERAGE = 0.25;
+const FADE_IN_COVERAGE = 0.6;
+
+export type ManiaLaneCover = {
+    coverage: number;
+    from_hit_position: boolean;
+};
+
+const get_size_override = (value: number | null | undefined, fallback: number | null): number | null => {
+    if (value === undefined) {
+        return fallback;
+    }
+    return value !== null && Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// applies a partial update, sizes that are not positive numbers go back to the skin's and the lane cover is kept within 0 to 1
+export const merge_mania_settings = (current: IManiaSettings, settings: Partial<IManiaSettings>): IManiaSettings => {
+    const merged = { ...current, ...settings };
+    return {
+        ...merged,
+        scroll_speed: Number.isFinite(merged.scroll_speed) ? merged.scroll_speed : current.scroll_speed,
+        hit_position: get_size_override(settings.hit_position, current.hit_position),
+        column_width: get_size_override(settings.column_width, current.column_width),
+        lane_cover: Number.isFinite(merged.lane_cover) ? clamp(merged.lane_cover, 0, 1) : current.lane_cover
+    };
+};
+
+// hidden wins over fade in, the user's lane cover is drawn on top of either
+export const get_lane_covers = (mods: number, lane_cover: number): ManiaLaneCover[] => {
+    const covers: ManiaLaneCover[] = [];
+    if (has_mod(mods, Mods.Hidden)) {
+        covers.push({ coverage: HIDDEN_COVERAGE, from_hit_position: true });
+    } else if (has_mod(mods, Mods.FadeIn)) {
+        covers.push({ coverage: FADE_IN_COVERAGE, from_hit_position: false });
+    }
+    if (lane_cover > 0) {
+        covers.push({ coverage: lane_cover, from_hit_position: false });
+    }
+    return covers;
+};
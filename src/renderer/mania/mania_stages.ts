@@ -0,0 +1,58 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { get_mania_skin_config, type ISkinConfig } from "../../skin/skin_config";
+
+// stages at or above this many keys are split in two, like co-op charts
+export const DUAL_STAGE_MIN_KEYS = 10;
+
+export type ManiaStage = {
+    // first lane of the stage and how many it holds
+    start: number;
+    key_count: number;
+    // the scratch column of an N+1 layout, in stage columns
+    special_lane: number | null;
+};
+
+// General.SpecialStyle asks for the N+1 layout, the skin's SpecialStyle picks the side (1 left, 2 right)
+export const resolve_special_lane = (beatmap: IBeatmap, skin: ISkinConfig, key_count: number, stage_index: number): number | null => {
+    if (Number(beatmap.General?.SpecialStyle) !== 1 || key_count < 2) {
+        return null;
+    }
+
+    const style = get_mania_skin_config(skin, key_count)?.special_style === 2 ? 2 : 1;
+    // a second stage mirrors the first so both scratch columns sit on the outside
+    const left = (style === 1) === (stage_index === 0);
+    return left ? 0 : key_count - 1;
+};
+
+// the first stage takes the odd lane out when the keys are split
+export const build_stages = (beatmap: IBeatmap, skin: ISkinConfig, key_count: number): ManiaStage[] => {
+    const counts = key_count >= DUAL_STAGE_MIN_KEYS ? [Math.ceil(key_count / 2), Math.floor(key_count / 2)] : [key_count];
+    const stages: ManiaStage[] = [];
+    let start = 0;
+    for (let i = 0; i < counts.length; i++) {
+        stages.push({ start, key_count: counts[i], special_lane: resolve_special_lane(beatmap, skin, counts[i], i) });
+        start += counts[i];
+    }
+    return stages;
+};
+
+// which default texture set a column uses: "1" and "2" alternate from the edges, "s" is the middle or scratch column
+export const get_column_fallback_index = (stage: ManiaStage, column: number): string => {
+    let key_count = stage.key_count;
+    let column_in_stage = column;
+    // the scratch column takes the special texture, the rest are laid out as an N key stage
+    if (stage.special_lane !== null) {
+        if (column === stage.special_lane) {
+            return "s";
+        }
+        key_count -= 1;
+        column_in_stage -= column > stage.special_lane ? 1 : 0;
+    }
+
+    if (key_count % 2 === 1 && column_in_stage === Math.floor(key_count / 2)) {
+        return "s";
+    }
+
+    const distance_to_edge = Math.min(column_in_stage, key_count - 1 - column_in_stage);
+    return distance_to_edge % 2 === 0 ? "1" : "2";
+};
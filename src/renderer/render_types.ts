@@ -22,6 +22,8 @@ export type RenderHitObject = OsuHitObject & {
     end_pos: Vec2;
     combo_number: number;
     combo_count: number;
+    // beat divisor the object is snapped to, 0 when it is off grid, only set by the renderer while snap colours are on
+    snap_divisor?: number;
     stack_height: number;
     stack_offset: Vec2;
     data: RenderObjectData;
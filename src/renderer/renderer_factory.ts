@@ -0,0 +1,32 @@
+import type { IBeatmap } from "../types/beatmap";
+import { GameMode } from "../types/beatmap";
+import type { IRenderBackend } from "./backend/render_backend";
+import type { ISkinConfig } from "../skin/skin_config";
+import type { StandardSkinElements } from "../skin/skin_elements";
+import { BaseRenderer, type IRendererConfig } from "./base_renderer";
+import { StandardRenderer } from "./standard/standard_renderer";
+import { ManiaRenderer } from "./mania/mania_renderer";
+import { TaikoRenderer } from "./taiko/taiko_renderer";
+import { CatchRenderer } from "./catch/catch_renderer";
+
+export const create_renderer = (
+    beatmap: IBeatmap,
+    backend: IRenderBackend,
+    skin: ISkinConfig,
+    mods: number,
+    config: IRendererConfig,
+    skin_elements: StandardSkinElements | null = null
+): BaseRenderer => {
+    switch (beatmap.General.Mode) {
+        case GameMode.Standard:
+            return new StandardRenderer(backend, skin, mods, config, skin_elements);
+        case GameMode.Mania:
+            return new ManiaRenderer(backend, skin, mods, config, skin_elements);
+        case GameMode.Taiko:
+            return new TaikoRenderer(backend, skin, mods, config, skin_elements);
+        case GameMode.Catch:
+            return new CatchRenderer(backend, skin, mods, config, skin_elements);
+        default:
+            throw new Error(`Unsupported game mode: ${GameMode[beatmap.General.Mode] ?? beatmap.General.Mode}`);
+    }
+};
@@ -0,0 +1,124 @@
+import type { RenderHitObject } from "../render_types";
+import { is_slider, is_spinner } from "../../types/beatmap";
+import { vec2_lerp, type Vec2 } from "../../math/vector2";
+import { Easing } from "../drawable/transforms";
+import { CURSOR_TRAIL_DURATION, type CursorState, type CursorTrailPoint } from "./cursor_renderer";
+
+const PLAYFIELD_CENTRE: Vec2 = [256, 192];
+const SPINNER_RADIUS = 50;
+// autoplay spins at stable's 477 rpm cap
+const SPINNER_RADIANS_PER_MS = (477 * Math.PI * 2) / 60000;
+// long breaks shouldn't turn into a slow crawl across the screen
+const MAX_MOVE_DURATION = 600;
+const KEY_UP_DELAY = 50;
+const TRAIL_STEP = 8;
+
+type CursorTarget = {
+    start_time: number;
+    end_time: number;
+    start_position: Vec2;
+    follow: ((time: number) => Vec2) | null;
+};
+
+export type SliderBallResolver = (object: RenderHitObject, time: number) => Vec2;
+
+// a perfect play's cursor: eases between objects, rides slider balls and circles the centre on spinners
+export class AutoplayCursor {
+    private targets: CursorTarget[] = [];
+
+    constructor(objects: RenderHitObject[], get_slider_ball: SliderBallResolver) {
+        let previous_end: Vec2 = PLAYFIELD_CENTRE;
+
+        for (const object of objects) {
+            if (is_spinner(object)) {
+                const offset_x = previous_end[0] - PLAYFIELD_CENTRE[0];
+                const offset_y = previous_end[1] - PLAYFIELD_CENTRE[1];
+                const start_angle = offset_x === 0 && offset_y === 0 ? -Math.PI / 2 : Math.atan2(offset_y, offset_x);
+                const spin = (time: number): Vec2 => {
+                    const angle = start_angle - (time - object.time) * SPINNER_RADIANS_PER_MS;
+                    return [PLAYFIELD_CENTRE[0] + Math.cos(angle) * SPINNER_RADIUS, PLAYFIELD_CENTRE[1] + Math.sin(angle) * SPINNER_RADIUS];
+                };
+
+                this.targets.push({ start_time: object.time, end_time: object.end_time, start_position: spin(object.time), follow: spin });
+                previous_end = spin(object.end_time);
+                continue;
+            }
+
+            const position = (object.data as { pos: Vec2 }).pos;
+            if (is_slider(object)) {
+                const follow = (time: number): Vec2 => get_slider_ball(object, time);
+                this.targets.push({ start_time: object.time, end_time: object.end_time, start_position: position, follow });
+                previous_end = object.end_pos;
+                continue;
+            }
+
+            this.targets.push({ start_time: object.time, end_time: object.time, start_position: position, follow: null });
+            previous_end = position;
+        }
+    }
+
+    // last target that started at or before time, -1 before the first one
+    private find_target(time: number): number {
+        let low = 0;
+        let high = this.targets.length - 1;
+        let result = -1;
+
+        while (low <= high) {
+            const mid = (low + high) >>> 1;
+            if (this.targets[mid].start_time <= time) {
+                result = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return result;
+    }
+
+    private get_end_position(target: CursorTarget): Vec2 {
+        return target.follow ? target.follow(target.end_time) : target.start_position;
+    }
+
+    get_position(time: number): Vec2 {
+        if (this.targets.length === 0) {
+            return PLAYFIELD_CENTRE;
+        }
+
+        const index = this.find_target(time);
+        const current = index >= 0 ? this.targets[index] : null;
+
+        if (current && time <= current.end_time) {
+            return current.follow ? current.follow(time) : current.start_position;
+        }
+
+        const next = this.targets[index + 1];
+        const from = current ? this.get_end_position(current) : PLAYFIELD_CENTRE;
+        if (!next) {
+            return from;
+        }
+
+        const gap_start = current ? current.end_time : next.start_time - MAX_MOVE_DURATION;
+        const move_start = Math.max(gap_start, next.start_time - MAX_MOVE_DURATION);
+        if (time <= move_start) {
+            return from;
+        }
+
+        const progress = (time - move_start) / Math.max(1, next.start_time - move_start);
+        return vec2_lerp(from, next.start_position, Easing.InOutSine(Math.min(1, progress)));
+    }
+
+    is_pressed(time: number): boolean {
+        const index = this.find_target(time);
+        return index >= 0 && time <= this.targets[index].end_time + KEY_UP_DELAY;
+    }
+
+    get_state(time: number): CursorState {
+        const trail: CursorTrailPoint[] = [];
+        for (let age = TRAIL_STEP; age <= CURSOR_TRAIL_DURATION; age += TRAIL_STEP) {
+            trail.push({ position: this.get_position(time - age), alpha: 1 - age / CURSOR_TRAIL_DURATION });
+        }
+
+        return { position: this.get_position(time), trail, pressed: this.is_pressed(time) };
+    }
+}
@@ -0,0 +1,66 @@
+import type { IRenderBackend } from "../backend/render_backend";
+import type { StandardSkinElements } from "../../skin/skin_elements";
+import type { Vec2 } from "../../math/vector2";
+
+export type CursorTrailPoint = {
+    position: Vec2;
+    // 1 right behind the cursor, fading to 0 at the end of the trail
+    alpha: number;
+};
+
+export type CursorState = {
+    position: Vec2;
+    // newest first
+    trail: CursorTrailPoint[];
+    pressed: boolean;
+};
+
+export const CURSOR_TRAIL_DURATION = 120;
+
+const CURSOR_RADIUS = 9;
+const CURSOR_EXPAND_SCALE = 1.3;
+const CURSOR_COLOR = "#ffd966";
+const TRAIL_WIDTH = 6;
+
+// skinned cursor/cursortrail/cursormiddle when the skin has them, a plain dot and line otherwise
+export const draw_cursor = (backend: IRenderBackend, state: CursorState, skin_elements: StandardSkinElements | null): void => {
+    const cursor = skin_elements?.cursor;
+    const trail = skin_elements?.cursortrail;
+    const middle = skin_elements?.cursormiddle;
+    const [x, y] = state.position;
+
+    backend.save();
+
+    if (trail) {
+        for (let i = state.trail.length - 1; i >= 0; i--) {
+            const point = state.trail[i];
+            backend.set_alpha(point.alpha);
+            backend.draw_image(trail, point.position[0] - trail.width / 2, point.position[1] - trail.height / 2, trail.width, trail.height);
+        }
+    } else {
+        let last = state.position;
+        for (const point of state.trail) {
+            backend.set_alpha(point.alpha * 0.6);
+            backend.draw_line(last[0], last[1], point.position[0], point.position[1], CURSOR_COLOR, TRAIL_WIDTH * point.alpha, "round", "round");
+            last = point.position;
+        }
+    }
+
+    const scale = state.pressed ? CURSOR_EXPAND_SCALE : 1;
+    backend.set_alpha(1);
+
+    if (cursor) {
+        const width = cursor.width * scale;
+        const height = cursor.height * scale;
+        backend.draw_image(cursor, x - width / 2, y - height / 2, width, height);
+    } else if (!middle) {
+        backend.draw_circle(x, y, CURSOR_RADIUS * scale, CURSOR_COLOR, "#ffffff", 2);
+    }
+
+    // the middle never expands
+    if (middle) {
+        backend.draw_image(middle, x - middle.width / 2, y - middle.height / 2, middle.width, middle.height);
+    }
+
+    backend.restore();
+};
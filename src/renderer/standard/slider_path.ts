@@ -112,3 +112,18 @@ const clamp_path_to_distance = (path: Vec2[], max_distance: number): Vec2[] => {
     }
     return result;
 };
+
+export const get_path_position_at_length = (path: Vec2[], target_length: number): Vec2 => {
+    if (path.length === 0) return [0, 0];
+
+    let accumulated = 0;
+    for (let i = 1; i < path.length; i++) {
+        const segment_length = vec2_len(vec2_sub(path[i], path[i - 1]));
+        if (segment_length > 0 && accumulated + segment_length >= target_length) {
+            return vec2_lerp(path[i - 1], path[i], (target_length - accumulated) / segment_length);
+        }
+        accumulated += segment_length;
+    }
+
+    return path[path.length - 1];
+};
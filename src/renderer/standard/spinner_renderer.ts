@@ -0,0 +1,303 @@
+import type { IRenderBackend, RenderImage } from "../backend/render_backend";
+import type { ISkinConfig } from "../../skin/skin_config";
+import type { StandardSkinElements } from "../../skin/skin_elements";
+import { clamp, lerp } from "../../math/vector2";
+import { Easing } from "../drawable/transforms";
+import { draw_skin_font, get_skin_font_height, measure_skin_font } from "../hud/skin_font";
+
+export type SpinnerState = {
+    // radians, counted without direction
+    rotation: number;
+    rpm: number;
+    // spins done over spins required, capped at 1
+    progress: number;
+    clear_time: number | null;
+    bonus: number;
+    last_bonus_time: number | null;
+};
+
+export type SpinnerDrawParams = {
+    time: number;
+    start_time: number;
+    fade_in: number;
+    opacity: number;
+    show_approach: boolean;
+};
+
+const CENTRE_X = 256;
+const CENTRE_Y = 192;
+// spinner sprites are made for 1024x768, the playfield lives in 640x480
+const SPRITE_SCALE = 0.625;
+const RPM_WINDOW = 500;
+const BONUS_PER_SPIN = 1000;
+
+// lazer's legacy spinner layout, moved from 640x480 screen space into the playfield
+const RPM_POSITION: [number, number] = [CENTRE_X - 87, 397];
+const RPM_TEXT_POSITION: [number, number] = [CENTRE_X + 80, 400];
+const CLEAR_Y = 96;
+const SPIN_Y = 316;
+const BONUS_Y = 280;
+
+const APPROACH_START_SCALE = 1.86;
+const APPROACH_END_SCALE = 0.1;
+const GLOW_COLOR = "rgb(3,151,255)";
+const CLEAR_FADE_IN = 400;
+const BONUS_FADE_OUT = 800;
+const TEXT_COLOR = "#ffffff";
+
+const count_spins_at = (spins: number[], time: number): number => {
+    let count = 0;
+    while (count < spins.length && spins[count] <= time) {
+        count++;
+    }
+    return count;
+};
+
+// whole spins land on their judgement times, the turn in between is spread evenly over the gap
+const get_rotation_at = (spins: number[], start_time: number, time: number): number => {
+    if (time <= start_time) {
+        return 0;
+    }
+
+    const count = count_spins_at(spins, time);
+    const previous = count > 0 ? spins[count - 1] : start_time;
+    const next = spins[count];
+    const fraction = next !== undefined && next > previous ? clamp((time - previous) / (next - previous), 0, 1) : 0;
+
+    return (count + fraction) * Math.PI * 2;
+};
+
+// spins are the times of every spinner_spin and spinner_bonus judgement of one spinner
+export const get_spinner_state = (spins: number[], start_time: number, required: number, time: number): SpinnerState => {
+    const rotation = get_rotation_at(spins, start_time, time);
+    const window_start = Math.max(start_time, time - RPM_WINDOW);
+    const window = time - window_start;
+    const rpm = window > 0 ? ((rotation - get_rotation_at(spins, start_time, window_start)) / (Math.PI * 2) / window) * 60000 : 0;
+
+    const count = count_spins_at(spins, time);
+    const cleared = count >= required && time >= start_time;
+    const bonus = Math.max(0, count - required);
+
+    return {
+        rotation,
+        rpm,
+        progress: required > 0 ? Math.min(1, count / required) : 1,
+        clear_time: cleared ? (required > 0 ? spins[required - 1] : start_time) : null,
+        bonus,
+        last_bonus_time: bonus > 0 ? spins[count - 1] : null
+    };
+};
+
+const draw_centred = (
+    backend: IRenderBackend,
+    image: RenderImage,
+    x: number,
+    y: number,
+    scale: number,
+    rotation: number = 0,
+    tint?: string
+): void => {
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    if (rotation === 0) {
+        backend.draw_image(image, x - width / 2, y - height / 2, width, height, tint);
+        return;
+    }
+
+    backend.save();
+    backend.translate(x, y);
+    backend.rotate(rotation);
+    backend.draw_image(image, -width / 2, -height / 2, width, height, tint);
+    backend.restore();
+};
+
+const draw_label = (
+    backend: IRenderBackend,
+    skin: ISkinConfig,
+    elements: StandardSkinElements | null,
+    text: string,
+    x: number,
+    y: number,
+    scale: number,
+    align: "center" | "right"
+): void => {
+    const font = elements?.score_font;
+    if (!font) {
+        const size = Math.max(1, Math.round(40 * scale));
+        backend.draw_text(text, x, y, `bold ${size}px ${skin.default_font ?? "monospace"}`, TEXT_COLOR, align, "middle");
+        return;
+    }
+
+    const width = measure_skin_font(font, text, scale);
+    const left = align === "center" ? x - width / 2 : x - width;
+    draw_skin_font(backend, font, text, left, y - get_skin_font_height(font, scale) / 2, scale, "left");
+};
+
+// stable picks the modern style when the skin has spinner-top but no spinner-background
+export const get_spinner_style = (elements: StandardSkinElements | null): "modern" | "legacy" | null => {
+    if (elements?.spinner_top && !elements.spinner_background) {
+        return "modern";
+    }
+    if (elements?.spinner_background || elements?.spinner_circle) {
+        return "legacy";
+    }
+    return null;
+};
+
+const draw_legacy_body = (backend: IRenderBackend, skin: ISkinConfig, elements: StandardSkinElements, rotation: number): void => {
+    if (elements.spinner_background) {
+        draw_centred(backend, elements.spinner_background, CENTRE_X, CENTRE_Y, SPRITE_SCALE, 0, skin.spinner_background_color);
+    }
+    if (elements.spinner_circle) {
+        draw_centred(backend, elements.spinner_circle, CENTRE_X, CENTRE_Y, SPRITE_SCALE, rotation);
+    }
+};
+
+const draw_modern_body = (backend: IRenderBackend, elements: StandardSkinElements, state: SpinnerState, rotation: number, opacity: number): void => {
+    if (elements.spinner_glow && state.progress > 0) {
+        backend.save();
+        backend.set_alpha(opacity * state.progress);
+        backend.set_blend_mode("lighter");
+        draw_centred(backend, elements.spinner_glow, CENTRE_X, CENTRE_Y, SPRITE_SCALE, 0, GLOW_COLOR);
+        backend.restore();
+    }
+
+    if (elements.spinner_bottom) {
+        draw_centred(backend, elements.spinner_bottom, CENTRE_X, CENTRE_Y, SPRITE_SCALE, rotation / 3);
+    }
+    if (elements.spinner_top) {
+        draw_centred(backend, elements.spinner_top, CENTRE_X, CENTRE_Y, SPRITE_SCALE, rotation * 0.5);
+    }
+    if (elements.spinner_middle2) {
+        draw_centred(backend, elements.spinner_middle2, CENTRE_X, CENTRE_Y, SPRITE_SCALE);
+    }
+    if (elements.spinner_middle) {
+        // reddens as the spinner fills up, stepped so tinted copies can be cached
+        const fade = Math.round(255 * (1 - Math.round(state.progress * 16) / 16));
+        draw_centred(backend, elements.spinner_middle, CENTRE_X, CENTRE_Y, SPRITE_SCALE, 0, `rgb(255,${fade},${fade})`);
+    }
+};
+
+const draw_fallback_body = (backend: IRenderBackend, skin: ISkinConfig, rotation: number): void => {
+    const marker = skin.spinner_size * 0.8;
+    backend.draw_circle(CENTRE_X, CENTRE_Y, skin.spinner_size, "rgba(0,0,0,0.2)");
+    backend.draw_circle(CENTRE_X + Math.cos(rotation) * marker, CENTRE_Y + Math.sin(rotation) * marker, 6, "rgba(255,255,255,0.8)");
+    backend.draw_circle(CENTRE_X, CENTRE_Y, 12, "white");
+};
+
+const draw_approach = (
+    backend: IRenderBackend,
+    skin: ISkinConfig,
+    elements: StandardSkinElements | null,
+    progress: number,
+    skinned: boolean
+): void => {
+    const image = elements?.spinner_approachcircle;
+    if (skinned && image) {
+        draw_centred(backend, image, CENTRE_X, CENTRE_Y, SPRITE_SCALE * lerp(APPROACH_START_SCALE, APPROACH_END_SCALE, progress));
+        return;
+    }
+
+    const size = skin.spinner_size * (1 - progress);
+    if (size > 5) {
+        backend.begin_path();
+        backend.arc_to(CENTRE_X, CENTRE_Y, size, 0, Math.PI * 2);
+        backend.stroke_path("rgba(255,255,255,0.6)", 4);
+    }
+};
+
+// legacy (spinner-background/spinner-circle) or modern (spinner-top/bottom/middle) skins, primitives when neither is there
+export const draw_spinner = (
+    backend: IRenderBackend,
+    skin: ISkinConfig,
+    elements: StandardSkinElements | null,
+    state: SpinnerState,
+    end_time: number,
+    params: SpinnerDrawParams
+): void => {
+    const { time, start_time, fade_in, opacity } = params;
+    const style = get_spinner_style(elements);
+    // autoplay turns the cursor counter-clockwise, so the spinner follows it
+    const rotation = -state.rotation;
+    const duration = Math.max(1, end_time - start_time);
+
+    backend.save();
+    backend.set_alpha(opacity);
+
+    if (style === "legacy" && elements) {
+        draw_legacy_body(backend, skin, elements, rotation);
+    } else if (style === "modern" && elements) {
+        draw_modern_body(backend, elements, state, rotation, opacity);
+    } else {
+        draw_fallback_body(backend, skin, rotation);
+    }
+
+    if (params.show_approach && time >= start_time && time <= end_time) {
+        draw_approach(backend, skin, elements, clamp((time - start_time) / duration, 0, 1), style !== null);
+    }
+
+    // "spin!" fades in with the spinner and leaves once it starts
+    const spin_alpha =
+        time < start_time ? clamp((time - (start_time - fade_in)) / (fade_in / 2), 0, 1) : 1 - clamp((time - start_time) / (fade_in / 2), 0, 1);
+    if (spin_alpha > 0) {
+        backend.set_alpha(opacity * spin_alpha);
+        if (elements?.spinner_spin) {
+            draw_centred(backend, elements.spinner_spin, CENTRE_X, SPIN_Y, SPRITE_SCALE);
+        } else {
+            backend.draw_text("Spin!", CENTRE_X, SPIN_Y, `bold 28px ${skin.default_font ?? "monospace"}`, TEXT_COLOR, "center", "middle");
+        }
+    }
+
+    if (state.clear_time !== null && time >= start_time) {
+        const elapsed = time - state.clear_time;
+        const pop = elapsed < 240 ? lerp(2, 0.8, Easing.Out(elapsed / 240)) : lerp(0.8, 1, clamp((elapsed - 240) / 160, 0, 1));
+        backend.set_alpha(opacity * clamp(elapsed / CLEAR_FADE_IN, 0, 1));
+        if (elements?.spinner_clear) {
+            draw_centred(backend, elements.spinner_clear, CENTRE_X, CLEAR_Y, SPRITE_SCALE * pop);
+        } else {
+            backend.draw_text(
+                "Clear!",
+                CENTRE_X,
+                CLEAR_Y,
+                `bold ${Math.round(32 * pop)}px ${skin.default_font ?? "monospace"}`,
+                TEXT_COLOR,
+                "center",
+                "middle"
+            );
+        }
+    }
+
+    if (state.last_bonus_time !== null) {
+        const elapsed = time - state.last_bonus_time;
+        if (elapsed < BONUS_FADE_OUT) {
+            const progress = Easing.Out(elapsed / BONUS_FADE_OUT);
+            backend.set_alpha(opacity * (1 - progress));
+            draw_label(
+                backend,
+                skin,
+                elements,
+                String(state.bonus * BONUS_PER_SPIN),
+                CENTRE_X,
+                BONUS_Y,
+                SPRITE_SCALE * lerp(2, 1.28, progress),
+                "center"
+            );
+        }
+    }
+
+    if (time >= start_time) {
+        backend.set_alpha(opacity);
+        const rpm = String(Math.round(state.rpm));
+        if (elements?.spinner_rpm) {
+            const image = elements.spinner_rpm;
+            backend.draw_image(image, RPM_POSITION[0], RPM_POSITION[1], image.width * SPRITE_SCALE, image.height * SPRITE_SCALE);
+            const text_y = RPM_TEXT_POSITION[1] + (elements.score_font ? get_skin_font_height(elements.score_font, SPRITE_SCALE * 0.9) / 2 : 12);
+            draw_label(backend, skin, elements, rpm, RPM_TEXT_POSITION[0], text_y, SPRITE_SCALE * 0.9, "right");
+        } else {
+            draw_label(backend, skin, null, `${rpm} rpm`, CENTRE_X, RPM_TEXT_POSITION[1], 0.5, "center");
+        }
+    }
+
+    backend.restore();
+};
@@ -0,0 +1,86 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { is_circle, is_slider, is_spinner } from "../../types/beatmap";
+import { vec2_dist, type Vec2 } from "../../math/vector2";
+import { STANDARD_RUNTIME_DEFAULTS } from "../../config/standard";
+import type { RenderHitObject, RenderSliderData } from "../render_types";
+
+export const get_stack_leniency = (beatmap: IBeatmap): number => {
+    const source = beatmap as unknown as {
+        StackLeniency?: number;
+        Difficulty?: { StackLeniency?: number };
+        General?: { StackLeniency?: number };
+    };
+    const value =
+        source.StackLeniency ?? source.Difficulty?.StackLeniency ?? source.General?.StackLeniency ?? STANDARD_RUNTIME_DEFAULTS.stack.default_leniency;
+    if (value <= 0) {
+        return STANDARD_RUNTIME_DEFAULTS.stack.default_leniency;
+    }
+
+    return value;
+};
+
+export const get_object_start_position = (obj: RenderHitObject): Vec2 => {
+    if (is_slider(obj)) {
+        return (obj.data as RenderSliderData).pos;
+    }
+    if (is_spinner(obj)) {
+        return [256, 192];
+    }
+
+    return (obj.data as { pos: Vec2 }).pos;
+};
+
+// stable's stacking (beatmap version 6+), objects must be sorted and have their end_time / end_pos resolved
+export const calculate_stack_heights = (objects: RenderHitObject[], stack_threshold: number): void => {
+    const stack_distance = STANDARD_RUNTIME_DEFAULTS.stack.distance;
+
+    for (let i = 0; i < objects.length; i++) {
+        objects[i].stack_height = 0;
+    }
+
+    for (let i = objects.length - 1; i > 0; i--) {
+        let object_i = objects[i];
+
+        if (is_spinner(object_i)) {
+            continue;
+        }
+
+        for (let n = i - 1; n >= 0; n--) {
+            const object_n = objects[n];
+            if (is_spinner(object_n)) {
+                continue;
+            }
+
+            if ((object_i.time as number) - (object_n.end_time as number) > stack_threshold) {
+                break;
+            }
+
+            const object_i_position = get_object_start_position(object_i);
+            const object_n_position = get_object_start_position(object_n);
+            const start_distance = vec2_dist(object_n_position, object_i_position);
+            const end_distance = is_slider(object_n) ? vec2_dist(object_n.end_pos, object_i_position) : Infinity;
+
+            if (is_circle(object_i) && is_slider(object_n) && end_distance < stack_distance) {
+                const offset = object_i.stack_height - object_n.stack_height + 1;
+
+                for (let j = n + 1; j <= i; j++) {
+                    const object_j = objects[j];
+                    if (is_spinner(object_j)) {
+                        continue;
+                    }
+
+                    if (vec2_dist(object_n.end_pos, get_object_start_position(object_j)) < stack_distance) {
+                        object_j.stack_height -= offset;
+                    }
+                }
+
+                break;
+            }
+
+            if (start_distance < stack_distance || end_distance < stack_distance) {
+                object_n.stack_height = object_i.stack_height + 1;
+                object_i = object_n;
+            }
+        }
+    }
+};
@@ -1,9 +1,9 @@
 import type { IBeatmap, ITimingPoint } from "../../types/beatmap";
-import { is_circle, is_slider, is_spinner, is_new_combo } from "../../types/beatmap";
+import { is_circle, is_slider, is_spinner, is_new_combo, get_combo_skip } from "../../types/beatmap";
 import { Mods, has_mod } from "../../types/mods";
 import { calculate_preempt, calculate_fade_in, calculate_radius } from "../../math/difficulty";
-import { get_adjusted_difficulty } from "../../mods";
-import { clamp, vec2_add, vec2_dist, type Vec2 } from "../../math/vector2";
+import { get_adjusted_difficulty, get_position_transform } from "../../mods";
+import { clamp, vec2_add, type Vec2 } from "../../math/vector2";
 import { BaseRenderer, type IRendererConfig, DEFAULT_RENDERER_CONFIG } from "../base_renderer";
 import type { IRenderBackend } from "../backend/render_backend";
 import type { ISkinConfig } from "../../skin/skin_config";
@@ -20,13 +20,24 @@ import type { RenderHitObject, RenderSliderData } from "../render_types";
 import { build_render_objects } from "../render_objects";
 import type { StandardSkinElements } from "../../skin/skin_elements";
 import { LruCache } from "../../utils/lru";
-
-const flip_y = (y: number): number => 384 - y;
+import { calculate_stack_heights, get_stack_leniency } from "./stacking";
+import type { IReplay } from "../../replay/replay_types";
+import { ReplayOverlay } from "../../replay/replay_overlay";
+import { AutoplayCursor } from "./autoplay_cursor";
+import { draw_cursor } from "./cursor_renderer";
+import { HitResult, type IJudgement } from "../../scoring/scoring_types";
+import { get_required_spins } from "../../scoring/judgement_simulator";
+import { get_autoplay_spin_times } from "../../scoring/autoplay_frames";
+import { draw_spinner, get_spinner_state } from "./spinner_renderer";
+import { find_break_at, get_break_periods, has_break_effect, type IBreakPeriod } from "../../beatmap/breaks";
+import { draw_flashlight, get_combo_at, get_flashlight_radius, FLASHLIGHT_SLIDER_DIM } from "../flashlight";
 
 export class StandardRenderer extends BaseRenderer {
     private radius = 32;
     private preempt = 1200;
     private fade_in = 600;
+    private od = 5;
+    private breaks: IBreakPeriod[] = [];
     private timing_points: ITimingPoint[] = [];
     private timing_resolver: TimingStateResolver | null = null;
 
@@ -46,6 +57,15 @@ export class StandardRenderer extends BaseRenderer {
     private slider_cache_limit: number = STANDARD_RUNTIME_DEFAULTS.slider_cache.max_entries;
     private slider_cache_bytes = 0;
     private last_cache_trim_at = 0;
+    private replay_overlay: ReplayOverlay | null = null;
+    private autoplay_cursor: AutoplayCursor | null = null;
+    // start times of circles and sliders whose head was missed
+    private missed_times = new Set<number>();
+    private judgements: IJudgement[] = [];
+    // spinner start time to the times of its spin and bonus judgements
+    private spinner_spins = new Map<number, number[]>();
+    // without judgements spinners turn like autoplay's cursor
+    private has_judgements = false;
 
     constructor(
         backend: IRenderBackend,
@@ -65,10 +85,13 @@ export class StandardRenderer extends BaseRenderer {
         this.objects = build_render_objects(beatmap).sort((a: RenderHitObject, b: RenderHitObject) => a.time - b.time);
         this.timing_points = process_timing_points([...beatmap.TimingPoints]);
         this.timing_resolver = new TimingStateResolver(this.timing_points);
+        this.assign_snap_divisors();
+        this.breaks = get_break_periods(beatmap).filter(has_break_effect);
 
         const ar = beatmap.Difficulty.ApproachRate >= 0 ? beatmap.Difficulty.ApproachRate : beatmap.Difficulty.OverallDifficulty;
-        const difficulty = get_adjusted_difficulty(beatmap.Difficulty.CircleSize, ar, 0, 0, this.mods);
+        const difficulty = get_adjusted_difficulty(beatmap.Difficulty.CircleSize, ar, beatmap.Difficulty.OverallDifficulty, 0, this.mods);
         this.radius = calculate_radius(difficulty.cs);
+        this.od = difficulty.od;
         this.preempt = calculate_preempt(difficulty.ar);
         this.fade_in = calculate_fade_in(this.preempt);
         if (has_mod(this.mods, Mods.Hidden)) {
@@ -89,16 +112,35 @@ export class StandardRenderer extends BaseRenderer {
         }
     }
 
+    update_config(config: Partial<IRendererConfig>): void {
+        const previous_axis = this.config.mirror_axis;
+        super.update_config(config);
+        if (this.drawable_config) {
+            // drawables share this object, so the toggle applies without rebuilding them
+            this.drawable_config.snap_colours = this.config.enable_snap_colours;
+        }
+
+        if (this.beatmap && has_mod(this.mods, Mods.Mirror) && this.config.mirror_axis !== previous_axis) {
+            this.initialize(this.beatmap);
+        }
+    }
+
+    set_replay(replay: IReplay | null): void {
+        super.set_replay(replay);
+        this.replay_overlay = replay ? new ReplayOverlay(replay) : null;
+    }
+
     private preprocess_objects(): void {
         let combo_number = 0;
         let combo_count = 1;
+        const transform = get_position_transform(this.mods, this.config.mirror_axis);
         if (this.timing_resolver) {
             this.timing_resolver.reset();
         }
 
         for (const obj of this.objects) {
             if (is_new_combo(obj)) {
-                combo_number = (combo_number + 1) % this.skin.combo_colors.length;
+                combo_number = (combo_number + 1 + get_combo_skip(obj)) % this.skin.combo_colors.length;
                 combo_count = 1;
             } else {
                 combo_count++;
@@ -109,9 +151,9 @@ export class StandardRenderer extends BaseRenderer {
             if (is_slider(obj)) {
                 const data = obj.data as RenderSliderData;
 
-                if (has_mod(this.mods, Mods.HardRock)) {
-                    data.pos = [data.pos[0], flip_y(data.pos[1])];
-                    data.control_points = data.control_points.map((p) => [p[0], flip_y(p[1])] as [number, number]);
+                if (transform) {
+                    data.pos = transform(data.pos);
+                    data.control_points = data.control_points.map(transform);
                 }
 
                 const timing_state = this.timing_resolver?.get_state_at(obj.time) ?? { base_beat_length: 600, sv_multiplier: 1 };
@@ -125,8 +167,8 @@ export class StandardRenderer extends BaseRenderer {
                 obj.end_pos = [256, 192];
             } else {
                 const data = obj.data as { pos: Vec2 };
-                if (has_mod(this.mods, Mods.HardRock)) {
-                    data.pos = [data.pos[0], flip_y(data.pos[1])];
+                if (transform) {
+                    data.pos = transform(data.pos);
                 }
                 obj.end_pos = data.pos;
             }
@@ -140,62 +182,16 @@ export class StandardRenderer extends BaseRenderer {
             return;
         }
 
-        const stack_leniency = this.resolve_stack_leniency();
+        const stack_leniency = get_stack_leniency(this.beatmap);
         const stack_threshold = this.preempt * stack_leniency;
         const stack_scale = this.radius / 64;
         const stack_offset_unit = -STANDARD_RUNTIME_DEFAULTS.stack.offset_multiplier * stack_scale;
 
         for (let i = 0; i < this.objects.length; i++) {
-            this.objects[i].stack_height = 0;
             this.objects[i].stack_offset = [0, 0];
         }
 
-        for (let i = this.objects.length - 1; i > 0; i--) {
-            let object_i = this.objects[i];
-
-            if (is_spinner(object_i)) {
-                continue;
-            }
-
-            for (let n = i - 1; n >= 0; n--) {
-                const object_n = this.objects[n];
-                if (is_spinner(object_n)) {
-                    continue;
-                }
-
-                if ((object_i.time as number) - (object_n.end_time as number) > stack_threshold) {
-                    break;
-                }
-
-                const object_i_position = this.get_object_start_position(object_i);
-                const object_n_position = this.get_object_start_position(object_n);
-                const start_distance = vec2_dist(object_n_position, object_i_position);
-                const end_distance = is_slider(object_n) ? vec2_dist(object_n.end_pos, object_i_position) : Infinity;
-
-                if (is_circle(object_i) && is_slider(object_n) && end_distance < STANDARD_RUNTIME_DEFAULTS.stack.distance) {
-                    const offset = object_i.stack_height - object_n.stack_height + 1;
-
-                    for (let j = n + 1; j <= i; j++) {
-                        const object_j = this.objects[j];
-                        if (is_spinner(object_j)) {
-                            continue;
-                        }
-
-                        const object_j_position = this.get_object_start_position(object_j);
-                        if (vec2_dist(object_n.end_pos, object_j_position) < STANDARD_RUNTIME_DEFAULTS.stack.distance) {
-                            object_j.stack_height -= offset;
-                        }
-                    }
-
-                    break;
-                }
-
-                if (start_distance < STANDARD_RUNTIME_DEFAULTS.stack.distance || end_distance < STANDARD_RUNTIME_DEFAULTS.stack.distance) {
-                    object_n.stack_height = object_i.stack_height + 1;
-                    object_i = object_n;
-                }
-            }
-        }
+        calculate_stack_heights(this.objects, stack_threshold);
 
         for (let i = 0; i < this.objects.length; i++) {
             const obj = this.objects[i];
@@ -235,35 +231,6 @@ export class StandardRenderer extends BaseRenderer {
         }
     }
 
-    private resolve_stack_leniency(): number {
-        const beatmap = this.beatmap as unknown as {
-            StackLeniency?: number;
-            Difficulty?: { StackLeniency?: number };
-            General?: { StackLeniency?: number };
-        };
-        const value =
-            beatmap.StackLeniency ??
-            beatmap.Difficulty?.StackLeniency ??
-            beatmap.General?.StackLeniency ??
-            STANDARD_RUNTIME_DEFAULTS.stack.default_leniency;
-        if (value <= 0) {
-            return STANDARD_RUNTIME_DEFAULTS.stack.default_leniency;
-        }
-
-        return value;
-    }
-
-    private get_object_start_position(obj: RenderHitObject): Vec2 {
-        if (is_slider(obj)) {
-            return (obj.data as RenderSliderData).pos;
-        }
-        if (is_spinner(obj)) {
-            return [256, 192];
-        }
-
-        return (obj.data as { pos: Vec2 }).pos;
-    }
-
     private create_drawables(): void {
         this.release_drawables();
         const dpr = this.config.use_high_dpi ? window.devicePixelRatio || 1 : 1;
@@ -275,7 +242,8 @@ export class StandardRenderer extends BaseRenderer {
             fade_in: this.fade_in,
             radius: this.radius,
             scale: this.config.scale * dpr,
-            mods: this.mods
+            mods: this.mods,
+            snap_colours: this.config.enable_snap_colours
         };
 
         if (this.timing_resolver) {
@@ -283,6 +251,7 @@ export class StandardRenderer extends BaseRenderer {
         }
 
         this.spinner_objects = [];
+        const slider_lookup = new Map<RenderHitObject, DrawableSlider>();
         for (const obj of this.objects) {
             if (is_circle(obj)) {
                 this.drawables.push(new DrawableHitCircle(obj, this.drawable_config));
@@ -303,21 +272,50 @@ export class StandardRenderer extends BaseRenderer {
                 );
                 this.drawables.push(slider);
                 this.slider_drawables.push(slider);
+                slider_lookup.set(obj, slider);
                 data.computed_path = [];
             } else if (is_spinner(obj)) {
                 this.spinner_objects.push(obj);
             }
         }
+        for (const drawable of this.drawables) {
+            drawable.set_missed(this.missed_times.has(drawable.start_time));
+        }
         this.slider_cache_limit = Math.min(STANDARD_RUNTIME_DEFAULTS.slider_cache.max_entries, this.slider_drawables.length);
         this.slider_cache_bytes = 0;
         this.slider_cache = this.create_slider_cache(this.slider_cache_limit);
+        this.autoplay_cursor = new AutoplayCursor(this.objects, (obj, time) => {
+            const slider = slider_lookup.get(obj);
+            return slider ? slider.get_ball_position_at(time) : (obj.data as { pos: Vec2 }).pos;
+        });
+    }
+
+    set_judgements(judgements: IJudgement[] | null): void {
+        this.judgements = judgements ?? [];
+        this.has_judgements = judgements !== null;
+        this.missed_times.clear();
+        this.spinner_spins.clear();
+        for (const judgement of judgements ?? []) {
+            if ((judgement.kind === "circle" || judgement.kind === "slider_head") && judgement.result === HitResult.Miss) {
+                this.missed_times.add(judgement.object_time);
+            }
+            if (judgement.kind === "spinner_spin" || judgement.kind === "spinner_bonus") {
+                const spins = this.spinner_spins.get(judgement.object_time) ?? [];
+                spins.push(judgement.time);
+                this.spinner_spins.set(judgement.object_time, spins);
+            }
+        }
+
+        for (const drawable of this.drawables) {
+            drawable.set_missed(this.missed_times.has(drawable.start_time));
+        }
     }
 
     render(time: number): void {
         const { backend, config } = this;
         this.precompute_focus_time = time;
 
-        this.render_background();
+        this.render_background(time);
         backend.save();
         backend.translate(config.offset_x, config.offset_y);
         backend.scale(config.scale, config.scale);
@@ -384,7 +382,32 @@ export class StandardRenderer extends BaseRenderer {
             }
         }
 
+        const cursor = this.replay_overlay ? this.replay_overlay.get_cursor(time) : this.autoplay_cursor?.get_state(time);
+        if (cursor && has_mod(this.mods, Mods.Flashlight)) {
+            this.render_flashlight(time, cursor.position, cursor.pressed, visible_sliders);
+        }
+        if (cursor && config.show_cursor) {
+            draw_cursor(backend, cursor, this.skin_elements);
+        }
+
         backend.restore();
+        this.render_storyboard_overlay(time);
+        this.replay_overlay?.render_keys(backend, time, this.skin.default_font);
+    }
+
+    private render_flashlight(time: number, position: Vec2, pressed: boolean, visible_sliders: DrawableSlider[]): void {
+        const { backend, config } = this;
+        const in_break = find_break_at(this.breaks, time) !== null;
+        const radius = get_flashlight_radius(get_combo_at(this.judgements, time), in_break);
+        const holding = pressed && visible_sliders.some((slider) => time >= slider.start_time && time <= slider.end_time);
+
+        // the cover has to reach the screen edges, not just the playfield
+        draw_flashlight(backend, position, radius, holding ? FLASHLIGHT_SLIDER_DIM : 0, {
+            x: -config.offset_x / config.scale,
+            y: -config.offset_y / config.scale,
+            width: backend.width / config.scale,
+            height: backend.height / config.scale
+        });
     }
 
     precompute(start_time: number = 0): void {
@@ -409,6 +432,8 @@ export class StandardRenderer extends BaseRenderer {
         this.release_drawables();
         this.timing_points = [];
         this.timing_resolver = null;
+        this.replay_overlay = null;
+        this.autoplay_cursor = null;
         super.dispose();
     }
 
@@ -673,23 +698,16 @@ export class StandardRenderer extends BaseRenderer {
         }
         if (opacity <= 0) return;
 
-        const x = 256;
-        const y = 192;
-        const duration = Math.max(1, obj.end_time - obj.time);
-        const progress = clamp((time - obj.time) / duration, 0, 1);
+        const required = get_required_spins(obj.end_time - obj.time, this.od);
+        const spins = this.has_judgements ? (this.spinner_spins.get(obj.time) ?? []) : get_autoplay_spin_times(obj.time, obj.end_time);
+        const state = get_spinner_state(spins, obj.time, required, Math.min(time, obj.end_time));
 
-        this.backend.save();
-        this.backend.set_alpha(opacity);
-        const approach_size = this.skin.spinner_size * (1 - progress);
-
-        if (approach_size > 5) {
-            this.backend.begin_path();
-            this.backend.arc_to(x, y, approach_size, 0, Math.PI * 2);
-            this.backend.stroke_path("rgba(255,255,255,0.6)", 4);
-        }
-
-        this.backend.draw_circle(x, y, this.skin.spinner_size, "rgba(0,0,0,0.2)");
-        this.backend.draw_circle(x, y, 12, "white");
-        this.backend.restore();
+        draw_spinner(this.backend, this.skin, this.skin_elements, state, obj.end_time, {
+            time,
+            start_time: obj.time,
+            fade_in: this.fade_in,
+            opacity,
+            show_approach: !has_mod(this.mods, Mods.Hidden)
+        });
     }
 }
@@ -0,0 +1,140 @@
+import type { IBeatmap } from "../../types/beatmap";
+import { GameMode, HitSoundType, is_slider, is_spinner } from "../../types/beatmap";
+import type { RenderHitObject, RenderSliderData } from "../render_types";
+import type { TimingState, TimingStateResolver } from "../standard/timing_state";
+import { calculate_slider_duration } from "../standard/slider_math";
+import { difficulty_range } from "../../math/difficulty";
+
+const LEGACY_VELOCITY_MULTIPLIER = 1.4;
+const SWELL_HIT_MULTIPLIER = 1.65;
+
+export type TaikoHitKind = "hit" | "drumroll" | "swell";
+
+export type TaikoHitObject = {
+    kind: TaikoHitKind;
+    time: number;
+    end_time: number;
+    is_kat: boolean;
+    is_strong: boolean;
+    velocity: number;
+    tick_spacing: number;
+    required_hits: number;
+};
+
+export const get_taiko_velocity = (beatmap: IBeatmap, state: TimingState, velocity_multiplier: number): number => {
+    const slider_multiplier = beatmap.Difficulty.SliderMultiplier || 1.4;
+    return (100 * slider_multiplier * LEGACY_VELOCITY_MULTIPLIER * state.sv_multiplier * velocity_multiplier) / Math.max(1, state.base_beat_length);
+};
+
+// hits, drumrolls and swells sorted by time, velocities are in playfield units per millisecond
+export const convert_taiko_objects = (
+    beatmap: IBeatmap,
+    objects: RenderHitObject[],
+    resolver: TimingStateResolver,
+    velocity_multiplier: number
+): TaikoHitObject[] => {
+    resolver.reset();
+    const is_converted = beatmap.General.Mode !== GameMode.Taiko;
+    const tick_rate = beatmap.Difficulty.SliderTickRate || 1;
+    const swell_rate = difficulty_range(beatmap.Difficulty.OverallDifficulty, { min: 3, mid: 5, max: 7.5 }) * SWELL_HIT_MULTIPLIER;
+    const notes: TaikoHitObject[] = [];
+
+    for (const obj of objects) {
+        const state = resolver.get_state_at(obj.time);
+        const velocity = get_taiko_velocity(beatmap, state, velocity_multiplier);
+        const hit_sound = Number(obj.hitSound) || 0;
+        const is_strong = (hit_sound & HitSoundType.Finish) !== 0;
+        const is_kat = (hit_sound & (HitSoundType.Whistle | HitSoundType.Clap)) !== 0;
+
+        if (is_spinner(obj)) {
+            const duration = Math.max(0, obj.end_time - obj.time);
+            notes.push({
+                kind: "swell",
+                time: obj.time,
+                end_time: obj.end_time,
+                is_kat: false,
+                is_strong: false,
+                velocity,
+                tick_spacing: 0,
+                required_hits: Math.max(1, Math.floor((duration / 1000) * swell_rate))
+            });
+            continue;
+        }
+
+        if (is_slider(obj)) {
+            const slider = obj.data as RenderSliderData;
+            const spans = Math.max(1, slider.repetitions);
+            const duration = Math.floor(calculate_slider_duration(slider.distance * spans, beatmap, state));
+            const beat_length = beatmap.version >= 8 ? state.base_beat_length : state.base_beat_length / state.sv_multiplier;
+            const tick_spacing = Math.min(beat_length / tick_rate, duration / spans);
+
+            // short sliders in converted maps turn into a stream of hits instead of a drumroll
+            if (is_converted && tick_spacing > 0 && duration < 2 * beat_length) {
+                for (let t = obj.time; t <= obj.time + duration + tick_spacing / 8; t += tick_spacing) {
+                    notes.push({
+                        kind: "hit",
+                        time: t,
+                        end_time: t,
+                        is_kat,
+                        is_strong,
+                        velocity,
+                        tick_spacing: 0,
+                        required_hits: 0
+                    });
+                }
+                continue;
+            }
+
+            notes.push({
+                kind: "drumroll",
+                time: obj.time,
+                end_time: obj.time + duration,
+                is_kat: false,
+                is_strong,
+                velocity,
+                tick_spacing: Math.max(1, state.base_beat_length / (tick_rate === 3 ? 3 : 4)),
+                required_hits: 0
+            });
+            continue;
+        }
+
+        notes.push({
+            kind: "hit",
+            time: obj.time,
+            end_time: obj.time,
+            is_kat,
+            is_strong,
+            velocity,
+            tick_spacing: 0,
+            required_hits: 0
+        });
+    }
+
+    return notes.sort((a, b) => a.time - b.time);
+};
+
+// latest end time of every note up to and including each index, it only grows so it can be binary searched
+export const get_running_end_times = (notes: TaikoHitObject[]): number[] => {
+    const running: number[] = [];
+    let latest = Number.NEGATIVE_INFINITY;
+    for (const note of notes) {
+        latest = Math.max(latest, note.end_time);
+        running.push(latest);
+    }
+    return running;
+};
+
+// first note that may still be drawn at time, a drumroll or swell started long before stays in the window until it ends
+export const find_visible_start = (running_end_times: number[], time: number): number => {
+    let low = 0;
+    let high = running_end_times.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (running_end_times[mid] < time) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+};
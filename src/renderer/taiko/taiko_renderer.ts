@@ -0,0 +1,324 @@
+import type { IBeatmap, ITimingPoint } from "../../types/beatmap";
+import { Mods, has_mod } from "../../types/mods";
+import { BaseRenderer, type IRendererConfig, DEFAULT_RENDERER_CONFIG, PLAYFIELD_WIDTH } from "../base_renderer";
+import type { IRenderBackend } from "../backend/render_backend";
+import type { ISkinConfig } from "../../skin/skin_config";
+import { build_render_objects } from "../render_objects";
+import { convert_taiko_objects, find_visible_start, get_running_end_times, get_taiko_velocity, type TaikoHitObject } from "./taiko_objects";
+import type { StandardSkinElements } from "../../skin/skin_elements";
+import { process_timing_points } from "../../beatmap/timing";
+import { TimingStateResolver } from "../standard/timing_state";
+import { clamp } from "../../math/vector2";
+
+const HARD_ROCK_VELOCITY_MULTIPLIER = 1.87;
+const EASY_VELOCITY_MULTIPLIER = 0.8;
+
+const LANE_Y = 110;
+const LANE_HEIGHT = 100;
+const HIT_X = 96;
+const NOTE_RADIUS = 26;
+const STRONG_NOTE_RADIUS = 38;
+const HIT_FADE_DURATION = 120;
+const HIT_LIFT = 18;
+const DRUM_FLASH_DURATION = 110;
+const HIDDEN_FADE_RATIO = 0.35;
+
+const DON_COLOR = "#eb452c";
+const KAT_COLOR = "#448aaf";
+const DRUMROLL_COLOR = "#fcb806";
+const SWELL_COLOR = "#f2a03a";
+
+type TaikoBarLine = {
+    time: number;
+    velocity: number;
+};
+
+export class TaikoRenderer extends BaseRenderer {
+    private notes: TaikoHitObject[] = [];
+    private running_end_times: number[] = [];
+    private bar_lines: TaikoBarLine[] = [];
+    private min_velocity = 1;
+    private timing_points: ITimingPoint[] = [];
+    private timing_resolver: TimingStateResolver | null = null;
+
+    constructor(
+        backend: IRenderBackend,
+        skin: ISkinConfig,
+        mods: number = 0,
+        config: IRendererConfig = DEFAULT_RENDERER_CONFIG,
+        skin_elements: StandardSkinElements | null = null
+    ) {
+        super(backend, skin, mods, config, skin_elements);
+    }
+
+    initialize(beatmap: IBeatmap): void {
+        this.beatmap = beatmap;
+        this.objects = build_render_objects(beatmap).sort((a, b) => a.time - b.time);
+        this.timing_points = process_timing_points([...beatmap.TimingPoints]);
+        this.timing_resolver = new TimingStateResolver(this.timing_points);
+        this.notes = convert_taiko_objects(beatmap, this.objects, this.timing_resolver, this.get_velocity_multiplier());
+        this.running_end_times = get_running_end_times(this.notes);
+        this.bar_lines = this.build_bar_lines();
+        this.min_velocity = this.notes.reduce((min, note) => Math.min(min, note.velocity), Number.POSITIVE_INFINITY);
+        if (!Number.isFinite(this.min_velocity) || this.min_velocity <= 0) {
+            this.min_velocity = 0.01;
+        }
+    }
+
+    set_mods(mods: number): void {
+        this.mods = mods;
+        if (this.beatmap) {
+            this.initialize(this.beatmap);
+        }
+    }
+
+    private get_velocity_multiplier(): number {
+        if (has_mod(this.mods, Mods.HardRock)) return HARD_ROCK_VELOCITY_MULTIPLIER;
+        if (has_mod(this.mods, Mods.Easy)) return EASY_VELOCITY_MULTIPLIER;
+        return 1;
+    }
+
+    private get_lane_bounds(): { left: number; right: number } {
+        const { config, backend } = this;
+        const scale = config.scale > 0 ? config.scale : 1;
+        const left = -config.offset_x / scale;
+        const right = Math.max(PLAYFIELD_WIDTH, (backend.width - config.offset_x) / scale);
+        return { left, right };
+    }
+
+    private time_to_x(note: TaikoHitObject, target_time: number, time: number): number {
+        return HIT_X + (target_time - time) * note.velocity;
+    }
+
+    private get_note_radius(note: TaikoHitObject): number {
+        return note.is_strong ? STRONG_NOTE_RADIUS : NOTE_RADIUS;
+    }
+
+    private get_note_alpha(note: TaikoHitObject, x: number, right: number): number {
+        if (!has_mod(this.mods, Mods.Hidden)) {
+            return 1;
+        }
+
+        const fade_length = (right - HIT_X) * HIDDEN_FADE_RATIO;
+        const fade_end = HIT_X + fade_length;
+        return clamp((x - fade_end) / fade_length, 0, 1);
+    }
+
+    private draw_lane(left: number, right: number): void {
+        const { backend } = this;
+        const top = LANE_Y - LANE_HEIGHT / 2;
+
+        backend.set_alpha(0.85);
+        backend.draw_rect(left, top, right - left, LANE_HEIGHT, "#1a1a1a");
+        backend.set_alpha(1);
+        backend.draw_rect(left, top - 2, right - left, 2, "#5c5c5c");
+        backend.draw_rect(left, top + LANE_HEIGHT, right - left, 2, "#5c5c5c");
+
+        backend.set_alpha(0.5);
+        backend.draw_circle(HIT_X, LANE_Y, STRONG_NOTE_RADIUS + 4, "rgba(0,0,0,0)", "#8a8a8a", 2);
+        backend.draw_circle(HIT_X, LANE_Y, NOTE_RADIUS + 2, "#3a3a3a", "#8a8a8a", 2);
+        backend.set_alpha(1);
+    }
+
+    private build_bar_lines(): TaikoBarLine[] {
+        const resolver = this.timing_resolver;
+        if (!resolver) {
+            return [];
+        }
+
+        resolver.reset();
+        const velocity_multiplier = this.get_velocity_multiplier();
+        const last_time = this.running_end_times[this.running_end_times.length - 1] ?? 0;
+        const points = this.timing_points.filter((point) => point.uninherited === 1 && point.beatLength > 0);
+        const lines: TaikoBarLine[] = [];
+
+        for (let i = 0; i < points.length; i++) {
+            const point = points[i];
+            const next_time = i + 1 < points.length ? points[i + 1].time : last_time + 1;
+            const bar_length = point.beatLength * Math.max(1, point.meter || 4);
+
+            for (let bar_time = point.time; bar_time < next_time; bar_time += bar_length) {
+                const state = resolver.get_state_at(bar_time);
+                lines.push({ time: bar_time, velocity: get_taiko_velocity(this.beatmap, state, velocity_multiplier) });
+            }
+        }
+
+        return lines;
+    }
+
+    private draw_bar_lines(time: number, left: number, right: number): void {
+        const { backend } = this;
+        const top = LANE_Y - LANE_HEIGHT / 2;
+
+        backend.set_alpha(0.35);
+        for (const line of this.bar_lines) {
+            if (line.time < time) continue;
+
+            const x = HIT_X + (line.time - time) * line.velocity;
+            if (x < left || x > right) continue;
+
+            backend.draw_rect(x - 0.75, top, 1.5, LANE_HEIGHT, "#ffffff");
+        }
+        backend.set_alpha(1);
+    }
+
+    private draw_hit(note: TaikoHitObject, time: number, right: number): void {
+        const { backend } = this;
+        const radius = this.get_note_radius(note);
+        let x = this.time_to_x(note, note.time, time);
+        let y = LANE_Y;
+        let alpha = this.get_note_alpha(note, x, right);
+
+        if (time >= note.time) {
+            const progress = (time - note.time) / HIT_FADE_DURATION;
+            if (progress >= 1) return;
+            x = HIT_X;
+            y = LANE_Y - HIT_LIFT * progress;
+            alpha = 1 - progress;
+        }
+
+        if (alpha <= 0 || x - radius > right) return;
+
+        backend.set_alpha(alpha);
+        backend.draw_circle(x, y, radius, note.is_kat ? KAT_COLOR : DON_COLOR, "#ffffff", note.is_strong ? 4 : 3);
+        backend.set_alpha(1);
+    }
+
+    private draw_drumroll(note: TaikoHitObject, time: number, left: number, right: number): void {
+        if (time > note.end_time + HIT_FADE_DURATION) return;
+
+        const { backend } = this;
+        const radius = this.get_note_radius(note);
+        const head_x = Math.max(HIT_X, this.time_to_x(note, note.time, time));
+        const tail_x = this.time_to_x(note, note.end_time, time);
+        if (head_x - radius > right || tail_x + radius < left) return;
+
+        const alpha = time > note.end_time ? 1 - (time - note.end_time) / HIT_FADE_DURATION : this.get_note_alpha(note, head_x, right);
+        if (alpha <= 0) return;
+
+        backend.set_alpha(alpha);
+        if (tail_x > head_x) {
+            backend.draw_rect(head_x, LANE_Y - radius, tail_x - head_x, radius * 2, DRUMROLL_COLOR);
+            backend.draw_rect(head_x, LANE_Y - radius, tail_x - head_x, 2, "#ffffff");
+            backend.draw_rect(head_x, LANE_Y + radius - 2, tail_x - head_x, 2, "#ffffff");
+            backend.draw_circle(tail_x, LANE_Y, radius, DRUMROLL_COLOR, "#ffffff", 3);
+        }
+
+        const first_tick = Math.max(0, Math.ceil((time - note.time) / note.tick_spacing));
+        for (let t = note.time + first_tick * note.tick_spacing; t < note.end_time; t += note.tick_spacing) {
+            const tick_x = this.time_to_x(note, t, time);
+            if (tick_x > right) break;
+            backend.draw_circle(tick_x, LANE_Y, radius * 0.25, "#ffffff");
+        }
+
+        backend.draw_circle(head_x, LANE_Y, radius, DRUMROLL_COLOR, "#ffffff", 3);
+        backend.set_alpha(1);
+    }
+
+    private draw_swell(note: TaikoHitObject, time: number, right: number): void {
+        if (time > note.end_time + HIT_FADE_DURATION) return;
+
+        const { backend } = this;
+        const x = Math.max(HIT_X, this.time_to_x(note, note.time, time));
+        if (x - STRONG_NOTE_RADIUS > right) return;
+
+        const alpha = time > note.end_time ? 1 - (time - note.end_time) / HIT_FADE_DURATION : 1;
+        backend.set_alpha(alpha);
+        backend.draw_circle(x, LANE_Y, STRONG_NOTE_RADIUS, SWELL_COLOR, "#ffffff", 4);
+        backend.draw_circle(x, LANE_Y, STRONG_NOTE_RADIUS * 0.45, "rgba(0,0,0,0)", "#ffffff", 3);
+
+        if (time >= note.time) {
+            const duration = Math.max(1, note.end_time - note.time);
+            const progress = clamp((time - note.time) / duration, 0, 1);
+            const remaining = Math.max(0, Math.ceil(note.required_hits * (1 - progress)));
+
+            backend.set_alpha(alpha * 0.35);
+            backend.draw_circle(x, LANE_Y, STRONG_NOTE_RADIUS + 18 + progress * 24, "rgba(0,0,0,0)", SWELL_COLOR, 3);
+            backend.set_alpha(alpha);
+            backend.draw_text(String(remaining), x, LANE_Y - STRONG_NOTE_RADIUS - 22, "bold 20px sans-serif", "#ffffff", "center", "middle");
+        }
+        backend.set_alpha(1);
+    }
+
+    private draw_drum_flash(time: number): void {
+        const { backend } = this;
+        let last: TaikoHitObject | null = null;
+
+        for (let i = this.find_first_index(time - DRUM_FLASH_DURATION); i < this.notes.length; i++) {
+            const note = this.notes[i];
+            if (note.time > time) break;
+            if (note.kind === "hit") last = note;
+        }
+
+        if (!last) return;
+
+        const progress = (time - last.time) / DRUM_FLASH_DURATION;
+        if (progress < 0 || progress >= 1) return;
+
+        backend.set_blend_mode("lighter");
+        backend.set_alpha(0.45 * (1 - progress));
+        backend.draw_circle(HIT_X, LANE_Y, STRONG_NOTE_RADIUS + 8, last.is_kat ? KAT_COLOR : DON_COLOR);
+        backend.set_blend_mode("normal");
+        backend.set_alpha(1);
+    }
+
+    private find_first_index(time: number): number {
+        let low = 0;
+        let high = this.notes.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.notes[mid].time < time) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
+    render(time: number): void {
+        const { backend, config } = this;
+        const { left, right } = this.get_lane_bounds();
+
+        this.render_background(time);
+
+        backend.save();
+        backend.translate(config.offset_x, config.offset_y);
+        backend.scale(config.scale, config.scale);
+
+        this.draw_lane(left, right);
+        this.draw_bar_lines(time, left, right);
+        this.draw_drum_flash(time);
+
+        const start = find_visible_start(this.running_end_times, time - HIT_FADE_DURATION);
+
+        // sv changes mean a later note can still be on screen after an earlier one has scrolled past the edge
+        const lookahead = (right - HIT_X + STRONG_NOTE_RADIUS) / this.min_velocity;
+        let end = start;
+        while (end < this.notes.length && this.notes[end].time <= time + lookahead) {
+            end++;
+        }
+
+        for (let i = end - 1; i >= start; i--) {
+            const note = this.notes[i];
+            if (note.kind === "drumroll") {
+                this.draw_drumroll(note, time, left, right);
+            } else if (note.kind === "swell") {
+                this.draw_swell(note, time, right);
+            } else {
+                this.draw_hit(note, time, right);
+            }
+        }
+
+        backend.restore();
+        this.render_storyboard_overlay(time);
+    }
+
+    dispose(): void {
+        super.dispose();
+        this.notes = [];
+        this.running_end_times = [];
+        this.bar_lines = [];
+        this.timing_resolver = null;
+    }
+}
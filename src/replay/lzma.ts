@@ -0,0 +1,317 @@
+// decoder for "lzma alone" streams (5 byte properties, 8 byte size, range coded data), which is what .osr files store their frames in
+// straight port of the reference LzmaSpec decoder, the whole output doubles as the dictionary
+
+const NUM_BIT_MODEL_TOTAL_BITS = 11;
+const BIT_MODEL_TOTAL = 1 << NUM_BIT_MODEL_TOTAL_BITS;
+const NUM_MOVE_BITS = 5;
+const PROB_INIT = BIT_MODEL_TOTAL >>> 1;
+const TOP_VALUE = 1 << 24;
+
+const NUM_STATES = 12;
+const NUM_POS_BITS_MAX = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const NUM_ALIGN_BITS = 4;
+const START_POS_MODEL_INDEX = 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >>> 1);
+const MATCH_MIN_LEN = 2;
+const HEADER_SIZE = 13;
+
+const create_probs = (count: number): Uint16Array => new Uint16Array(count).fill(PROB_INIT);
+
+class RangeDecoder {
+    private range = 0xffffffff;
+    private code = 0;
+
+    constructor(
+        private readonly data: Uint8Array,
+        private position: number
+    ) {
+        const first = this.next_byte();
+        for (let i = 0; i < 4; i++) {
+            this.code = ((this.code << 8) | this.next_byte()) >>> 0;
+        }
+
+        if (first !== 0 || this.code === this.range) {
+            throw new Error("Corrupted lzma stream");
+        }
+    }
+
+    private next_byte(): number {
+        if (this.position >= this.data.length) {
+            throw new Error("Unexpected end of lzma stream");
+        }
+        return this.data[this.position++];
+    }
+
+    private normalize(): void {
+        if (this.range < TOP_VALUE) {
+            this.range = (this.range << 8) >>> 0;
+            this.code = ((this.code << 8) | this.next_byte()) >>> 0;
+        }
+    }
+
+    decode_direct_bits(count: number): number {
+        let result = 0;
+        for (let i = 0; i < count; i++) {
+            this.range >>>= 1;
+            let bit = 0;
+            if (this.code >= this.range) {
+                this.code -= this.range;
+                bit = 1;
+            }
+            result = result * 2 + bit;
+            this.normalize();
+        }
+        return result;
+    }
+
+    decode_bit(probs: Uint16Array, index: number): number {
+        const prob = probs[index];
+        const bound = (this.range >>> NUM_BIT_MODEL_TOTAL_BITS) * prob;
+        let bit: number;
+
+        if (this.code < bound) {
+            probs[index] = prob + ((BIT_MODEL_TOTAL - prob) >>> NUM_MOVE_BITS);
+            this.range = bound;
+            bit = 0;
+        } else {
+            probs[index] = prob - (prob >>> NUM_MOVE_BITS);
+            this.code -= bound;
+            this.range -= bound;
+            bit = 1;
+        }
+
+        this.normalize();
+        return bit;
+    }
+
+    decode_tree(probs: Uint16Array, offset: number, num_bits: number): number {
+        let m = 1;
+        for (let i = 0; i < num_bits; i++) {
+            m = (m << 1) + this.decode_bit(probs, offset + m);
+        }
+        return m - (1 << num_bits);
+    }
+
+    decode_reverse_tree(probs: Uint16Array, offset: number, num_bits: number): number {
+        let m = 1;
+        let symbol = 0;
+        for (let i = 0; i < num_bits; i++) {
+            const bit = this.decode_bit(probs, offset + m);
+            m = (m << 1) + bit;
+            symbol |= bit << i;
+        }
+        return symbol;
+    }
+}
+
+class LengthDecoder {
+    private choice = create_probs(2);
+    private low = create_probs(1 << (NUM_POS_BITS_MAX + 3));
+    private mid = create_probs(1 << (NUM_POS_BITS_MAX + 3));
+    private high = create_probs(1 << 8);
+
+    decode(rc: RangeDecoder, pos_state: number): number {
+        if (rc.decode_bit(this.choice, 0) === 0) {
+            return rc.decode_tree(this.low, pos_state << 3, 3);
+        }
+        if (rc.decode_bit(this.choice, 1) === 0) {
+            return 8 + rc.decode_tree(this.mid, pos_state << 3, 3);
+        }
+        return 16 + rc.decode_tree(this.high, 0, 8);
+    }
+}
+
+class OutputWindow {
+    buffer: Uint8Array;
+    position = 0;
+
+    constructor(size_hint: number) {
+        this.buffer = new Uint8Array(Math.max(16, size_hint));
+    }
+
+    put(byte: number): void {
+        if (this.position >= this.buffer.length) {
+            const grown = new Uint8Array(this.buffer.length * 2);
+            grown.set(this.buffer);
+            this.buffer = grown;
+        }
+        this.buffer[this.position++] = byte;
+    }
+
+    get(distance: number): number {
+        return this.buffer[this.position - distance - 1];
+    }
+}
+
+export const decompress_lzma = (input: Uint8Array): Uint8Array => {
+    if (input.length < HEADER_SIZE) {
+        throw new Error("Lzma stream is too short");
+    }
+
+    let properties = input[0];
+    if (properties >= 9 * 5 * 5) {
+        throw new Error("Invalid lzma properties");
+    }
+
+    const lc = properties % 9;
+    properties = Math.floor(properties / 9);
+    const lp = properties % 5;
+    const pb = Math.floor(properties / 5);
+
+    // size is a little endian u64, all ones means "unknown, look for the end marker"
+    let unpack_size = 0;
+    let size_known = false;
+    for (let i = 0; i < 8; i++) {
+        const byte = input[5 + i];
+        if (byte !== 0xff) {
+            size_known = true;
+        }
+        unpack_size += byte * Math.pow(2, 8 * i);
+    }
+
+    if (!size_known) {
+        unpack_size = -1;
+    }
+
+    const output = new OutputWindow(unpack_size >= 0 ? unpack_size : input.length * 4);
+    if (unpack_size === 0) {
+        return new Uint8Array(0);
+    }
+
+    const rc = new RangeDecoder(input, HEADER_SIZE);
+    const literal_probs = create_probs(0x300 << (lc + lp));
+    const pos_slot_probs = create_probs(NUM_LEN_TO_POS_STATES << 6);
+    const pos_probs = create_probs(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX);
+    const align_probs = create_probs(1 << NUM_ALIGN_BITS);
+    const is_match = create_probs(NUM_STATES << NUM_POS_BITS_MAX);
+    const is_rep = create_probs(NUM_STATES);
+    const is_rep_g0 = create_probs(NUM_STATES);
+    const is_rep_g1 = create_probs(NUM_STATES);
+    const is_rep_g2 = create_probs(NUM_STATES);
+    const is_rep0_long = create_probs(NUM_STATES << NUM_POS_BITS_MAX);
+    const len_decoder = new LengthDecoder();
+    const rep_len_decoder = new LengthDecoder();
+
+    const pos_mask = (1 << pb) - 1;
+    const literal_pos_mask = (1 << lp) - 1;
+
+    let state = 0;
+    let rep0 = 0;
+    let rep1 = 0;
+    let rep2 = 0;
+    let rep3 = 0;
+
+    const decode_distance = (len: number): number => {
+        const len_state = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+        const pos_slot = rc.decode_tree(pos_slot_probs, len_state << 6, 6);
+        if (pos_slot < START_POS_MODEL_INDEX) {
+            return pos_slot;
+        }
+
+        const num_direct_bits = (pos_slot >>> 1) - 1;
+        let distance = (2 | (pos_slot & 1)) * Math.pow(2, num_direct_bits);
+
+        if (pos_slot < END_POS_MODEL_INDEX) {
+            distance += rc.decode_reverse_tree(pos_probs, distance - pos_slot, num_direct_bits);
+        } else {
+            distance += rc.decode_direct_bits(num_direct_bits - NUM_ALIGN_BITS) * Math.pow(2, NUM_ALIGN_BITS);
+            distance += rc.decode_reverse_tree(align_probs, 0, NUM_ALIGN_BITS);
+        }
+
+        return distance;
+    };
+
+    while (unpack_size < 0 || output.position < unpack_size) {
+        const pos_state = output.position & pos_mask;
+
+        if (rc.decode_bit(is_match, (state << NUM_POS_BITS_MAX) + pos_state) === 0) {
+            const prev_byte = output.position > 0 ? output.get(0) : 0;
+            const literal_state = ((output.position & literal_pos_mask) << lc) + (prev_byte >>> (8 - lc));
+            const base = 0x300 * literal_state;
+            let symbol = 1;
+
+            // right after a match the literal is coded relative to the byte the match would have continued with
+            if (state >= 7) {
+                let match_byte = output.get(rep0);
+                do {
+                    const match_bit = (match_byte >>> 7) & 1;
+                    match_byte <<= 1;
+                    const bit = rc.decode_bit(literal_probs, base + ((1 + match_bit) << 8) + symbol);
+                    symbol = (symbol << 1) | bit;
+                    if (match_bit !== bit) {
+                        break;
+                    }
+                } while (symbol < 0x100);
+            }
+
+            while (symbol < 0x100) {
+                symbol = (symbol << 1) | rc.decode_bit(literal_probs, base + symbol);
+            }
+
+            output.put(symbol - 0x100);
+            state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+            continue;
+        }
+
+        let len: number;
+
+        if (rc.decode_bit(is_rep, state) !== 0) {
+            if (output.position === 0) {
+                throw new Error("Corrupted lzma stream");
+            }
+
+            if (rc.decode_bit(is_rep_g0, state) === 0) {
+                if (rc.decode_bit(is_rep0_long, (state << NUM_POS_BITS_MAX) + pos_state) === 0) {
+                    // single byte repeat
+                    state = state < 7 ? 9 : 11;
+                    output.put(output.get(rep0));
+                    continue;
+                }
+            } else {
+                let distance: number;
+                if (rc.decode_bit(is_rep_g1, state) === 0) {
+                    distance = rep1;
+                } else {
+                    if (rc.decode_bit(is_rep_g2, state) === 0) {
+                        distance = rep2;
+                    } else {
+                        distance = rep3;
+                        rep3 = rep2;
+                    }
+                    rep2 = rep1;
+                }
+                rep1 = rep0;
+                rep0 = distance;
+            }
+
+            len = rep_len_decoder.decode(rc, pos_state);
+            state = state < 7 ? 8 : 11;
+        } else {
+            rep3 = rep2;
+            rep2 = rep1;
+            rep1 = rep0;
+            len = len_decoder.decode(rc, pos_state);
+            state = state < 7 ? 7 : 10;
+            rep0 = decode_distance(len);
+
+            if (rep0 === 0xffffffff) {
+                break;
+            }
+            if (rep0 >= output.position) {
+                throw new Error("Corrupted lzma stream");
+            }
+        }
+
+        len += MATCH_MIN_LEN;
+        for (let i = 0; i < len; i++) {
+            if (unpack_size >= 0 && output.position >= unpack_size) {
+                break;
+            }
+            output.put(output.get(rep0));
+        }
+    }
+
+    return output.buffer.subarray(0, output.position);
+};
@@ -0,0 +1,62 @@
+import type { Vec2 } from "../math/vector2";
+import type { IReplayFrame } from "./replay_types";
+
+// index of the last frame at or before time, -1 before the first one
+export const find_frame_index = (frames: IReplayFrame[], time: number): number => {
+    let low = 0;
+    let high = frames.length - 1;
+    let result = -1;
+
+    while (low <= high) {
+        const mid = (low + high) >>> 1;
+        if (frames[mid].time <= time) {
+            result = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return result;
+};
+
+export const get_replay_position = (frames: IReplayFrame[], time: number): Vec2 | null => {
+    if (frames.length === 0) {
+        return null;
+    }
+
+    const index = find_frame_index(frames, time);
+    if (index < 0) {
+        return [frames[0].x, frames[0].y];
+    }
+
+    const current = frames[index];
+    const next = frames[index + 1];
+    if (!next || next.time <= current.time) {
+        return [current.x, current.y];
+    }
+
+    const t = (time - current.time) / (next.time - current.time);
+    return [current.x + (next.x - current.x) * t, current.y + (next.y - current.y) * t];
+};
+
+export const get_replay_keys = (frames: IReplayFrame[], time: number): number => {
+    const index = find_frame_index(frames, time);
+    return index < 0 ? 0 : frames[index].keys;
+};
+
+// times at which any of the bits in mask went from released to pressed
+export const get_press_times = (frames: IReplayFrame[], mask: number, exclude: number = 0): number[] => {
+    const times: number[] = [];
+    let was_pressed = false;
+
+    for (const frame of frames) {
+        const pressed = (frame.keys & mask) !== 0 && (frame.keys & exclude) === 0;
+        if (pressed && !was_pressed) {
+            times.push(frame.time);
+        }
+        was_pressed = pressed;
+    }
+
+    return times;
+};
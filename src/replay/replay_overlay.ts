@@ -0,0 +1,103 @@
+import type { IRenderBackend } from "../renderer/backend/render_backend";
+import { CURSOR_TRAIL_DURATION, type CursorState, type CursorTrailPoint } from "../renderer/standard/cursor_renderer";
+import { get_press_times, get_replay_keys, get_replay_position, find_frame_index } from "./replay_frames";
+import { ReplayKeys, type IReplay } from "./replay_types";
+
+const KEY_SIZE = 38;
+const KEY_GAP = 6;
+const KEY_MARGIN = 12;
+const KEY_PRESSED_COLOR = "rgba(255,217,102,0.9)";
+const KEY_IDLE_COLOR = "rgba(0,0,0,0.45)";
+
+type KeyIndicator = {
+    label: string;
+    mask: number;
+    // M1/M2 stay lit while the keyboard key is held, stable only shows the keyboard one
+    exclude: number;
+    presses: number[];
+};
+
+const count_until = (times: number[], time: number): number => {
+    let low = 0;
+    let high = times.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (times[mid] <= time) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+};
+
+// cursor, trail and the K1/K2/M1/M2 counter for a standard replay
+export class ReplayOverlay {
+    private keys: KeyIndicator[];
+
+    constructor(private readonly replay: IReplay) {
+        const frames = replay.frames;
+        this.keys = [
+            { label: "K1", mask: ReplayKeys.K1, exclude: 0, presses: [] },
+            { label: "K2", mask: ReplayKeys.K2, exclude: 0, presses: [] },
+            { label: "M1", mask: ReplayKeys.M1, exclude: ReplayKeys.K1, presses: [] },
+            { label: "M2", mask: ReplayKeys.M2, exclude: ReplayKeys.K2, presses: [] }
+        ];
+
+        for (const key of this.keys) {
+            key.presses = get_press_times(frames, key.mask, key.exclude);
+        }
+    }
+
+    // in playfield space, null before the first frame
+    get_cursor(time: number): CursorState | null {
+        const frames = this.replay.frames;
+        const position = get_replay_position(frames, time);
+        if (!position) {
+            return null;
+        }
+
+        const trail: CursorTrailPoint[] = [];
+        const trail_start = find_frame_index(frames, time - CURSOR_TRAIL_DURATION);
+        for (let i = find_frame_index(frames, time); i > trail_start && i >= 0; i--) {
+            const frame = frames[i];
+            const alpha = 1 - Math.min(1, (time - frame.time) / CURSOR_TRAIL_DURATION);
+            if (alpha <= 0) {
+                break;
+            }
+            trail.push({ position: [frame.x, frame.y], alpha });
+        }
+
+        const keys = get_replay_keys(frames, time);
+        const pressed = (keys & (ReplayKeys.M1 | ReplayKeys.M2 | ReplayKeys.K1 | ReplayKeys.K2)) !== 0;
+        return { position, trail, pressed };
+    }
+
+    // screen space, stacked along the right edge
+    render_keys(backend: IRenderBackend, time: number, font: string = "monospace"): void {
+        const keys = get_replay_keys(this.replay.frames, time);
+        const total_height = this.keys.length * KEY_SIZE + (this.keys.length - 1) * KEY_GAP;
+        const x = backend.width - KEY_SIZE - KEY_MARGIN;
+        let y = (backend.height - total_height) / 2;
+
+        backend.save();
+        for (const key of this.keys) {
+            const pressed = (keys & key.mask) !== 0 && (keys & key.exclude) === 0;
+            const count = count_until(key.presses, time);
+
+            backend.set_alpha(1);
+            backend.draw_rect(x, y, KEY_SIZE, KEY_SIZE, pressed ? KEY_PRESSED_COLOR : KEY_IDLE_COLOR);
+            backend.draw_text(
+                count > 0 ? String(count) : key.label,
+                x + KEY_SIZE / 2,
+                y + KEY_SIZE / 2,
+                `12px ${font}`,
+                pressed ? "#000000" : "#ffffff",
+                "center",
+                "middle"
+            );
+            y += KEY_SIZE + KEY_GAP;
+        }
+        backend.restore();
+    }
+}
@@ -0,0 +1,205 @@
+import { GameMode } from "../types/beatmap";
+import { type Result, ErrorCode, ok, err } from "../types/result";
+import { decompress_lzma } from "./lzma";
+import type { IReplay, IReplayFrame, IReplayLifePoint } from "./replay_types";
+
+// .net ticks (100ns since 0001-01-01) at the unix epoch
+const EPOCH_TICKS = 621355968000000000n;
+const SEED_FRAME_TIME = -12345;
+
+class BinaryReader {
+    private view: DataView;
+    private bytes: Uint8Array;
+    private decoder = new TextDecoder();
+    position = 0;
+
+    constructor(buffer: ArrayBuffer) {
+        this.view = new DataView(buffer);
+        this.bytes = new Uint8Array(buffer);
+    }
+
+    private ensure(size: number): void {
+        if (this.position + size > this.bytes.length) {
+            throw new Error("Unexpected end of replay data");
+        }
+    }
+
+    get remaining(): number {
+        return this.bytes.length - this.position;
+    }
+
+    byte(): number {
+        this.ensure(1);
+        return this.view.getUint8(this.position++);
+    }
+
+    short(): number {
+        this.ensure(2);
+        const value = this.view.getUint16(this.position, true);
+        this.position += 2;
+        return value;
+    }
+
+    int(): number {
+        this.ensure(4);
+        const value = this.view.getInt32(this.position, true);
+        this.position += 4;
+        return value;
+    }
+
+    long(): bigint {
+        this.ensure(8);
+        const value = this.view.getBigInt64(this.position, true);
+        this.position += 8;
+        return value;
+    }
+
+    uleb128(): number {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            byte = this.byte();
+            result += (byte & 0x7f) * Math.pow(2, shift);
+            shift += 7;
+        } while (byte & 0x80);
+        return result;
+    }
+
+    // 0x00 for a missing string, 0x0b followed by a uleb128 length otherwise
+    string(): string {
+        const marker = this.byte();
+        if (marker === 0x00) {
+            return "";
+        }
+        if (marker !== 0x0b) {
+            throw new Error(`Invalid string marker 0x${marker.toString(16)}`);
+        }
+
+        const length = this.uleb128();
+        return this.decoder.decode(this.raw(length));
+    }
+
+    raw(length: number): Uint8Array {
+        this.ensure(length);
+        const data = this.bytes.subarray(this.position, this.position + length);
+        this.position += length;
+        return data;
+    }
+}
+
+const parse_life_bar = (value: string): IReplayLifePoint[] => {
+    const points: IReplayLifePoint[] = [];
+    for (const entry of value.split(",")) {
+        const [time, life] = entry.split("|");
+        const parsed_time = Number(time);
+        const parsed_life = Number(life);
+        if (entry && Number.isFinite(parsed_time) && Number.isFinite(parsed_life)) {
+            points.push({ time: parsed_time, value: parsed_life });
+        }
+    }
+    return points;
+};
+
+// frames store the time since the previous frame, the seed sits in a fake frame at the end
+export const parse_replay_frames = (data: string): { frames: IReplayFrame[]; seed: number } => {
+    const frames: IReplayFrame[] = [];
+    let seed = 0;
+    let time = 0;
+
+    for (const entry of data.split(",")) {
+        if (!entry) {
+            continue;
+        }
+
+        const parts = entry.split("|");
+        if (parts.length < 4) {
+            continue;
+        }
+
+        const delta = Number(parts[0]);
+        const x = Number(parts[1]);
+        const y = Number(parts[2]);
+        const keys = Number(parts[3]);
+        if (!Number.isFinite(delta) || !Number.isFinite(x) || !Number.isFinite(y)) {
+            continue;
+        }
+
+        if (delta === SEED_FRAME_TIME) {
+            seed = Number.isFinite(keys) ? keys : 0;
+            continue;
+        }
+
+        time += delta;
+
+        // keep lookups monotonic, stable writes the odd negative delta around skips
+        const last = frames[frames.length - 1];
+        frames.push({ time: last ? Math.max(last.time, time) : time, x, y, keys: Number.isFinite(keys) ? keys : 0 });
+    }
+
+    return { frames, seed };
+};
+
+export const parse_replay = (data: ArrayBuffer): Result<IReplay> => {
+    try {
+        const reader = new BinaryReader(data);
+        const mode = reader.byte();
+        if (mode > GameMode.Mania) {
+            return err(ErrorCode.InvalidReplay, `Unknown replay mode ${mode}`);
+        }
+
+        const game_version = reader.int();
+        const beatmap_hash = reader.string();
+        const player_name = reader.string();
+        const replay_hash = reader.string();
+
+        const count_300 = reader.short();
+        const count_100 = reader.short();
+        const count_50 = reader.short();
+        const count_geki = reader.short();
+        const count_katu = reader.short();
+        const count_miss = reader.short();
+
+        const score = reader.int();
+        const max_combo = reader.short();
+        const perfect = reader.byte() !== 0;
+        const mods = reader.int() >>> 0;
+        const life_bar = parse_life_bar(reader.string());
+        const ticks = reader.long();
+
+        const compressed_length = reader.int();
+        const compressed = reader.raw(Math.max(0, compressed_length));
+        const score_id = reader.remaining >= 8 ? Number(reader.long()) : 0;
+
+        const raw_frames = compressed.length > 0 ? new TextDecoder().decode(decompress_lzma(compressed)) : "";
+        const { frames, seed } = parse_replay_frames(raw_frames);
+
+        // mania stores the held columns in x
+        if (mode === GameMode.Mania) {
+            for (const frame of frames) {
+                frame.keys = Math.max(0, Math.trunc(frame.x));
+            }
+        }
+
+        return ok({
+            mode: mode as GameMode,
+            game_version,
+            beatmap_hash,
+            player_name,
+            replay_hash,
+            hits: { count_geki, count_300, count_katu, count_100, count_50, count_miss },
+            score,
+            max_combo,
+            perfect,
+            mods,
+            life_bar,
+            timestamp: new Date(Number((ticks - EPOCH_TICKS) / 10000n)),
+            score_id,
+            seed,
+            frames
+        });
+    } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        return err(ErrorCode.InvalidReplay, reason);
+    }
+};
@@ -0,0 +1,44 @@
+import type { GameMode } from "../types/beatmap";
+import type { IHitCounts } from "../difficulty/performance_types";
+
+// standard key bits, M1/M2 are also set while the matching keyboard key is held
+export const ReplayKeys = {
+    M1: 1 << 0,
+    M2: 1 << 1,
+    K1: 1 << 2,
+    K2: 1 << 3,
+    Smoke: 1 << 4
+} as const;
+
+export interface IReplayFrame {
+    // absolute, in beatmap time
+    time: number;
+    x: number;
+    y: number;
+    // standard: ReplayKeys bits, mania: one bit per column (copied from x)
+    keys: number;
+}
+
+export interface IReplayLifePoint {
+    time: number;
+    // 0-1
+    value: number;
+}
+
+export interface IReplay {
+    mode: GameMode;
+    game_version: number;
+    beatmap_hash: string;
+    player_name: string;
+    replay_hash: string;
+    hits: IHitCounts;
+    score: number;
+    max_combo: number;
+    perfect: boolean;
+    mods: number;
+    life_bar: IReplayLifePoint[];
+    timestamp: Date;
+    score_id: number;
+    seed: number;
+    frames: IReplayFrame[];
+}
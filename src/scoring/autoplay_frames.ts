@@ -0,0 +1,72 @@
+import type { IReplayFrame } from "../replay/replay_types";
+import { ReplayKeys } from "../replay/replay_types";
+import type { StandardHitObject } from "../difficulty/standard/standard_objects";
+import { get_path_position_at_length } from "../renderer/standard/slider_path";
+import { vec2_add, vec2_sub, type Vec2 } from "../math/vector2";
+
+const FRAME_INTERVAL = 16;
+const KEY_UP_DELAY = 50;
+const SPINNER_CENTRE: Vec2 = [256, 192];
+const SPINNER_RADIUS = 50;
+const SPINNER_RADIANS_PER_MS = 0.05;
+const SPIN_DURATION = (Math.PI * 2) / SPINNER_RADIANS_PER_MS;
+
+const get_slider_ball = (object: StandardHitObject, offset: Vec2, time: number): Vec2 => {
+    const elapsed = Math.max(0, Math.min(time - object.start_time, object.end_time - object.start_time));
+    const span = object.span_duration > 0 ? elapsed / object.span_duration : 0;
+    const span_index = Math.min(Math.floor(span), object.repeat_count);
+    const span_progress = span - span_index;
+    const progress = span_index % 2 === 1 ? 1 - span_progress : span_progress;
+    return vec2_add(get_path_position_at_length(object.path, progress * object.distance), offset);
+};
+
+// when autoplay's cursor finishes each whole turn of a spinner, for drawing one without judgements
+export const get_autoplay_spin_times = (start_time: number, end_time: number): number[] => {
+    const times: number[] = [];
+    for (let time = start_time + SPIN_DURATION; time <= end_time; time += SPIN_DURATION) {
+        times.push(time);
+    }
+    return times;
+};
+
+// input frames for a perfect play, alternating K1 and K2 like stable's autoplay
+export const create_autoplay_frames = (objects: StandardHitObject[]): IReplayFrame[] => {
+    const frames: IReplayFrame[] = [];
+    const push = (time: number, position: Vec2, keys: number) => frames.push({ time, x: position[0], y: position[1], keys });
+
+    for (let i = 0; i < objects.length; i++) {
+        const object = objects[i];
+        const next = objects[i + 1];
+        const keys = i % 2 === 0 ? ReplayKeys.M1 | ReplayKeys.K1 : ReplayKeys.M2 | ReplayKeys.K2;
+        let end_position = object.end_position;
+
+        if (object.kind === "spinner") {
+            for (let time = object.start_time; ; time = Math.min(object.end_time, time + FRAME_INTERVAL)) {
+                const angle = -(time - object.start_time) * SPINNER_RADIANS_PER_MS;
+                end_position = [SPINNER_CENTRE[0] + Math.cos(angle) * SPINNER_RADIUS, SPINNER_CENTRE[1] + Math.sin(angle) * SPINNER_RADIUS];
+                push(time, end_position, keys);
+                if (time >= object.end_time) break;
+            }
+        } else if (object.kind === "slider") {
+            const offset = object.path.length > 0 ? vec2_sub(object.position, get_path_position_at_length(object.path, 0)) : ([0, 0] as Vec2);
+            const times = object.nested.map((nested) => nested.time);
+            for (let time = object.start_time + FRAME_INTERVAL; time < object.end_time; time += FRAME_INTERVAL) {
+                times.push(time);
+            }
+            times.sort((a, b) => a - b);
+            for (const time of times) {
+                push(time, object.path.length > 0 ? get_slider_ball(object, offset, time) : object.position, keys);
+            }
+        } else {
+            push(object.start_time, object.position, keys);
+        }
+
+        // let go before the next press so it registers as a new one
+        const release_time = Math.min(object.end_time + KEY_UP_DELAY, next ? next.start_time - 1 : Infinity);
+        if (release_time > object.end_time) {
+            push(release_time, end_position, 0);
+        }
+    }
+
+    return frames.sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,79 @@
+import type { IDifficultyRange } from "../math/difficulty";
+import { HitResult, type IBreakPeriod, type JudgementKind } from "./scoring_types";
+
+const MAX_HEALTH_INCREASE = 0.05;
+// lowest health a perfect play should reach, higher hp drains harder
+export const HEALTH_TARGET_RANGE: IDifficultyRange = { min: 0.99, mid: 0.9, max: 0.4 };
+const DRAIN_SEARCH_ITERATIONS = 24;
+const MAX_DRAIN_RATE = 0.01;
+
+export const get_health_increase = (kind: JudgementKind, result: HitResult): number => {
+    const hit = result !== HitResult.Miss;
+
+    switch (kind) {
+        case "slider_head":
+        case "slider_repeat":
+            return hit ? MAX_HEALTH_INCREASE : -MAX_HEALTH_INCREASE;
+        case "slider_tick":
+            return (hit ? 0.5 : -0.5) * MAX_HEALTH_INCREASE;
+        // dropping the tail only costs the combo increase, not health
+        case "slider_tail":
+            return hit ? 0.5 * MAX_HEALTH_INCREASE : 0;
+        case "spinner_spin":
+            return 0.2 * MAX_HEALTH_INCREASE;
+        case "spinner_bonus":
+            return 0.4 * MAX_HEALTH_INCREASE;
+        default:
+            if (result === HitResult.Great) return MAX_HEALTH_INCREASE;
+            if (result === HitResult.Ok) return 0.5 * MAX_HEALTH_INCREASE;
+            if (result === HitResult.Meh) return 0.05 * MAX_HEALTH_INCREASE;
+            return -MAX_HEALTH_INCREASE;
+    }
+};
+
+// time between from and to that isn't inside a break
+export const get_drain_time = (from: number, to: number, breaks: IBreakPeriod[]): number => {
+    let duration = Math.max(0, to - from);
+    for (const period of breaks) {
+        const overlap = Math.min(to, period.end) - Math.max(from, period.start);
+        if (overlap > 0) {
+            duration -= overlap;
+        }
+    }
+    return Math.max(0, duration);
+};
+
+// the fastest drain that keeps a perfect play at or above the target, same idea as lazer's draining health processor
+export const find_drain_rate = (perfect: { time: number; increase: number }[], breaks: IBreakPeriod[], target: number): number => {
+    if (perfect.length === 0) {
+        return 0;
+    }
+
+    const lowest_health = (rate: number): number => {
+        let health = 1;
+        let lowest = 1;
+        let last_time = perfect[0].time;
+
+        for (const entry of perfect) {
+            health -= rate * get_drain_time(last_time, entry.time, breaks);
+            lowest = Math.min(lowest, health);
+            health = Math.min(1, Math.max(0, health + entry.increase));
+            last_time = entry.time;
+        }
+
+        return lowest;
+    };
+
+    let low = 0;
+    let high = MAX_DRAIN_RATE;
+    for (let i = 0; i < DRAIN_SEARCH_ITERATIONS; i++) {
+        const mid = (low + high) / 2;
+        if (lowest_health(mid) >= target) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    return low;
+};
@@ -0,0 +1,22 @@
+import { difficulty_range, HIT_WINDOW_GREAT_RANGE, HIT_WINDOW_MEH_RANGE, HIT_WINDOW_OK_RANGE } from "../math/difficulty";
+import { HitResult, type IHitWindows } from "./scoring_types";
+
+const MISS_WINDOW = 400;
+
+// half widths in ms, od should already have mods applied, rate changes don't matter since judging happens in beatmap time
+export const get_hit_windows = (od: number): IHitWindows => ({
+    great: difficulty_range(od, HIT_WINDOW_GREAT_RANGE),
+    ok: difficulty_range(od, HIT_WINDOW_OK_RANGE),
+    meh: difficulty_range(od, HIT_WINDOW_MEH_RANGE),
+    miss: MISS_WINDOW
+});
+
+// null when the press is too early to count at all
+export const get_result_for_offset = (windows: IHitWindows, offset: number): HitResult | null => {
+    const distance = Math.abs(offset);
+    if (distance <= windows.great) return HitResult.Great;
+    if (distance <= windows.ok) return HitResult.Ok;
+    if (distance <= windows.meh) return HitResult.Meh;
+    if (offset < 0 && distance <= windows.miss) return HitResult.Miss;
+    return null;
+};
@@ -0,0 +1,261 @@
+import type { StandardHitObject } from "../difficulty/standard/standard_objects";
+import type { IReplayFrame } from "../replay/replay_types";
+import { ReplayKeys } from "../replay/replay_types";
+import { find_frame_index, get_replay_keys, get_replay_position } from "../replay/replay_frames";
+import { difficulty_range, type IDifficultyRange } from "../math/difficulty";
+import { vec2_dist, type Vec2 } from "../math/vector2";
+import { get_result_for_offset } from "./hit_windows";
+import { HitResult, type IHitWindows, type IJudgement } from "./scoring_types";
+
+export type RawJudgement = Omit<IJudgement, "state">;
+
+type Press = {
+    time: number;
+    position: Vec2;
+    used: boolean;
+};
+
+// K1/K2 always come with M1/M2 set, so those two bits cover every button
+const BUTTONS = ReplayKeys.M1 | ReplayKeys.M2;
+const FOLLOW_RADIUS_SCALE = 2.4;
+// the tail is checked slightly early so fast sliders stay fair
+const TAIL_LENIENCY = 36;
+const SPINNER_CENTRE: Vec2 = [256, 192];
+const SPINNER_SPINS_PER_SECOND: IDifficultyRange = { min: 1.5, mid: 2.5, max: 3.75 };
+// about 477 rpm, anything faster is treated as input noise
+const SPINNER_MAX_RADIANS_PER_MS = 0.05;
+
+// full spins needed to clear a spinner of this length
+export const get_required_spins = (duration: number, od: number): number =>
+    Math.floor((duration / 1000) * difficulty_range(od, SPINNER_SPINS_PER_SECOND));
+
+const get_presses = (frames: IReplayFrame[]): Press[] => {
+    const presses: Press[] = [];
+    let previous = 0;
+
+    for (const frame of frames) {
+        const buttons = frame.keys & BUTTONS;
+        const pressed = buttons & ~previous;
+        // both buttons going down on the same frame still count twice
+        for (const bit of [ReplayKeys.M1, ReplayKeys.M2]) {
+            if (pressed & bit) {
+                presses.push({ time: frame.time, position: [frame.x, frame.y], used: false });
+            }
+        }
+        previous = buttons;
+    }
+
+    return presses;
+};
+
+const is_tracking = (frames: IReplayFrame[], time: number, position: Vec2, radius: number): boolean => {
+    if ((get_replay_keys(frames, time) & BUTTONS) === 0) {
+        return false;
+    }
+
+    const cursor = get_replay_position(frames, time);
+    return cursor !== null && vec2_dist(cursor, position) <= radius;
+};
+
+// slider nested results decide the slider's own result the same way stable does
+const get_slider_result = (hit: number, total: number): HitResult => {
+    if (hit === total) return HitResult.Great;
+    if (hit * 2 >= total) return HitResult.Ok;
+    if (hit > 0) return HitResult.Meh;
+    return HitResult.Miss;
+};
+
+const get_spinner_result = (progress: number): HitResult => {
+    if (progress >= 1) return HitResult.Great;
+    if (progress > 0.9) return HitResult.Ok;
+    if (progress > 0.75) return HitResult.Meh;
+    return HitResult.Miss;
+};
+
+export class JudgementSimulator {
+    private presses: Press[];
+    private first_press = 0;
+    private judgements: RawJudgement[] = [];
+
+    constructor(
+        private readonly objects: StandardHitObject[],
+        private readonly frames: IReplayFrame[],
+        private readonly windows: IHitWindows,
+        private readonly od: number
+    ) {
+        this.presses = get_presses(frames);
+    }
+
+    // every judgement of the play, sorted by time
+    run(): RawJudgement[] {
+        this.judgements = [];
+        this.first_press = 0;
+
+        for (let i = 0; i < this.objects.length; i++) {
+            const object = this.objects[i];
+            if (object.kind === "spinner") {
+                this.judge_spinner(object, i);
+            } else if (object.kind === "slider") {
+                this.judge_slider(object, i);
+            } else {
+                const { result, offset } = this.judge_head(object);
+                this.judgements.push({
+                    kind: "circle",
+                    result,
+                    time: object.start_time + (offset ?? this.windows.meh),
+                    object_index: i,
+                    object_time: object.start_time,
+                    position: object.position,
+                    offset
+                });
+            }
+        }
+
+        // sort is stable, so nested results keep their order within an object
+        return this.judgements.sort((a, b) => a.time - b.time);
+    }
+
+    // the first unused press inside the circle and the hit window, misses once the window has passed
+    private judge_head(object: StandardHitObject): { result: HitResult; offset: number | null } {
+        const earliest = object.start_time - this.windows.miss;
+        const latest = object.start_time + this.windows.meh;
+
+        while (this.first_press < this.presses.length && this.presses[this.first_press].time < earliest) {
+            this.first_press++;
+        }
+
+        for (let i = this.first_press; i < this.presses.length; i++) {
+            const press = this.presses[i];
+            if (press.time > latest) {
+                break;
+            }
+            if (press.used || vec2_dist(press.position, object.position) > object.radius) {
+                continue;
+            }
+
+            const offset = press.time - object.start_time;
+            const result = get_result_for_offset(this.windows, offset);
+            if (result === null) {
+                continue;
+            }
+
+            press.used = true;
+            return { result, offset };
+        }
+
+        return { result: HitResult.Miss, offset: null };
+    }
+
+    private judge_slider(object: StandardHitObject, index: number): void {
+        const head = this.judge_head(object);
+        const head_hit = head.result !== HitResult.Miss;
+        const follow_radius = object.radius * FOLLOW_RADIUS_SCALE;
+        let hit = head_hit ? 1 : 0;
+
+        this.judgements.push({
+            kind: "slider_head",
+            result: head_hit ? HitResult.Great : HitResult.Miss,
+            time: object.start_time + (head.offset ?? this.windows.meh),
+            object_index: index,
+            object_time: object.start_time,
+            position: object.position,
+            offset: head.offset
+        });
+
+        for (const nested of object.nested) {
+            if (nested.kind === "head") {
+                continue;
+            }
+
+            const check_time = nested.kind === "tail" ? Math.max(object.start_time, nested.time - TAIL_LENIENCY) : nested.time;
+            const tracked = is_tracking(this.frames, check_time, nested.position, follow_radius);
+            if (tracked) {
+                hit++;
+            }
+
+            this.judgements.push({
+                kind: nested.kind === "tick" ? "slider_tick" : nested.kind === "repeat" ? "slider_repeat" : "slider_tail",
+                result: tracked ? HitResult.Great : HitResult.Miss,
+                time: nested.time,
+                object_index: index,
+                object_time: object.start_time,
+                position: nested.position,
+                offset: null
+            });
+        }
+
+        this.judgements.push({
+            kind: "slider",
+            result: get_slider_result(hit, object.nested.length),
+            time: object.end_time,
+            object_index: index,
+            object_time: object.start_time,
+            position: object.end_position,
+            offset: null
+        });
+    }
+
+    private judge_spinner(object: StandardHitObject, index: number): void {
+        const duration = object.end_time - object.start_time;
+        const required = get_required_spins(duration, this.od);
+        const frames = this.frames;
+
+        let rotation = 0;
+        let spins = 0;
+        let last_angle: number | null = null;
+        let last_time = object.start_time;
+
+        for (let i = Math.max(0, find_frame_index(frames, object.start_time)); i < frames.length; i++) {
+            const frame = frames[i];
+            if (frame.time > object.end_time) {
+                break;
+            }
+            if (frame.time < object.start_time) {
+                continue;
+            }
+
+            if ((frame.keys & BUTTONS) === 0) {
+                last_angle = null;
+                last_time = frame.time;
+                continue;
+            }
+
+            const angle = Math.atan2(frame.y - SPINNER_CENTRE[1], frame.x - SPINNER_CENTRE[0]);
+            if (last_angle !== null) {
+                let delta = angle - last_angle;
+                if (delta > Math.PI) delta -= Math.PI * 2;
+                if (delta < -Math.PI) delta += Math.PI * 2;
+
+                const limit = Math.max(0, frame.time - last_time) * SPINNER_MAX_RADIANS_PER_MS;
+                rotation += Math.max(-limit, Math.min(limit, delta));
+            }
+            last_angle = angle;
+            last_time = frame.time;
+
+            // direction changes are allowed, only the net rotation counts
+            while (Math.abs(rotation) >= (spins + 1) * Math.PI * 2) {
+                spins++;
+                this.judgements.push({
+                    kind: spins > required ? "spinner_bonus" : "spinner_spin",
+                    result: HitResult.Great,
+                    time: frame.time,
+                    object_index: index,
+                    object_time: object.start_time,
+                    position: SPINNER_CENTRE,
+                    offset: null
+                });
+            }
+        }
+
+        const progress = required > 0 ? Math.abs(rotation) / (Math.PI * 2 * required) : 1;
+        this.judgements.push({
+            kind: "spinner",
+            result: get_spinner_result(progress),
+            time: object.end_time,
+            object_index: index,
+            object_time: object.start_time,
+            position: SPINNER_CENTRE,
+            offset: null
+        });
+    }
+}
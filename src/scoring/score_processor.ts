@@ -0,0 +1,203 @@
+import { Mods } from "../types/mods";
+import { create_hit_counts } from "../difficulty/performance_types";
+import { get_standard_accuracy } from "../difficulty/standard/standard_performance";
+import { get_drain_time, get_health_increase } from "./health";
+import type { RawJudgement } from "./judgement_simulator";
+import { HitResult, type IBreakPeriod, type IHealthPoint, type IJudgement, type IScoreState, type JudgementKind } from "./scoring_types";
+
+export interface IScoreContext {
+    mods: number;
+    // stable's difficulty points, from the unmodded hp/cs/od and note density
+    difficulty_multiplier: number;
+    drain_rate: number;
+    breaks: IBreakPeriod[];
+    // drain only starts with the first object
+    start_time: number;
+}
+
+const V1_MOD_MULTIPLIERS: [number, number][] = [
+    [Mods.NoFail, 0.5],
+    [Mods.Easy, 0.5],
+    [Mods.HalfTime, 0.3],
+    [Mods.Hidden, 1.06],
+    [Mods.HardRock, 1.06],
+    [Mods.DoubleTime | Mods.Nightcore, 1.12],
+    [Mods.Flashlight, 1.12],
+    [Mods.SpunOut, 0.9],
+    [Mods.Relax | Mods.Autopilot, 0]
+];
+
+const V2_MOD_MULTIPLIERS: [number, number][] = [
+    [Mods.Easy, 0.5],
+    [Mods.HalfTime, 0.3],
+    [Mods.Hidden, 1.06],
+    [Mods.HardRock, 1.1],
+    [Mods.DoubleTime | Mods.Nightcore, 1.2],
+    [Mods.Flashlight, 1.12],
+    [Mods.SpunOut, 0.9],
+    [Mods.Relax | Mods.Autopilot, 0]
+];
+
+const NESTED_SCORE: Partial<Record<JudgementKind, number>> = {
+    slider_head: 30,
+    slider_repeat: 30,
+    slider_tail: 30,
+    slider_tick: 10,
+    spinner_spin: 100,
+    spinner_bonus: 1000
+};
+
+const V2_COMBO_PORTION = 700000;
+const V2_ACCURACY_PORTION = 300000;
+
+export const get_mod_multiplier = (mods: number, score_v2: boolean = false): number => {
+    let multiplier = 1;
+    for (const [mask, value] of score_v2 ? V2_MOD_MULTIPLIERS : V1_MOD_MULTIPLIERS) {
+        if (mods & mask) {
+            multiplier *= value;
+        }
+    }
+    return multiplier;
+};
+
+// results that land in the hit counts and accuracy
+const is_main_judgement = (kind: JudgementKind): boolean => kind === "circle" || kind === "note" || kind === "slider" || kind === "spinner";
+
+// the slider's own result only sums up its nested ones, the combo already moved with those
+const increases_combo = (kind: JudgementKind): boolean => kind !== "slider" && kind !== "spinner_spin" && kind !== "spinner_bonus";
+
+const breaks_combo = (kind: JudgementKind): boolean => increases_combo(kind) && kind !== "slider_tail";
+
+const get_combo_portion = (result: HitResult, combo: number): number => result * (1 + combo / 10);
+
+export class ScoreProcessor {
+    private score = 0;
+    private bonus = 0;
+    private combo = 0;
+    private max_combo = 0;
+    private health = 1;
+    private last_time: number;
+    private hits = create_hit_counts();
+    private judged = 0;
+    private combo_portion = 0;
+    private max_combo_portion = 0;
+    private main_count = 0;
+    private v1_multiplier: number;
+    private v2_multiplier: number;
+    readonly health_points: IHealthPoint[] = [];
+
+    constructor(
+        private readonly context: IScoreContext,
+        judgements: RawJudgement[]
+    ) {
+        this.last_time = context.start_time;
+        this.v1_multiplier = get_mod_multiplier(context.mods);
+        this.v2_multiplier = get_mod_multiplier(context.mods, true);
+        this.health_points.push({ time: context.start_time, value: 1 });
+
+        // what a full combo on the same judgements would reach, score v2 is relative to it
+        let combo = 0;
+        for (const judgement of judgements) {
+            if (increases_combo(judgement.kind)) {
+                combo++;
+            }
+            if (is_main_judgement(judgement.kind)) {
+                this.max_combo_portion += get_combo_portion(HitResult.Great, combo);
+                this.main_count++;
+            }
+        }
+    }
+
+    get state(): IScoreState {
+        const accuracy = this.judged > 0 ? get_standard_accuracy(this.hits) : 1;
+        const combo_ratio = this.max_combo_portion > 0 ? this.combo_portion / this.max_combo_portion : 1;
+        const judged_ratio = this.main_count > 0 ? this.judged / this.main_count : 1;
+        const score_v2 = (V2_COMBO_PORTION * combo_ratio + V2_ACCURACY_PORTION * Math.pow(accuracy, 10) * judged_ratio) * this.v2_multiplier;
+
+        return {
+            score: this.score + this.bonus,
+            score_v2: Math.round(score_v2) + this.bonus,
+            combo: this.combo,
+            max_combo: this.max_combo,
+            accuracy,
+            health: this.health,
+            hits: { ...this.hits }
+        };
+    }
+
+    apply(judgement: RawJudgement): IJudgement {
+        const { kind, result, time } = judgement;
+        const hit = result !== HitResult.Miss;
+
+        this.drain(time);
+
+        if (hit && increases_combo(kind)) {
+            this.combo++;
+            this.max_combo = Math.max(this.max_combo, this.combo);
+        } else if (!hit && breaks_combo(kind)) {
+            this.combo = 0;
+        }
+
+        if (is_main_judgement(kind)) {
+            this.judged++;
+            this.count_hit(result);
+            if (hit) {
+                const combo_bonus = (Math.max(0, this.combo - 1) * result * this.context.difficulty_multiplier * this.v1_multiplier) / 25;
+                this.score += result + Math.floor(combo_bonus);
+                this.combo_portion += get_combo_portion(result, this.combo);
+            }
+        } else if (hit) {
+            const value = NESTED_SCORE[kind] ?? 0;
+            if (kind === "spinner_bonus") {
+                this.bonus += value;
+            } else {
+                this.score += value;
+            }
+        }
+
+        this.health = Math.min(1, Math.max(0, this.health + get_health_increase(kind, result)));
+        this.health_points.push({ time, value: this.health });
+
+        return { ...judgement, state: this.state };
+    }
+
+    private count_hit(result: HitResult): void {
+        switch (result) {
+            case HitResult.Great:
+                this.hits.count_300++;
+                break;
+            case HitResult.Ok:
+                this.hits.count_100++;
+                break;
+            case HitResult.Meh:
+                this.hits.count_50++;
+                break;
+            default:
+                this.hits.count_miss++;
+                break;
+        }
+    }
+
+    // break edges get their own points so the curve stays flat inside them
+    private drain(time: number): void {
+        if (time <= this.last_time) {
+            return;
+        }
+
+        let from = this.last_time;
+        for (const period of this.context.breaks) {
+            if (period.end <= from || period.start >= time) {
+                continue;
+            }
+
+            this.health = Math.max(0, this.health - this.context.drain_rate * get_drain_time(from, period.start, []));
+            this.health_points.push({ time: Math.max(from, period.start), value: this.health });
+            from = Math.min(time, period.end);
+            this.health_points.push({ time: from, value: this.health });
+        }
+
+        this.health = Math.max(0, this.health - this.context.drain_rate * get_drain_time(from, time, []));
+        this.health_points.push({ time, value: this.health });
+        this.last_time = time;
+    }
+}
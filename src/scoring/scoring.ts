@@ -0,0 +1,148 @@
+import type { IBeatmap } from "../types/beatmap";
+import { GameMode } from "../types/beatmap";
+import { type Result, ok } from "../types/result";
+import { difficulty_range } from "../math/difficulty";
+import { clamp, type Vec2 } from "../math/vector2";
+import { get_adjusted_difficulty, get_rate_multiplier, type MirrorAxis } from "../mods";
+import { build_standard_objects } from "../difficulty/standard/standard_objects";
+import type { IReplayFrame } from "../replay/replay_types";
+import { create_hit_counts } from "../difficulty/performance_types";
+import { create_autoplay_frames } from "./autoplay_frames";
+import { JudgementSimulator, type RawJudgement } from "./judgement_simulator";
+import { ScoreProcessor } from "./score_processor";
+import { get_hit_windows } from "./hit_windows";
+import { get_break_periods } from "../beatmap/breaks";
+import { find_drain_rate, get_drain_time, get_health_increase, HEALTH_TARGET_RANGE } from "./health";
+import { HitResult, type IBreakPeriod, type IScoreSimulation, type IScoreState } from "./scoring_types";
+
+export interface IScoreOptions {
+    beatmap: IBeatmap;
+    mods?: number;
+    // replay frames in beatmap time, autoplay when missing, only standard reads them
+    frames?: IReplayFrame[] | null;
+    mirror_axis?: MirrorAxis;
+}
+
+type TimedObject = {
+    start_time: number;
+    end_time: number;
+};
+
+const PLAYFIELD_CENTRE: Vec2 = [256, 192];
+
+// stable's difficulty points, always from the unmodded stats
+const get_difficulty_multiplier = (beatmap: IBeatmap, objects: TimedObject[], breaks: IBreakPeriod[]): number => {
+    const { HPDrainRate, CircleSize, OverallDifficulty } = beatmap.Difficulty;
+    if (objects.length === 0) {
+        return Math.round(((HPDrainRate + CircleSize + OverallDifficulty) / 38) * 5);
+    }
+
+    const first = objects[0].start_time;
+    const last = objects.reduce((end, object) => Math.max(end, object.end_time), first);
+    const drain_seconds = Math.max(1, get_drain_time(first, last, breaks) / 1000);
+    const density = clamp((objects.length / drain_seconds) * 8, 0, 16);
+
+    return Math.round(((HPDrainRate + CircleSize + OverallDifficulty + density) / 38) * 5);
+};
+
+const get_timed_objects = (beatmap: IBeatmap): TimedObject[] =>
+    beatmap.HitObjects.map((object) => ({ start_time: object.time, end_time: Math.max(object.time, object.endTime || 0) })).sort(
+        (a, b) => a.start_time - b.start_time
+    );
+
+// the other modes have no input simulation yet, so every object is a 300 once it ends
+const get_perfect_judgements = (objects: TimedObject[]): RawJudgement[] =>
+    objects
+        .map((object, object_index): RawJudgement => ({
+            kind: "note",
+            result: HitResult.Great,
+            time: object.end_time,
+            object_index,
+            object_time: object.start_time,
+            position: PLAYFIELD_CENTRE,
+            offset: 0
+        }))
+        .sort((a, b) => a.time - b.time);
+
+export const simulate_score = (options: IScoreOptions): Result<IScoreSimulation> => {
+    const { beatmap } = options;
+    const mods = options.mods ?? 0;
+
+    const source = beatmap.Difficulty;
+    const source_ar = source.ApproachRate >= 0 ? source.ApproachRate : source.OverallDifficulty;
+    const difficulty = get_adjusted_difficulty(source.CircleSize, source_ar, source.OverallDifficulty, source.HPDrainRate, mods);
+    const hit_windows = get_hit_windows(difficulty.od);
+    const breaks = get_break_periods(beatmap);
+
+    let objects: TimedObject[];
+    let raw: RawJudgement[];
+    if (beatmap.General.Mode === GameMode.Standard) {
+        const standard_objects = build_standard_objects(beatmap, mods, difficulty, get_rate_multiplier(mods), options.mirror_axis);
+        const frames = options.frames ?? create_autoplay_frames(standard_objects);
+        objects = standard_objects;
+        raw = new JudgementSimulator(standard_objects, frames, hit_windows, difficulty.od).run();
+    } else {
+        objects = get_timed_objects(beatmap);
+        raw = get_perfect_judgements(objects);
+    }
+
+    // nested objects use Great for a hit too, so a perfect play is Great everywhere
+    const perfect = raw.map((judgement) => ({ time: judgement.time, increase: get_health_increase(judgement.kind, HitResult.Great) }));
+    const drain_rate = find_drain_rate(perfect, breaks, difficulty_range(difficulty.hp, HEALTH_TARGET_RANGE));
+
+    const processor = new ScoreProcessor(
+        {
+            mods,
+            difficulty_multiplier: get_difficulty_multiplier(beatmap, objects, breaks),
+            drain_rate,
+            breaks,
+            start_time: raw.length > 0 ? raw[0].time : 0
+        },
+        raw
+    );
+    const judgements = raw.map((judgement) => processor.apply(judgement));
+
+    return ok({
+        judgements,
+        health: processor.health_points,
+        hit_windows,
+        breaks,
+        drain_rate,
+        final: processor.state
+    });
+};
+
+// index of the last judgement at or before time, -1 before the first one
+export const find_judgement_index = (simulation: IScoreSimulation, time: number): number => {
+    const { judgements } = simulation;
+    let low = 0;
+    let high = judgements.length - 1;
+    let result = -1;
+
+    while (low <= high) {
+        const mid = (low + high) >>> 1;
+        if (judgements[mid].time <= time) {
+            result = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return result;
+};
+
+// the state at time, with health drained since the last judgement
+export const get_score_state_at = (simulation: IScoreSimulation, time: number): IScoreState => {
+    const index = find_judgement_index(simulation, time);
+    if (index < 0) {
+        return { score: 0, score_v2: 0, combo: 0, max_combo: 0, accuracy: 1, health: 1, hits: create_hit_counts() };
+    }
+
+    const judgement = simulation.judgements[index];
+    const next = simulation.judgements[index + 1];
+    // nothing drains once the last object is done
+    const drained = next ? simulation.drain_rate * get_drain_time(judgement.time, Math.min(time, next.time), simulation.breaks) : 0;
+
+    return { ...judgement.state, health: Math.max(0, judgement.state.health - drained) };
+};
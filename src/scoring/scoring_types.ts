@@ -0,0 +1,66 @@
+import type { Vec2 } from "../math/vector2";
+import type { IHitCounts } from "../difficulty/performance_types";
+import type { IBreakPeriod } from "../beatmap/breaks";
+
+// values double as the stable score values, nested objects only use Great and Miss
+export enum HitResult {
+    Miss = 0,
+    Meh = 50,
+    Ok = 100,
+    Great = 300
+}
+
+// note is a whole taiko, catch or mania object
+export type JudgementKind =
+    "circle" | "note" | "slider" | "slider_head" | "slider_tick" | "slider_repeat" | "slider_tail" | "spinner" | "spinner_spin" | "spinner_bonus";
+
+export interface IScoreState {
+    score: number;
+    score_v2: number;
+    combo: number;
+    max_combo: number;
+    // 0-1, 1 before anything was judged
+    accuracy: number;
+    // 0-1
+    health: number;
+    hits: IHitCounts;
+}
+
+export interface IJudgement {
+    kind: JudgementKind;
+    result: HitResult;
+    time: number;
+    // index into the beatmap's hit objects sorted by time
+    object_index: number;
+    object_time: number;
+    position: Vec2;
+    // press time minus object time, only set for circles and slider heads that were pressed
+    offset: number | null;
+    // the state right after this judgement was applied
+    state: IScoreState;
+}
+
+export interface IHealthPoint {
+    time: number;
+    value: number;
+}
+
+export type { IBreakPeriod };
+
+export interface IHitWindows {
+    great: number;
+    ok: number;
+    meh: number;
+    // presses earlier than meh but within this still count, as a miss
+    miss: number;
+}
+
+export interface IScoreSimulation {
+    judgements: IJudgement[];
+    health: IHealthPoint[];
+    hit_windows: IHitWindows;
+    breaks: IBreakPeriod[];
+    // per ms, paused during breaks
+    drain_rate: number;
+    final: IScoreState;
+}
@@ -1,3 +1,26 @@
+import type { IBeatmap } from "../types/beatmap";
+
+// one skin.ini [Mania] block, positions and sizes are in stable's 480 pixel tall space
+export interface IManiaSkinConfig {
+    keys: number;
+    // left edge of the stage on a 640x480 screen, centred when missing
+    column_start?: number;
+    column_width?: number[];
+    column_line_width?: number[];
+    column_spacing?: number[];
+    hit_position?: number;
+    judgement_line?: boolean;
+    // the stage scrolls up unless the player picked a direction
+    upside_down?: boolean;
+    special_style?: number;
+    // 0 stretches hold bodies, 1 and 2 repeat them from the top or the bottom
+    note_body_style?: number;
+    // lowercased ini key (colour1, colourcolumnline...) to css colour
+    colours: Record<string, string>;
+    // lowercased ini key (noteimage0h, keyimage1d, stageleft...) to a skin file path without extension
+    images: Record<string, string>;
+}
+
 export interface ISkinConfig {
     legacy_version: number;
     combo_colors: string[];
@@ -8,6 +31,10 @@ export interface ISkinConfig {
     hit_circle_overlay_above_number: boolean;
     hit_circle_prefix: string;
     hit_circle_overlap: number;
+    score_prefix: string;
+    score_overlap: number;
+    combo_prefix: string;
+    combo_overlap: number;
 
     // approach circle
     enable_approach_circle: boolean;
@@ -68,6 +95,7 @@ export interface ISkinConfig {
     mania_hit_position: number;
     mania_lane_spacing: number;
     mania_lane_colors: Record<number, string[]>;
+    mania_configs: Record<number, IManiaSkinConfig>;
 
     // general
     default_font?: string;
@@ -101,6 +129,10 @@ export const DEFAULT_SKIN: ISkinConfig = {
     hit_circle_overlay_above_number: true,
     hit_circle_prefix: "default",
     hit_circle_overlap: -2,
+    score_prefix: "score",
+    score_overlap: 0,
+    combo_prefix: "score",
+    combo_overlap: 0,
 
     enable_approach_circle: true,
     approach_circle_width: 0.1,
@@ -149,6 +181,7 @@ export const DEFAULT_SKIN: ISkinConfig = {
     mania_hit_position: 364,
     mania_lane_spacing: 1,
     mania_lane_colors: MANIA_KEY_COLORS,
+    mania_configs: {},
 
     default_font: '"Trebuchet MS", Verdana, Arial, sans-serif',
     hit_animation_duration: 240,
@@ -168,6 +201,31 @@ export const merge_skin = (partial?: Partial<ISkinConfig>): ISkinConfig => {
     };
 };
 
+const to_rgb = ([r, g, b]: [number, number, number]): string => `rgb(${r}, ${g}, ${b})`;
+
+// the beatmap's [Colours] win over the skin's, like stable unless beatmap skins are ignored
+export const apply_beatmap_colours = (skin: ISkinConfig, colours: IBeatmap["Colours"] | undefined): ISkinConfig => {
+    if (!colours) {
+        return skin;
+    }
+
+    const result = { ...skin };
+    if (colours.Combos?.length > 0) {
+        result.combo_colors = colours.Combos.map(to_rgb);
+    }
+    if (colours.SliderTrackOverride) {
+        result.slider_track_override = to_rgb(colours.SliderTrackOverride);
+    }
+    if (colours.SliderBorder) {
+        result.slider_border_color = to_rgb(colours.SliderBorder);
+    }
+    return result;
+};
+
+// the skin a beatmap is drawn with, ignoring beatmap colours keeps the skin's like stable's "ignore beatmap skins"
+export const get_beatmap_skin = (skin: ISkinConfig, beatmap: IBeatmap, ignore_beatmap_colours: boolean): ISkinConfig =>
+    ignore_beatmap_colours ? skin : apply_beatmap_colours(skin, beatmap.Colours);
+
 export const get_combo_color = (skin: ISkinConfig, combo_number: number, alpha: number = 1): string => {
     const color = skin.combo_colors[combo_number % skin.combo_colors.length];
     return to_rgba_with_alpha(color, alpha);
@@ -178,6 +236,10 @@ export const get_mania_lane_color = (skin: ISkinConfig, key_count: number, lane:
     return colors[lane % colors.length] ?? "#ffffff";
 };
 
+export const get_mania_skin_config = (skin: ISkinConfig, key_count: number): IManiaSkinConfig | null => {
+    return skin.mania_configs?.[key_count] ?? null;
+};
+
 const to_rgba_with_alpha = (color: string, alpha: number): string => {
     const normalized = color.trim();
 
@@ -23,10 +23,46 @@ export type StandardSkinElements = {
     combo_overlap?: number;
     followpoint?: RenderImage;
     followpoint_frames?: RenderImage[];
+    cursor?: RenderImage;
+    cursortrail?: RenderImage;
+    cursormiddle?: RenderImage;
+    score_font?: SkinFont;
+    combo_font?: SkinFont;
+    hit300?: RenderImage;
+    hit100?: RenderImage;
+    hit50?: RenderImage;
+    hit0?: RenderImage;
+    scorebar_bg?: RenderImage;
+    scorebar_colour?: RenderImage;
+    spinner_circle?: RenderImage;
+    spinner_background?: RenderImage;
+    spinner_approachcircle?: RenderImage;
+    spinner_top?: RenderImage;
+    spinner_bottom?: RenderImage;
+    spinner_middle?: RenderImage;
+    spinner_middle2?: RenderImage;
+    spinner_glow?: RenderImage;
+    spinner_rpm?: RenderImage;
+    spinner_clear?: RenderImage;
+    spinner_spin?: RenderImage;
+    play_warningarrow?: RenderImage;
+    section_pass?: RenderImage;
+    section_fail?: RenderImage;
+    ready?: RenderImage;
+    count3?: RenderImage;
+    count2?: RenderImage;
+    count1?: RenderImage;
+    go?: RenderImage;
     mania_textures?: Record<string, RenderImage>;
     mania_animations?: Record<string, RenderImage[]>;
 };
 
+// digits plus whichever of , . % x the skin has, keyed by character
+export type SkinFont = {
+    glyphs: Record<string, RenderImage>;
+    overlap: number;
+};
+
 export type LoadedBeatmapSkin = {
     config: ISkinConfig;
     elements: StandardSkinElements;
@@ -190,6 +226,37 @@ const load_number_frames = async (files: Map<string, ArrayBuffer>, prefix: strin
     return frames;
 };
 
+const FONT_SYMBOLS: [string, string][] = [
+    [",", "comma"],
+    [".", "dot"],
+    ["%", "percent"],
+    ["x", "x"]
+];
+
+// null unless all ten digits exist
+const load_skin_font = async (files: Map<string, ArrayBuffer>, prefix: string, overlap: number, urls: string[]): Promise<SkinFont | null> => {
+    const digits = await load_number_frames(files, prefix);
+    if (digits.length === 0) {
+        return null;
+    }
+
+    const glyphs: Record<string, RenderImage> = {};
+    for (let i = 0; i < digits.length; i++) {
+        glyphs[String(i)] = digits[i].image;
+        urls.push(digits[i].url);
+    }
+
+    for (const [char, name] of FONT_SYMBOLS) {
+        const symbol = await load_optional_image(files, [`${prefix}-${name}@2x`, `${prefix}-${name}`]);
+        if (symbol) {
+            glyphs[char] = symbol.image;
+            urls.push(symbol.url);
+        }
+    }
+
+    return { glyphs, overlap };
+};
+
 const load_optional_sequence = async (files: Map<string, ArrayBuffer>, names: string[]): Promise<LoadedImage[]> => {
     for (let i = 0; i < names.length; i++) {
         const base = names[i];
@@ -388,6 +455,84 @@ export const load_beatmap_skin = async (base_config: ISkinConfig, files: Map<str
         }
     }
 
+    const cursor = await load_optional_image(files, ["cursor@2x", "cursor"]);
+    if (cursor) {
+        elements.cursor = cursor.image;
+        urls.push(cursor.url);
+    }
+
+    const cursortrail = await load_optional_image(files, ["cursortrail@2x", "cursortrail"]);
+    if (cursortrail) {
+        elements.cursortrail = cursortrail.image;
+        urls.push(cursortrail.url);
+    }
+
+    const cursormiddle = await load_optional_image(files, ["cursormiddle@2x", "cursormiddle"]);
+    if (cursormiddle) {
+        elements.cursormiddle = cursormiddle.image;
+        urls.push(cursormiddle.url);
+    }
+
+    const score_font = await load_skin_font(files, config.score_prefix || "score", config.score_overlap, urls);
+    if (score_font) {
+        elements.score_font = score_font;
+    }
+
+    const combo_font = await load_skin_font(files, config.combo_prefix || "score", config.combo_overlap, urls);
+    if (combo_font) {
+        elements.combo_font = combo_font;
+    }
+
+    for (const name of ["hit300", "hit100", "hit50", "hit0"] as const) {
+        const judgement = await load_optional_image(files, [`${name}@2x`, name, `${name}-0@2x`, `${name}-0`]);
+        if (judgement) {
+            elements[name] = judgement.image;
+            urls.push(judgement.url);
+        }
+    }
+
+    const scorebar_bg = await load_optional_image(files, ["scorebar-bg@2x", "scorebar-bg"]);
+    if (scorebar_bg) {
+        elements.scorebar_bg = scorebar_bg.image;
+        urls.push(scorebar_bg.url);
+    }
+
+    const scorebar_colour = await load_optional_image(files, ["scorebar-colour@2x", "scorebar-colour", "scorebar-colour-0@2x", "scorebar-colour-0"]);
+    if (scorebar_colour) {
+        elements.scorebar_colour = scorebar_colour.image;
+        urls.push(scorebar_colour.url);
+    }
+
+    const single_images = {
+        spinner_circle: "spinner-circle",
+        spinner_background: "spinner-background",
+        spinner_approachcircle: "spinner-approachcircle",
+        spinner_top: "spinner-top",
+        spinner_bottom: "spinner-bottom",
+        spinner_middle: "spinner-middle",
+        spinner_middle2: "spinner-middle2",
+        spinner_glow: "spinner-glow",
+        spinner_rpm: "spinner-rpm",
+        spinner_clear: "spinner-clear",
+        spinner_spin: "spinner-spin",
+        play_warningarrow: "play-warningarrow",
+        section_pass: "section-pass",
+        section_fail: "section-fail",
+        ready: "ready",
+        count3: "count3",
+        count2: "count2",
+        count1: "count1",
+        go: "go"
+    } as const;
+
+    for (const [key, name] of Object.entries(single_images) as [keyof typeof single_images, string][]) {
+        const image = await load_optional_image(files, [`${name}@2x`, name]);
+        if (image) {
+            elements[key] = image.image;
+            urls.push(image.url);
+        }
+    }
+
     const combo_digits = await load_number_frames(files, config.hit_circle_prefix || "default");
     if (combo_digits.length > 0) {
         const digits: RenderImage[] = [];
@@ -428,9 +573,22 @@ export const load_beatmap_skin = async (base_config: ISkinConfig, files: Map<str
     const mania_textures: Record<string, RenderImage> = {};
     const mania_animations: Record<string, RenderImage[]> = {};
 
+    // images named by the skin.ini [Mania] blocks are stored under their lowercased path
+    for (const mania of Object.values(config.mania_configs)) {
+        for (const path of Object.values(mania.images)) {
+            if (!mania_names.includes(path)) {
+                mania_names.push(path);
+            }
+        }
+    }
+
     for (let i = 0; i < mania_names.length; i++) {
         const name = mania_names[i];
         const key = name.toLowerCase();
+        if (mania_textures[key]) {
+            continue;
+        }
+
         const image = await load_optional_image(files, [`${name}@2x`, name]);
         if (image) {
             mania_textures[key] = image.image;
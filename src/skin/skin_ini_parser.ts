@@ -1,4 +1,4 @@
-import type { ISkinConfig } from "./skin_config";
+import type { IManiaSkinConfig, ISkinConfig } from "./skin_config";
 
 export interface SkinIniData {
     general: {
@@ -14,6 +14,10 @@ export interface SkinIniData {
     fonts: {
         hit_circle_prefix?: string;
         hit_circle_overlap?: number;
+        score_prefix?: string;
+        score_overlap?: number;
+        combo_prefix?: string;
+        combo_overlap?: number;
     };
     colours: {
         combo_colors: string[];
@@ -22,6 +26,8 @@ export interface SkinIniData {
         slider_ball?: string;
         spinner_background?: string;
     };
+    // [Mania] blocks keyed by their Keys value
+    mania: Record<number, IManiaSkinConfig>;
 }
 
 const DEFAULT_COMBO_COLORS = ["rgb(255, 192, 0)", "rgb(0, 202, 0)", "rgb(18, 124, 255)", "rgb(242, 24, 57)"];
@@ -42,10 +48,13 @@ export const parse_skin_ini = (content: string): SkinIniData => {
         fonts: {},
         colours: {
             combo_colors: []
-        }
+        },
+        mania: {}
     };
 
     let current_section = "";
+    let current_mania: IManiaSkinConfig | null = null;
+    const mania_blocks: IManiaSkinConfig[] = [];
     const lines = content.split(/\r?\n/);
 
     for (const raw_line of lines) {
@@ -55,6 +64,11 @@ export const parse_skin_ini = (content: string): SkinIniData => {
         // section header
         if (line.startsWith("[") && line.endsWith("]")) {
             current_section = line.slice(1, -1).toLowerCase();
+            current_mania = null;
+            if (current_section === "mania") {
+                current_mania = { keys: 0, colours: {}, images: {} };
+                mania_blocks.push(current_mania);
+            }
             continue;
         }
 
@@ -75,6 +89,18 @@ export const parse_skin_ini = (content: string): SkinIniData => {
             case "fonts":
                 parse_fonts(result.fonts, key, value);
                 break;
+            case "mania":
+                if (current_mania) {
+                    parse_mania(current_mania, key, value);
+                }
+                break;
+        }
+    }
+
+    // like stable, the first block for a key count wins
+    for (const block of mania_blocks) {
+        if (block.keys > 0 && !result.mania[block.keys]) {
+            result.mania[block.keys] = block;
         }
     }
 
@@ -100,6 +126,30 @@ const parse_fonts = (fonts: SkinIniData["fonts"], key: string, value: string): v
             }
             break;
         }
+        case "scoreprefix":
+            if (value.length > 0) {
+                fonts.score_prefix = value.trim();
+            }
+            break;
+        case "scoreoverlap": {
+            const overlap = Number.parseInt(value, 10);
+            if (Number.isFinite(overlap)) {
+                fonts.score_overlap = overlap;
+            }
+            break;
+        }
+        case "comboprefix":
+            if (value.length > 0) {
+                fonts.combo_prefix = value.trim();
+            }
+            break;
+        case "combooverlap": {
+            const overlap = Number.parseInt(value, 10);
+            if (Number.isFinite(overlap)) {
+                fonts.combo_overlap = overlap;
+            }
+            break;
+        }
     }
 };
 
@@ -174,6 +224,68 @@ const parse_colours = (colours: SkinIniData["colours"], key: string, value: stri
     }
 };
 
+const parse_number_list = (value: string): number[] | undefined => {
+    const values = value.split(",").map((s) => Number.parseFloat(s.trim()));
+    return values.length > 0 && values.every(Number.isFinite) ? values : undefined;
+};
+
+const parse_number = (value: string): number | undefined => {
+    const number = Number.parseFloat(value);
+    return Number.isFinite(number) ? number : undefined;
+};
+
+const parse_mania = (mania: IManiaSkinConfig, key: string, value: string): void => {
+    switch (key) {
+        case "keys": {
+            const keys = Number.parseInt(value, 10);
+            if (Number.isFinite(keys) && keys > 0) {
+                mania.keys = keys;
+            }
+            return;
+        }
+        case "columnstart":
+            mania.column_start = parse_number(value);
+            return;
+        case "columnwidth":
+            mania.column_width = parse_number_list(value);
+            return;
+        case "columnlinewidth":
+            mania.column_line_width = parse_number_list(value);
+            return;
+        case "columnspacing":
+            mania.column_spacing = parse_number_list(value);
+            return;
+        case "hitposition":
+            mania.hit_position = parse_number(value);
+            return;
+        case "judgementline":
+            mania.judgement_line = parse_skin_bool(value);
+            return;
+        case "upsidedown":
+            mania.upside_down = parse_skin_bool(value);
+            return;
+        case "specialstyle":
+            mania.special_style = parse_number(value);
+            return;
+        case "notebodystyle":
+            mania.note_body_style = parse_number(value);
+            return;
+    }
+
+    if (key.startsWith("colour")) {
+        const rgb = parse_rgb(value);
+        if (rgb) {
+            mania.colours[key] = rgb;
+        }
+        return;
+    }
+
+    // NoteImage#, NoteImage#H/L/T, KeyImage#, KeyImage#D, StageLeft, StageHint...
+    if ((key.includes("image") || key.startsWith("stage")) && value.length > 0) {
+        mania.images[key] = value.replace(/\\/g, "/").replace(/\.(png|jpe?g)$/i, "");
+    }
+};
+
 const parse_rgb = (value: string): string | null => {
     const parts = value.split(",").map((s) => parseInt(s.trim()));
     if (parts.length < 3 || parts.some(isNaN)) return null;
@@ -229,6 +341,21 @@ export const apply_skin_ini = (config: ISkinConfig, ini: SkinIniData): ISkinConf
     if (ini.fonts.hit_circle_overlap !== undefined) {
         result.hit_circle_overlap = ini.fonts.hit_circle_overlap;
     }
+    if (ini.fonts.score_prefix !== undefined) {
+        result.score_prefix = ini.fonts.score_prefix;
+    }
+    if (ini.fonts.score_overlap !== undefined) {
+        result.score_overlap = ini.fonts.score_overlap;
+    }
+    if (ini.fonts.combo_prefix !== undefined) {
+        result.combo_prefix = ini.fonts.combo_prefix;
+    }
+    if (ini.fonts.combo_overlap !== undefined) {
+        result.combo_overlap = ini.fonts.combo_overlap;
+    }
+    if (Object.keys(ini.mania).length > 0) {
+        result.mania_configs = { ...config.mania_configs, ...ini.mania };
+    }
 
     return result;
 };
@@ -0,0 +1,57 @@
+import type { RenderImage } from "../renderer/backend/render_backend";
+import type { IStoryboard } from "./storyboard_types";
+import { get_storyboard_files, normalize_storyboard_path } from "./storyboard_renderer";
+
+export type LoadedStoryboardImages = {
+    images: Map<string, RenderImage>;
+    dispose: () => void;
+};
+
+const decode_image = async (filename: string, data: ArrayBuffer, urls: string[]): Promise<RenderImage | null> => {
+    const url = URL.createObjectURL(new Blob([data]));
+    try {
+        const image = new Image();
+        image.src = url;
+        await image.decode();
+        urls.push(url);
+        return { source: image, width: image.naturalWidth, height: image.naturalHeight };
+    } catch (error) {
+        URL.revokeObjectURL(url);
+        console.warn(`[Storyboard] Failed to decode ${filename}`, error);
+        return null;
+    }
+};
+
+export const load_storyboard_images = async (storyboard: IStoryboard, files: Map<string, ArrayBuffer>): Promise<LoadedStoryboardImages> => {
+    const lookup = new Map<string, ArrayBuffer>();
+    for (const [name, data] of files) {
+        lookup.set(normalize_storyboard_path(name), data);
+    }
+
+    const images = new Map<string, RenderImage>();
+    const urls: string[] = [];
+
+    await Promise.all(
+        get_storyboard_files(storyboard).map(async (filename) => {
+            const data = lookup.get(filename);
+            if (!data) {
+                return;
+            }
+
+            const image = await decode_image(filename, data, urls);
+            if (image) {
+                images.set(filename, image);
+            }
+        })
+    );
+
+    return {
+        images,
+        dispose: () => {
+            for (const url of urls) {
+                URL.revokeObjectURL(url);
+            }
+            images.clear();
+        }
+    };
+};
@@ -0,0 +1,308 @@
+import type {
+    IStoryboard,
+    IStoryboardCommand,
+    IStoryboardSprite,
+    IStoryboardTrigger,
+    StoryboardCommandType,
+    StoryboardLayer,
+    StoryboardOrigin,
+    StoryboardParameter
+} from "./storyboard_types";
+import { STORYBOARD_LAYERS } from "./storyboard_types";
+
+type StoryboardLoop = {
+    start_time: number;
+    count: number;
+    commands: IStoryboardCommand[];
+};
+
+type SpriteBuilder = {
+    sprite: IStoryboardSprite;
+    loops: StoryboardLoop[];
+};
+
+const COMMAND_VALUE_COUNT: Record<StoryboardCommandType, number> = {
+    F: 1,
+    M: 2,
+    MX: 1,
+    MY: 1,
+    S: 1,
+    V: 2,
+    R: 1,
+    C: 3,
+    P: 0
+};
+
+// stable also accepts the numeric enum values, custom draws from the top left like it does there
+const ORIGINS: Record<string, StoryboardOrigin> = {
+    "0": "TopLeft",
+    "1": "Centre",
+    "2": "CentreLeft",
+    "3": "TopRight",
+    "4": "BottomCentre",
+    "5": "TopCentre",
+    "6": "TopLeft",
+    "7": "CentreRight",
+    "8": "BottomLeft",
+    "9": "BottomRight",
+    topleft: "TopLeft",
+    topcentre: "TopCentre",
+    topright: "TopRight",
+    centreleft: "CentreLeft",
+    centre: "Centre",
+    centreright: "CentreRight",
+    bottomleft: "BottomLeft",
+    bottomcentre: "BottomCentre",
+    bottomright: "BottomRight",
+    custom: "TopLeft"
+};
+
+const parse_layer = (value: string): StoryboardLayer | null => {
+    const index = Number(value);
+    if (Number.isInteger(index)) {
+        return STORYBOARD_LAYERS[index] ?? null;
+    }
+
+    const lower = value.toLowerCase();
+    return STORYBOARD_LAYERS.find((layer) => layer.toLowerCase() === lower) ?? null;
+};
+
+const clean_path = (value: string): string =>
+    value
+        .trim()
+        .replace(/^"(.*)"$/, "$1")
+        .replace(/\\/g, "/");
+
+const is_command_type = (value: string): value is StoryboardCommandType => value in COMMAND_VALUE_COUNT;
+
+const parse_command = (split: string[]): IStoryboardCommand[] => {
+    const type = split[0];
+    if (!is_command_type(type) || split.length < 4) {
+        return [];
+    }
+
+    const easing = parseInt(split[1], 10) || 0;
+    const start_time = parseFloat(split[2]);
+    const end_time = split[3].trim() === "" ? start_time : parseFloat(split[3]);
+    if (!Number.isFinite(start_time) || !Number.isFinite(end_time)) {
+        return [];
+    }
+
+    if (type === "P") {
+        const parameter = split[4]?.trim() as StoryboardParameter;
+        if (parameter !== "H" && parameter !== "V" && parameter !== "A") {
+            return [];
+        }
+        return [{ type, easing, start_time, end_time, start_values: [], end_values: [], parameter }];
+    }
+
+    const count = COMMAND_VALUE_COUNT[type];
+    const values = split.slice(4).map(Number);
+    if (values.length < count || values.some((value) => !Number.isFinite(value))) {
+        return [];
+    }
+
+    // extra values chain further segments of the same duration ("F,0,0,100,0,1,0" fades in then out)
+    const duration = end_time - start_time;
+    const segments = Math.max(1, Math.floor(values.length / count) - 1);
+    const commands: IStoryboardCommand[] = [];
+
+    for (let i = 0; i < segments; i++) {
+        const start_values = values.slice(i * count, (i + 1) * count);
+        const end_values = values.length >= (i + 2) * count ? values.slice((i + 1) * count, (i + 2) * count) : start_values;
+        commands.push({
+            type,
+            easing,
+            start_time: start_time + duration * i,
+            end_time: end_time + duration * i,
+            start_values,
+            end_values
+        });
+    }
+
+    return commands;
+};
+
+const expand_loop = (loop: StoryboardLoop): IStoryboardCommand[] => {
+    if (loop.commands.length === 0) {
+        return [];
+    }
+
+    let commands_start = Infinity;
+    let commands_end = -Infinity;
+    for (const command of loop.commands) {
+        commands_start = Math.min(commands_start, command.start_time);
+        commands_end = Math.max(commands_end, command.end_time);
+    }
+
+    const duration = commands_end - commands_start;
+    const iterations = Math.max(1, loop.count);
+    const expanded: IStoryboardCommand[] = [];
+
+    for (let i = 0; i < iterations; i++) {
+        const offset = loop.start_time + i * duration;
+        for (const command of loop.commands) {
+            expanded.push({ ...command, start_time: offset + command.start_time, end_time: offset + command.end_time });
+        }
+    }
+
+    return expanded;
+};
+
+const finish_sprite = (builder: SpriteBuilder | null, sprites: IStoryboardSprite[]): void => {
+    if (!builder) {
+        return;
+    }
+
+    const { sprite } = builder;
+    for (const loop of builder.loops) {
+        sprite.commands.push(...expand_loop(loop));
+    }
+
+    sprite.commands.sort((a, b) => a.start_time - b.start_time);
+    for (const trigger of sprite.triggers) {
+        trigger.commands.sort((a, b) => a.start_time - b.start_time);
+    }
+
+    if (sprite.commands.length > 0 || sprite.triggers.length > 0) {
+        sprites.push(sprite);
+    }
+};
+
+const create_sprite = (split: string[]): IStoryboardSprite | null => {
+    const kind = split[0] === "Sprite" || split[0] === "4" ? "sprite" : split[0] === "Animation" || split[0] === "6" ? "animation" : null;
+    if (!kind || split.length < 6) {
+        return null;
+    }
+
+    const layer = parse_layer(split[1].trim());
+    if (!layer) {
+        return null;
+    }
+
+    const loop_type = split[8]?.trim();
+
+    return {
+        kind,
+        layer,
+        origin: ORIGINS[split[2].trim().toLowerCase()] ?? "TopLeft",
+        path: clean_path(split[3]),
+        x: parseFloat(split[4]) || 0,
+        y: parseFloat(split[5]) || 0,
+        frame_count: kind === "animation" ? Math.max(1, parseInt(split[6], 10) || 1) : 1,
+        frame_delay: kind === "animation" ? parseFloat(split[7]) || 0 : 0,
+        loop_type: loop_type === "LoopOnce" || loop_type === "1" ? "LoopOnce" : "LoopForever",
+        commands: [],
+        triggers: []
+    };
+};
+
+const substitute_variables = (line: string, variables: [string, string][]): string => {
+    if (variables.length === 0 || !line.includes("$")) {
+        return line;
+    }
+
+    let result = line;
+    for (const [name, value] of variables) {
+        result = result.split(name).join(value);
+    }
+    return result;
+};
+
+const get_depth = (line: string): number => {
+    let depth = 0;
+    while (depth < line.length && (line[depth] === " " || line[depth] === "_")) {
+        depth++;
+    }
+    return depth;
+};
+
+const parse_source = (source: string, sprites: IStoryboardSprite[]): void => {
+    const variables: [string, string][] = [];
+    let section = "";
+    let builder: SpriteBuilder | null = null;
+    let loop: StoryboardLoop | null = null;
+    let trigger: IStoryboardTrigger | null = null;
+
+    for (const raw_line of source.split(/\r?\n/)) {
+        const trimmed = raw_line.trim();
+        if (trimmed === "" || trimmed.startsWith("//")) {
+            continue;
+        }
+
+        const section_match = trimmed.match(/^\[(.+)\]$/);
+        if (section_match) {
+            section = section_match[1];
+            continue;
+        }
+
+        if (section === "Variables") {
+            const separator = trimmed.indexOf("=");
+            if (trimmed.startsWith("$") && separator > 0) {
+                variables.push([trimmed.slice(0, separator), trimmed.slice(separator + 1)]);
+                // longest names first so "$ab" is not replaced by "$a"
+                variables.sort((a, b) => b[0].length - a[0].length);
+            }
+            continue;
+        }
+
+        if (section !== "Events") {
+            continue;
+        }
+
+        const line = substitute_variables(raw_line.trimEnd(), variables);
+        const depth = get_depth(line);
+        const split = line.slice(depth).split(",");
+
+        if (depth === 0) {
+            finish_sprite(builder, sprites);
+            const sprite = create_sprite(split);
+            builder = sprite ? { sprite, loops: [] } : null;
+            loop = null;
+            trigger = null;
+            continue;
+        }
+
+        if (!builder) {
+            continue;
+        }
+
+        if (depth === 1) {
+            loop = null;
+            trigger = null;
+
+            if (split[0] === "L") {
+                loop = { start_time: parseFloat(split[1]) || 0, count: parseInt(split[2], 10) || 0, commands: [] };
+                builder.loops.push(loop);
+            } else if (split[0] === "T") {
+                trigger = {
+                    name: split[1]?.trim() ?? "",
+                    start_time: split[2] !== undefined && split[2] !== "" ? parseFloat(split[2]) : -Infinity,
+                    end_time: split[3] !== undefined && split[3] !== "" ? parseFloat(split[3]) : Infinity,
+                    group: parseInt(split[4], 10) || 0,
+                    commands: []
+                };
+                builder.sprite.triggers.push(trigger);
+            } else {
+                builder.sprite.commands.push(...parse_command(split));
+            }
+            continue;
+        }
+
+        const target = loop?.commands ?? trigger?.commands;
+        target?.push(...parse_command(split));
+    }
+
+    finish_sprite(builder, sprites);
+};
+
+// .osb content goes first so difficulty specific sprites draw above it, like stable
+export const parse_storyboard = (sources: string[], widescreen: boolean = false): IStoryboard => {
+    const sprites: IStoryboardSprite[] = [];
+
+    for (const source of sources) {
+        parse_source(source, sprites);
+    }
+
+    return { sprites, widescreen };
+};
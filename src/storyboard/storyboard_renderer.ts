@@ -0,0 +1,433 @@
+import type { IRenderBackend, RenderImage } from "../renderer/backend/render_backend";
+import type { IBeatmap } from "../types/beatmap";
+import { TransformSequence, get_legacy_easing, type Transform } from "../renderer/drawable/transforms";
+import type { IStoryboard, IStoryboardCommand, IStoryboardSprite, StoryboardLayer, StoryboardOrigin, StoryboardParameter } from "./storyboard_types";
+import { STORYBOARD_HEIGHT, STORYBOARD_WIDESCREEN_WIDTH, STORYBOARD_WIDTH } from "./storyboard_types";
+import { build_trigger_events, create_trigger_matcher } from "./storyboard_triggers";
+
+type ParameterWindow = {
+    parameter: StoryboardParameter;
+    start_time: number;
+    end_time: number;
+};
+
+type TriggerState = {
+    transforms: TransformSequence;
+    duration: number;
+    fire_times: number[];
+};
+
+type StoryboardEntry = {
+    sprite: IStoryboardSprite;
+    frames: (RenderImage | null)[];
+    transforms: TransformSequence;
+    defaults: Map<Transform["property"], number>;
+    parameters: ParameterWindow[];
+    triggers: TriggerState[];
+    start_time: number;
+    end_time: number;
+    // position in the file, later sprites draw on top
+    order: number;
+};
+
+// entries sorted by start time, with the latest end time up to each one for culling
+type LayerEntries = {
+    entries: StoryboardEntry[];
+    running_end_times: number[];
+};
+
+type SpriteState = {
+    x: number;
+    y: number;
+    alpha: number;
+    scale_x: number;
+    scale_y: number;
+    rotation: number;
+    color: string | null;
+};
+
+const ORIGIN_OFFSETS: Record<StoryboardOrigin, [number, number]> = {
+    TopLeft: [0, 0],
+    TopCentre: [0.5, 0],
+    TopRight: [1, 0],
+    CentreLeft: [0, 0.5],
+    Centre: [0.5, 0.5],
+    CentreRight: [1, 0.5],
+    BottomLeft: [0, 1],
+    BottomCentre: [0.5, 1],
+    BottomRight: [1, 1]
+};
+
+// the pass layer is always shown, the preview never fails
+const BEHIND_LAYERS: StoryboardLayer[] = ["Background", "Pass", "Foreground"];
+
+export const normalize_storyboard_path = (path: string): string => path.replace(/\\/g, "/").toLowerCase();
+
+export const get_animation_frame_path = (path: string, frame: number): string => {
+    const dot = path.lastIndexOf(".");
+    return dot === -1 ? `${path}${frame}` : `${path.slice(0, dot)}${frame}${path.slice(dot)}`;
+};
+
+// every file a storyboard needs, animations expand to one entry per frame
+export const get_storyboard_files = (storyboard: IStoryboard): string[] => {
+    const files = new Set<string>();
+
+    for (const sprite of storyboard.sprites) {
+        if (sprite.kind === "animation") {
+            for (let i = 0; i < sprite.frame_count; i++) {
+                files.add(normalize_storyboard_path(get_animation_frame_path(sprite.path, i)));
+            }
+        } else {
+            files.add(normalize_storyboard_path(sprite.path));
+        }
+    }
+
+    return [...files];
+};
+
+const add_command = (transforms: TransformSequence, command: IStoryboardCommand): void => {
+    const easing = get_legacy_easing(command.easing);
+    const duration = command.end_time - command.start_time;
+    const { start_values: from, end_values: to, start_time } = command;
+
+    switch (command.type) {
+        case "F":
+            transforms.add("alpha", from[0], to[0], start_time, duration, easing);
+            break;
+        case "M":
+            transforms.add("x", from[0], to[0], start_time, duration, easing);
+            transforms.add("y", from[1], to[1], start_time, duration, easing);
+            break;
+        case "MX":
+            transforms.add("x", from[0], to[0], start_time, duration, easing);
+            break;
+        case "MY":
+            transforms.add("y", from[0], to[0], start_time, duration, easing);
+            break;
+        case "S":
+            transforms.add("scale", from[0], to[0], start_time, duration, easing);
+            break;
+        case "V":
+            transforms.add("scale_x", from[0], to[0], start_time, duration, easing);
+            transforms.add("scale_y", from[1], to[1], start_time, duration, easing);
+            break;
+        case "R":
+            transforms.add("rotation", from[0], to[0], start_time, duration, easing);
+            break;
+        case "C":
+            transforms.add("color_r", from[0], to[0], start_time, duration, easing);
+            transforms.add("color_g", from[1], to[1], start_time, duration, easing);
+            transforms.add("color_b", from[2], to[2], start_time, duration, easing);
+            break;
+    }
+};
+
+const get_initial_values = (sprite: IStoryboardSprite): Map<Transform["property"], number> => {
+    const defaults = new Map<Transform["property"], number>([
+        ["alpha", 1],
+        ["x", sprite.x],
+        ["y", sprite.y],
+        ["scale", 1],
+        ["scale_x", 1],
+        ["scale_y", 1],
+        ["rotation", 0],
+        ["color_r", 255],
+        ["color_g", 255],
+        ["color_b", 255]
+    ]);
+
+    // before its first command a property holds that command's start value
+    const seen = new Set<string>();
+    for (const command of sprite.commands) {
+        if (seen.has(command.type)) continue;
+        seen.add(command.type);
+
+        const values = command.start_values;
+        switch (command.type) {
+            case "F":
+                defaults.set("alpha", values[0]);
+                break;
+            case "M":
+                if (!seen.has("MX")) defaults.set("x", values[0]);
+                if (!seen.has("MY")) defaults.set("y", values[1]);
+                break;
+            case "MX":
+                if (!seen.has("M")) defaults.set("x", values[0]);
+                break;
+            case "MY":
+                if (!seen.has("M")) defaults.set("y", values[0]);
+                break;
+            case "S":
+                defaults.set("scale", values[0]);
+                break;
+            case "V":
+                defaults.set("scale_x", values[0]);
+                defaults.set("scale_y", values[1]);
+                break;
+            case "R":
+                defaults.set("rotation", values[0]);
+                break;
+            case "C":
+                defaults.set("color_r", values[0]);
+                defaults.set("color_g", values[1]);
+                defaults.set("color_b", values[2]);
+                break;
+        }
+    }
+
+    return defaults;
+};
+
+const upper_bound = (times: number[], time: number): number => {
+    let low = 0;
+    let high = times.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (times[mid] <= time) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+};
+
+// first index whose running end time reaches time, everything before it has ended
+const find_first_alive = (running_end_times: number[], time: number): number => {
+    let low = 0;
+    let high = running_end_times.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (running_end_times[mid] < time) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+};
+
+export class StoryboardRenderer {
+    private layers = new Map<StoryboardLayer, LayerEntries>();
+    private storyboard: IStoryboard;
+    private images: Map<string, RenderImage>;
+
+    constructor(storyboard: IStoryboard, images: Map<string, RenderImage>, beatmap: IBeatmap | null = null) {
+        this.storyboard = storyboard;
+        this.images = images;
+        this.build(beatmap);
+    }
+
+    get is_empty(): boolean {
+        return this.storyboard.sprites.length === 0;
+    }
+
+    uses_file(filename: string): boolean {
+        const target = normalize_storyboard_path(filename);
+        return this.storyboard.sprites.some((sprite) => normalize_storyboard_path(sprite.path) === target);
+    }
+
+    render_behind(backend: IRenderBackend, time: number, alpha: number): void {
+        for (const layer of BEHIND_LAYERS) {
+            this.render_layer(backend, layer, time, alpha);
+        }
+    }
+
+    render_overlay(backend: IRenderBackend, time: number): void {
+        this.render_layer(backend, "Overlay", time, 1);
+    }
+
+    private build(beatmap: IBeatmap | null): void {
+        const events = beatmap ? build_trigger_events(beatmap) : [];
+        const layers = new Map<StoryboardLayer, StoryboardEntry[]>();
+
+        for (let order = 0; order < this.storyboard.sprites.length; order++) {
+            const sprite = this.storyboard.sprites[order];
+            const transforms = new TransformSequence();
+            const parameters: ParameterWindow[] = [];
+
+            for (const command of sprite.commands) {
+                if (command.type === "P" && command.parameter) {
+                    parameters.push({ parameter: command.parameter, start_time: command.start_time, end_time: command.end_time });
+                } else {
+                    add_command(transforms, command);
+                }
+            }
+
+            // commands come sorted by start time from the parser
+            let start_time = sprite.commands[0]?.start_time ?? Infinity;
+            let end_time = -Infinity;
+            for (const command of sprite.commands) {
+                end_time = Math.max(end_time, command.end_time);
+            }
+
+            const triggers: TriggerState[] = [];
+            for (const trigger of sprite.triggers) {
+                const matcher = create_trigger_matcher(trigger.name);
+                if (!matcher || trigger.commands.length === 0) continue;
+
+                const trigger_transforms = new TransformSequence();
+                for (const command of trigger.commands) {
+                    add_command(trigger_transforms, command);
+                }
+
+                const duration = Math.max(0, trigger_transforms.get_end_time());
+                const fire_times = events
+                    .filter((event) => event.time >= trigger.start_time && event.time <= trigger.end_time && matcher(event))
+                    .map((event) => event.time);
+                if (fire_times.length === 0) continue;
+
+                triggers.push({ transforms: trigger_transforms, duration, fire_times });
+                start_time = Math.min(start_time, fire_times[0]);
+                end_time = Math.max(end_time, fire_times[fire_times.length - 1] + duration);
+            }
+
+            if (!Number.isFinite(start_time) || !Number.isFinite(end_time)) {
+                continue;
+            }
+
+            const frames: (RenderImage | null)[] = [];
+            for (let i = 0; i < sprite.frame_count; i++) {
+                const path = sprite.kind === "animation" ? get_animation_frame_path(sprite.path, i) : sprite.path;
+                frames.push(this.images.get(normalize_storyboard_path(path)) ?? null);
+            }
+            // nothing to draw without a single loaded frame
+            if (frames.every((frame) => frame === null)) {
+                continue;
+            }
+
+            const entries = layers.get(sprite.layer) ?? [];
+            entries.push({ sprite, frames, transforms, defaults: get_initial_values(sprite), parameters, triggers, start_time, end_time, order });
+            layers.set(sprite.layer, entries);
+        }
+
+        for (const [layer, entries] of layers) {
+            entries.sort((a, b) => a.start_time - b.start_time);
+            const running_end_times: number[] = [];
+            let end_time = -Infinity;
+            for (const entry of entries) {
+                end_time = Math.max(end_time, entry.end_time);
+                running_end_times.push(end_time);
+            }
+            this.layers.set(layer, { entries, running_end_times });
+        }
+    }
+
+    private render_layer(backend: IRenderBackend, layer: StoryboardLayer, time: number, alpha: number): void {
+        const layer_entries = this.layers.get(layer);
+        if (!layer_entries || alpha <= 0) {
+            return;
+        }
+
+        const { entries, running_end_times } = layer_entries;
+        const alive: StoryboardEntry[] = [];
+        for (let i = find_first_alive(running_end_times, time); i < entries.length && entries[i].start_time <= time; i++) {
+            if (entries[i].end_time >= time) {
+                alive.push(entries[i]);
+            }
+        }
+        if (alive.length === 0) {
+            return;
+        }
+        alive.sort((a, b) => a.order - b.order);
+
+        const scale = backend.height / STORYBOARD_HEIGHT;
+        const offset_x = (backend.width - STORYBOARD_WIDTH * scale) / 2;
+        const visible_width = (this.storyboard.widescreen ? STORYBOARD_WIDESCREEN_WIDTH : STORYBOARD_WIDTH) * scale;
+
+        backend.save();
+        backend.begin_path();
+        backend.rect((backend.width - visible_width) / 2, 0, visible_width, backend.height);
+        backend.clip();
+
+        for (const entry of alive) {
+            this.draw_entry(backend, entry, time, offset_x, scale, alpha);
+        }
+
+        backend.restore();
+    }
+
+    private draw_entry(backend: IRenderBackend, entry: StoryboardEntry, time: number, offset_x: number, scale: number, alpha: number): void {
+        const image = this.get_frame(entry, time);
+        if (!image || this.get_value(entry, "alpha", time) <= 0) return;
+
+        const state = this.get_state(entry, time);
+        if (state.scale_x === 0 || state.scale_y === 0) return;
+
+        let flip_h = false;
+        let flip_v = false;
+        let additive = false;
+        for (const window of entry.parameters) {
+            const active = window.start_time === window.end_time || (time >= window.start_time && time < window.end_time);
+            if (!active) continue;
+            if (window.parameter === "H") flip_h = true;
+            if (window.parameter === "V") flip_v = true;
+            if (window.parameter === "A") additive = true;
+        }
+
+        const [origin_x, origin_y] = ORIGIN_OFFSETS[entry.sprite.origin];
+
+        backend.save();
+        backend.translate(offset_x + state.x * scale, state.y * scale);
+        if (state.rotation !== 0) {
+            backend.rotate(state.rotation);
+        }
+        backend.scale(state.scale_x * scale * (flip_h ? -1 : 1), state.scale_y * scale * (flip_v ? -1 : 1));
+        backend.set_alpha(Math.min(1, state.alpha) * alpha);
+        if (additive) {
+            backend.set_blend_mode("lighter");
+        }
+
+        backend.draw_image(image, -origin_x * image.width, -origin_y * image.height, image.width, image.height, state.color ?? undefined);
+        backend.restore();
+    }
+
+    private get_frame(entry: StoryboardEntry, time: number): RenderImage | null {
+        const { sprite, frames } = entry;
+        if (sprite.kind === "sprite" || frames.length <= 1 || sprite.frame_delay <= 0) {
+            return frames[0];
+        }
+
+        const frame = Math.floor((time - entry.start_time) / sprite.frame_delay);
+        const index = sprite.loop_type === "LoopOnce" ? Math.min(frame, frames.length - 1) : frame % frames.length;
+        return frames[Math.max(0, index)];
+    }
+
+    private get_value(entry: StoryboardEntry, property: Transform["property"], time: number): number {
+        let result = entry.transforms.get_value(property, time, entry.defaults.get(property) ?? 0);
+
+        // the most recent firing of a trigger overrides the base commands while it runs
+        for (const trigger of entry.triggers) {
+            if (!trigger.transforms.has(property)) continue;
+            const index = upper_bound(trigger.fire_times, time);
+            if (index === 0) continue;
+
+            const local_time = time - trigger.fire_times[index - 1];
+            if (local_time <= trigger.duration) {
+                result = trigger.transforms.get_value(property, local_time, result);
+            }
+        }
+
+        return result;
+    }
+
+    private get_state(entry: StoryboardEntry, time: number): SpriteState {
+        const value = (property: Transform["property"]): number => this.get_value(entry, property, time);
+
+        const scale = value("scale");
+        const r = value("color_r");
+        const g = value("color_g");
+        const b = value("color_b");
+        const tinted = r < 255 || g < 255 || b < 255;
+
+        return {
+            x: value("x"),
+            y: value("y"),
+            alpha: value("alpha"),
+            scale_x: scale * value("scale_x"),
+            scale_y: scale * value("scale_y"),
+            rotation: value("rotation"),
+            color: tinted ? `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})` : null
+        };
+    }
+}
@@ -0,0 +1,90 @@
+import type { IBeatmap } from "../types/beatmap";
+import { HitSoundType, SampleSet } from "../types/beatmap";
+import { process_timing_points } from "../beatmap/timing";
+
+export type StoryboardTriggerEvent = {
+    time: number;
+    normal_set: SampleSet;
+    addition_set: SampleSet;
+    hit_sound: number;
+    index: number;
+};
+
+type HitSoundTrigger = {
+    normal_set: SampleSet | null;
+    addition_set: SampleSet | null;
+    hit_sound: number;
+    index: number | null;
+};
+
+const SAMPLE_SETS: Record<string, SampleSet | null> = {
+    All: null,
+    Normal: SampleSet.Normal,
+    Soft: SampleSet.Soft,
+    Drum: SampleSet.Drum
+};
+
+const ADDITIONS: Record<string, number> = {
+    Whistle: HitSoundType.Whistle,
+    Finish: HitSoundType.Finish,
+    Clap: HitSoundType.Clap
+};
+
+const TRIGGER_PATTERN = /^HitSound(All|Normal|Soft|Drum)?(All|Normal|Soft|Drum)?(Whistle|Finish|Clap)?(\d+)?$/;
+
+// "HitSoundSoftWhistle2" -> soft sample set, whistle addition, custom index 2
+const parse_hit_sound_trigger = (name: string): HitSoundTrigger | null => {
+    const match = name.match(TRIGGER_PATTERN);
+    if (!match) {
+        return null;
+    }
+
+    return {
+        normal_set: match[1] ? SAMPLE_SETS[match[1]] : null,
+        addition_set: match[2] ? SAMPLE_SETS[match[2]] : null,
+        hit_sound: match[3] ? ADDITIONS[match[3]] : 0,
+        index: match[4] ? parseInt(match[4], 10) : null
+    };
+};
+
+export const create_trigger_matcher = (name: string): ((event: StoryboardTriggerEvent) => boolean) | null => {
+    const trigger = parse_hit_sound_trigger(name);
+    if (!trigger) {
+        // Passing/Failing never fire, the preview is always in the pass state
+        return null;
+    }
+
+    return (event) =>
+        (trigger.normal_set === null || trigger.normal_set === event.normal_set) &&
+        (trigger.addition_set === null || trigger.addition_set === event.addition_set) &&
+        (trigger.hit_sound === 0 || (event.hit_sound & trigger.hit_sound) !== 0) &&
+        (trigger.index === null || trigger.index === event.index);
+};
+
+export const build_trigger_events = (beatmap: IBeatmap): StoryboardTriggerEvent[] => {
+    const points = process_timing_points([...beatmap.TimingPoints]);
+    const events: StoryboardTriggerEvent[] = [];
+    const objects = [...beatmap.HitObjects].sort((a, b) => a.time - b.time);
+    let point_index = 0;
+
+    for (const obj of objects) {
+        while (point_index + 1 < points.length && points[point_index + 1].time <= obj.time + 1) {
+            point_index++;
+        }
+
+        const timing = points[point_index];
+        const timing_set = (timing?.sampleSet as SampleSet) || SampleSet.Normal;
+        const normal_set = (obj.hitSample?.normalSet as SampleSet) || timing_set;
+        const addition_set = (obj.hitSample?.additionSet as SampleSet) || normal_set;
+
+        events.push({
+            time: obj.time,
+            normal_set,
+            addition_set,
+            hit_sound: obj.hitSound,
+            index: obj.hitSample?.index || timing?.sampleIndex || 0
+        });
+    }
+
+    return events;
+};
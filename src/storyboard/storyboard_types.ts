@@ -0,0 +1,54 @@
+export type StoryboardLayer = "Background" | "Fail" | "Pass" | "Foreground" | "Overlay";
+
+export type StoryboardOrigin =
+    "TopLeft" | "TopCentre" | "TopRight" | "CentreLeft" | "Centre" | "CentreRight" | "BottomLeft" | "BottomCentre" | "BottomRight";
+
+export type StoryboardCommandType = "F" | "M" | "MX" | "MY" | "S" | "V" | "R" | "C" | "P";
+
+export type StoryboardParameter = "H" | "V" | "A";
+
+export type StoryboardLoopType = "LoopForever" | "LoopOnce";
+
+export const STORYBOARD_WIDTH = 640;
+export const STORYBOARD_WIDESCREEN_WIDTH = 854;
+export const STORYBOARD_HEIGHT = 480;
+
+export const STORYBOARD_LAYERS: StoryboardLayer[] = ["Background", "Fail", "Pass", "Foreground", "Overlay"];
+
+export interface IStoryboardCommand {
+    type: StoryboardCommandType;
+    easing: number;
+    start_time: number;
+    end_time: number;
+    start_values: number[];
+    end_values: number[];
+    parameter?: StoryboardParameter;
+}
+
+export interface IStoryboardTrigger {
+    name: string;
+    start_time: number;
+    end_time: number;
+    group: number;
+    // command times are relative to the moment the trigger fires
+    commands: IStoryboardCommand[];
+}
+
+export interface IStoryboardSprite {
+    kind: "sprite" | "animation";
+    layer: StoryboardLayer;
+    origin: StoryboardOrigin;
+    path: string;
+    x: number;
+    y: number;
+    frame_count: number;
+    frame_delay: number;
+    loop_type: StoryboardLoopType;
+    commands: IStoryboardCommand[];
+    triggers: IStoryboardTrigger[];
+}
+
+export interface IStoryboard {
+    sprites: IStoryboardSprite[];
+    widescreen: boolean;
+}
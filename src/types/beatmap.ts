@@ -53,3 +53,5 @@ export const is_slider = (obj: IHitObject): boolean => (obj.type & HitObjectType
 export const is_spinner = (obj: IHitObject): boolean => (obj.type & HitObjectType.Spinner) !== 0;
 export const is_hold = (obj: IHitObject): boolean => (obj.type & HitObjectType.Hold) !== 0;
 export const is_new_combo = (obj: IHitObject): boolean => (obj.type & HitObjectType.NewCombo) !== 0;
+// extra combo colours a new combo skips over
+export const get_combo_skip = (obj: IHitObject): number => (obj.type & HitObjectType.ComboSkip) >> 4;
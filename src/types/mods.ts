@@ -126,10 +126,20 @@ export const get_available_mods = (mode: GameModeType): IModInfo[] => {
 
     switch (mode) {
         case "standard":
-            return [...common, { name: "Hard Rock", acronym: "HR", value: Mods.HardRock }];
+            return [
+                ...common,
+                { name: "Hard Rock", acronym: "HR", value: Mods.HardRock },
+                { name: "Flashlight", acronym: "FL", value: Mods.Flashlight },
+                { name: "Mirror", acronym: "MR", value: Mods.Mirror }
+            ];
 
         case "mania":
-            return [...common, { name: "Hard Rock", acronym: "HR", value: Mods.HardRock }, { name: "Fade In", acronym: "FI", value: Mods.FadeIn }];
+            return [
+                ...common,
+                { name: "Hard Rock", acronym: "HR", value: Mods.HardRock },
+                { name: "Fade In", acronym: "FI", value: Mods.FadeIn },
+                { name: "Flashlight", acronym: "FL", value: Mods.Flashlight }
+            ];
 
         case "taiko":
         case "catch":
@@ -1,9 +1,13 @@
 import type { IBeatmap } from "./beatmap";
+import type { IStoryboard } from "../storyboard/storyboard_types";
+import type { IBreakPeriod } from "../beatmap/breaks";
 
 export interface IBeatmapResources {
     beatmap: IBeatmap;
     available_difficulties: { filename: string; beatmap: IBeatmap }[];
     files: Map<string, ArrayBuffer>;
+    // from [Events], sorted by start time
+    breaks: IBreakPeriod[];
 
     audio?: ArrayBuffer;
     background?: Blob;
@@ -13,4 +17,6 @@ export interface IBeatmapResources {
     background_filename?: string;
     video_filename?: string;
     video_offset?: number;
+
+    storyboard?: IStoryboard;
 }
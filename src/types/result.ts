@@ -2,6 +2,7 @@ export enum ErrorCode {
     NoOsuFiles = "NO_OSU_FILES",
     DifficultyNotFound = "DIFFICULTY_NOT_FOUND",
     InvalidBeatmap = "INVALID_BEATMAP",
+    InvalidReplay = "INVALID_REPLAY",
     UnsupportedMode = "UNSUPPORTED_MODE",
     AudioNotLoaded = "AUDIO_NOT_LOADED",
     AudioDecodeError = "AUDIO_DECODE_ERROR",
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { AutoplayCursor } from "../src/renderer/standard/autoplay_cursor";
+import type { RenderHitObject } from "../src/renderer/render_types";
+import { HitObjectType } from "../src/types/beatmap";
+import type { Vec2 } from "../src/math/vector2";
+
+const make_circle = (time: number, pos: Vec2): RenderHitObject =>
+    ({ time, end_time: time, type: HitObjectType.Circle, data: { pos }, end_pos: pos }) as unknown as RenderHitObject;
+
+const make_slider = (time: number, end_time: number, pos: Vec2, end_pos: Vec2): RenderHitObject =>
+    ({ time, end_time, type: HitObjectType.Slider, data: { pos }, end_pos }) as unknown as RenderHitObject;
+
+const make_spinner = (time: number, end_time: number): RenderHitObject =>
+    ({ time, end_time, type: HitObjectType.Spinner, data: { pos: [256, 192] }, end_pos: [256, 192] }) as unknown as RenderHitObject;
+
+// slides in a straight line from the head to the tail
+const slider_ball = (object: RenderHitObject, time: number): Vec2 => {
+    const start = (object.data as { pos: Vec2 }).pos;
+    const t = Math.min(1, Math.max(0, (time - object.time) / (object.end_time - object.time)));
+    return [start[0] + (object.end_pos[0] - start[0]) * t, start[1] + (object.end_pos[1] - start[1]) * t];
+};
+
+describe("autoplay cursor", () => {
+    test("sits on circles at their hit time and eases between them", () => {
+        const cursor = new AutoplayCursor([make_circle(1000, [100, 100]), make_circle(1400, [300, 100])], slider_ball);
+        expect(cursor.get_position(1000)).toEqual([100, 100]);
+        expect(cursor.get_position(1400)).toEqual([300, 100]);
+
+        const halfway = cursor.get_position(1200);
+        expect(halfway[0]).toBeCloseTo(200);
+        expect(halfway[1]).toBeCloseTo(100);
+    });
+
+    test("waits before long gaps instead of crawling", () => {
+        const cursor = new AutoplayCursor([make_circle(1000, [100, 100]), make_circle(5000, [300, 100])], slider_ball);
+        expect(cursor.get_position(4000)).toEqual([100, 100]);
+        expect(cursor.get_position(4500)[0]).toBeGreaterThan(100);
+    });
+
+    test("rides the slider ball", () => {
+        const cursor = new AutoplayCursor([make_slider(1000, 2000, [100, 100], [300, 100])], slider_ball);
+        expect(cursor.get_position(1500)).toEqual([200, 100]);
+        expect(cursor.get_position(2500)).toEqual([300, 100]);
+    });
+
+    test("circles the centre on spinners", () => {
+        const cursor = new AutoplayCursor([make_spinner(1000, 3000)], slider_ball);
+        for (const time of [1000, 1700, 2900]) {
+            const [x, y] = cursor.get_position(time);
+            expect(Math.hypot(x - 256, y - 192)).toBeCloseTo(50);
+        }
+    });
+
+    test("holds the key through an object and lets go after it", () => {
+        const cursor = new AutoplayCursor([make_slider(1000, 2000, [100, 100], [300, 100])], slider_ball);
+        expect(cursor.is_pressed(999)).toBe(false);
+        expect(cursor.is_pressed(1500)).toBe(true);
+        expect(cursor.is_pressed(2040)).toBe(true);
+        expect(cursor.is_pressed(2100)).toBe(false);
+    });
+
+    test("trails behind with fading points", () => {
+        const cursor = new AutoplayCursor([make_circle(1000, [100, 100])], slider_ball);
+        const state = cursor.get_state(1000);
+        expect(state.trail.length).toBeGreaterThan(0);
+        for (let i = 1; i < state.trail.length; i++) {
+            expect(state.trail[i].alpha).toBeLessThan(state.trail[i - 1].alpha);
+        }
+    });
+});
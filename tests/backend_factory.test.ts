@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { initialize_backend } from "../src/renderer/backend/backend_factory";
+import { Canvas2DBackend } from "../src/renderer/backend/canvas_backend";
+import type { IRenderBackend } from "../src/renderer/backend/render_backend";
+
+// a canvas that hands out a single context kind, like a real one
+const create_canvas = (): HTMLCanvasElement & { context_kind: string | null } => {
+    const canvas = {
+        width: 300,
+        height: 150,
+        context_kind: null as string | null,
+        getContext(kind: string) {
+            if (canvas.context_kind && canvas.context_kind !== kind) {
+                return null;
+            }
+            canvas.context_kind = kind;
+            return { setTransform: () => {} };
+        }
+    };
+    return canvas as unknown as HTMLCanvasElement & { context_kind: string | null };
+};
+
+const create_pixi_stub = (initialize: (canvas: HTMLCanvasElement) => void) => {
+    const stub = { initialized: false, disposed: false };
+    const backend = {
+        initialize: async (canvas: HTMLCanvasElement) => {
+            initialize(canvas);
+            stub.initialized = true;
+        },
+        dispose: () => {
+            stub.disposed = true;
+        }
+    } as unknown as IRenderBackend;
+    return { stub, backend };
+};
+
+describe("initialize_backend", () => {
+    test("auto skips pixi without webgl and leaves the canvas to the 2d backend", async () => {
+        const canvas = create_canvas();
+        const { stub, backend } = create_pixi_stub((target) => target.getContext("webgl2"));
+
+        const result = await initialize_backend(backend, "auto", canvas, false, () => false);
+        expect(result).toBeInstanceOf(Canvas2DBackend);
+        expect(stub.initialized).toBe(false);
+        expect(canvas.context_kind).toBe("2d");
+    });
+
+    test("auto keeps pixi when webgl works", async () => {
+        const { backend } = create_pixi_stub((target) => target.getContext("webgl2"));
+        expect(await initialize_backend(backend, "auto", create_canvas(), false, () => true)).toBe(backend);
+    });
+
+    test("auto falls back when pixi fails before touching the canvas", async () => {
+        const { stub, backend } = create_pixi_stub(() => {
+            throw new Error("no shaders");
+        });
+
+        const result = await initialize_backend(backend, "auto", create_canvas(), false, () => true);
+        expect(result).toBeInstanceOf(Canvas2DBackend);
+        expect(stub.disposed).toBe(true);
+    });
+
+    test("reports pixi's error when it already took the canvas", async () => {
+        const { backend } = create_pixi_stub((target) => {
+            target.getContext("webgl2");
+            throw new Error("context lost");
+        });
+
+        await expect(initialize_backend(backend, "auto", create_canvas(), false, () => true)).rejects.toThrow("context lost");
+    });
+
+    test("pixi never falls back", async () => {
+        const { backend } = create_pixi_stub(() => {
+            throw new Error("no shaders");
+        });
+
+        await expect(initialize_backend(backend, "pixi", create_canvas(), false, () => false)).rejects.toThrow("no shaders");
+    });
+});
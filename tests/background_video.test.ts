@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { get_background_layer } from "../src/renderer/base_renderer";
+import { get_video_time } from "../src/player/video_controller";
+import type { RenderImage } from "../src/renderer/backend/render_backend";
+
+const image = { source: {}, width: 1920, height: 1080 } as unknown as RenderImage;
+const make_video = (ready_state: number): RenderImage =>
+    ({ source: { readyState: ready_state }, width: 1280, height: 720 }) as unknown as RenderImage;
+
+describe("background layer", () => {
+    test("keeps the image until the video offset", () => {
+        const video = make_video(4);
+        expect(get_background_layer(image, video, 500, 499)).toBe(image);
+        expect(get_background_layer(image, video, 500, 500)).toBe(video);
+    });
+
+    test("keeps the image while the video has no frame", () => {
+        expect(get_background_layer(image, make_video(1), 0, 1000)).toBe(image);
+        expect(get_background_layer(null, make_video(1), 0, 1000)).toBeNull();
+    });
+
+    test("falls back to the image without a video", () => {
+        expect(get_background_layer(image, null, 0, 1000)).toBe(image);
+    });
+});
+
+describe("video time", () => {
+    test("is measured in seconds from the offset", () => {
+        expect(get_video_time(2500, 500)).toBe(2);
+        expect(get_video_time(0, 1000)).toBe(-1);
+        expect(get_video_time(1000, -500)).toBe(1.5);
+    });
+});
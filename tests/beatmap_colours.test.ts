@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { apply_beatmap_colours, get_beatmap_skin, get_combo_color, merge_skin } from "../src/skin/skin_config";
+import { build_catch_objects } from "../src/renderer/catch/catch_objects";
+import type { RenderHitObject } from "../src/renderer/render_types";
+import { get_combo_skip, HitObjectType, type IBeatmap } from "../src/types/beatmap";
+
+const colours = {
+    Combos: [
+        [255, 0, 0],
+        [0, 255, 0]
+    ],
+    SliderTrackOverride: [10, 20, 30],
+    SliderBorder: [40, 50, 60]
+} as unknown as IBeatmap["Colours"];
+
+describe("beatmap colours", () => {
+    test("replace the skin's combo and slider colours", () => {
+        const skin = apply_beatmap_colours(merge_skin(), colours);
+        expect(skin.combo_colors).toEqual(["rgb(255, 0, 0)", "rgb(0, 255, 0)"]);
+        expect(skin.slider_track_override).toBe("rgb(10, 20, 30)");
+        expect(skin.slider_border_color).toBe("rgb(40, 50, 60)");
+        expect(get_combo_color(skin, 3, 0.5)).toBe("rgba(0, 255, 0,0.5)");
+    });
+
+    test("missing sections keep the skin's", () => {
+        const base = merge_skin();
+        expect(apply_beatmap_colours(base, undefined)).toBe(base);
+
+        const skin = apply_beatmap_colours(base, { Combos: [] } as unknown as IBeatmap["Colours"]);
+        expect(skin.combo_colors).toEqual(base.combo_colors);
+        expect(skin.slider_border_color).toBe(base.slider_border_color);
+    });
+
+    test("ignoring beatmap colours keeps the skin untouched", () => {
+        const base = merge_skin();
+        const beatmap = { Colours: colours } as unknown as IBeatmap;
+        expect(get_beatmap_skin(base, beatmap, true)).toBe(base);
+        expect(get_beatmap_skin(base, beatmap, false).combo_colors).toEqual(["rgb(255, 0, 0)", "rgb(0, 255, 0)"]);
+    });
+});
+
+describe("combo colour skips", () => {
+    const make_circle = (time: number, type: number): RenderHitObject =>
+        ({ time, end_time: time, x: 256, y: 192, type, data: { pos: [256, 192] } }) as unknown as RenderHitObject;
+
+    test("reads the skip count from the type bits", () => {
+        expect(get_combo_skip(make_circle(0, HitObjectType.Circle | HitObjectType.NewCombo))).toBe(0);
+        expect(get_combo_skip(make_circle(0, HitObjectType.Circle | HitObjectType.NewCombo | (3 << 4)))).toBe(3);
+        expect(get_combo_skip(make_circle(0, HitObjectType.Circle | (7 << 4)))).toBe(7);
+    });
+
+    test("new combos move the colour on by one plus the skip", () => {
+        const objects = [
+            make_circle(0, HitObjectType.Circle | HitObjectType.NewCombo),
+            make_circle(100, HitObjectType.Circle),
+            make_circle(200, HitObjectType.Circle | HitObjectType.NewCombo | (2 << 4)),
+            make_circle(300, HitObjectType.Circle | HitObjectType.NewCombo)
+        ];
+        const beatmap = { TimingPoints: [] } as unknown as IBeatmap;
+
+        const fruits = build_catch_objects(beatmap, objects, 5, false);
+        expect(fruits.map((fruit) => fruit.combo_number)).toEqual([1, 1, 4, 5]);
+    });
+});
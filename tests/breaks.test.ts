@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { find_break_at, get_break_periods, get_skip_target, has_break_effect, MIN_BREAK_DURATION } from "../src/beatmap/breaks";
+import type { IBeatmap } from "../src/types/beatmap";
+
+const beatmap = {
+    Events: {
+        breaks: [
+            { startTime: 20000, endTime: 25000 },
+            { startTime: 5000, endTime: 8000 },
+            { startTime: 9000, endTime: 9000 },
+            { startTime: Number.NaN, endTime: 12000 }
+        ]
+    }
+} as unknown as IBeatmap;
+
+describe("breaks", () => {
+    test("keeps valid periods sorted by start", () => {
+        expect(get_break_periods(beatmap)).toEqual([
+            { start: 5000, end: 8000 },
+            { start: 20000, end: 25000 }
+        ]);
+        expect(get_break_periods({ Events: {} } as unknown as IBeatmap)).toEqual([]);
+    });
+
+    test("only long breaks get the overlay", () => {
+        expect(has_break_effect({ start: 0, end: MIN_BREAK_DURATION })).toBe(true);
+        expect(has_break_effect({ start: 0, end: MIN_BREAK_DURATION - 1 })).toBe(false);
+    });
+
+    test("finds the break a time is in, the end is already outside", () => {
+        const breaks = get_break_periods(beatmap);
+        expect(find_break_at(breaks, 4999)).toBeNull();
+        expect(find_break_at(breaks, 5000)).toEqual({ start: 5000, end: 8000 });
+        expect(find_break_at(breaks, 7999)).toEqual({ start: 5000, end: 8000 });
+        expect(find_break_at(breaks, 8000)).toBeNull();
+        expect(find_break_at(breaks, 22000)).toEqual({ start: 20000, end: 25000 });
+    });
+});
+
+describe("skipping", () => {
+    const period = { start: 5000, end: 8000 };
+
+    test("lands on the next object minus its approach time", () => {
+        expect(get_skip_target(9000, 450, period)).toBe(8550);
+        expect(get_skip_target(3000, 1200)).toBe(1800);
+    });
+
+    test("a long approach time never lands back inside the break", () => {
+        // low ar, the object starts fading in while the break is still running
+        const target = get_skip_target(9000, 1800, period);
+        expect(target).toBe(period.end);
+        expect(find_break_at([period], target)).toBeNull();
+    });
+});
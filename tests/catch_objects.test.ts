@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { apply_hyper_dash, build_catch_objects, calculate_catcher_width, type CatchHitObject } from "../src/renderer/catch/catch_objects";
+import { LegacyRandom } from "../src/math/legacy_random";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import type { RenderHitObject } from "../src/renderer/render_types";
+
+const make_fruit = (time: number, x: number): CatchHitObject => ({
+    kind: "fruit",
+    time,
+    x,
+    combo_number: 0,
+    hyper_dash: false,
+    hyper_dash_target: null
+});
+
+describe("apply_hyper_dash", () => {
+    test("marks fruits that cannot be reached by dashing", () => {
+        const objects = [make_fruit(0, 0), make_fruit(100, 512), make_fruit(1100, 500)];
+        apply_hyper_dash(objects, calculate_catcher_width(5));
+
+        expect(objects[0].hyper_dash).toBe(true);
+        expect(objects[0].hyper_dash_target).toBe(objects[1]);
+        expect(objects[1].hyper_dash).toBe(false);
+    });
+
+    test("ignores tiny droplets and bananas", () => {
+        const objects = [make_fruit(0, 0), { ...make_fruit(50, 512), kind: "tiny_droplet" as const }, make_fruit(2000, 10)];
+        apply_hyper_dash(objects, calculate_catcher_width(5));
+
+        expect(objects.some((obj) => obj.hyper_dash)).toBe(false);
+    });
+});
+
+describe("hard rock offsets", () => {
+    test("stacked fruits move by the unrounded random offset", () => {
+        const make_circle = (time: number): RenderHitObject =>
+            ({ time, end_time: time, x: 256, y: 192, type: HitObjectType.Circle, data: { pos: [256, 192] } }) as unknown as RenderHitObject;
+        const beatmap = { TimingPoints: [] } as unknown as IBeatmap;
+        const objects = build_catch_objects(beatmap, [make_circle(0), make_circle(50)], 5, true);
+
+        // same rolls as the processor: a side, then a double between 0 and a quarter of the time gap
+        const rng = new LegacyRandom(1337);
+        const right = rng.next_bool();
+        const offset = Math.min(20, rng.next_double_range(0, 50 / 4));
+
+        expect(objects[0].x).toBe(256);
+        expect(objects[1].x).toBeCloseTo(right ? 256 + offset : 256 - offset);
+        expect(Number.isInteger(offset)).toBe(false);
+    });
+});
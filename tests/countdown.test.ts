@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { get_countdown_events, get_lead_in } from "../src/beatmap/countdown";
+import { SampleSet, type IBeatmap, type ITimingPoint } from "../src/types/beatmap";
+
+const make_timing_point = (time: number, uninherited: number, sample_index: number): ITimingPoint => ({
+    time,
+    beatLength: uninherited === 1 ? 500 : -100,
+    meter: 4,
+    sampleSet: SampleSet.Normal,
+    sampleIndex: sample_index,
+    volume: 100,
+    uninherited,
+    effects: 0
+});
+
+describe("countdown", () => {
+    const make_beatmap = (countdown: number, audio_lead_in: number): IBeatmap =>
+        ({
+            General: { Countdown: countdown, CountdownOffset: 0, AudioLeadIn: audio_lead_in },
+            HitObjects: [{ time: 1700 }, { time: 2200 }]
+        }) as unknown as IBeatmap;
+
+    const points = [make_timing_point(200, 1, 1)];
+
+    test("lines the cues up on the first timing point's beats before the first object", () => {
+        const events = get_countdown_events(make_beatmap(1, 0), points);
+        expect(events.map((e) => [e.cue, e.time])).toEqual([
+            ["ready", -800],
+            ["count3", -300],
+            ["count2", 200],
+            ["count1", 700],
+            ["go", 1200]
+        ]);
+
+        const double = get_countdown_events(make_beatmap(3, 0), points);
+        expect(double.map((e) => e.time)).toEqual([450, 700, 950, 1200, 1450]);
+        expect(get_countdown_events(make_beatmap(0, 0), points)).toEqual([]);
+    });
+
+    test("an off-beat first object keeps the go cue on the last whole beat before it", () => {
+        const beatmap = { ...make_beatmap(1, 0), HitObjects: [{ time: 1800 }] } as unknown as IBeatmap;
+        expect(get_countdown_events(beatmap, points).map((e) => e.time)).toEqual([-300, 200, 700, 1200, 1700]);
+
+        // CountdownOffset moves every cue back by whole beats
+        const offset = { ...beatmap, General: { ...beatmap.General, CountdownOffset: 1 } } as IBeatmap;
+        expect(get_countdown_events(offset, points).at(-1)?.time).toBe(1200);
+    });
+
+    test("lead-in covers the countdown, the first approach and AudioLeadIn", () => {
+        const beatmap = make_beatmap(1, 0);
+        expect(get_lead_in(beatmap, 600, get_countdown_events(beatmap, points))).toBe(800);
+        expect(get_lead_in(beatmap, 2000, [])).toBe(300);
+        expect(get_lead_in(make_beatmap(0, 1500), 600, [])).toBe(1500);
+    });
+});
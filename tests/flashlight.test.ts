@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { draw_flashlight, FLASHLIGHT_BASE_RADIUS, get_combo_at, get_flashlight_radius } from "../src/renderer/flashlight";
+import type { IRenderBackend } from "../src/renderer/backend/render_backend";
+import type { IJudgement } from "../src/scoring/scoring_types";
+import { get_available_mods, Mods } from "../src/types/mods";
+
+type Call = { name: string; args: unknown[] };
+
+const create_recording_backend = (calls: Call[]): IRenderBackend =>
+    new Proxy({} as Record<string | symbol, unknown>, {
+        get:
+            (_target, key) =>
+            (...args: unknown[]) =>
+                calls.push({ name: String(key), args })
+    }) as unknown as IRenderBackend;
+
+const judgement = (time: number, combo: number): IJudgement => ({ time, state: { combo } }) as unknown as IJudgement;
+
+describe("flashlight", () => {
+    test("shrinks at 100 and 200 combo", () => {
+        expect(get_flashlight_radius(0, false)).toBe(FLASHLIGHT_BASE_RADIUS);
+        expect(get_flashlight_radius(99, false)).toBe(FLASHLIGHT_BASE_RADIUS);
+        expect(get_flashlight_radius(100, false)).toBeCloseTo(FLASHLIGHT_BASE_RADIUS * 0.9);
+        expect(get_flashlight_radius(200, false)).toBeCloseTo(FLASHLIGHT_BASE_RADIUS * 0.8);
+    });
+
+    test("opens up during breaks", () => {
+        expect(get_flashlight_radius(200, true)).toBeGreaterThan(get_flashlight_radius(0, false));
+    });
+
+    test("follows the combo of the last judgement", () => {
+        const judgements = [judgement(1000, 1), judgement(1500, 2), judgement(2000, 0)];
+        expect(get_combo_at(judgements, 999)).toBe(0);
+        expect(get_combo_at(judgements, 1500)).toBe(2);
+        expect(get_combo_at(judgements, 1999)).toBe(2);
+        expect(get_combo_at(judgements, 5000)).toBe(0);
+        expect(get_combo_at([], 1000)).toBe(0);
+    });
+
+    test("cuts a hole around the position without a mask texture", () => {
+        const calls: Call[] = [];
+        draw_flashlight(create_recording_backend(calls), [256, 192], 100, 0, { x: 0, y: 0, width: 512, height: 384 });
+
+        const arc = calls.find((call) => call.name === "arc_to");
+        expect(arc?.args.slice(0, 3)).toEqual([256, 192, 100]);
+        expect(calls.some((call) => call.name === "fill_path" && call.args[0] === "#000000")).toBe(true);
+        expect(calls.some((call) => call.name === "draw_rect")).toBe(false);
+    });
+
+    test("dims the light itself when asked", () => {
+        const calls: Call[] = [];
+        draw_flashlight(create_recording_backend(calls), [256, 192], 100, 0.8, { x: 0, y: 0, width: 512, height: 384 });
+        expect(calls.some((call) => call.name === "set_alpha" && call.args[0] === 0.8)).toBe(true);
+    });
+
+    test("is offered for standard and mania", () => {
+        expect(get_available_mods("standard").some((mod) => mod.value === Mods.Flashlight)).toBe(true);
+        expect(get_available_mods("mania").some((mod) => mod.value === Mods.Flashlight)).toBe(true);
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { calculate_playfield_layout, DEFAULT_RENDERER_CONFIG, PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from "../src/renderer/base_renderer";
+import { create_renderer } from "../src/renderer/renderer_factory";
+import { capture_beatmap_frame, type FrameSession } from "../src/player/frame_capture";
+import { export_clip, schedule_clip_hitsounds, type IClipAudioSource } from "../src/player/clip_export";
+import { PlayerHitsoundScheduler, type HitsoundOutput } from "../src/player/player_hitsound";
+import { create_screen_overlays } from "../src/renderer/hud/screen_overlays";
+import { BreakOverlay } from "../src/renderer/hud/break_overlay";
+import { CountdownOverlay } from "../src/renderer/hud/countdown_overlay";
+import { HudRenderer } from "../src/renderer/hud/hud_renderer";
+import type { IJudgement, IScoreSimulation } from "../src/scoring/scoring_types";
+import type { ICountdownEvent } from "../src/beatmap/countdown";
+import type { RasterCanvas } from "../src/renderer/backend/slider_raster";
+import type { IRenderBackend } from "../src/renderer/backend/render_backend";
+import { merge_skin } from "../src/skin/skin_config";
+import { HitObjectType, SampleSet, type IBeatmap, type ITimingPoint } from "../src/types/beatmap";
+import type { IBeatmapResources } from "../src/types/resources";
+
+describe("playfield layout", () => {
+    test("fits the playfield by the tighter side and centres it", () => {
+        const layout = calculate_playfield_layout(1920, 1080);
+        expect(layout.scale).toBeCloseTo((1080 * 0.9) / PLAYFIELD_HEIGHT);
+        expect(layout.offset_x).toBe(Math.floor((1920 - PLAYFIELD_WIDTH * layout.scale) / 2));
+        expect(layout.offset_y).toBe(Math.floor((1080 - PLAYFIELD_HEIGHT * layout.scale) / 2));
+    });
+
+    test("a full fill touches the edges of a 4:3 canvas", () => {
+        const layout = calculate_playfield_layout(1024, 768, 1);
+        expect(layout).toEqual({ scale: 2, offset_x: 0, offset_y: 0 });
+    });
+});
+
+describe("standalone capture", () => {
+    test("rejects unsupported modes", () => {
+        const beatmap = { General: { Mode: 9 } } as unknown as IBeatmap;
+        expect(() => create_renderer(beatmap, {} as IRenderBackend, merge_skin(), 0, DEFAULT_RENDERER_CONFIG)).toThrow("Unsupported game mode");
+    });
+
+    test("reports a failed capture as an error result instead of throwing", async () => {
+        const beatmap = { General: { Mode: 9 } } as unknown as IBeatmap;
+        const result = await capture_beatmap_frame(beatmap, 0, { width: 64, height: 48 });
+        expect(result.success).toBe(false);
+    });
+});
+
+describe("overlays", () => {
+    test("break overlay, countdown and hud in the order they are drawn", () => {
+        const countdown: ICountdownEvent[] = [{ time: 0, cue: "count3" }];
+        const overlays = create_screen_overlays(merge_skin(), null, [], countdown, { judgements: [] } as unknown as IScoreSimulation);
+        expect(overlays[0]).toBeInstanceOf(BreakOverlay);
+        expect(overlays[1]).toBeInstanceOf(CountdownOverlay);
+        expect(overlays[2]).toBeInstanceOf(HudRenderer);
+    });
+
+    test("no countdown or score leaves only the break overlay", () => {
+        expect(create_screen_overlays(merge_skin(), null, [], [], null)).toHaveLength(1);
+    });
+});
+
+describe("clip export", () => {
+    test("every frame is prepared before it is rendered", async () => {
+        const steps: string[] = [];
+        const session: FrameSession = {
+            canvas: { width: 64, height: 48 } as RasterCanvas,
+            prepare: async (time) => {
+                await Promise.resolve();
+                steps.push(`prepare ${time}`);
+            },
+            render: (time) => steps.push(`render ${time}`),
+            dispose: () => {}
+        };
+
+        const result = await export_clip(session, null, 1, { start: 0, end: 100, fps: 20, encoder: "raw" });
+        expect(result.success).toBe(true);
+        expect(steps).toEqual(["prepare 0", "render 0", "prepare 50", "render 50"]);
+    });
+
+    test("clip audio plays the score's bonus spins", () => {
+        const played: [string, number][] = [];
+        const output = {
+            play: () => {},
+            play_sample: () => {},
+            play_custom: (name: string, _volume: number, when: number) => played.push([name, when]) > 0,
+            play_sample_loop: () => true,
+            play_custom_loop: () => true,
+            stop_loops: () => {}
+        } as HitsoundOutput;
+        const timing_points: ITimingPoint[] = [
+            { time: 0, beatLength: 500, meter: 4, sampleSet: SampleSet.Normal, sampleIndex: 1, volume: 100, uninherited: 1, effects: 0 }
+        ];
+        const source = {
+            resources: {
+                beatmap: { version: 14, General: { Mode: 0 }, HitObjects: [{ type: HitObjectType.Spinner, time: 3000, endTime: 5000, hitSound: 0 }] },
+                files: new Map()
+            } as unknown as IBeatmapResources,
+            timing_points,
+            timing_resolver: null,
+            audio_offset: 0,
+            nightcore: false,
+            judgements: [{ kind: "spinner_bonus", time: 4500, object_time: 3000 } as IJudgement],
+            od: 5
+        } as unknown as IClipAudioSource;
+
+        schedule_clip_hitsounds(new PlayerHitsoundScheduler({ get_host_time: (time_ms) => time_ms / 1000 }, output), source, 2000, 6000);
+        expect(played).toContainEqual(["spinnerbonus", 4.5]);
+    });
+});
@@ -1,6 +1,8 @@
 import { describe, expect, test } from "bun:test";
 import { PlayerHitsoundScheduler } from "../src/player/player_hitsound";
-import { SampleSet, type ITimingPoint } from "../src/types/beatmap";
+import { TimingStateResolver } from "../src/renderer/standard/timing_state";
+import { HitObjectType, HitSoundType, SampleSet, type ITimingPoint } from "../src/types/beatmap";
+import type { IBeatmapResources } from "../src/types/resources";
 
 const make_timing_point = (time: number, sample_index: number): ITimingPoint => ({
     time,
@@ -28,3 +30,66 @@ describe("PlayerHitsoundScheduler timing selection", () => {
         expect(selected.sampleIndex).toBe(7);
     });
 });
+
+describe("PlayerHitsoundScheduler loops", () => {
+    const make_output = () => {
+        const calls: { name: string; when: number; until: number; rates?: { when: number; rate: number }[] }[] = [];
+        let stopped = 0;
+        const output = {
+            play: () => {},
+            play_sample: () => {},
+            play_custom: () => true,
+            play_sample_loop: (_set: SampleSet, name: string, _index: number, _volume: number, when: number, until: number) => {
+                calls.push({ name, when, until });
+                return true;
+            },
+            play_custom_loop: (name: string, _volume: number, when: number, until: number, rates?: { when: number; rate: number }[]) => {
+                calls.push({ name, when, until, rates });
+                return true;
+            },
+            stop_loops: () => {
+                stopped++;
+            }
+        };
+        return { output, calls, stopped: () => stopped };
+    };
+
+    const resources = {
+        beatmap: {
+            version: 14,
+            General: { Mode: 0 },
+            Difficulty: { SliderMultiplier: 1, SliderTickRate: 1 },
+            HitObjects: [
+                { type: HitObjectType.Slider, time: 1000, hitSound: HitSoundType.Whistle, length: 100, slides: 2 },
+                { type: HitObjectType.Spinner, time: 3000, endTime: 5000, hitSound: 0 }
+            ]
+        },
+        files: new Map()
+    } as unknown as IBeatmapResources;
+
+    test("slider bodies and spinners loop until they end and restart mid-object after a seek", () => {
+        const { output, calls, stopped } = make_output();
+        const points = [make_timing_point(0, 1)];
+        const scheduler = new PlayerHitsoundScheduler({ get_host_time: (time_ms) => time_ms / 1000 }, output);
+        scheduler.set_context(resources, points, new TimingStateResolver(points), 0);
+        scheduler.set_hitsound_lookahead(10000);
+        scheduler.update_hit_index(0);
+        scheduler.schedule_hitsounds(0);
+
+        // two spans of 500ms, sliderwhistle from the whistle bit
+        expect(calls.map((c) => [c.name, c.when, c.until])).toEqual([
+            ["sliderslide", 1, 2],
+            ["sliderwhistle", 1, 2],
+            ["spinnerspin", 3, 5]
+        ]);
+        expect(calls[2].rates?.map((r) => r.rate)).toEqual([0.5, 1.5]);
+
+        calls.length = 0;
+        const stops = stopped();
+        scheduler.update_hit_index(4000);
+        scheduler.schedule_hitsounds(4000);
+        expect(stopped()).toBe(stops + 1);
+        expect(calls.map((c) => [c.name, c.when, c.until])).toEqual([["spinnerspin", 4, 5]]);
+        expect(calls[0].rates?.[0].rate).toBe(1);
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { HudRenderer } from "../src/renderer/hud/hud_renderer";
+import { draw_skin_font, measure_skin_font } from "../src/renderer/hud/skin_font";
+import { DEFAULT_RENDERER_CONFIG } from "../src/renderer/base_renderer";
+import type { IRenderBackend, RenderImage } from "../src/renderer/backend/render_backend";
+import type { SkinFont } from "../src/skin/skin_elements";
+import { merge_skin } from "../src/skin/skin_config";
+import { apply_skin_ini, parse_skin_ini } from "../src/skin/skin_ini_parser";
+import { simulate_score } from "../src/scoring/scoring";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import { unwrap } from "../src/types/result";
+
+type Call = { name: string; args: unknown[] };
+
+// records every draw call, the hud only needs the size
+const create_recording_backend = (calls: Call[]): IRenderBackend =>
+    new Proxy({ width: 640, height: 480 } as Record<string | symbol, unknown>, {
+        get: (target, key) => (key in target ? target[key] : (...args: unknown[]) => calls.push({ name: String(key), args }))
+    }) as unknown as IRenderBackend;
+
+const glyph = (width: number): RenderImage => ({ source: {}, width, height: 20 }) as unknown as RenderImage;
+
+const font: SkinFont = { glyphs: { "0": glyph(10), "1": glyph(6), x: glyph(8) }, overlap: 2 };
+
+describe("skin fonts", () => {
+    test("measures glyphs with the overlap between them and skips missing ones", () => {
+        expect(measure_skin_font(font, "10", 1)).toBe(14);
+        expect(measure_skin_font(font, "1?0", 2)).toBe(28);
+        expect(measure_skin_font(font, "", 1)).toBe(0);
+    });
+
+    test("right aligned text ends at x", () => {
+        const calls: Call[] = [];
+        draw_skin_font(create_recording_backend(calls), font, "10x", 100, 0, 1, "right");
+
+        const draws = calls.filter((call) => call.name === "draw_image").map((call) => call.args as number[]);
+        expect(draws.length).toBe(3);
+        const [last_x, , last_width] = draws[2].slice(1);
+        expect(last_x + last_width).toBe(100);
+    });
+
+    test("skin.ini font prefixes and overlaps reach the skin config", () => {
+        const ini = parse_skin_ini("[Fonts]\nScorePrefix: fonts/score\nScoreOverlap: 3\nComboPrefix: fonts/combo\nComboOverlap: -1\n");
+        const skin = apply_skin_ini(merge_skin(), ini);
+        expect(skin.score_prefix).toBe("fonts/score");
+        expect(skin.score_overlap).toBe(3);
+        expect(skin.combo_prefix).toBe("fonts/combo");
+        expect(skin.combo_overlap).toBe(-1);
+    });
+});
+
+describe("hud", () => {
+    const mania = {
+        version: 14,
+        General: { Mode: 3 },
+        Difficulty: { HPDrainRate: 8, CircleSize: 4, OverallDifficulty: 8, ApproachRate: 5, SliderMultiplier: 1.4, SliderTickRate: 1 },
+        TimingPoints: [{ time: 0, beatLength: 500, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }],
+        Events: { background: null, video: null, breaks: [] },
+        HitObjects: [
+            { type: HitObjectType.Circle, time: 1000, x: 64, y: 192, hitSound: 0 },
+            { type: HitObjectType.Hold, time: 1500, x: 192, y: 192, hitSound: 0, endTime: 2500 },
+            { type: HitObjectType.Circle, time: 2000, x: 320, y: 192, hitSound: 0 }
+        ]
+    } as unknown as IBeatmap;
+
+    test("the other modes get a perfect play judged when each object ends", () => {
+        const simulation = unwrap(simulate_score({ beatmap: mania }));
+        expect(simulation.judgements.map((judgement) => judgement.time)).toEqual([1000, 2000, 2500]);
+        expect(simulation.final.max_combo).toBe(3);
+        expect(simulation.final.hits.count_300).toBe(3);
+        expect(simulation.final.accuracy).toBe(1);
+    });
+
+    test("draws the score, accuracy and combo for a mania play", () => {
+        const calls: Call[] = [];
+        const hud = new HudRenderer(merge_skin(), null, unwrap(simulate_score({ beatmap: mania })));
+        hud.render(create_recording_backend(calls), 2100, DEFAULT_RENDERER_CONFIG);
+
+        const texts = calls.filter((call) => call.name === "draw_text").map((call) => call.args[0]);
+        expect(texts).toContain("100.00%");
+        expect(texts).toContain("2x");
+        expect(texts).toContain("300");
+        expect(texts.some((text) => typeof text === "string" && /^\d{8}$/.test(text) && Number(text) > 0)).toBe(true);
+    });
+
+    test("config toggles hide each part", () => {
+        const calls: Call[] = [];
+        const hud = new HudRenderer(merge_skin(), null, unwrap(simulate_score({ beatmap: mania })));
+        const config = {
+            ...DEFAULT_RENDERER_CONFIG,
+            show_score: false,
+            show_accuracy: false,
+            show_combo: false,
+            show_judgements: false,
+            show_health_bar: false
+        };
+        hud.render(create_recording_backend(calls), 2100, config);
+
+        expect(calls.some((call) => call.name === "draw_text" || call.name === "draw_rect" || call.name === "draw_image")).toBe(false);
+    });
+});
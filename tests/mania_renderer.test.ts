@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import { ManiaRenderer } from "../src/renderer/mania/mania_renderer";
+import { DEFAULT_RENDERER_CONFIG } from "../src/renderer/base_renderer";
+import type { IRenderBackend, RenderImage } from "../src/renderer/backend/render_backend";
+import { merge_skin } from "../src/skin/skin_config";
+import { apply_skin_ini, parse_skin_ini } from "../src/skin/skin_ini_parser";
+import type { StandardSkinElements } from "../src/skin/skin_elements";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import { build_render_objects } from "../src/renderer/render_objects";
+import type { IReplay } from "../src/replay/replay_types";
+
+type Call = { name: string; args: unknown[] };
+
+const create_recording_backend = (calls: Call[]): IRenderBackend =>
+    new Proxy({ width: 640, height: 480 } as Record<string | symbol, unknown>, {
+        get: (target, key) => (key in target ? target[key] : (...args: unknown[]) => calls.push({ name: String(key), args }))
+    }) as unknown as IRenderBackend;
+
+const image = (name: string, width: number, height: number): RenderImage => ({ source: { name }, width, height }) as unknown as RenderImage;
+
+const beatmap = {
+    version: 14,
+    General: { Mode: 3 },
+    Difficulty: { HPDrainRate: 8, CircleSize: 4, OverallDifficulty: 8, ApproachRate: 5, SliderMultiplier: 1.4, SliderTickRate: 1 },
+    TimingPoints: [{ time: 0, beatLength: 500, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }],
+    Events: { background: null, video: null, breaks: [] },
+    HitObjects: [
+        { type: HitObjectType.Circle, time: 1000, x: 64, y: 192, hitSound: 0 },
+        { type: HitObjectType.Hold, time: 1000, x: 192, y: 192, hitSound: 0, endTime: 1400 }
+    ]
+} as unknown as IBeatmap;
+
+const render = (skin_ini: string, textures: Record<string, RenderImage>): Call[] => {
+    const calls: Call[] = [];
+    const skin = apply_skin_ini(merge_skin(), parse_skin_ini(skin_ini));
+    const elements = { mania_textures: textures } as unknown as StandardSkinElements;
+    const renderer = new ManiaRenderer(
+        create_recording_backend(calls),
+        skin,
+        0,
+        { ...DEFAULT_RENDERER_CONFIG, enable_snap_colours: false },
+        elements
+    );
+    renderer.initialize(beatmap);
+    renderer.render(900);
+    return calls;
+};
+
+const images_drawn = (calls: Call[]): RenderImage[] =>
+    calls.filter((call) => call.name === "draw_image" || call.name === "draw_image_part").map((call) => call.args[0] as RenderImage);
+
+describe("mania renderer", () => {
+    test("draws the skin's note, head, body and tail images", () => {
+        const note = image("note", 30, 10);
+        const head = image("head", 30, 10);
+        const body = image("body", 30, 5);
+        const tail = image("tail", 30, 10);
+        const drawn = images_drawn(
+            render("", { "mania-note1": note, "mania-note2": note, "mania-note2h": head, "mania-note2l": body, "mania-note2t": tail })
+        );
+
+        for (const texture of [note, head, body, tail]) {
+            expect(drawn).toContain(texture);
+        }
+    });
+
+    test("repeats the hold body unless NoteBodyStyle stretches it", () => {
+        const body = image("body", 30, 5);
+        const count_bodies = (skin_ini: string): number => images_drawn(render(skin_ini, { "mania-note2l": body })).filter((t) => t === body).length;
+
+        expect(count_bodies("[Mania]\nKeys: 4\nNoteBodyStyle: 0\n")).toBe(1);
+        expect(count_bodies("[Mania]\nKeys: 4\nNoteBodyStyle: 1\n")).toBeGreaterThan(1);
+        expect(count_bodies("[Mania]\nKeys: 4\nNoteBodyStyle: 2\n")).toBeGreaterThan(1);
+    });
+
+    test("falls back to rects without note images", () => {
+        expect(images_drawn(render("", {}))).toHaveLength(0);
+    });
+
+    test("places the stage at ColumnStart and flips it for UpsideDown", () => {
+        const calls = render("[Mania]\nKeys: 4\nColumnStart: 100\nUpsideDown: 1\n", {});
+        const frame = calls.find((call) => call.name === "draw_rect" && call.args[4] === "#f0f4ff");
+
+        expect(frame?.args[0]).toBeCloseTo(80);
+        expect(calls.some((call) => call.name === "scale" && call.args[0] === 1 && call.args[1] === -1)).toBe(true);
+    });
+
+    test("an explicit scroll direction beats the skin's UpsideDown", () => {
+        const calls: Call[] = [];
+        const skin = apply_skin_ini(merge_skin(), parse_skin_ini("[Mania]\nKeys: 4\nUpsideDown: 1\n"));
+        const renderer = new ManiaRenderer(create_recording_backend(calls), skin);
+        renderer.initialize(beatmap);
+        renderer.set_mania_settings({ scroll_direction: "down" });
+        renderer.render(900);
+
+        expect(calls.some((call) => call.name === "scale" && call.args[1] === -1)).toBe(false);
+    });
+
+    test("snap divisors are only worked out once snap colours are turned on", () => {
+        const half_beat = { ...beatmap, HitObjects: [{ type: HitObjectType.Circle, time: 1250, x: 64, y: 192, hitSound: 0 }] } as unknown as IBeatmap;
+        expect(build_render_objects(half_beat)[0].snap_divisor).toBeUndefined();
+
+        const calls: Call[] = [];
+        const renderer = new ManiaRenderer(create_recording_backend(calls), merge_skin());
+        renderer.initialize(half_beat);
+        const has_half_beat_colour = () => calls.some((call) => call.name === "draw_rect" && call.args[4] === "#ed1121");
+
+        renderer.render(1100);
+        expect(has_half_beat_colour()).toBe(false);
+
+        renderer.update_config({ enable_snap_colours: true });
+        renderer.render(1100);
+        expect(has_half_beat_colour()).toBe(true);
+    });
+
+    test("a replay's held column lights that column only", () => {
+        const glow_beams = (keys: number): Call[] => {
+            const calls: Call[] = [];
+            const renderer = new ManiaRenderer(create_recording_backend(calls), merge_skin());
+            renderer.initialize(beatmap);
+            renderer.set_replay({ frames: [{ time: 0, x: keys, y: 0, keys }] } as unknown as IReplay);
+            renderer.render(500);
+            return calls.filter((call) => call.name === "draw_rect" && call.args[4] === "#cfe9ff");
+        };
+
+        expect(glow_beams(0)).toHaveLength(0);
+        const first = glow_beams(0b0001);
+        const third = glow_beams(0b0100);
+        expect(first).toHaveLength(1);
+        expect(third).toHaveLength(1);
+        expect(third[0].args[0] as number).toBeGreaterThan(first[0].args[0] as number);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { ManiaScroll, get_scroll_time } from "../src/renderer/mania/mania_scroll";
+import { SampleSet, type ITimingPoint } from "../src/types/beatmap";
+
+const make_timing_point = (time: number, beat_length: number, uninherited: number): ITimingPoint => ({
+    time,
+    beatLength: beat_length,
+    meter: 4,
+    sampleSet: SampleSet.Normal,
+    sampleIndex: 0,
+    volume: 100,
+    uninherited,
+    effects: 0
+});
+
+// 120bpm with the sv doubled from 1000 to 2000
+const points: ITimingPoint[] = [make_timing_point(0, 500, 1), make_timing_point(1000, -50, 0), make_timing_point(2000, -100, 0)];
+
+describe("ManiaScroll", () => {
+    test("constant ignores sv", () => {
+        const scroll = new ManiaScroll(points, 3000, "constant");
+        expect(scroll.get_distance(1500, 500)).toBe(1000);
+        expect(scroll.get_time_at_distance(500, 1000)).toBe(1500);
+    });
+
+    test("sequential moves notes by the sv between them and the current time", () => {
+        const scroll = new ManiaScroll(points, 3000, "sequential");
+        // 500ms at 1x then 500ms at 2x, then a second at 2x and 500ms back at 1x
+        expect(scroll.get_distance(1500, 500)).toBe(1500);
+        expect(scroll.get_distance(2500, 500)).toBe(3000);
+        expect(scroll.get_time_at_distance(500, 1500)).toBe(1500);
+    });
+
+    test("overlapping scales each note by its own sv", () => {
+        const scroll = new ManiaScroll(points, 3000, "overlapping");
+        expect(scroll.get_distance(1500, 500)).toBe(2000);
+        expect(scroll.get_distance(2500, 500)).toBe(2000);
+        // culling has to cover the slowest section
+        expect(scroll.get_time_at_distance(500, 1000)).toBe(1500);
+    });
+
+    test("bpm changes scroll relative to the most common beat length", () => {
+        const bpm_points = [make_timing_point(0, 500, 1), make_timing_point(4000, 250, 1)];
+        const scroll = new ManiaScroll(bpm_points, 5000, "sequential");
+        expect(scroll.get_distance(4500, 4000)).toBe(1000);
+        expect(get_scroll_time(100)).toBe(get_scroll_time(40));
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_MANIA_SETTINGS, get_lane_covers, merge_mania_settings } from "../src/renderer/mania/mania_settings";
+import { Mods } from "../src/types/mods";
+
+describe("mania settings", () => {
+    test("a partial update keeps everything it does not name", () => {
+        const current = merge_mania_settings(DEFAULT_MANIA_SETTINGS, { scroll_speed: 20, column_width: 40 });
+        const merged = merge_mania_settings(current, { scroll_direction: "up" });
+
+        expect(merged).toEqual({ ...DEFAULT_MANIA_SETTINGS, scroll_speed: 20, column_width: 40, scroll_direction: "up" });
+    });
+
+    test("sizes that are not positive numbers go back to the skin's", () => {
+        const current = merge_mania_settings(DEFAULT_MANIA_SETTINGS, { hit_position: 340, column_width: 40 });
+
+        expect(merge_mania_settings(current, { hit_position: Number.NaN }).hit_position).toBeNull();
+        expect(merge_mania_settings(current, { column_width: Number.POSITIVE_INFINITY }).column_width).toBeNull();
+        expect(merge_mania_settings(current, { column_width: -5 }).column_width).toBeNull();
+        expect(merge_mania_settings(current, { hit_position: null }).hit_position).toBeNull();
+    });
+
+    test("the lane cover stays within 0 to 1 and a broken scroll speed is ignored", () => {
+        expect(merge_mania_settings(DEFAULT_MANIA_SETTINGS, { lane_cover: 1.5 }).lane_cover).toBe(1);
+        expect(merge_mania_settings(DEFAULT_MANIA_SETTINGS, { lane_cover: -1 }).lane_cover).toBe(0);
+        expect(merge_mania_settings(DEFAULT_MANIA_SETTINGS, { lane_cover: Number.NaN }).lane_cover).toBe(DEFAULT_MANIA_SETTINGS.lane_cover);
+        expect(merge_mania_settings(DEFAULT_MANIA_SETTINGS, { scroll_speed: Number.NaN }).scroll_speed).toBe(DEFAULT_MANIA_SETTINGS.scroll_speed);
+    });
+});
+
+describe("lane covers", () => {
+    test("nothing is covered without mods or a lane cover", () => {
+        expect(get_lane_covers(0, 0)).toEqual([]);
+    });
+
+    test("hidden covers from the hit position and fade in from the far end", () => {
+        expect(get_lane_covers(Mods.Hidden, 0)).toEqual([{ coverage: 0.25, from_hit_position: true }]);
+        expect(get_lane_covers(Mods.FadeIn, 0)).toEqual([{ coverage: 0.6, from_hit_position: false }]);
+    });
+
+    test("the lane cover is drawn on top of hidden or fade in", () => {
+        expect(get_lane_covers(Mods.Hidden, 0.3)).toEqual([
+            { coverage: 0.25, from_hit_position: true },
+            { coverage: 0.3, from_hit_position: false }
+        ]);
+        expect(get_lane_covers(Mods.FadeIn, 0.3).map((cover) => cover.coverage)).toEqual([0.6, 0.3]);
+    });
+
+    test("hidden wins when both mods are set", () => {
+        expect(get_lane_covers(Mods.Hidden | Mods.FadeIn, 0)).toEqual([{ coverage: 0.25, from_hit_position: true }]);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { build_stages, get_column_fallback_index, resolve_special_lane } from "../src/renderer/mania/mania_stages";
+import { merge_skin } from "../src/skin/skin_config";
+import { apply_skin_ini, parse_skin_ini } from "../src/skin/skin_ini_parser";
+import type { IBeatmap } from "../src/types/beatmap";
+
+const beatmap = (special_style: number): IBeatmap => ({ General: { Mode: 3, SpecialStyle: special_style } }) as unknown as IBeatmap;
+
+const skin_with_style = (keys: number, style: number) =>
+    apply_skin_ini(merge_skin(), parse_skin_ini(`[Mania]\nKeys: ${keys}\nSpecialStyle: ${style}\n`));
+
+describe("mania stages", () => {
+    test("ten keys and up are split in two", () => {
+        expect(build_stages(beatmap(0), merge_skin(), 10)).toEqual([
+            { start: 0, key_count: 5, special_lane: null },
+            { start: 5, key_count: 5, special_lane: null }
+        ]);
+    });
+
+    test("the first stage takes the odd key of a split", () => {
+        expect(build_stages(beatmap(0), merge_skin(), 11).map((stage) => [stage.start, stage.key_count])).toEqual([
+            [0, 6],
+            [6, 5]
+        ]);
+    });
+
+    test("fewer keys stay on one stage", () => {
+        expect(build_stages(beatmap(0), merge_skin(), 7)).toEqual([{ start: 0, key_count: 7, special_lane: null }]);
+        expect(build_stages(beatmap(0), merge_skin(), 9)).toHaveLength(1);
+    });
+});
+
+describe("special style", () => {
+    test("only maps asking for it get a scratch column", () => {
+        expect(resolve_special_lane(beatmap(0), merge_skin(), 8, 0)).toBeNull();
+        expect(resolve_special_lane(beatmap(1), merge_skin(), 1, 0)).toBeNull();
+    });
+
+    test("the scratch is on the left unless the skin puts it on the right", () => {
+        expect(resolve_special_lane(beatmap(1), merge_skin(), 8, 0)).toBe(0);
+        expect(resolve_special_lane(beatmap(1), skin_with_style(8, 1), 8, 0)).toBe(0);
+        expect(resolve_special_lane(beatmap(1), skin_with_style(8, 2), 8, 0)).toBe(7);
+    });
+
+    test("a second stage mirrors the first", () => {
+        const stages = build_stages(beatmap(1), merge_skin(), 12);
+        expect(stages.map((stage) => stage.special_lane)).toEqual([0, 5]);
+
+        const right = build_stages(beatmap(1), skin_with_style(6, 2), 12);
+        expect(right.map((stage) => stage.special_lane)).toEqual([5, 0]);
+    });
+});
+
+describe("column fallback textures", () => {
+    const columns = (key_count: number, special_lane: number | null = null): string[] =>
+        Array.from({ length: key_count }, (_, column) => get_column_fallback_index({ start: 0, key_count, special_lane }, column));
+
+    test("alternate from the edges with the middle of odd stages special", () => {
+        expect(columns(4)).toEqual(["1", "2", "2", "1"]);
+        expect(columns(5)).toEqual(["1", "2", "s", "2", "1"]);
+        expect(columns(7)).toEqual(["1", "2", "1", "s", "1", "2", "1"]);
+    });
+
+    test("the scratch column is special and the rest are laid out without it", () => {
+        expect(columns(8, 0)).toEqual(["s", "1", "2", "1", "s", "1", "2", "1"]);
+        expect(columns(5, 4)).toEqual(["1", "2", "2", "1", "s"]);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { get_position_transform, type MirrorAxis } from "../src/mods";
+import { StandardRenderer } from "../src/renderer/standard/standard_renderer";
+import { DEFAULT_RENDERER_CONFIG } from "../src/renderer/base_renderer";
+import type { IRenderBackend } from "../src/renderer/backend/render_backend";
+import type { RenderHitObject, RenderSliderData } from "../src/renderer/render_types";
+import { merge_skin } from "../src/skin/skin_config";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import { Mods } from "../src/types/mods";
+
+// every call is a no-op, only the preprocessed objects are looked at
+const backend = new Proxy({ width: 640, height: 480 } as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : () => undefined)
+}) as unknown as IRenderBackend;
+
+const beatmap = {
+    version: 14,
+    General: { Mode: 0, StackLeniency: 0.7 },
+    Difficulty: { HPDrainRate: 5, CircleSize: 4, OverallDifficulty: 8, ApproachRate: 9, SliderMultiplier: 1.4, SliderTickRate: 1 },
+    TimingPoints: [{ time: 0, beatLength: 300, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }],
+    Events: { background: null, video: null, breaks: [] },
+    HitObjects: [
+        {
+            type: HitObjectType.Slider,
+            time: 1000,
+            x: 100,
+            y: 100,
+            hitSound: 0,
+            curveType: "L",
+            curvePoints: [{ x: 300, y: 100 }],
+            slides: 1,
+            length: 200
+        },
+        // stacked, the first one is moved up and left
+        { type: HitObjectType.Circle, time: 2000, x: 100, y: 300, hitSound: 0 },
+        { type: HitObjectType.Circle, time: 2100, x: 100, y: 300, hitSound: 0 }
+    ]
+} as unknown as IBeatmap;
+
+const get_objects = (mods: number, mirror_axis: MirrorAxis): RenderHitObject[] => {
+    const renderer = new StandardRenderer(backend, merge_skin(), mods, { ...DEFAULT_RENDERER_CONFIG, mirror_axis, use_high_dpi: false });
+    renderer.initialize(beatmap);
+    return (renderer as unknown as { objects: RenderHitObject[] }).objects;
+};
+
+describe("get_position_transform", () => {
+    test("does nothing without mirror or hard rock", () => {
+        expect(get_position_transform(0)).toBeNull();
+        expect(get_position_transform(Mods.Hidden, "both")).toBeNull();
+    });
+
+    test("flips along each axis", () => {
+        expect(get_position_transform(Mods.Mirror, "horizontal")?.([100, 50])).toEqual([412, 50]);
+        expect(get_position_transform(Mods.Mirror, "vertical")?.([100, 50])).toEqual([100, 334]);
+        expect(get_position_transform(Mods.Mirror, "both")?.([100, 50])).toEqual([412, 334]);
+    });
+
+    test("hard rock's vertical flip stacks with mirror", () => {
+        expect(get_position_transform(Mods.HardRock | Mods.Mirror, "horizontal")?.([100, 50])).toEqual([412, 334]);
+        expect(get_position_transform(Mods.HardRock | Mods.Mirror, "vertical")?.([100, 50])).toEqual([100, 50]);
+    });
+});
+
+describe("mirrored renderer objects", () => {
+    for (const axis of ["horizontal", "vertical", "both"] as MirrorAxis[]) {
+        const flip = get_position_transform(Mods.Mirror, axis)!;
+
+        test(`${axis} mirrors slider heads, control points and path ends`, () => {
+            const [slider] = get_objects(Mods.Mirror, axis);
+            const data = slider.data as RenderSliderData;
+
+            expect(data.pos).toEqual(flip([100, 100]));
+            expect(data.control_points).toEqual([flip([300, 100])]);
+            expect(slider.end_pos).toEqual(flip([300, 100]));
+        });
+
+        test(`${axis} stacks after mirroring, so stacks still lean up and left`, () => {
+            const [, stacked, top] = get_objects(Mods.Mirror, axis);
+            const [x, y] = flip([100, 300]);
+
+            expect(top.stack_offset).toEqual([0, 0]);
+            expect((top.data as { pos: [number, number] }).pos).toEqual([x, y]);
+            expect(stacked.stack_offset[0]).toBeLessThan(0);
+            expect(stacked.stack_offset[1]).toBeLessThan(0);
+            expect((stacked.data as { pos: [number, number] }).pos).toEqual([x + stacked.stack_offset[0], y + stacked.stack_offset[1]]);
+        });
+    }
+
+    test("the axis setting is ignored without the mod", () => {
+        const [slider] = get_objects(0, "both");
+        expect((slider.data as RenderSliderData).pos).toEqual([100, 100]);
+    });
+});
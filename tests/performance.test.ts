@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { calculate_pp } from "../src/difficulty/performance";
+import { get_standard_hits_from_accuracy } from "../src/difficulty/standard/standard_performance";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import { Mods } from "../src/types/mods";
+import { unwrap } from "../src/types/result";
+
+const make_beatmap = (mode: number, hit_objects: Record<string, unknown>[]): IBeatmap =>
+    ({
+        version: 14,
+        General: { Mode: mode, StackLeniency: 0.7 },
+        Difficulty: { HPDrainRate: 5, CircleSize: 4, OverallDifficulty: 8, ApproachRate: 9, SliderMultiplier: 1.4, SliderTickRate: 1 },
+        TimingPoints: [{ time: 0, beatLength: 300, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }],
+        HitObjects: hit_objects
+    }) as unknown as IBeatmap;
+
+const make_jumps = (count: number): Record<string, unknown>[] =>
+    Array.from({ length: count }, (_, i) => ({ type: HitObjectType.Circle, time: 1000 + i * 150, x: i % 2 === 0 ? 100 : 400, y: 192, hitSound: 0 }));
+
+// a four key roll
+const make_stream = (count: number): Record<string, unknown>[] =>
+    Array.from({ length: count }, (_, i) => ({ type: HitObjectType.Circle, time: 1000 + i * 80, x: 64 + (i % 4) * 128, y: 192, hitSound: 0 }));
+
+describe("calculate_pp", () => {
+    test("standard pp drops with accuracy and misses", () => {
+        const beatmap = make_beatmap(0, make_jumps(300));
+        const ss = unwrap(calculate_pp({ beatmap }));
+        const high = unwrap(calculate_pp({ beatmap, accuracy: 98 }));
+        const low = unwrap(calculate_pp({ beatmap, accuracy: 95 }));
+        const missed = unwrap(calculate_pp({ beatmap, hits: { count_miss: 3 }, combo: 150 }));
+        const hidden = unwrap(calculate_pp({ beatmap, mods: Mods.Hidden }));
+
+        expect(ss.accuracy).toBe(100);
+        expect(ss.pp).toBeGreaterThan(high.pp);
+        expect(high.pp).toBeGreaterThan(low.pp);
+        // without 50s the accuracy moves in steps, so like osu-tools it lands near 95 rather than on it
+        expect(low.accuracy).toBeCloseTo(95, 0);
+        expect(missed.hits.count_300).toBe(297);
+        expect(missed.pp).toBeLessThan(ss.pp);
+        expect(hidden.pp).toBeGreaterThan(ss.pp);
+        expect(ss.breakdown.aim).toBeGreaterThan(0);
+        expect(ss.breakdown.flashlight).toBe(0);
+    });
+
+    test("accuracy goes into 100s before 50s like osu-tools", () => {
+        // osu-tools simulate osu with --accuracy 95 / 98 on 1000 objects, and 95 with 10 misses
+        expect(get_standard_hits_from_accuracy(1000, 0.95, 0)).toMatchObject({ count_300: 925, count_100: 75, count_50: 0, count_miss: 0 });
+        expect(get_standard_hits_from_accuracy(1000, 0.98, 0)).toMatchObject({ count_300: 970, count_100: 30, count_50: 0 });
+        expect(get_standard_hits_from_accuracy(1000, 0.95, 10)).toMatchObject({ count_300: 930, count_100: 60, count_50: 0, count_miss: 10 });
+    });
+
+    test("50s only come in below what 100s alone can reach", () => {
+        // all 100s is a third, so a quarter needs 50s
+        expect(get_standard_hits_from_accuracy(600, 1 / 3, 0)).toMatchObject({ count_300: 0, count_100: 600, count_50: 0 });
+        expect(get_standard_hits_from_accuracy(600, 0.25, 0)).toMatchObject({ count_300: 0, count_100: 300, count_50: 300 });
+    });
+
+    test("mania pp scales with accuracy and nofail", () => {
+        const beatmap = make_beatmap(3, make_stream(400));
+        const ss = unwrap(calculate_pp({ beatmap }));
+        const lower = unwrap(calculate_pp({ beatmap, accuracy: 96 }));
+        const no_fail = unwrap(calculate_pp({ beatmap, mods: Mods.NoFail }));
+
+        expect(ss.star_rating).toBeGreaterThan(0);
+        expect(ss.hits.count_geki).toBe(400);
+        expect(ss.pp).toBeGreaterThan(lower.pp);
+        expect(no_fail.pp).toBeCloseTo(ss.pp * 0.75, 5);
+        expect(ss.breakdown.difficulty).toBe(ss.pp);
+    });
+
+    test("rejects unsupported modes", () => {
+        const result = calculate_pp({ beatmap: make_beatmap(1, make_jumps(10)) });
+        expect(result.success).toBe(false);
+    });
+});
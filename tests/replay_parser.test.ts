@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { parse_replay } from "../src/replay/replay_parser";
+import { get_replay_keys, get_replay_position } from "../src/replay/replay_frames";
+import { ReplayKeys } from "../src/replay/replay_types";
+import { Mods } from "../src/types/mods";
+import { unwrap } from "../src/types/result";
+
+// "0|256|192|0,-1|256|192|0,16|260|190|5,16|270|185|0,16|280|180|10,-12345|0|0|7659" as an lzma alone stream
+const FRAMES_LZMA = "XQAABAD//////////wAYHwJDUQO0DobDyTn5HndgN+Krnf2h2rVyMA3xpg4bK2MFpJS63cBWQFq6T1o44KJDDr3//6FjgAA=";
+
+const encode_string = (value: string): number[] => {
+    const bytes = Array.from(new TextEncoder().encode(value));
+    return value ? [0x0b, bytes.length, ...bytes] : [0x00];
+};
+
+const build_osr = (mode: number, mods: number): ArrayBuffer => {
+    const frames = Uint8Array.from(atob(FRAMES_LZMA), (c) => c.charCodeAt(0));
+    const bytes: number[] = [];
+    const push_int = (value: number, size: number) => {
+        for (let i = 0; i < size; i++) {
+            bytes.push(Math.floor(value / Math.pow(2, 8 * i)) & 0xff);
+        }
+    };
+
+    bytes.push(mode);
+    push_int(20240101, 4);
+    bytes.push(...encode_string("d41d8cd98f00b204e9800998ecf8427e"), ...encode_string("peppy"), ...encode_string(""));
+    for (const count of [300, 12, 3, 40, 6, 2]) {
+        push_int(count, 2);
+    }
+    push_int(1234567, 4);
+    push_int(512, 2);
+    bytes.push(0);
+    push_int(mods, 4);
+    bytes.push(...encode_string("0|1,1000|0.5,"));
+    push_int(0, 8);
+    push_int(frames.length, 4);
+    bytes.push(...frames);
+    push_int(42, 8);
+
+    return Uint8Array.from(bytes).buffer;
+};
+
+describe("parse_replay", () => {
+    test("reads the header and decodes the frames", () => {
+        const replay = unwrap(parse_replay(build_osr(0, Mods.Hidden | Mods.DoubleTime)));
+
+        expect(replay.player_name).toBe("peppy");
+        expect(replay.replay_hash).toBe("");
+        expect(replay.hits).toEqual({ count_geki: 40, count_300: 300, count_katu: 6, count_100: 12, count_50: 3, count_miss: 2 });
+        expect(replay.mods).toBe(Mods.Hidden | Mods.DoubleTime);
+        expect(replay.life_bar).toEqual([
+            { time: 0, value: 1 },
+            { time: 1000, value: 0.5 }
+        ]);
+        expect(replay.score_id).toBe(42);
+        expect(replay.seed).toBe(7659);
+        expect(replay.frames.map((frame) => frame.time)).toEqual([0, 0, 15, 31, 47]);
+
+        expect(get_replay_keys(replay.frames, 20)).toBe(ReplayKeys.M1 | ReplayKeys.K1);
+        expect(get_replay_keys(replay.frames, 31)).toBe(0);
+        expect(get_replay_position(replay.frames, 23)).toEqual([265, 187.5]);
+    });
+
+    test("uses x as the held columns for mania and rejects garbage", () => {
+        const replay = unwrap(parse_replay(build_osr(3, 0)));
+        expect(replay.frames[2].keys).toBe(260);
+
+        expect(parse_replay(new Uint8Array([0, 1, 2]).buffer).success).toBe(false);
+    });
+});
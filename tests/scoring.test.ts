@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { simulate_score, get_score_state_at } from "../src/scoring/scoring";
+import { HitResult } from "../src/scoring/scoring_types";
+import { ReplayKeys, type IReplayFrame } from "../src/replay/replay_types";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import { unwrap } from "../src/types/result";
+
+const beatmap = {
+    version: 14,
+    General: { Mode: 0, StackLeniency: 0.7 },
+    Difficulty: { HPDrainRate: 5, CircleSize: 4, OverallDifficulty: 8, ApproachRate: 9, SliderMultiplier: 1.4, SliderTickRate: 1 },
+    TimingPoints: [{ time: 0, beatLength: 300, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }],
+    Events: { background: null, video: null, breaks: [] },
+    HitObjects: [
+        { type: HitObjectType.Circle, time: 1000, x: 100, y: 100, hitSound: 0 },
+        { type: HitObjectType.Circle, time: 1300, x: 300, y: 100, hitSound: 0 },
+        {
+            type: HitObjectType.Slider,
+            time: 1600,
+            x: 100,
+            y: 300,
+            hitSound: 0,
+            curveType: "L",
+            curvePoints: [{ x: 380, y: 300 }],
+            slides: 1,
+            length: 280
+        },
+        { type: HitObjectType.Spinner, time: 2500, x: 256, y: 192, hitSound: 0, endTime: 4500 }
+    ]
+} as unknown as IBeatmap;
+
+const press = (time: number, x: number, y: number): IReplayFrame[] => [
+    { time, x, y, keys: ReplayKeys.M1 | ReplayKeys.K1 },
+    { time: time + 40, x, y, keys: 0 }
+];
+
+describe("simulate_score", () => {
+    test("autoplay gets a full combo with only greats", () => {
+        const simulation = unwrap(simulate_score({ beatmap }));
+        const { final } = simulation;
+
+        expect(final.hits.count_300).toBe(4);
+        expect(final.hits.count_miss).toBe(0);
+        expect(final.accuracy).toBe(1);
+        // two circles, head, tick, tail and the spinner
+        expect(final.max_combo).toBe(6);
+        expect(final.combo).toBe(6);
+        expect(final.score_v2).toBeGreaterThanOrEqual(1000000);
+        expect(simulation.judgements.some((judgement) => judgement.kind === "spinner_bonus")).toBe(true);
+        expect(Math.min(...simulation.health.map((point) => point.value))).toBeGreaterThan(0.8);
+    });
+
+    test("judges replay input by timing, position and tracking", () => {
+        // 60ms late on the first circle, outside the second, the slider head is hit but dropped right away
+        const frames = [...press(1060, 100, 100), ...press(1300, 200, 200), ...press(1610, 100, 300)];
+        const simulation = unwrap(simulate_score({ beatmap, frames }));
+        const results = simulation.judgements.map((judgement) => [judgement.kind, judgement.result]);
+
+        expect(results).toContainEqual(["circle", HitResult.Ok]);
+        expect(results).toContainEqual(["circle", HitResult.Miss]);
+        expect(results).toContainEqual(["slider_tick", HitResult.Miss]);
+        expect(results).toContainEqual(["slider", HitResult.Meh]);
+        expect(results).toContainEqual(["spinner", HitResult.Miss]);
+        expect(simulation.judgements[0].offset).toBe(60);
+
+        const final = simulation.final;
+        expect(final.hits).toMatchObject({ count_300: 0, count_100: 1, count_50: 1, count_miss: 2 });
+        expect(final.max_combo).toBe(1);
+        expect(get_score_state_at(simulation, 1500).combo).toBe(0);
+        expect(get_score_state_at(simulation, 1500).health).toBeLessThan(1);
+    });
+});
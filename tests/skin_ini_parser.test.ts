@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { apply_skin_ini, parse_skin_ini } from "../src/skin/skin_ini_parser";
+import { merge_skin } from "../src/skin/skin_config";
+
+const SKIN_INI = `[General]
+Name: test
+
+[Mania]
+Keys: 4
+ColumnWidth: 40,45,45,40
+ColumnSpacing: 2,0,2
+HitPosition: 420
+ColumnStart: 136
+ColumnRight: 400
+NoteBodyStyle: 2
+JudgementLine: 0
+Colour1: 10,20,30
+ColourColumnLine: 255,255,255,128
+KeyImage0: mania\\key-left.png
+NoteImage1H: mania/hold-head
+
+[Mania]
+Keys: 4
+HitPosition: 300
+
+[Mania]
+Keys: 7
+UpsideDown: 1
+`;
+
+describe("parse_skin_ini", () => {
+    test("parses [Mania] blocks by key count", () => {
+        const ini = parse_skin_ini(SKIN_INI);
+        const four_key = ini.mania[4];
+
+        expect(Object.keys(ini.mania)).toEqual(["4", "7"]);
+        expect(four_key.column_width).toEqual([40, 45, 45, 40]);
+        expect(four_key.column_spacing).toEqual([2, 0, 2]);
+        // the first block for a key count wins
+        expect(four_key.hit_position).toBe(420);
+        expect(four_key.judgement_line).toBe(false);
+        expect(four_key.column_start).toBe(136);
+        expect(four_key.note_body_style).toBe(2);
+        // nothing is drawn from ColumnRight, so it is not kept
+        expect(Object.keys(four_key)).not.toContain("column_right");
+        expect(four_key.colours.colour1).toBe("rgb(10, 20, 30)");
+        expect(four_key.colours.colourcolumnline).toBe("rgba(255, 255, 255, 0.50)");
+        expect(four_key.images).toEqual({ keyimage0: "mania/key-left", noteimage1h: "mania/hold-head" });
+        expect(ini.mania[7].upside_down).toBe(true);
+
+        expect(apply_skin_ini(merge_skin(), ini).mania_configs[7].keys).toBe(7);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { process_timing_points } from "../src/beatmap/timing";
+import { SNAP_DIVISORS, SnapResolver, UNSNAPPED, get_snap_colour, get_snap_divisor } from "../src/beatmap/snap";
+import { SampleSet, type ITimingPoint } from "../src/types/beatmap";
+
+const make_timing_point = (time: number, uninherited: number): ITimingPoint => ({
+    time,
+    beatLength: uninherited === 1 ? 500 : -100,
+    meter: 4,
+    sampleSet: SampleSet.Normal,
+    sampleIndex: 1,
+    volume: 100,
+    uninherited,
+    effects: 0
+});
+
+const to_rgb = (hex: string): number[] => [1, 3, 5].map((i) => Number.parseInt(hex.slice(i, i + 2), 16));
+
+const colour_distance = (a: string, b: string): number => {
+    const [ar, ag, ab] = to_rgb(a);
+    const [br, bg, bb] = to_rgb(b);
+    return Math.hypot(ar - br, ag - bg, ab - bb);
+};
+
+describe("beat snap", () => {
+    // 120bpm from 200, the inherited point must not move the grid
+    const points = process_timing_points([make_timing_point(200, 1), make_timing_point(1000, 0)]);
+
+    test("picks the lowest divisor whose grid the object sits on", () => {
+        const times = [1200, 950, 367, 325, 283, 262, 242, 231];
+        expect(times.map((time) => get_snap_divisor(time, points))).toEqual([1, 2, 3, 4, 6, 8, 12, 16]);
+    });
+
+    test("objects off every grid are unsnapped", () => {
+        expect(get_snap_divisor(210, points)).toBe(UNSNAPPED);
+        expect(get_snap_divisor(0, [])).toBe(UNSNAPPED);
+    });
+
+    test("objects before the first timing point use its grid", () => {
+        expect(get_snap_divisor(-50, points)).toBe(2);
+    });
+
+    test("the resolver follows bpm changes and starts over when time goes back", () => {
+        // 1/1 at 200bpm from 2000
+        const resolver = new SnapResolver([...points, { ...make_timing_point(2000, 1), beatLength: 300 }]);
+        expect(resolver.get_divisor(1700)).toBe(1);
+        expect(resolver.get_divisor(2300)).toBe(1);
+        expect(resolver.get_divisor(2150)).toBe(2);
+        expect(resolver.get_divisor(950)).toBe(2);
+        expect(resolver.get_divisor(2000)).toBe(1);
+    });
+});
+
+describe("snap colours", () => {
+    test("unsnapped objects are magenta", () => {
+        expect(get_snap_colour(UNSNAPPED)).toBe("#ff00ff");
+    });
+
+    test("the unsnapped colour cannot be mistaken for any divisor's", () => {
+        for (const divisor of SNAP_DIVISORS) {
+            expect(colour_distance(get_snap_colour(UNSNAPPED), get_snap_colour(divisor))).toBeGreaterThan(120);
+        }
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { get_spinner_state, get_spinner_style } from "../src/renderer/standard/spinner_renderer";
+import { get_autoplay_spin_times } from "../src/scoring/autoplay_frames";
+import { simulate_score } from "../src/scoring/scoring";
+import type { RenderImage } from "../src/renderer/backend/render_backend";
+import type { StandardSkinElements } from "../src/skin/skin_elements";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import { unwrap } from "../src/types/result";
+
+const beatmap = {
+    version: 14,
+    General: { Mode: 0, StackLeniency: 0.7 },
+    Difficulty: { HPDrainRate: 5, CircleSize: 4, OverallDifficulty: 8, ApproachRate: 9, SliderMultiplier: 1.4, SliderTickRate: 1 },
+    TimingPoints: [{ time: 0, beatLength: 300, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }],
+    Events: { background: null, video: null, breaks: [] },
+    HitObjects: [
+        { type: HitObjectType.Circle, time: 1000, x: 100, y: 100, hitSound: 0 },
+        { type: HitObjectType.Spinner, time: 2500, x: 256, y: 192, hitSound: 0, endTime: 4500 }
+    ]
+} as unknown as IBeatmap;
+
+const image = { source: {}, width: 100, height: 100 } as unknown as RenderImage;
+
+describe("get_spinner_state", () => {
+    test("follows autoplay's spins to the clear and bonus", () => {
+        const simulation = unwrap(simulate_score({ beatmap }));
+        const spins = simulation.judgements.filter((judgement) => judgement.kind === "spinner_spin" || judgement.kind === "spinner_bonus");
+        const required = spins.filter((judgement) => judgement.kind === "spinner_spin").length;
+        const times = spins.map((judgement) => judgement.time);
+
+        const early = get_spinner_state(times, 2500, required, 2600);
+        expect(early.clear_time).toBeNull();
+        expect(early.rotation).toBeGreaterThan(0);
+
+        const late = get_spinner_state(times, 2500, required, 4500);
+        expect(late.clear_time).toBe(times[required - 1]);
+        expect(late.bonus).toBe(times.length - required);
+
+        // autoplay is capped at about 477 rpm
+        const spinning = get_spinner_state(times, 2500, required, 3500);
+        expect(spinning.rpm).toBeGreaterThan(440);
+        expect(spinning.rpm).toBeLessThan(500);
+    });
+
+    test("a spinner without judgements turns like autoplay's cursor", () => {
+        const times = get_autoplay_spin_times(2500, 4500);
+        expect(times[0]).toBeGreaterThan(2500);
+        expect(times[times.length - 1]).toBeLessThanOrEqual(4500);
+
+        const state = get_spinner_state(times, 2500, 10, 3500);
+        expect(state.rpm).toBeGreaterThan(440);
+        expect(state.rpm).toBeLessThan(500);
+        expect(get_spinner_state(times, 2500, 10, 4500).clear_time).toBe(times[9]);
+    });
+});
+
+describe("get_spinner_style", () => {
+    test("spinner-background or spinner-circle is the legacy style", () => {
+        expect(get_spinner_style({ spinner_background: image } as StandardSkinElements)).toBe("legacy");
+        expect(get_spinner_style({ spinner_circle: image } as StandardSkinElements)).toBe("legacy");
+    });
+
+    test("spinner-top without spinner-background is the modern style", () => {
+        expect(get_spinner_style({ spinner_top: image, spinner_circle: image } as StandardSkinElements)).toBe("modern");
+        expect(get_spinner_style({ spinner_top: image, spinner_background: image } as StandardSkinElements)).toBe("legacy");
+    });
+
+    test("no spinner sprites fall back to primitives", () => {
+        expect(get_spinner_style(null)).toBeNull();
+        expect(get_spinner_style({} as StandardSkinElements)).toBeNull();
+    });
+});
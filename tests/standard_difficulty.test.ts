@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { calculate_standard_difficulty } from "../src/difficulty/standard/standard_difficulty";
+import { build_standard_objects } from "../src/difficulty/standard/standard_objects";
+import { HitObjectType, type IBeatmap } from "../src/types/beatmap";
+import { Mods } from "../src/types/mods";
+import { unwrap } from "../src/types/result";
+
+const make_beatmap = (hit_objects: Record<string, unknown>[], beat_length: number = 300): IBeatmap =>
+    ({
+        version: 14,
+        General: { Mode: 0, StackLeniency: 0.7 },
+        Difficulty: { HPDrainRate: 5, CircleSize: 4, OverallDifficulty: 8, ApproachRate: 9, SliderMultiplier: 1.4, SliderTickRate: 1 },
+        TimingPoints: [{ time: 0, beatLength: beat_length, meter: 4, sampleSet: 1, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }],
+        HitObjects: hit_objects
+    }) as unknown as IBeatmap;
+
+// back and forth jumps across the playfield, one every half beat
+const make_jumps = (count: number, spacing: number, start: number = 1000): Record<string, unknown>[] =>
+    Array.from({ length: count }, (_, i) => ({
+        type: HitObjectType.Circle,
+        time: start + i * spacing,
+        x: i % 2 === 0 ? 100 : 400,
+        y: 192,
+        hitSound: 0
+    }));
+
+describe("calculate_standard_difficulty", () => {
+    test("rates faster jumps and rate mods higher", () => {
+        const slow = unwrap(calculate_standard_difficulty(make_beatmap(make_jumps(200, 300))));
+        const fast = unwrap(calculate_standard_difficulty(make_beatmap(make_jumps(200, 150))));
+        const fast_dt = unwrap(calculate_standard_difficulty(make_beatmap(make_jumps(200, 150)), Mods.DoubleTime));
+
+        expect(slow.star_rating).toBeGreaterThan(0);
+        expect(fast.star_rating).toBeGreaterThan(slow.star_rating);
+        expect(fast_dt.star_rating).toBeGreaterThan(fast.star_rating);
+        expect(fast.aim_difficulty).toBeGreaterThan(fast.speed_difficulty);
+        expect(fast.hit_circle_count).toBe(200);
+    });
+
+    test("counts slider ticks, repeats and tails towards max combo", () => {
+        const slider = {
+            type: HitObjectType.Slider,
+            time: 1000,
+            x: 100,
+            y: 100,
+            hitSound: 0,
+            curveType: "L",
+            curvePoints: [{ x: 380, y: 100 }],
+            slides: 2,
+            length: 280
+        };
+        const attributes = unwrap(calculate_standard_difficulty(make_beatmap([slider, ...make_jumps(2, 300, 3000)])));
+
+        // 280px at 140px per beat and one tick per beat: head, tick, repeat, tick, tail
+        expect(attributes.max_combo).toBe(5 + 2);
+        expect(attributes.slider_count).toBe(1);
+    });
+
+    test("mirror reflects positions along the chosen axis", () => {
+        const circle = { type: HitObjectType.Circle, time: 800, x: 100, y: 100, hitSound: 0 };
+        const beatmap = () => make_beatmap([circle, ...make_jumps(4, 200)]);
+        const difficulty = { cs: 4, ar: 9, od: 8, hp: 5 };
+        const [plain] = build_standard_objects(beatmap(), 0, difficulty, 1);
+        const [horizontal] = build_standard_objects(beatmap(), Mods.Mirror, difficulty, 1);
+        const [both] = build_standard_objects(beatmap(), Mods.Mirror, difficulty, 1, "both");
+
+        expect(plain.position).toEqual([100, 100]);
+        expect(horizontal.position).toEqual([412, 100]);
+        expect(both.position).toEqual([412, 284]);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { parse_storyboard } from "../src/storyboard/storyboard_parser";
+
+const OSB = `[Variables]
+$bg="sb\\bg.png"
+
+[Events]
+//Storyboard Layer 0 (Background)
+Sprite,Background,Centre,$bg,320,240
+ F,0,1000,2000,0,1,0
+ L,5000,3
+  M,0,0,100,0,0,10,10
+Animation,Foreground,TopLeft,"sb/star.png",0,0,4,50,LoopOnce
+ T,HitSoundClap,0,10000
+  S,0,0,100,1,2
+ P,0,1000,1000,A
+Sample,0,0,"hit.wav",100
+`;
+
+describe("parse_storyboard", () => {
+    test("substitutes variables, chains values and expands loops", () => {
+        const { sprites } = parse_storyboard([OSB]);
+        const [background] = sprites;
+
+        expect(sprites).toHaveLength(2);
+        expect(background.path).toBe("sb/bg.png");
+        expect(background.layer).toBe("Background");
+
+        const fades = background.commands.filter((command) => command.type === "F");
+        expect(fades.map((fade) => [fade.start_time, fade.end_time, fade.start_values[0], fade.end_values[0]])).toEqual([
+            [1000, 2000, 0, 1],
+            [2000, 3000, 1, 0]
+        ]);
+
+        const moves = background.commands.filter((command) => command.type === "M");
+        expect(moves.map((move) => move.start_time)).toEqual([5000, 5100, 5200]);
+    });
+
+    test("keeps trigger groups and parameters on animations", () => {
+        const [, star] = parse_storyboard([OSB]).sprites;
+
+        expect(star.kind).toBe("animation");
+        expect(star.frame_count).toBe(4);
+        expect(star.loop_type).toBe("LoopOnce");
+        expect(star.triggers).toHaveLength(1);
+        expect(star.triggers[0].commands[0].type).toBe("S");
+        expect(star.commands[0].parameter).toBe("A");
+    });
+
+    test("custom origins draw from the top left", () => {
+        const { sprites } = parse_storyboard([
+            "[Events]\nSprite,Background,Custom,a.png,0,0\n F,0,0,100,1\nSprite,Background,6,b.png,0,0\n F,0,0,100,1\n"
+        ]);
+        expect(sprites.map((sprite) => sprite.origin)).toEqual(["TopLeft", "TopLeft"]);
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { parse_storyboard } from "../src/storyboard/storyboard_parser";
+import { StoryboardRenderer } from "../src/storyboard/storyboard_renderer";
+import type { IRenderBackend, RenderImage } from "../src/renderer/backend/render_backend";
+
+type Call = { name: string; args: unknown[] };
+
+const create_recording_backend = (calls: Call[]): IRenderBackend =>
+    new Proxy({ width: 640, height: 480 } as Record<string | symbol, unknown>, {
+        get: (target, key) => (key in target ? target[key] : (...args: unknown[]) => calls.push({ name: String(key), args }))
+    }) as unknown as IRenderBackend;
+
+const image = (name: string): RenderImage => ({ source: { name }, width: 10, height: 10 }) as unknown as RenderImage;
+
+// a long sprite that starts first, a short one inside it, and one that fades out early
+const OSB = `[Events]
+Sprite,Background,TopLeft,"long.png",0,0
+ F,0,0,10000,1
+Sprite,Background,TopLeft,"short.png",0,0
+ F,0,1000,2000,1
+Sprite,Background,TopLeft,"hidden.png",0,0
+ F,0,500,3000,0
+Sprite,Background,TopLeft,"missing.png",0,0
+ F,0,0,10000,1
+`;
+
+const images = new Map(["long.png", "short.png", "hidden.png"].map((name) => [name, image(name)]));
+
+const get_drawn = (renderer: StoryboardRenderer, time: number): string[] => {
+    const calls: Call[] = [];
+    renderer.render_behind(create_recording_backend(calls), time, 1);
+    return calls.filter((call) => call.name === "draw_image").map((call) => ((call.args[0] as RenderImage).source as { name: string }).name);
+};
+
+describe("storyboard renderer", () => {
+    const renderer = new StoryboardRenderer(parse_storyboard([OSB]), images);
+
+    test("draws only sprites whose lifetime covers the time", () => {
+        expect(get_drawn(renderer, 500)).toEqual(["long.png"]);
+        expect(get_drawn(renderer, 5000)).toEqual(["long.png"]);
+        expect(get_drawn(renderer, 20000)).toEqual([]);
+    });
+
+    test("keeps the file order for sprites alive together", () => {
+        expect(get_drawn(renderer, 1500)).toEqual(["long.png", "short.png"]);
+    });
+
+    test("skips invisible sprites and sprites without an image", () => {
+        expect(get_drawn(renderer, 2500)).not.toContain("hidden.png");
+        expect(get_drawn(renderer, 2500)).not.toContain("missing.png");
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { convert_taiko_objects, find_visible_start, get_running_end_times, type TaikoHitObject } from "../src/renderer/taiko/taiko_objects";
+import { TimingStateResolver } from "../src/renderer/standard/timing_state";
+import { GameMode, HitObjectType, HitSoundType, SampleSet, type IBeatmap } from "../src/types/beatmap";
+import type { RenderHitObject } from "../src/renderer/render_types";
+
+const make_note = (time: number, end_time: number): TaikoHitObject => ({
+    kind: end_time > time ? "drumroll" : "hit",
+    time,
+    end_time,
+    is_kat: false,
+    is_strong: false,
+    velocity: 1,
+    tick_spacing: 0,
+    required_hits: 0
+});
+
+describe("taiko visible window", () => {
+    test("keeps a long drumroll that started before ended notes", () => {
+        const notes = [make_note(0, 5000), make_note(1000, 1000), make_note(2000, 2000), make_note(6000, 6000)];
+        const running = get_running_end_times(notes);
+
+        expect(running).toEqual([5000, 5000, 5000, 6000]);
+        // the hit at 1000 has ended, but the drumroll from 0 is still on screen
+        expect(find_visible_start(running, 2500)).toBe(0);
+        expect(find_visible_start(running, 5500)).toBe(3);
+    });
+});
+
+describe("convert_taiko_objects", () => {
+    const beatmap = {
+        version: 14,
+        General: { Mode: GameMode.Taiko },
+        Difficulty: { SliderMultiplier: 1.4, SliderTickRate: 1, OverallDifficulty: 5 }
+    } as unknown as IBeatmap;
+    const resolver = new TimingStateResolver([
+        { time: 0, beatLength: 500, meter: 4, sampleSet: SampleSet.Normal, sampleIndex: 0, volume: 100, uninherited: 1, effects: 0 }
+    ]);
+
+    const make_object = (time: number, type: number, hit_sound: number, end_time = time): RenderHitObject =>
+        ({ time, end_time, type, hitSound: hit_sound, data: { pos: [0, 0] } }) as unknown as RenderHitObject;
+
+    test("maps hit sounds to don/kat and spinners to swells", () => {
+        const notes = convert_taiko_objects(
+            beatmap,
+            [
+                make_object(0, HitObjectType.Circle, 0),
+                make_object(500, HitObjectType.Circle, HitSoundType.Clap | HitSoundType.Finish),
+                make_object(1000, HitObjectType.Spinner, 0, 3000)
+            ],
+            resolver,
+            1
+        );
+
+        expect(notes.map((note) => [note.kind, note.is_kat, note.is_strong])).toEqual([
+            ["hit", false, false],
+            ["hit", true, true],
+            ["swell", false, false]
+        ]);
+        // od 5 needs 5 hits a second, scaled by 1.65
+        expect(notes[2].required_hits).toBe(Math.floor(2 * 5 * 1.65));
+        expect(notes[0].velocity).toBeCloseTo((100 * 1.4 * 1.4) / 500);
+    });
+});